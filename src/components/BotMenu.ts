@@ -0,0 +1,187 @@
+import { Markup } from 'telegraf';
+import { UserState } from '../types/User';
+import { Locale } from '../types/Locale';
+import { PrayerCategory } from '../types/PrayerRequest';
+import { MessageKey, translate, translations } from '../i18n';
+
+export type MenuRole = 'user' | 'counselor' | 'admin' | 'suspended';
+
+// Reply-keyboard labels (as message keys) and layouts shared by all bot modules
+export class BotMenu {
+    static readonly START_COUNSELING: MessageKey = 'menu.start_counseling';
+    static readonly SUBMIT_PRAYER: MessageKey = 'menu.submit_prayer';
+    static readonly MY_PRAYERS: MessageKey = 'menu.my_prayers';
+    static readonly HISTORY: MessageKey = 'menu.history';
+    static readonly HELP: MessageKey = 'menu.help';
+    static readonly END_SESSION: MessageKey = 'menu.end_session';
+    static readonly REPORT: MessageKey = 'menu.report';
+    static readonly MAIN: MessageKey = 'menu.main';
+    static readonly REGISTER_COUNSELOR: MessageKey = 'menu.register_counselor';
+    static readonly STATUS_AVAILABLE: MessageKey = 'menu.status_available';
+    static readonly STATUS_AWAY: MessageKey = 'menu.status_away';
+    static readonly MY_STATS: MessageKey = 'menu.my_stats';
+    static readonly PRAYER_REQUESTS: MessageKey = 'menu.prayer_requests';
+    static readonly CLOSE_PRAYER: MessageKey = 'menu.close_prayer';
+    static readonly TRANSFER_SESSION: MessageKey = 'menu.transfer_session';
+    static readonly SWITCH_CONVERSATION: MessageKey = 'menu.switch_conversation';
+    static readonly ADMIN_STATS: MessageKey = 'menu.admin_stats';
+    static readonly PENDING_REPORTS: MessageKey = 'menu.pending_reports';
+    static readonly PROCESS_REPORT: MessageKey = 'menu.process_report';
+    static readonly COUNSELOR_LIST: MessageKey = 'menu.counselor_list';
+    static readonly APPEAL: MessageKey = 'menu.appeal';
+    static readonly APPEALS: MessageKey = 'menu.appeals';
+    static readonly APPROVE_COUNSELOR: MessageKey = 'menu.approve_counselor';
+    static readonly REMOVE_COUNSELOR: MessageKey = 'menu.remove_counselor';
+    static readonly AUDIT_LOG: MessageKey = 'menu.audit_log';
+    static readonly BROADCAST: MessageKey = 'menu.broadcast';
+    static readonly LANGUAGE: MessageKey = 'menu.language';
+    static readonly COUNSELOR_LANGUAGES = ['English', 'Amharic', 'Afaan Oromo', 'Tigrinya', 'Other'];
+    static readonly PRAYER_CATEGORIES: Record<PrayerCategory, MessageKey> = {
+        health: 'prayer.category_health',
+        family: 'prayer.category_family',
+        work: 'prayer.category_work',
+        spiritual: 'prayer.category_spiritual',
+        other: 'prayer.category_other'
+    };
+    static readonly COUNSELOR_DOMAINS = [
+        'Mental Health Support',
+        'Anxiety',
+        'Depression',
+        'Relationship Counseling',
+        'Marriage Counseling',
+        'Spiritual Guidance',
+        'Grief / Loss',
+        'Addiction Recovery',
+        'Youth Counseling',
+        'Other'
+    ];
+
+    private static readonly LABELS: MessageKey[] = [
+        BotMenu.START_COUNSELING,
+        BotMenu.SUBMIT_PRAYER,
+        BotMenu.MY_PRAYERS,
+        BotMenu.HISTORY,
+        BotMenu.HELP,
+        BotMenu.END_SESSION,
+        BotMenu.REPORT,
+        BotMenu.MAIN,
+        BotMenu.REGISTER_COUNSELOR,
+        BotMenu.STATUS_AVAILABLE,
+        BotMenu.STATUS_AWAY,
+        BotMenu.MY_STATS,
+        BotMenu.PRAYER_REQUESTS,
+        BotMenu.CLOSE_PRAYER,
+        BotMenu.TRANSFER_SESSION,
+        BotMenu.SWITCH_CONVERSATION,
+        BotMenu.ADMIN_STATS,
+        BotMenu.PENDING_REPORTS,
+        BotMenu.PROCESS_REPORT,
+        BotMenu.COUNSELOR_LIST,
+        BotMenu.APPEAL,
+        BotMenu.APPEALS,
+        BotMenu.APPROVE_COUNSELOR,
+        BotMenu.REMOVE_COUNSELOR,
+        BotMenu.AUDIT_LOG,
+        BotMenu.BROADCAST,
+        BotMenu.LANGUAGE
+    ];
+
+    private static menuTexts: Set<string> | null = null;
+
+    static build(state: UserState, role: MenuRole, locale: Locale) {
+        const baseRows = state === 'IN_SESSION'
+            ? BotMenu.getSessionMenuRows()
+            : state === 'REPORTING' || state === 'POST_SESSION'
+                ? BotMenu.getPostSessionMenuRows()
+                : BotMenu.getMainMenuRows(role);
+
+        const roleRows = BotMenu.getRoleMenuRows(role);
+
+        return Markup.keyboard(
+            [...baseRows, ...roleRows].map(row => row.map(key => translate(locale, key)))
+        ).resize().persistent();
+    }
+
+    private static getMainMenuRows(role: MenuRole): MessageKey[][] {
+        const rows: MessageKey[][] = [];
+
+        if (role === 'user') {
+            rows.push([BotMenu.START_COUNSELING]);
+        }
+
+        rows.push([BotMenu.SUBMIT_PRAYER, BotMenu.MY_PRAYERS]);
+        rows.push([BotMenu.HISTORY, BotMenu.HELP]);
+        rows.push([BotMenu.LANGUAGE, BotMenu.MAIN]);
+
+        return rows;
+    }
+
+    private static getSessionMenuRows(): MessageKey[][] {
+        return [
+            [BotMenu.END_SESSION],
+            [BotMenu.MAIN]
+        ];
+    }
+
+    private static getPostSessionMenuRows(): MessageKey[][] {
+        return [
+            [BotMenu.REPORT],
+            [BotMenu.MAIN]
+        ];
+    }
+
+    private static getRoleMenuRows(role: MenuRole): MessageKey[][] {
+        const counselorRows = [
+            [BotMenu.REGISTER_COUNSELOR],
+            [BotMenu.STATUS_AVAILABLE, BotMenu.STATUS_AWAY],
+            [BotMenu.MY_STATS],
+            [BotMenu.PRAYER_REQUESTS],
+            [BotMenu.CLOSE_PRAYER],
+            [BotMenu.TRANSFER_SESSION],
+            [BotMenu.SWITCH_CONVERSATION]
+        ];
+
+        const adminRows = [
+            [BotMenu.ADMIN_STATS],
+            [BotMenu.PENDING_REPORTS],
+            [BotMenu.COUNSELOR_LIST],
+            [BotMenu.APPEALS],
+            [BotMenu.APPROVE_COUNSELOR],
+            [BotMenu.REMOVE_COUNSELOR],
+            [BotMenu.AUDIT_LOG],
+            [BotMenu.BROADCAST]
+        ];
+
+        const suspendedRows = [
+            [BotMenu.APPEAL]
+        ];
+
+        if (role === 'admin') {
+            return adminRows;
+        }
+
+        if (role === 'counselor') {
+            return counselorRows;
+        }
+
+        if (role === 'suspended') {
+            return suspendedRows;
+        }
+
+        return [[BotMenu.REGISTER_COUNSELOR]];
+    }
+
+    /**
+     * Every language's rendering of a menu label, for locale-aware `hears` matching
+     */
+    static labels(key: MessageKey): string[] {
+        return translations(key);
+    }
+
+    static isMenuText(text: string): boolean {
+        if (!BotMenu.menuTexts) {
+            BotMenu.menuTexts = new Set(BotMenu.LABELS.flatMap(key => translations(key)));
+        }
+        return BotMenu.menuTexts.has(text);
+    }
+}
@@ -0,0 +1,299 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotServices } from './BotServices';
+import { BotMenu, MenuRole } from './BotMenu';
+import { ConversationStateMap } from '../state';
+import { Session } from '../types/Session';
+import { UserState } from '../types/User';
+import { AdminPermission } from '../types/Admin';
+import { PendingActionType } from '../types/PendingAction';
+import { Locale } from '../types/Locale';
+import { DEFAULT_LOCALE, MessageKey, TranslationParams, translate, translateError } from '../i18n';
+import { PENDING_ACTION_CONFIRM_PREFIX, PENDING_ACTION_LABELS, PENDING_ACTION_REJECT_PREFIX } from '../managers/PendingActionManager';
+
+/**
+ * Base class for a bot feature module.
+ * A module registers its own commands, menu buttons and callback actions, owns its conversation state,
+ * and can claim free-text messages through handleText. Helpers shared across features live here.
+ */
+export abstract class BotModule {
+    protected static readonly PAGE_SIZE = 10;
+
+    protected services: BotServices;
+
+    constructor(services: BotServices) {
+        this.services = services;
+    }
+
+    /**
+     * Register commands, menu buttons and callback actions
+     */
+    abstract register(bot: Telegraf<Context>): void;
+
+    /**
+     * Handle a free-text message that is not a command or menu button.
+     * Returns true when the module consumed the message.
+     */
+    async handleText(ctx: Context, text: string, state: UserState): Promise<boolean> {
+        return false;
+    }
+
+    /**
+     * Start background work once the bot is running
+     */
+    start(): void {
+        // no background work by default
+    }
+
+    /**
+     * Stop background work during shutdown; shutdown waits for a returned promise before closing the database
+     */
+    stop(): void | Promise<void> {
+        // no background work by default
+    }
+
+    protected createStateMap<V>(namespace: string, ttlMs?: number): ConversationStateMap<V> {
+        const defaultTtlMs = this.services.config.conversationStateTtlMinutes * 60 * 1000;
+        return new ConversationStateMap<V>(this.services.stateStore, namespace, ttlMs ?? defaultTtlMs);
+    }
+
+    /**
+     * Locale of the current update, set by the locale middleware in BotHandler
+     */
+    protected getLocale(ctx: Context): Locale {
+        return ctx.state.locale ?? DEFAULT_LOCALE;
+    }
+
+    protected t(ctx: Context, key: MessageKey, params?: TranslationParams): string {
+        return translate(this.getLocale(ctx), key, params);
+    }
+
+    /**
+     * Locale of a chat other than the current one, for messages the bot sends on its own
+     */
+    protected async getChatLocale(chatId: number): Promise<Locale> {
+        return (await this.services.userManager.getLanguageByTelegramId(chatId)) ?? DEFAULT_LOCALE;
+    }
+
+    protected async tForChat(chatId: number, key: MessageKey, params?: TranslationParams): Promise<string> {
+        return translate(await this.getChatLocale(chatId), key, params);
+    }
+
+    protected describeError(ctx: Context, error: unknown, fallbackKey: MessageKey): string {
+        const message = (error as Error).message;
+        return message ? translateError(this.getLocale(ctx), message) : this.t(ctx, fallbackKey);
+    }
+
+    protected async resetToMainMenu(ctx: Context, message?: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const activeSession = await this.services.sessionManager.getActiveSessionForUser(userId);
+
+        if (activeSession) {
+            await this.services.userManager.updateUserState(userId, 'IN_SESSION');
+            await this.replyWithMenu(ctx, 'IN_SESSION', this.t(ctx, 'menu.active_session_notice'));
+            return;
+        }
+
+        await this.services.userManager.updateUserState(userId, 'IDLE');
+        await this.replyWithMenu(ctx, 'IDLE', message ?? this.t(ctx, 'menu.main_prompt'));
+    }
+
+    protected getPagination<T>(items: T[], page: number, pageSize: number): {
+        pageItems: T[];
+        safePage: number;
+        totalPages: number;
+    } {
+        const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+        const safePage = Math.min(Math.max(page, 1), totalPages);
+        const start = (safePage - 1) * pageSize;
+        return {
+            pageItems: items.slice(start, start + pageSize),
+            safePage,
+            totalPages
+        };
+    }
+
+    protected buildPageCallback(prefix: string, page: number, token?: string): string {
+        return token ? `${prefix}:${page}:${token}` : `${prefix}:${page}`;
+    }
+
+    protected async sendPaginationControls(
+        ctx: Context,
+        prefix: string,
+        page: number,
+        totalPages: number,
+        token?: string
+    ): Promise<void> {
+        if (totalPages <= 1) {
+            return;
+        }
+
+        const buttons = [] as ReturnType<typeof Markup.button.callback>[];
+        if (page > 1) {
+            buttons.push(
+                Markup.button.callback(
+                    this.t(ctx, 'common.previous'),
+                    this.buildPageCallback(prefix, page - 1, token)
+                )
+            );
+        }
+
+        if (page < totalPages) {
+            buttons.push(
+                Markup.button.callback(
+                    this.t(ctx, 'common.next'),
+                    this.buildPageCallback(prefix, page + 1, token)
+                )
+            );
+        }
+
+        if (buttons.length > 0) {
+            await ctx.reply(this.t(ctx, 'common.page', { page, totalPages }), Markup.inlineKeyboard(buttons));
+        }
+    }
+
+    protected formatTimestamp(timestamp: Date | string): string {
+        const date = timestamp instanceof Date ? timestamp : new Date(timestamp);
+        return date.toISOString().replace('T', ' ').replace('Z', ' UTC');
+    }
+
+    protected trimText(text: string, maxLength: number): string {
+        if (text.length <= maxLength) {
+            return text;
+        }
+
+        return `${text.slice(0, maxLength - 1)}…`;
+    }
+
+    protected async resolveRequester(chatId: number): Promise<{ requesterId: string; requesterType: 'user' | 'counselor' }> {
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: chatId });
+        if (counselor && counselor.isApproved && !counselor.isSuspended) {
+            return { requesterId: counselor.id, requesterType: 'counselor' };
+        }
+
+        const userId = await this.services.userManager.registerUser(chatId);
+        return { requesterId: userId, requesterType: 'user' };
+    }
+
+    protected async resolveChatId(recipientId: string, recipientType: 'user' | 'counselor'): Promise<number | null> {
+        if (recipientType === 'user') {
+            const user = await this.services.collections.users.findOne({ uuid: recipientId });
+            return user?.telegramChatId ?? null;
+        }
+
+        const counselor = await this.services.collections.counselors.findOne({ id: recipientId });
+        return counselor?.telegramChatId ?? null;
+    }
+
+    /**
+     * Anonymous name users see for a counselor, e.g. "Counselor Miriam-7"
+     */
+    protected async getCounselorDisplayName(locale: Locale, counselorId: string): Promise<string> {
+        const profile = await this.services.counselorManager.getPublicProfile(counselorId);
+        return profile
+            ? translate(locale, 'common.counselor_alias', { alias: profile.alias })
+            : translate(locale, 'common.counselor');
+    }
+
+    /**
+     * Consent text shown before any session starts, including the no-log alternative
+     */
+    protected getConsentDisclosure(ctx: Context): string {
+        return `${this.t(ctx, 'matching.consent_disclosure')}\n\n${this.t(ctx, 'matching.consent_no_log_option')}`;
+    }
+
+    protected getSessionCounselorId(session: Session): string {
+        return session.currentCounselorId ?? session.counselorId;
+    }
+
+    protected extractCommandText(text: string | undefined, command: string): string {
+        if (!text) return '';
+        const trimmed = text.replace(`/${command}`, '').trim();
+        return trimmed;
+    }
+
+    protected async getMenuRole(chatId: number): Promise<MenuRole> {
+        if (await this.isAdmin(chatId)) {
+            return 'admin';
+        }
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: chatId });
+        if (counselor) {
+            if (counselor.isApproved && !counselor.isSuspended) {
+                return 'counselor';
+            }
+
+            if (counselor.isSuspended) {
+                return 'suspended';
+            }
+        }
+
+        return 'user';
+    }
+
+    protected async replyWithMenu(ctx: Context, state: UserState, message: string): Promise<void> {
+        if (!ctx.chat) return;
+        const role = await this.getMenuRole(ctx.chat.id);
+        await ctx.reply(message, BotMenu.build(state, role, this.getLocale(ctx)));
+    }
+
+    protected async sendMenuToChatId(chatId: number, state: UserState, message: string): Promise<void> {
+        const role = await this.getMenuRole(chatId);
+        const locale = await this.getChatLocale(chatId);
+        await this.services.bot.telegram.sendMessage(chatId, message, BotMenu.build(state, role, locale));
+    }
+
+    protected async isAdmin(chatId: number): Promise<boolean> {
+        return this.services.adminManager.isAdmin(chatId);
+    }
+
+    protected async hasPermission(chatId: number, permission: AdminPermission): Promise<boolean> {
+        return this.services.adminManager.hasPermission(chatId, permission);
+    }
+
+    /**
+     * Hold a destructive action until a second admin confirms it; callers check that two-admin approval is on first
+     */
+    protected async requestSecondApproval(ctx: Context, type: PendingActionType, targetId?: string): Promise<void> {
+        if (!ctx.chat) return;
+        const adminId = ctx.chat.id.toString();
+        const { action, created } = await this.services.pendingActionManager.requestAction(type, adminId, targetId);
+        const description = this.t(ctx, PENDING_ACTION_LABELS[type], { targetId: targetId ?? '' });
+
+        if (!created) {
+            await ctx.reply(
+                this.t(ctx, 'admin.approval_already_pending', { action: description, adminId: action.requestedByAdminId }),
+                Markup.inlineKeyboard([
+                    Markup.button.callback(this.t(ctx, 'admin.approval_confirm_button'), `${PENDING_ACTION_CONFIRM_PREFIX}:${action.actionId}`),
+                    Markup.button.callback(this.t(ctx, 'admin.approval_reject_button'), `${PENDING_ACTION_REJECT_PREFIX}:${action.actionId}`)
+                ])
+            );
+            return;
+        }
+
+        await this.services.auditLogManager.recordAdminAction(adminId, 'request_approval', targetId, {
+            type,
+            pendingActionId: action.actionId
+        });
+        await ctx.reply(this.t(ctx, 'admin.approval_requested', {
+            action: description,
+            minutes: this.services.pendingActionManager.getWindowMinutes()
+        }));
+    }
+
+    protected toggleSelection(values: string[], value: string): void {
+        const index = values.indexOf(value);
+        if (index >= 0) {
+            values.splice(index, 1);
+            return;
+        }
+        values.push(value);
+    }
+
+    protected addUniqueSelection(values: string[], value: string): void {
+        if (!values.includes(value)) {
+            values.push(value);
+        }
+    }
+}
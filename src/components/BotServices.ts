@@ -0,0 +1,51 @@
+import { Telegraf, Context } from 'telegraf';
+import { AppConfig } from '../config/Config';
+import { Collections } from '../database/Collections';
+import {
+    UserManager,
+    CounselorManager,
+    SessionManager,
+    ReportingSystem,
+    StatisticsManager,
+    CleanupManager,
+    AuditLogManager,
+    BroadcastManager,
+    QueueManager,
+    FollowUpManager,
+    CrisisDetector,
+    EncryptionManager,
+    PrivacyManager,
+    PrayerWallManager,
+    AppealManager,
+    AdminManager,
+    PendingActionManager
+} from '../managers';
+import { ConversationStateStore } from '../state';
+
+/**
+ * Shared dependencies handed to every bot module.
+ * Built once by BotHandler after the database connection is ready, so modules never see partially initialized managers.
+ */
+export interface BotServices {
+    config: AppConfig;
+    bot: Telegraf<Context>;
+    collections: Collections;
+    stateStore: ConversationStateStore;
+    userManager: UserManager;
+    counselorManager: CounselorManager;
+    sessionManager: SessionManager;
+    reportingSystem: ReportingSystem;
+    statisticsManager: StatisticsManager;
+    cleanupManager: CleanupManager;
+    auditLogManager: AuditLogManager;
+    broadcastManager: BroadcastManager;
+    queueManager: QueueManager;
+    followUpManager: FollowUpManager;
+    crisisDetector: CrisisDetector;
+    encryptionManager: EncryptionManager | null; // null when message encryption is not configured
+    privacyManager: PrivacyManager;
+    prayerWallManager: PrayerWallManager;
+    appealManager: AppealManager;
+    adminManager: AdminManager;
+    pendingActionManager: PendingActionManager;
+}
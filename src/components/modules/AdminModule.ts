@@ -0,0 +1,931 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { AppealModule } from './AppealModule';
+import { AuditLog } from '../../types/AuditLog';
+import { CounselorProfileUpdate } from '../../types/Counselor';
+import { Locale } from '../../types/Locale';
+import { PendingAction } from '../../types/PendingAction';
+import { translate } from '../../i18n';
+import {
+    PENDING_ACTION_CONFIRM_PREFIX,
+    PENDING_ACTION_LABELS,
+    PENDING_ACTION_PERMISSIONS,
+    PENDING_ACTION_REJECT_PREFIX
+} from '../../managers/PendingActionManager';
+import { logger } from '../../utils/logger';
+
+// Admin tools: statistics, counselor approval and removal, profile reviews, the audit log and two-admin approvals
+export class AdminModule extends BotModule {
+    private static readonly REMOVE_COUNSELOR_ACTION_PREFIX = 'remove_counselor';
+    static readonly APPROVE_COUNSELOR_ACTION_PREFIX = 'approve_counselor';
+    private static readonly REVOKE_SUSPENSION_ACTION_PREFIX = 'rs';
+    private static readonly REAPPROVE_ACTION_PREFIX = 'ap';
+    private static readonly PAGINATE_COUNSELORS_ACTION_PREFIX = 'pgc';
+    private static readonly PAGINATE_APPROVALS_ACTION_PREFIX = 'pgap';
+    private static readonly PAGINATE_REMOVALS_ACTION_PREFIX = 'pgrm';
+    private static readonly PAGINATE_AUDIT_ACTION_PREFIX = 'pgal';
+    private static readonly APPROVE_PROFILE_ACTION_PREFIX = 'pfa';
+    private static readonly REJECT_PROFILE_ACTION_PREFIX = 'pfr';
+    private static readonly RUN_CLEANUP_ACTION = 'cleanup_run';
+
+    private appealModule: AppealModule;
+
+    constructor(services: BotServices, appealModule: AppealModule) {
+        super(services);
+        this.appealModule = appealModule;
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.ADMIN_STATS), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleAdminStats(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.COUNSELOR_LIST), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleCounselorList(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.APPROVE_COUNSELOR), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleApproveCounselor(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.REMOVE_COUNSELOR), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleRemoveCounselor(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.AUDIT_LOG), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleAuditLog(ctx);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.REMOVE_COUNSELOR_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = (ctx.match as RegExpMatchArray)[1];
+            await this.handleRemoveCounselor(ctx, counselorId);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.APPROVE_COUNSELOR_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = (ctx.match as RegExpMatchArray)[1];
+            await this.handleApproveCounselor(ctx, counselorId);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.REVOKE_SUSPENSION_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = (ctx.match as RegExpMatchArray)[1];
+            await this.handleRevokeSuspension(ctx, counselorId);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.REAPPROVE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = (ctx.match as RegExpMatchArray)[1];
+            await this.handleReapproveCounselor(ctx, counselorId);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.PAGINATE_COUNSELORS_ACTION_PREFIX}:(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const page = parseInt((ctx.match as RegExpMatchArray)[1], 10);
+            await ctx.answerCbQuery();
+            await this.handleCounselorList(ctx, page);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.PAGINATE_APPROVALS_ACTION_PREFIX}:(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const page = parseInt((ctx.match as RegExpMatchArray)[1], 10);
+            await ctx.answerCbQuery();
+            await this.handleApproveCounselor(ctx, undefined, page);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.PAGINATE_REMOVALS_ACTION_PREFIX}:(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const page = parseInt((ctx.match as RegExpMatchArray)[1], 10);
+            await ctx.answerCbQuery();
+            await this.handleRemoveCounselor(ctx, undefined, page);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.PAGINATE_AUDIT_ACTION_PREFIX}:(\\d+)(?::(\\d+))?$`), async ctx => {
+            if (!ctx.chat) return;
+            const match = ctx.match as RegExpMatchArray;
+            const page = parseInt(match[1], 10);
+            const limitArg = match[2];
+            await ctx.answerCbQuery();
+            await this.handleAuditLog(ctx, limitArg, page);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.APPROVE_PROFILE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleProfileDecision(ctx, counselorId, true);
+        });
+
+        bot.action(new RegExp(`^${AdminModule.REJECT_PROFILE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleProfileDecision(ctx, counselorId, false);
+        });
+
+        bot.action(AdminModule.RUN_CLEANUP_ACTION, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleRunCleanup(ctx);
+        });
+
+        bot.action(new RegExp(`^${PENDING_ACTION_CONFIRM_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePendingActionDecision(ctx, (ctx.match as RegExpMatchArray)[1], true);
+        });
+
+        bot.action(new RegExp(`^${PENDING_ACTION_REJECT_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePendingActionDecision(ctx, (ctx.match as RegExpMatchArray)[1], false);
+        });
+
+        bot.command('pending_actions', async ctx => {
+            if (!ctx.chat) return;
+            await this.handlePendingActions(ctx);
+        });
+
+        bot.command('profile_reviews', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleProfileReviews(ctx);
+        });
+
+        bot.command('admin_stats', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleAdminStats(ctx);
+        });
+
+        bot.command('approve_counselor', async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = this.extractCommandText(ctx.message?.text, 'approve_counselor');
+            await this.handleApproveCounselor(ctx, counselorId);
+        });
+
+        bot.command('remove_counselor', async ctx => {
+            if (!ctx.chat) return;
+            const counselorId = this.extractCommandText(ctx.message?.text, 'remove_counselor');
+            await this.handleRemoveCounselor(ctx, counselorId);
+        });
+
+        bot.command('audit_log', async ctx => {
+            if (!ctx.chat) return;
+            const limitArg = this.extractCommandText(ctx.message?.text, 'audit_log');
+            await this.handleAuditLog(ctx, limitArg);
+        });
+
+        bot.command('cleanup_preview', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleCleanupPreview(ctx);
+        });
+
+        bot.command('rotate_message_keys', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleRotateMessageKeys(ctx);
+        });
+    }
+
+    /**
+     * Describe a counselor's requested alias/bio change for review
+     */
+    static formatProfileReview(locale: Locale, counselorId: string, currentAlias: string | undefined, update: CounselorProfileUpdate): string {
+        const unchanged = translate(locale, 'admin.profile_unchanged');
+        return translate(locale, 'admin.profile_review', {
+            counselorId,
+            currentAlias: currentAlias ?? translate(locale, 'common.not_available'),
+            alias: update.alias ?? unchanged,
+            bio: update.bio ?? unchanged
+        });
+    }
+
+    static buildProfileReviewKeyboard(locale: Locale, counselorId: string) {
+        return Markup.inlineKeyboard([
+            Markup.button.callback(translate(locale, 'admin.profile_approve_button'), `${AdminModule.APPROVE_PROFILE_ACTION_PREFIX}:${counselorId}`),
+            Markup.button.callback(translate(locale, 'admin.profile_reject_button'), `${AdminModule.REJECT_PROFILE_ACTION_PREFIX}:${counselorId}`)
+        ]);
+    }
+
+    private async handleProfileReviews(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'review_content'))) {
+            logger.warn('Unauthorized profile_reviews access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.profile_review_not_authorized'));
+            return;
+        }
+
+        const pending = await this.services.counselorManager.getPendingProfileUpdates();
+        if (pending.length === 0) {
+            await ctx.reply(this.t(ctx, 'admin.no_profile_reviews'));
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, 'admin.profile_reviews_header', { count: pending.length }));
+        const locale = this.getLocale(ctx);
+        for (const counselor of pending) {
+            if (!counselor.pendingProfileUpdate) continue;
+            await ctx.reply(
+                AdminModule.formatProfileReview(locale, counselor.id, counselor.alias, counselor.pendingProfileUpdate),
+                AdminModule.buildProfileReviewKeyboard(locale, counselor.id)
+            );
+        }
+    }
+
+    private async handleProfileDecision(ctx: Context, counselorId: string, approve: boolean): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'review_content'))) {
+            logger.warn('Unauthorized profile review', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.profile_review_not_authorized'));
+            return;
+        }
+
+        const adminId = ctx.chat.id.toString();
+        try {
+            if (approve) {
+                const applied = await this.services.counselorManager.approveProfileUpdate(adminId, counselorId);
+                const details: Record<string, unknown> = {};
+                if (applied.alias) details.alias = applied.alias;
+                if (applied.bio) details.bio = applied.bio;
+                await this.services.auditLogManager.recordAdminAction(adminId, 'approve_profile_change', counselorId, details);
+            } else {
+                await this.services.counselorManager.rejectProfileUpdate(adminId, counselorId);
+                await this.services.auditLogManager.recordAdminAction(adminId, 'reject_profile_change', counselorId);
+            }
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'common.generic_error'));
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, approve ? 'admin.profile_update_approved' : 'admin.profile_update_rejected', { counselorId }));
+
+        const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+        if (counselor?.telegramChatId) {
+            try {
+                const locale = await this.getChatLocale(counselor.telegramChatId);
+                await this.services.bot.telegram.sendMessage(
+                    counselor.telegramChatId,
+                    approve
+                        ? translate(locale, 'counselor.profile_update_approved', { alias: counselor.alias ?? '' })
+                        : translate(locale, 'counselor.profile_update_rejected')
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify counselor about profile review', { counselorId, message: err.message });
+            }
+        }
+    }
+
+    private async handleAdminStats(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'view_stats'))) {
+            logger.warn('Unauthorized admin_stats access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.stats_not_authorized'));
+            return;
+        }
+
+        const stats = await this.services.statisticsManager.getAdminStats();
+        const queueLength = await this.services.queueManager.getQueueLength();
+        await ctx.reply(this.t(ctx, 'admin.stats', {
+            completed: stats.totalSessionsCompleted,
+            active: stats.activeSessions,
+            averageDuration: stats.averageSessionDuration,
+            prayers: stats.totalPrayerRequests,
+            queueLength,
+            peakHours: stats.peakUsageHours.join(', ') || this.t(ctx, 'common.not_available')
+        }));
+    }
+
+    private async handleCleanupPreview(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'manage_system'))) {
+            logger.warn('Unauthorized cleanup_preview access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.cleanup_not_authorized'));
+            return;
+        }
+
+        const preview = await this.services.cleanupManager.applyRetentionPolicy(true);
+        await ctx.reply(this.t(ctx, 'admin.cleanup_preview', {
+            sessions: preview.sessionsDeleted,
+            messages: preview.messagesDeleted,
+            prayers: preview.closedPrayersDeleted,
+            reports: preview.processedReportsDeleted,
+            auditLogs: preview.auditLogsDeleted,
+            broadcastLogs: preview.broadcastLogsDeleted
+        }), Markup.inlineKeyboard([
+            Markup.button.callback(this.t(ctx, 'admin.cleanup_run_button'), AdminModule.RUN_CLEANUP_ACTION)
+        ]));
+    }
+
+    /**
+     * Apply the retention policy now instead of waiting for the next scheduled run
+     */
+    private async handleRunCleanup(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'manage_system'))) {
+            logger.warn('Unauthorized cleanup run access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.cleanup_not_authorized'));
+            return;
+        }
+
+        if (this.services.pendingActionManager.isEnabled()) {
+            await this.requestSecondApproval(ctx, 'run_cleanup');
+            return;
+        }
+        await this.runCleanup(ctx);
+    }
+
+    private async runCleanup(ctx: Context, approval?: PendingAction): Promise<void> {
+        if (!ctx.chat) return;
+        const result = await this.services.cleanupManager.applyRetentionPolicy();
+        const counts = {
+            sessions: result.sessionsDeleted,
+            messages: result.messagesDeleted,
+            prayers: result.closedPrayersDeleted,
+            reports: result.processedReportsDeleted,
+            auditLogs: result.auditLogsDeleted,
+            broadcastLogs: result.broadcastLogsDeleted
+        };
+        await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'run_cleanup', undefined, {
+            ...counts,
+            ...this.approvalDetails(approval)
+        });
+        await ctx.reply(this.t(ctx, 'admin.cleanup_done', counts));
+    }
+
+    /**
+     * Re-wrap session data keys still held under a retired master key; message ciphertext is left as is
+     */
+    private async handleRotateMessageKeys(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'manage_system'))) {
+            logger.warn('Unauthorized rotate_message_keys access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.keys_not_authorized'));
+            return;
+        }
+
+        const encryptionManager = this.services.encryptionManager;
+        if (!encryptionManager) {
+            await ctx.reply(this.t(ctx, 'admin.keys_encryption_disabled'));
+            return;
+        }
+
+        const keyId = this.services.config.messageEncryptionKeyId;
+        const result = await encryptionManager.rotateDataKeys();
+        await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'rotate_message_keys', keyId, { ...result });
+
+        await ctx.reply(this.t(ctx, 'admin.keys_rotated', { keyId, rewrapped: result.rewrapped, failed: result.failed }));
+        if (result.failed > 0) {
+            await ctx.reply(this.t(ctx, 'admin.keys_rotation_failures'));
+        }
+    }
+
+    private async handleCounselorList(ctx: Context, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'view_stats'))) {
+            logger.warn('Unauthorized counselor list access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.list_not_authorized'));
+            return;
+        }
+
+        const counselors = await this.services.counselorManager.listCounselors();
+        if (counselors.length === 0) {
+            await ctx.reply(this.t(ctx, 'admin.no_counselors'));
+            return;
+        }
+
+        const { pageItems, safePage, totalPages } = this.getPagination(counselors, page, BotModule.PAGE_SIZE);
+
+        await ctx.reply(this.t(ctx, 'admin.counselors_header', { count: counselors.length }));
+
+        for (const counselor of pageItems) {
+            const message = this.t(ctx, 'admin.counselor_item', {
+                counselorId: counselor.counselorId,
+                alias: counselor.alias ?? this.t(ctx, 'common.not_available'),
+                status: counselor.status,
+                approved: this.t(ctx, counselor.isApproved ? 'common.yes' : 'common.no'),
+                suspended: this.t(ctx, counselor.isSuspended ? 'common.yes' : 'common.no'),
+                strikes: counselor.strikes,
+                sessions: counselor.sessionsHandled
+            });
+
+            const buttons = [] as ReturnType<typeof Markup.button.callback>[];
+            if (!counselor.isApproved) {
+                buttons.push(
+                    Markup.button.callback(
+                        this.t(ctx, 'appeal.approve_button'),
+                        `${AdminModule.REAPPROVE_ACTION_PREFIX}:${counselor.counselorId}`
+                    )
+                );
+            } else if (counselor.isSuspended) {
+                buttons.push(
+                    Markup.button.callback(
+                        this.t(ctx, 'appeal.revoke_button'),
+                        `${AdminModule.REVOKE_SUSPENSION_ACTION_PREFIX}:${counselor.counselorId}`
+                    )
+                );
+            }
+
+            const keyboard = buttons.length > 0 ? Markup.inlineKeyboard(buttons) : undefined;
+            if (keyboard) {
+                await ctx.reply(message, keyboard);
+            } else {
+                await ctx.reply(message);
+            }
+        }
+
+        await this.sendPaginationControls(
+            ctx,
+            AdminModule.PAGINATE_COUNSELORS_ACTION_PREFIX,
+            safePage,
+            totalPages
+        );
+    }
+
+    private async handleRevokeSuspension(ctx: Context, counselorId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'decide_appeals'))) {
+            logger.warn('Unauthorized revoke suspension access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.update_not_authorized'));
+            return;
+        }
+
+        if (this.services.pendingActionManager.isEnabled()) {
+            const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+            if (!counselor) {
+                await ctx.reply(this.t(ctx, 'admin.counselor_not_found'));
+                return;
+            }
+            await this.requestSecondApproval(ctx, 'revoke_suspension', counselorId);
+            return;
+        }
+        await this.revokeSuspension(ctx, counselorId);
+    }
+
+    private async revokeSuspension(ctx: Context, counselorId: string, approval?: PendingAction): Promise<void> {
+        if (!ctx.chat) return;
+        const result = await this.services.collections.counselors.updateOne(
+            { id: counselorId },
+            { $set: { isSuspended: false, isApproved: true, status: 'away', lastActive: new Date(), strikes: 0 } }
+        );
+
+        if (result.matchedCount === 0) {
+            await ctx.reply(this.t(ctx, 'admin.counselor_not_found'));
+            return;
+        }
+
+        await this.services.auditLogManager.recordAdminAction(
+            ctx.chat.id.toString(),
+            'revoke_suspension',
+            counselorId,
+            this.approvalDetails(approval)
+        );
+        await ctx.reply(this.t(ctx, 'admin.suspension_revoked', { counselorId }));
+
+        const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+        if (counselor?.telegramChatId && this.services.bot) {
+            try {
+                await this.sendMenuToChatId(
+                    counselor.telegramChatId,
+                    'IDLE',
+                    await this.tForChat(counselor.telegramChatId, 'admin.suspension_revoked_notice')
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify counselor suspension revoke', {
+                    counselorId,
+                    message: err.message
+                });
+            }
+        }
+    }
+
+    private async handleReapproveCounselor(ctx: Context, counselorId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'approve_counselors'))) {
+            logger.warn('Unauthorized reapprove access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.approve_not_authorized'));
+            return;
+        }
+
+        await this.services.counselorManager.approveCounselor(ctx.chat.id.toString(), counselorId);
+        await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'reapprove_counselor', counselorId);
+        await ctx.reply(this.t(ctx, 'admin.counselor_approved', { counselorId }));
+
+        const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+        if (counselor?.telegramChatId && this.services.bot) {
+            try {
+                await this.services.bot.telegram.sendMessage(
+                    counselor.telegramChatId,
+                    await this.tForChat(counselor.telegramChatId, 'admin.access_restored_notice')
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify counselor reapproval', {
+                    counselorId,
+                    message: err.message
+                });
+            }
+        }
+    }
+
+    private async handleApproveCounselor(ctx: Context, counselorId?: string, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'approve_counselors'))) {
+            logger.warn('Unauthorized approve_counselor access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.approve_not_authorized'));
+            return;
+        }
+
+        if (!counselorId) {
+            const pending = await this.services.counselorManager.getPendingApprovals();
+
+            if (pending.length === 0) {
+                await ctx.reply(this.t(ctx, 'admin.no_pending_approvals'));
+                return;
+            }
+
+            const { pageItems, safePage, totalPages } = this.getPagination(pending, page, BotModule.PAGE_SIZE);
+
+            await ctx.reply(this.t(ctx, 'admin.pending_approvals_header', { count: pending.length }));
+            for (const counselor of pageItems) {
+                const legacyCounselorId = 'counselorId' in counselor
+                    ? (counselor as { counselorId?: string }).counselorId
+                    : undefined;
+                const counselorId = counselor.id ?? legacyCounselorId;
+                if (!counselorId) {
+                    logger.warn('Pending counselor missing id', { counselor });
+                    continue;
+                }
+
+                const message = this.t(ctx, 'admin.pending_approval_item', {
+                    counselorId,
+                    status: counselor.status,
+                    strikes: counselor.strikes
+                });
+                await ctx.reply(
+                    message,
+                    Markup.inlineKeyboard([
+                        Markup.button.callback(
+                            this.t(ctx, BotMenu.APPROVE_COUNSELOR),
+                            `${AdminModule.APPROVE_COUNSELOR_ACTION_PREFIX}:${counselorId}`
+                        )
+                    ])
+                );
+            }
+
+            await this.sendPaginationControls(
+                ctx,
+                AdminModule.PAGINATE_APPROVALS_ACTION_PREFIX,
+                safePage,
+                totalPages
+            );
+            return;
+        }
+
+        await this.services.counselorManager.approveCounselor(ctx.chat.id.toString(), counselorId);
+        await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'approve_counselor', counselorId);
+        await ctx.reply(this.t(ctx, 'admin.counselor_approved', { counselorId }));
+
+        const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+        if (counselor?.telegramChatId) {
+            try {
+                await this.services.bot.telegram.sendMessage(
+                    counselor.telegramChatId,
+                    await this.tForChat(counselor.telegramChatId, 'admin.approved_notice')
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify counselor approval', {
+                    counselorId,
+                    message: err.message
+                });
+            }
+        }
+    }
+
+    private async handleRemoveCounselor(ctx: Context, counselorId?: string, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'remove_counselors'))) {
+            logger.warn('Unauthorized remove_counselor access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.remove_not_authorized'));
+            return;
+        }
+
+        if (!counselorId) {
+            const counselors = await this.services.counselorManager.listCounselors();
+            if (counselors.length === 0) {
+                await ctx.reply(this.t(ctx, 'admin.no_counselors'));
+                return;
+            }
+
+            const { pageItems, safePage, totalPages } = this.getPagination(counselors, page, BotModule.PAGE_SIZE);
+
+            await ctx.reply(this.t(ctx, 'admin.counselors_header', { count: counselors.length }));
+
+            for (const counselor of pageItems) {
+                const message = this.t(ctx, 'admin.removal_item', {
+                    counselorId: counselor.counselorId,
+                    status: counselor.status,
+                    strikes: counselor.strikes
+                });
+
+                await ctx.reply(
+                    message,
+                    Markup.inlineKeyboard([
+                        Markup.button.callback(
+                            this.t(ctx, BotMenu.REMOVE_COUNSELOR),
+                            `${AdminModule.REMOVE_COUNSELOR_ACTION_PREFIX}:${counselor.counselorId}`
+                        )
+                    ])
+                );
+            }
+
+            await this.sendPaginationControls(
+                ctx,
+                AdminModule.PAGINATE_REMOVALS_ACTION_PREFIX,
+                safePage,
+                totalPages
+            );
+
+            return;
+        }
+
+        if (this.services.pendingActionManager.isEnabled()) {
+            const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+            if (!counselor) {
+                await ctx.reply(this.t(ctx, 'admin.counselor_not_found'));
+                return;
+            }
+            await this.requestSecondApproval(ctx, 'remove_counselor', counselorId);
+            return;
+        }
+        await this.removeCounselor(ctx, counselorId);
+    }
+
+    private async removeCounselor(ctx: Context, counselorId: string, approval?: PendingAction): Promise<void> {
+        if (!ctx.chat) return;
+        await this.services.counselorManager.removeCounselor(ctx.chat.id.toString(), counselorId);
+        await this.services.auditLogManager.recordAdminAction(
+            ctx.chat.id.toString(),
+            'remove_counselor',
+            counselorId,
+            this.approvalDetails(approval)
+        );
+        await ctx.reply(this.t(ctx, 'admin.counselor_removed', { counselorId }));
+    }
+
+    /**
+     * List destructive actions waiting for a second admin that this admin may confirm
+     */
+    private async handlePendingActions(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.isAdmin(ctx.chat.id))) {
+            logger.warn('Unauthorized pending_actions access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.approval_not_authorized'));
+            return;
+        }
+
+        const open = await this.services.pendingActionManager.getOpenActions();
+        const visible: PendingAction[] = [];
+        for (const action of open) {
+            if (await this.hasPermission(ctx.chat.id, PENDING_ACTION_PERMISSIONS[action.type])) {
+                visible.push(action);
+            }
+        }
+        if (visible.length === 0) {
+            await ctx.reply(this.t(ctx, 'admin.approvals_empty'));
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, 'admin.approvals_header', { count: visible.length }));
+        for (const action of visible) {
+            await ctx.reply(
+                this.t(ctx, 'admin.approvals_item', {
+                    action: this.t(ctx, PENDING_ACTION_LABELS[action.type], { targetId: action.targetId ?? '' }),
+                    adminId: action.requestedByAdminId,
+                    expiresAt: this.formatTimestamp(action.expiresAt)
+                }),
+                Markup.inlineKeyboard([
+                    Markup.button.callback(this.t(ctx, 'admin.approval_confirm_button'), `${PENDING_ACTION_CONFIRM_PREFIX}:${action.actionId}`),
+                    Markup.button.callback(this.t(ctx, 'admin.approval_reject_button'), `${PENDING_ACTION_REJECT_PREFIX}:${action.actionId}`)
+                ])
+            );
+        }
+    }
+
+    /**
+     * Confirm or reject a held action. A confirmation by a second admin runs the action under their name,
+     * and the audit entry records who requested it.
+     */
+    private async handlePendingActionDecision(ctx: Context, actionId: string, confirm: boolean): Promise<void> {
+        if (!ctx.chat) return;
+        const pending = await this.services.pendingActionManager.getAction(actionId);
+        if (!pending) {
+            await ctx.reply(this.t(ctx, 'admin.approval_not_found'));
+            return;
+        }
+        if (!(await this.hasPermission(ctx.chat.id, PENDING_ACTION_PERMISSIONS[pending.type]))) {
+            logger.warn('Unauthorized pending action decision', { chatId: ctx.chat.id, actionId });
+            await ctx.reply(this.t(ctx, 'admin.approval_not_authorized'));
+            return;
+        }
+
+        const adminId = ctx.chat.id.toString();
+        const resolution = confirm
+            ? await this.services.pendingActionManager.confirmAction(actionId, adminId)
+            : await this.services.pendingActionManager.rejectAction(actionId, adminId);
+        const action = resolution.action;
+        if (resolution.status === 'not_found' || !action) {
+            await ctx.reply(this.t(ctx, 'admin.approval_not_found'));
+            return;
+        }
+        if (resolution.status === 'already_resolved') {
+            await ctx.reply(this.t(ctx, 'admin.approval_already_resolved'));
+            return;
+        }
+        if (resolution.status === 'expired') {
+            await ctx.reply(this.t(ctx, 'admin.approval_expired'));
+            return;
+        }
+        if (resolution.status === 'own_request') {
+            await ctx.reply(this.t(ctx, 'admin.approval_own_request'));
+            return;
+        }
+
+        const description = this.t(ctx, PENDING_ACTION_LABELS[action.type], { targetId: action.targetId ?? '' });
+        if (!confirm) {
+            await this.services.auditLogManager.recordAdminAction(adminId, 'reject_approval', action.targetId, {
+                type: action.type,
+                pendingActionId: action.actionId,
+                requestedByAdminId: action.requestedByAdminId
+            });
+            await ctx.reply(this.t(ctx, 'admin.approval_rejected', { action: description }));
+            await this.notifyRequester(action, 'admin.approval_rejected_notice', adminId);
+            return;
+        }
+
+        try {
+            switch (action.type) {
+                case 'remove_counselor':
+                    await this.removeCounselor(ctx, action.targetId ?? '', action);
+                    break;
+                case 'revoke_appeal':
+                    await this.appealModule.applyAppealDecision(ctx, action.targetId ?? '', 'revoke', action);
+                    break;
+                case 'revoke_suspension':
+                    await this.revokeSuspension(ctx, action.targetId ?? '', action);
+                    break;
+                case 'run_cleanup':
+                    await this.runCleanup(ctx, action);
+                    break;
+            }
+        } catch (error) {
+            const err = error as Error;
+            logger.error('Confirmed pending action failed', { actionId, type: action.type, message: err.message });
+            await ctx.reply(this.describeError(ctx, error, 'common.generic_error'));
+            return;
+        }
+        await this.notifyRequester(action, 'admin.approval_confirmed_notice', adminId);
+    }
+
+    private async notifyRequester(
+        action: PendingAction,
+        key: 'admin.approval_confirmed_notice' | 'admin.approval_rejected_notice',
+        resolvedByAdminId: string
+    ): Promise<void> {
+        const chatId = parseInt(action.requestedByAdminId, 10);
+        try {
+            const locale = await this.getChatLocale(chatId);
+            await this.services.bot.telegram.sendMessage(chatId, translate(locale, key, {
+                action: translate(locale, PENDING_ACTION_LABELS[action.type], { targetId: action.targetId ?? '' }),
+                adminId: resolvedByAdminId
+            }));
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to notify admin about pending action decision', { actionId: action.actionId, message: err.message });
+        }
+    }
+
+    private approvalDetails(approval?: PendingAction): Record<string, unknown> | undefined {
+        return approval ? { pendingActionId: approval.actionId, requestedByAdminId: approval.requestedByAdminId } : undefined;
+    }
+
+    private async handleAuditLog(ctx: Context, limitArg?: string, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'view_audit_log'))) {
+            logger.warn('Unauthorized audit_log access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.audit_not_authorized'));
+            return;
+        }
+
+        if (limitArg) {
+            const limit = Math.min(Math.max(parseInt(limitArg, 10) || 20, 1), 100);
+            const logs = await this.services.auditLogManager.getRecentAdminActions(limit);
+            if (logs.length === 0) {
+                await ctx.reply(this.t(ctx, 'admin.audit_empty'));
+                return;
+            }
+
+            const { pageItems, safePage, totalPages } = this.getPagination(logs, page, BotModule.PAGE_SIZE);
+            const formatted = pageItems.map(log => this.formatAuditLogEntry(ctx, log));
+
+            await ctx.reply(this.t(ctx, 'admin.audit_header', { count: logs.length }));
+            await ctx.reply(formatted.join('\n\n'));
+            await this.sendPaginationControls(
+                ctx,
+                AdminModule.PAGINATE_AUDIT_ACTION_PREFIX,
+                safePage,
+                totalPages,
+                limitArg
+            );
+            return;
+        }
+
+        const { logs, total } = await this.services.auditLogManager.getAdminActionsPage(page, BotModule.PAGE_SIZE);
+        if (total === 0) {
+            await ctx.reply(this.t(ctx, 'admin.audit_empty'));
+            return;
+        }
+
+        const totalPages = Math.max(1, Math.ceil(total / BotModule.PAGE_SIZE));
+        const safePage = Math.min(Math.max(page, 1), totalPages);
+        const formatted = logs.map(log => this.formatAuditLogEntry(ctx, log));
+
+        await ctx.reply(this.t(ctx, 'admin.audit_header', { count: total }));
+        await ctx.reply(formatted.join('\n\n'));
+        await this.sendPaginationControls(
+            ctx,
+            AdminModule.PAGINATE_AUDIT_ACTION_PREFIX,
+            safePage,
+            totalPages
+        );
+    }
+
+    private formatAuditLogEntry(ctx: Context, log: AuditLog): string {
+        const lines = [
+            this.t(ctx, 'admin.audit_entry', {
+                timestamp: this.formatTimestamp(log.timestamp),
+                action: this.formatAuditAction(log.action),
+                adminId: log.adminId
+            })
+        ];
+
+        if (log.targetId) {
+            lines.push(this.t(ctx, 'admin.audit_target', { targetId: log.targetId }));
+        }
+
+        const details = this.formatAuditDetails(log.details);
+        if (details) {
+            lines.push(this.t(ctx, 'admin.audit_details', { details }));
+        }
+
+        return lines.join('\n');
+    }
+
+    private formatAuditAction(action: string): string {
+        return action
+            .replace(/_/g, ' ')
+            .replace(/\b\w/g, char => char.toUpperCase());
+    }
+
+    private formatAuditDetails(details?: Record<string, unknown>): string | null {
+        if (!details) {
+            return null;
+        }
+
+        const entries = Object.entries(details);
+        if (entries.length === 0) {
+            return null;
+        }
+
+        const formatted = entries.map(([key, value]) => {
+            const label = key.replace(/_/g, ' ');
+            return `${label}: ${this.formatDetailValue(value)}`;
+        });
+
+        return formatted.join(', ');
+    }
+
+    private formatDetailValue(value: unknown): string {
+        if (value === null || value === undefined) {
+            return 'N/A';
+        }
+
+        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            return this.trimText(String(value), 120);
+        }
+
+        try {
+            return this.trimText(JSON.stringify(value), 120);
+        } catch {
+            return 'Unsupported';
+        }
+    }
+}
@@ -0,0 +1,158 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { MessageKey, translate } from '../../i18n';
+import { ADMIN_ROLES } from '../../managers/AdminManager';
+import { AdminRole } from '../../types/Admin';
+import { logger } from '../../utils/logger';
+
+// Super-admin tools to add admins, change their role and remove them without a redeploy
+export class AdminRoleModule extends BotModule {
+    static readonly ROLE_LABELS: Record<AdminRole, MessageKey> = {
+        super_admin: 'admin.role_super_admin',
+        moderator: 'admin.role_moderator',
+        reviewer: 'admin.role_reviewer',
+        broadcaster: 'admin.role_broadcaster'
+    };
+    private static readonly REMOVE_ADMIN_ACTION_PREFIX = 'adm_rm';
+
+    constructor(services: BotServices) {
+        super(services);
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.command('admins', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleListAdmins(ctx);
+        });
+
+        bot.command('add_admin', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleAddAdmin(ctx, this.extractCommandText(ctx.message?.text, 'add_admin'));
+        });
+
+        bot.command('remove_admin', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleRemoveAdmin(ctx, this.extractCommandText(ctx.message?.text, 'remove_admin'));
+        });
+
+        bot.action(new RegExp(`^${AdminRoleModule.REMOVE_ADMIN_ACTION_PREFIX}:(-?\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleRemoveAdmin(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+    }
+
+    private async handleListAdmins(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'manage_admins'))) {
+            logger.warn('Unauthorized admin list access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.roles_not_authorized'));
+            return;
+        }
+
+        const admins = await this.services.adminManager.listAdmins();
+        await ctx.reply(this.t(ctx, 'admin.admins_header', { count: admins.length, roles: ADMIN_ROLES.join(', ') }));
+        for (const admin of admins) {
+            const text = this.t(ctx, admin.configured ? 'admin.admins_item_configured' : 'admin.admins_item', {
+                chatId: admin.telegramChatId,
+                role: this.t(ctx, AdminRoleModule.ROLE_LABELS[admin.role])
+            });
+            if (admin.configured || admin.telegramChatId === ctx.chat.id) {
+                await ctx.reply(text);
+                continue;
+            }
+            await ctx.reply(
+                text,
+                Markup.inlineKeyboard([
+                    Markup.button.callback(
+                        this.t(ctx, 'admin.remove_admin_button'),
+                        `${AdminRoleModule.REMOVE_ADMIN_ACTION_PREFIX}:${admin.telegramChatId}`
+                    )
+                ])
+            );
+        }
+    }
+
+    private async handleAddAdmin(ctx: Context, args?: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'manage_admins'))) {
+            logger.warn('Unauthorized add_admin access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.roles_not_authorized'));
+            return;
+        }
+
+        const [chatIdArg, roleArg] = (args ?? '').split(/\s+/);
+        const chatId = /^-?\d+$/.test(chatIdArg ?? '') ? parseInt(chatIdArg, 10) : NaN;
+        const role = ADMIN_ROLES.find(candidate => candidate === roleArg);
+        if (!Number.isSafeInteger(chatId) || !role) {
+            await ctx.reply(this.t(ctx, 'admin.add_admin_usage', { roles: ADMIN_ROLES.join(', ') }));
+            return;
+        }
+
+        let previousRole: AdminRole | null;
+        try {
+            previousRole = await this.services.adminManager.setAdminRole(chatId, role, ctx.chat.id);
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'common.generic_error'));
+            return;
+        }
+
+        const roleLabel = this.t(ctx, AdminRoleModule.ROLE_LABELS[role]);
+        if (previousRole === null) {
+            await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'add_admin', chatId.toString(), { role });
+            await ctx.reply(this.t(ctx, 'admin.admin_added', { chatId, role: roleLabel }));
+        } else {
+            await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'change_admin_role', chatId.toString(), {
+                role,
+                previousRole
+            });
+            await ctx.reply(this.t(ctx, 'admin.admin_role_changed', { chatId, role: roleLabel }));
+        }
+
+        const locale = await this.getChatLocale(chatId);
+        await this.notifyAdmin(chatId, translate(locale, 'admin.role_granted_notice', {
+            role: translate(locale, AdminRoleModule.ROLE_LABELS[role])
+        }));
+    }
+
+    private async handleRemoveAdmin(ctx: Context, chatIdArg?: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'manage_admins'))) {
+            logger.warn('Unauthorized remove_admin access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'admin.roles_not_authorized'));
+            return;
+        }
+
+        const chatId = /^-?\d+$/.test(chatIdArg?.trim() ?? '') ? parseInt(chatIdArg ?? '', 10) : NaN;
+        if (!Number.isSafeInteger(chatId)) {
+            await ctx.reply(this.t(ctx, 'admin.remove_admin_usage'));
+            return;
+        }
+
+        let role: AdminRole;
+        try {
+            role = await this.services.adminManager.removeAdmin(chatId, ctx.chat.id);
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'common.generic_error'));
+            return;
+        }
+
+        await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'remove_admin', chatId.toString(), { role });
+        await ctx.reply(this.t(ctx, 'admin.admin_removed', { chatId }));
+        await this.notifyAdmin(chatId, await this.tForChat(chatId, 'admin.role_removed_notice'));
+    }
+
+    /**
+     * Tell the admin their access changed and refresh their menu; they may never have started the bot.
+     * Callers translate the message in the admin's own language.
+     */
+    private async notifyAdmin(chatId: number, message: string): Promise<void> {
+        try {
+            await this.sendMenuToChatId(chatId, 'IDLE', message);
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to notify admin about role change', { chatId, message: err.message });
+        }
+    }
+}
@@ -0,0 +1,232 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { Message } from '../../types/Message';
+import { PendingAction } from '../../types/PendingAction';
+import { UserState } from '../../types/User';
+import { generateAppealId } from '../../models/utils';
+import { logger } from '../../utils/logger';
+
+// Suspension appeals from counselors and their review by admins
+export class AppealModule extends BotModule {
+    private static readonly APPEAL_ACTION_PREFIX = 'al';
+    private static readonly PAGINATE_APPEALS_ACTION_PREFIX = 'pga';
+
+    constructor(services: BotServices) {
+        super(services);
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.APPEAL), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleAppealStart(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.APPEALS), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleAppeals(ctx);
+        });
+
+        bot.action(new RegExp(`^${AppealModule.APPEAL_ACTION_PREFIX}:(.+):(r|a)$`), async ctx => {
+            if (!ctx.chat) return;
+            const match = ctx.match as RegExpMatchArray;
+            const appealId = match[1];
+            const actionToken = match[2];
+            const action = actionToken === 'r' ? 'revoke' : 'approve';
+            await this.processAppealAction(ctx, appealId, action);
+        });
+
+        bot.action(new RegExp(`^${AppealModule.PAGINATE_APPEALS_ACTION_PREFIX}:(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const page = parseInt((ctx.match as RegExpMatchArray)[1], 10);
+            await ctx.answerCbQuery();
+            await this.handleAppeals(ctx, page);
+        });
+    }
+
+    async handleText(ctx: Context, text: string, state: UserState): Promise<boolean> {
+        if (state !== 'APPEALING') {
+            return false;
+        }
+
+        await this.handleAppealMessage(ctx, text);
+        return true;
+    }
+
+    private async handleAppealStart(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'appeal.suspended_only'));
+            return;
+        }
+
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'APPEALING');
+        await this.replyWithMenu(ctx, 'APPEALING', this.t(ctx, 'appeal.prompt_message'));
+    }
+
+    private async handleAppealMessage(ctx: Context, text: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const message = text.trim();
+        if (!message) {
+            await this.replyWithMenu(ctx, 'APPEALING', this.t(ctx, 'appeal.prompt_message'));
+            return;
+        }
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isSuspended) {
+            await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'appeal.suspended_only'));
+            return;
+        }
+
+        const appeal = {
+            appealId: generateAppealId(),
+            counselorId: counselor.id,
+            message,
+            strikes: counselor.strikes ?? 0,
+            timestamp: new Date(),
+            processed: false
+        };
+
+        await this.services.collections.appeals.insertOne(appeal);
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'appeal.submitted', { appealId: appeal.appealId }));
+    }
+
+    private async handleAppeals(ctx: Context, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'decide_appeals'))) {
+            logger.warn('Unauthorized appeals access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'appeal.view_not_authorized'));
+            return;
+        }
+
+        const appeals = await this.services.appealManager.getPendingAppeals();
+
+        if (appeals.length === 0) {
+            await ctx.reply(this.t(ctx, 'appeal.none_pending'));
+            return;
+        }
+
+        const { pageItems, safePage, totalPages } = this.getPagination(appeals, page, BotModule.PAGE_SIZE);
+
+        await ctx.reply(this.t(ctx, 'appeal.pending_header', { count: appeals.length }));
+
+        for (const appeal of pageItems) {
+            const submittedAt = appeal.timestamp instanceof Date
+                ? appeal.timestamp.toISOString()
+                : new Date(appeal.timestamp).toISOString();
+            const message = this.t(ctx, 'appeal.item', {
+                appealId: appeal.appealId,
+                counselorId: appeal.counselorId,
+                strikes: appeal.strikes,
+                message: appeal.message,
+                submittedAt
+            });
+
+            await ctx.reply(
+                message,
+                Markup.inlineKeyboard([
+                    Markup.button.callback(
+                        this.t(ctx, 'appeal.revoke_button'),
+                        `${AppealModule.APPEAL_ACTION_PREFIX}:${appeal.appealId}:r`
+                    ),
+                    Markup.button.callback(
+                        this.t(ctx, 'appeal.approve_button'),
+                        `${AppealModule.APPEAL_ACTION_PREFIX}:${appeal.appealId}:a`
+                    )
+                ])
+            );
+        }
+
+        await this.sendPaginationControls(
+            ctx,
+            AppealModule.PAGINATE_APPEALS_ACTION_PREFIX,
+            safePage,
+            totalPages
+        );
+    }
+
+    private async processAppealAction(ctx: Context, appealId: string, action: 'revoke' | 'approve'): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'decide_appeals'))) {
+            logger.warn('Unauthorized appeal action access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'appeal.process_not_authorized'));
+            return;
+        }
+
+        if (action === 'revoke' && this.services.pendingActionManager.isEnabled()) {
+            const appeal = await this.services.collections.appeals.findOne({ appealId });
+            if (!appeal) {
+                await ctx.reply(this.t(ctx, 'appeal.not_found'));
+                return;
+            }
+            if (appeal.processed) {
+                await ctx.reply(this.t(ctx, 'appeal.already_processed'));
+                return;
+            }
+            await this.requestSecondApproval(ctx, 'revoke_appeal', appealId);
+            return;
+        }
+
+        await this.applyAppealDecision(ctx, appealId, action);
+    }
+
+    /**
+     * Apply an appeal decision and tell the counselor. Revocations confirmed by a second admin carry the
+     * approval, so the audit entry names both admins.
+     */
+    async applyAppealDecision(ctx: Context, appealId: string, action: 'revoke' | 'approve', approval?: PendingAction): Promise<void> {
+        if (!ctx.chat) return;
+        const adminId = ctx.chat.id.toString();
+        const decision = await this.services.appealManager.decideAppeal(adminId, appealId, action);
+        if (decision.status === 'not_found') {
+            await ctx.reply(this.t(ctx, 'appeal.not_found'));
+            return;
+        }
+
+        if (decision.status === 'already_processed') {
+            await ctx.reply(this.t(ctx, 'appeal.already_processed'));
+            return;
+        }
+
+        const counselor = decision.counselor;
+        if (decision.status === 'counselor_not_found' || !counselor) {
+            await ctx.reply(this.t(ctx, 'appeal.counselor_not_found'));
+            return;
+        }
+
+        if (action === 'approve') {
+            await this.services.auditLogManager.recordAdminAction(adminId, 'appeal_approve', counselor.id);
+            await ctx.reply(this.t(ctx, 'appeal.approved', { counselorId: counselor.id }));
+        } else {
+            await this.services.auditLogManager.recordAdminAction(
+                adminId,
+                'appeal_revoke_suspension',
+                counselor.id,
+                approval ? { appealId, pendingActionId: approval.actionId, requestedByAdminId: approval.requestedByAdminId } : undefined
+            );
+            await ctx.reply(this.t(ctx, 'appeal.revoked', { counselorId: counselor.id }));
+        }
+
+        if (counselor.telegramChatId && this.services.bot) {
+            const notification = await this.tForChat(
+                counselor.telegramChatId,
+                action === 'approve' ? 'appeal.approved_notice' : 'appeal.revoked_notice'
+            );
+            try {
+                await this.sendMenuToChatId(counselor.telegramChatId, 'IDLE', notification);
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify counselor about appeal decision', {
+                    counselorId: counselor.id,
+                    message: err.message
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,781 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { translate, MessageKey } from '../../i18n';
+import { BROADCAST_CTA_ACTION_PREFIX, BroadcastProgress, MAX_ACTIVE_USER_DAYS } from '../../managers/BroadcastManager';
+import {
+    BroadcastButton,
+    BroadcastContent,
+    BroadcastFormat,
+    BroadcastLog,
+    BroadcastMedia,
+    BroadcastProgressMessage,
+    BroadcastSegment,
+    BroadcastStatus,
+    BroadcastTargetGroup
+} from '../../types/BroadcastLog';
+import { Locale } from '../../types/Locale';
+import { logger } from '../../utils/logger';
+import { ConversationStateMap } from '../../state';
+import { MatchingModule } from './MatchingModule';
+import { PrayerModule } from './PrayerModule';
+
+interface BroadcastFlowState {
+    step: 'target' | 'segment_value' | 'message' | 'compose' | 'schedule';
+    targetGroup?: BroadcastTargetGroup;
+    segment?: BroadcastSegment;
+    content?: BroadcastContent;
+    previewed?: boolean; // cleared by every change so admins always confirm what recipients will see
+}
+
+// Admin announcements to users and counselors, sent now or at a scheduled time
+export class BroadcastModule extends BotModule {
+    private static readonly TARGET_LABELS: Record<BroadcastTargetGroup, MessageKey> = {
+        users: 'broadcast.target_users',
+        counselors: 'broadcast.target_counselors',
+        everyone: 'broadcast.target_everyone',
+        counselor_language: 'broadcast.target_counselor_language',
+        counselor_domain: 'broadcast.target_counselor_domain',
+        active_users: 'broadcast.target_active_users',
+        open_prayer_users: 'broadcast.target_open_prayer_users'
+    };
+    private static readonly STATUS_LABELS: Record<BroadcastStatus, MessageKey> = {
+        scheduled: 'broadcast.status_scheduled',
+        sending: 'broadcast.status_sending',
+        sent: 'broadcast.status_sent',
+        cancelled: 'broadcast.status_cancelled'
+    };
+    private static readonly FORMAT_LABELS: Record<BroadcastFormat, MessageKey> = {
+        plain: 'broadcast.format_plain',
+        markdown: 'broadcast.format_markdown',
+        html: 'broadcast.format_html'
+    };
+    private static readonly BUTTON_LABELS: Record<BroadcastButton, MessageKey> = {
+        start_counseling: 'broadcast.button_start_counseling',
+        submit_prayer: 'broadcast.button_submit_prayer'
+    };
+    private static readonly BROADCAST_CANCEL: MessageKey = 'common.cancel';
+    private static readonly BROADCAST_ACTION_CONFIRM = 'broadcast_confirm';
+    private static readonly BROADCAST_ACTION_SCHEDULE = 'broadcast_schedule';
+    private static readonly BROADCAST_ACTION_CANCEL = 'broadcast_cancel';
+    private static readonly PREVIEW_ACTION = 'bcast_preview';
+    private static readonly FORMAT_ACTION_PREFIX = 'bcast_fmt';
+    private static readonly BUTTON_ACTION_PREFIX = 'bcast_btn';
+    private static readonly CANCEL_SCHEDULED_ACTION_PREFIX = 'bcast_cancel';
+    private static readonly REPORT_ACTION_PREFIX = 'bcast_report';
+    private static readonly DISPATCH_INTERVAL_MS = 15 * 1000;
+    private static readonly RECENT_BROADCASTS = 5;
+    private static readonly REPORT_FAILURE_LIMIT = 20;
+    private static readonly SCHEDULE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})$/;
+
+    private matchingModule: MatchingModule;
+    private prayerModule: PrayerModule;
+    private broadcastState: ConversationStateMap<BroadcastFlowState>;
+    private dispatchInterval: NodeJS.Timeout | null = null;
+    private dispatching: Promise<void> | null = null;
+    private stopping = false;
+
+    constructor(services: BotServices, matchingModule: MatchingModule, prayerModule: PrayerModule) {
+        super(services);
+        this.matchingModule = matchingModule;
+        this.prayerModule = prayerModule;
+        this.broadcastState = this.createStateMap('broadcast');
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.BROADCAST), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleBroadcastStart(ctx);
+        });
+
+        bot.command('broadcasts', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleBroadcastList(ctx);
+        });
+
+        bot.action(new RegExp(`^${BroadcastModule.FORMAT_ACTION_PREFIX}:(plain|markdown|html)$`), async ctx => {
+            if (!ctx.chat) return;
+            const format = (ctx.match as RegExpMatchArray)[1] as BroadcastFormat;
+            await ctx.answerCbQuery();
+            await this.handleComposeChange(ctx, content => {
+                content.format = format;
+            });
+        });
+
+        bot.action(new RegExp(`^${BroadcastModule.BUTTON_ACTION_PREFIX}:(start_counseling|submit_prayer)$`), async ctx => {
+            if (!ctx.chat) return;
+            const button = (ctx.match as RegExpMatchArray)[1] as BroadcastButton;
+            await ctx.answerCbQuery();
+            await this.handleComposeChange(ctx, content => {
+                const buttons = content.buttons ?? [];
+                content.buttons = buttons.includes(button) ? buttons.filter(b => b !== button) : [...buttons, button];
+            });
+        });
+
+        bot.action(BroadcastModule.PREVIEW_ACTION, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePreview(ctx);
+        });
+
+        // Pressed by recipients under a broadcast
+        bot.action(new RegExp(`^${BROADCAST_CTA_ACTION_PREFIX}:(start_counseling|submit_prayer)$`), async ctx => {
+            if (!ctx.chat) return;
+            const button = (ctx.match as RegExpMatchArray)[1] as BroadcastButton;
+            await ctx.answerCbQuery();
+            await this.handleCallToAction(ctx, button);
+        });
+
+        bot.action(BroadcastModule.BROADCAST_ACTION_CONFIRM, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleBroadcastConfirm(ctx);
+        });
+
+        bot.action(BroadcastModule.BROADCAST_ACTION_SCHEDULE, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleScheduleStart(ctx);
+        });
+
+        bot.action(BroadcastModule.BROADCAST_ACTION_CANCEL, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleBroadcastCancelAction(ctx);
+        });
+
+        bot.action(new RegExp(`^${BroadcastModule.CANCEL_SCHEDULED_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCancelScheduled(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${BroadcastModule.REPORT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleDeliveryReport(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+    }
+
+    async handleText(ctx: Context): Promise<boolean> {
+        return this.handleBroadcastFlowText(ctx);
+    }
+
+    /**
+     * Claim a photo or document an admin sends as the broadcast content; anything else is left to other handlers
+     */
+    async handleMedia(ctx: Context): Promise<boolean> {
+        if (!ctx.chat || !ctx.message) return false;
+
+        const state = await this.broadcastState.get(ctx.chat.id);
+        if (!state || (state.step !== 'message' && state.step !== 'compose') || !(await this.hasPermission(ctx.chat.id, 'broadcast'))) return false;
+
+        const message = ctx.message;
+        let media: BroadcastMedia | null = null;
+        if ('photo' in message && message.photo.length > 0) {
+            media = { type: 'photo', fileId: message.photo[message.photo.length - 1].file_id };
+        } else if ('document' in message) {
+            media = { type: 'document', fileId: message.document.file_id };
+        }
+        if (!media) return false;
+
+        const caption = 'caption' in message ? message.caption ?? '' : '';
+        await this.showComposePanel(ctx, state, { ...state.content, message: caption.trim(), media });
+        return true;
+    }
+
+    start(): void {
+        this.stopping = false;
+        this.triggerDispatch();
+        this.dispatchInterval = setInterval(() => this.triggerDispatch(), BroadcastModule.DISPATCH_INTERVAL_MS);
+    }
+
+    async stop(): Promise<void> {
+        // A broadcast being sent stops after the current recipient and resumes from its outbox on the next start
+        this.stopping = true;
+        if (this.dispatchInterval) {
+            clearInterval(this.dispatchInterval);
+            this.dispatchInterval = null;
+        }
+        await this.dispatching;
+    }
+
+    private async handleBroadcastStart(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            logger.warn('Unauthorized broadcast access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'broadcast.not_authorized'));
+            return;
+        }
+
+        await this.broadcastState.set(ctx.chat.id, { step: 'target' });
+        const label = (group: BroadcastTargetGroup) => this.t(ctx, BroadcastModule.TARGET_LABELS[group]);
+        await ctx.reply(
+            this.t(ctx, 'broadcast.select_target'),
+            Markup.keyboard([
+                [label('users'), label('counselors')],
+                [label('everyone')],
+                [label('counselor_language'), label('counselor_domain')],
+                [label('active_users'), label('open_prayer_users')],
+                [this.t(ctx, BroadcastModule.BROADCAST_CANCEL)]
+            ]).resize().oneTime()
+        );
+    }
+
+    private async handleBroadcastFlowText(ctx: Context): Promise<boolean> {
+        if (!ctx.chat || !ctx.message || !('text' in ctx.message)) return false;
+
+        const text = ctx.message.text;
+        if (!text) return false;
+
+        const state = await this.broadcastState.get(ctx.chat.id);
+        if (!state) return false;
+
+        if (!(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            await this.broadcastState.delete(ctx.chat.id);
+            return false;
+        }
+
+        if (text === this.t(ctx, BroadcastModule.BROADCAST_CANCEL)) {
+            await this.broadcastState.delete(ctx.chat.id);
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'broadcast.cancelled'));
+            return true;
+        }
+
+        if (state.step === 'target') {
+            const targetGroup = (Object.keys(BroadcastModule.TARGET_LABELS) as BroadcastTargetGroup[])
+                .find(group => text === this.t(ctx, BroadcastModule.TARGET_LABELS[group]));
+            if (!targetGroup) {
+                await ctx.reply(this.t(ctx, 'broadcast.invalid_target'));
+                return true;
+            }
+
+            if (targetGroup === 'counselor_language' || targetGroup === 'counselor_domain' || targetGroup === 'active_users') {
+                await this.broadcastState.set(ctx.chat.id, { step: 'segment_value', targetGroup });
+                await this.promptSegmentValue(ctx, targetGroup);
+                return true;
+            }
+
+            await this.promptMessage(ctx, { type: targetGroup });
+            return true;
+        }
+
+        if (state.step === 'segment_value') {
+            const value = text.trim();
+            let segment: BroadcastSegment | null = null;
+            if (state.targetGroup === 'counselor_language' && value) {
+                segment = { type: 'counselor_language', language: value };
+            } else if (state.targetGroup === 'counselor_domain' && value) {
+                segment = { type: 'counselor_domain', domain: value };
+            } else if (state.targetGroup === 'active_users') {
+                const days = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+                if (days >= 1 && days <= MAX_ACTIVE_USER_DAYS) {
+                    segment = { type: 'active_users', days };
+                } else {
+                    await ctx.reply(this.t(ctx, 'broadcast.invalid_active_days', { max: MAX_ACTIVE_USER_DAYS }));
+                    return true;
+                }
+            }
+
+            if (!segment) {
+                await ctx.reply(this.t(ctx, 'broadcast.invalid_target'));
+                return true;
+            }
+
+            await this.promptMessage(ctx, segment);
+            return true;
+        }
+
+        if (state.step === 'message' || state.step === 'compose') {
+            const message = text.trim();
+            if (!message || !state.segment) {
+                await ctx.reply(this.t(ctx, 'broadcast.message_empty'));
+                return true;
+            }
+
+            // A new text replaces the message, or the caption when a file is attached
+            await this.showComposePanel(ctx, state, { ...state.content, message });
+            return true;
+        }
+
+        if (state.step === 'schedule') {
+            await this.handleScheduleText(ctx, state, text.trim());
+            return true;
+        }
+
+        return false;
+    }
+
+    private async promptSegmentValue(ctx: Context, targetGroup: BroadcastTargetGroup): Promise<void> {
+        if (targetGroup === 'active_users') {
+            await ctx.reply(this.t(ctx, 'broadcast.prompt_active_days', { max: MAX_ACTIVE_USER_DAYS }), Markup.removeKeyboard());
+            return;
+        }
+
+        const options = (targetGroup === 'counselor_language' ? BotMenu.COUNSELOR_LANGUAGES : BotMenu.COUNSELOR_DOMAINS)
+            .filter(option => option !== 'Other');
+        const rows: string[][] = [];
+        for (let i = 0; i < options.length; i += 2) {
+            rows.push(options.slice(i, i + 2));
+        }
+        rows.push([this.t(ctx, BroadcastModule.BROADCAST_CANCEL)]);
+
+        await ctx.reply(
+            this.t(ctx, targetGroup === 'counselor_language' ? 'broadcast.prompt_language' : 'broadcast.prompt_domain'),
+            Markup.keyboard(rows).resize().oneTime()
+        );
+    }
+
+    private async promptMessage(ctx: Context, segment: BroadcastSegment): Promise<void> {
+        if (!ctx.chat) return;
+
+        await this.broadcastState.set(ctx.chat.id, { step: 'message', targetGroup: segment.type, segment });
+        await ctx.reply(this.t(ctx, 'broadcast.prompt_message'), Markup.removeKeyboard());
+    }
+
+    private async showComposePanel(ctx: Context, state: BroadcastFlowState, content: BroadcastContent): Promise<void> {
+        if (!ctx.chat) return;
+
+        const composed: BroadcastContent = { format: 'plain', buttons: [], ...content };
+        await this.broadcastState.set(ctx.chat.id, { ...state, step: 'compose', content: composed, previewed: false });
+        const { text, keyboard } = this.buildComposePanel(ctx, composed);
+        await ctx.reply(text, keyboard);
+    }
+
+    private async handleComposeChange(ctx: Context, change: (content: BroadcastContent) => void): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state = await this.broadcastState.get(ctx.chat.id);
+        if (!state || !state.content || (state.step !== 'compose' && state.step !== 'schedule') || !(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            await ctx.reply(this.t(ctx, 'broadcast.expired'));
+            return;
+        }
+
+        change(state.content);
+        await this.broadcastState.set(ctx.chat.id, { ...state, step: 'compose', previewed: false });
+        const { text, keyboard } = this.buildComposePanel(ctx, state.content);
+        try {
+            await ctx.editMessageText(text, keyboard);
+        } catch (error) {
+            const err = error as Error;
+            logger.debug('Failed to update broadcast compose panel', { message: err.message });
+        }
+    }
+
+    private buildComposePanel(ctx: Context, content: BroadcastContent) {
+        const format = content.format ?? 'plain';
+        const buttons = content.buttons ?? [];
+        const selected = (label: string, isSelected: boolean) => (isSelected ? `✅ ${label}` : label);
+
+        const text = this.t(ctx, 'broadcast.compose', {
+            format: this.t(ctx, BroadcastModule.FORMAT_LABELS[format]),
+            buttons: buttons.length > 0
+                ? buttons.map(button => this.t(ctx, BroadcastModule.BUTTON_LABELS[button])).join(', ')
+                : this.t(ctx, 'broadcast.buttons_none')
+        });
+        const keyboard = Markup.inlineKeyboard([
+            (Object.keys(BroadcastModule.FORMAT_LABELS) as BroadcastFormat[]).map(option =>
+                Markup.button.callback(
+                    selected(this.t(ctx, BroadcastModule.FORMAT_LABELS[option]), option === format),
+                    `${BroadcastModule.FORMAT_ACTION_PREFIX}:${option}`
+                )
+            ),
+            (Object.keys(BroadcastModule.BUTTON_LABELS) as BroadcastButton[]).map(option =>
+                Markup.button.callback(
+                    selected(this.t(ctx, BroadcastModule.BUTTON_LABELS[option]), buttons.includes(option)),
+                    `${BroadcastModule.BUTTON_ACTION_PREFIX}:${option}`
+                )
+            ),
+            [
+                Markup.button.callback(this.t(ctx, 'broadcast.preview_button'), BroadcastModule.PREVIEW_ACTION),
+                Markup.button.callback(this.t(ctx, 'common.cancel'), BroadcastModule.BROADCAST_ACTION_CANCEL)
+            ]
+        ]);
+        return { text, keyboard };
+    }
+
+    /**
+     * Send the broadcast to the admin exactly as recipients will get it, so Telegram validates the formatting first
+     */
+    private async handlePreview(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state = await this.broadcastState.get(ctx.chat.id);
+        if (!state || !state.segment || !state.content || !(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            await ctx.reply(this.t(ctx, 'broadcast.expired'));
+            await this.broadcastState.delete(ctx.chat.id);
+            return;
+        }
+
+        try {
+            await this.services.broadcastManager.sendContent(ctx.chat.id, state.content);
+        } catch (error) {
+            const err = error as Error;
+            await ctx.reply(this.t(ctx, 'broadcast.preview_failed', { message: err.message }));
+            return;
+        }
+
+        await this.broadcastState.set(ctx.chat.id, { ...state, step: 'compose', previewed: true });
+        const recipientCount = await this.services.broadcastManager.countRecipients(state.segment);
+        await ctx.reply(
+            this.t(ctx, 'broadcast.preview', {
+                audience: this.describeSegment(this.getLocale(ctx), state.segment),
+                recipientCount
+            }),
+            Markup.inlineKeyboard([
+                [
+                    Markup.button.callback(this.t(ctx, 'broadcast.send_button'), BroadcastModule.BROADCAST_ACTION_CONFIRM),
+                    Markup.button.callback(this.t(ctx, 'broadcast.schedule_button'), BroadcastModule.BROADCAST_ACTION_SCHEDULE)
+                ],
+                [Markup.button.callback(this.t(ctx, 'common.cancel'), BroadcastModule.BROADCAST_ACTION_CANCEL)]
+            ])
+        );
+    }
+
+    /**
+     * The flow state when the broadcast is ready to send or schedule; otherwise tells the admin why not
+     */
+    private async getPreviewedState(ctx: Context): Promise<BroadcastFlowState | null> {
+        if (!ctx.chat) return null;
+
+        const state = await this.broadcastState.get(ctx.chat.id);
+        if (!state || !state.segment || !state.content || !(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            await ctx.reply(this.t(ctx, 'broadcast.expired'));
+            await this.broadcastState.delete(ctx.chat.id);
+            return null;
+        }
+        if (!state.previewed) {
+            await ctx.reply(this.t(ctx, 'broadcast.preview_required'));
+            return null;
+        }
+        return state;
+    }
+
+    private async handleBroadcastConfirm(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state = await this.getPreviewedState(ctx);
+        if (!state || !state.segment || !state.content) return;
+
+        await this.broadcastState.delete(ctx.chat.id);
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'broadcast.queued'));
+        const sent = await ctx.reply(this.t(ctx, 'broadcast.progress_waiting'));
+        const progressMessage: BroadcastProgressMessage = { chatId: ctx.chat.id, messageId: sent.message_id };
+
+        try {
+            await this.services.broadcastManager.createBroadcast(ctx.chat.id, state.segment, state.content, { progressMessage });
+        } catch (error) {
+            const err = error as Error;
+            logger.error('Broadcast failed', { message: err.message, stack: err.stack });
+            await this.editProgressMessage(progressMessage, this.t(ctx, 'broadcast.failed', { message: err.message }));
+            return;
+        }
+
+        this.triggerDispatch();
+    }
+
+    private async handleScheduleStart(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state = await this.getPreviewedState(ctx);
+        if (!state) return;
+
+        state.step = 'schedule';
+        await this.broadcastState.set(ctx.chat.id, state);
+        await ctx.reply(this.t(ctx, 'broadcast.prompt_schedule', { example: this.scheduleExample() }));
+    }
+
+    private async handleScheduleText(ctx: Context, state: BroadcastFlowState, text: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!state.segment || !state.content || !state.previewed) {
+            await this.broadcastState.delete(ctx.chat.id);
+            await ctx.reply(this.t(ctx, 'broadcast.expired'));
+            return;
+        }
+
+        const scheduledFor = this.parseSchedule(text);
+        if (!scheduledFor) {
+            await ctx.reply(this.t(ctx, 'broadcast.invalid_schedule', { example: this.scheduleExample() }));
+            return;
+        }
+
+        let broadcast: BroadcastLog;
+        try {
+            broadcast = await this.services.broadcastManager.createBroadcast(ctx.chat.id, state.segment, state.content, { scheduledFor });
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'broadcast.invalid_schedule'));
+            return;
+        }
+
+        await this.broadcastState.delete(ctx.chat.id);
+        await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'schedule_broadcast', broadcast.broadcastId, {
+            segment: state.segment,
+            scheduledFor: scheduledFor.toISOString()
+        });
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'broadcast.scheduled', {
+            broadcastId: broadcast.broadcastId,
+            scheduledFor: this.formatTimestamp(scheduledFor)
+        }));
+    }
+
+    private async handleBroadcastCancelAction(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        await this.broadcastState.delete(ctx.chat.id);
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'broadcast.cancelled'));
+    }
+
+    private async handleCallToAction(ctx: Context, button: BroadcastButton): Promise<void> {
+        if (!ctx.chat) return;
+
+        if (button === 'start_counseling') {
+            await this.matchingModule.startCounselingFlow(ctx);
+            return;
+        }
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        if (await this.services.sessionManager.getActiveSessionForUser(userId)) {
+            await this.replyWithMenu(ctx, 'IN_SESSION', this.t(ctx, 'menu.active_session_notice'));
+            return;
+        }
+        await this.prayerModule.startPrayerSubmission(ctx);
+    }
+
+    private async handleBroadcastList(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            logger.warn('Unauthorized broadcasts access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'broadcast.not_authorized'));
+            return;
+        }
+
+        const locale = this.getLocale(ctx);
+        const [scheduled, recent] = await Promise.all([
+            this.services.broadcastManager.getScheduledBroadcasts(),
+            this.services.broadcastManager.getRecentBroadcasts(BroadcastModule.RECENT_BROADCASTS)
+        ]);
+
+        if (scheduled.length === 0) {
+            await ctx.reply(this.t(ctx, 'broadcast.list_scheduled_none'));
+        } else {
+            await ctx.reply(this.t(ctx, 'broadcast.list_scheduled_header', { count: scheduled.length }));
+            for (const broadcast of scheduled) {
+                await ctx.reply(
+                    this.t(ctx, 'broadcast.list_scheduled_item', {
+                        broadcastId: broadcast.broadcastId,
+                        scheduledFor: broadcast.scheduledFor ? this.formatTimestamp(broadcast.scheduledFor) : '',
+                        audience: this.describeBroadcastAudience(locale, broadcast),
+                        message: this.trimText(broadcast.message, 300)
+                    }),
+                    Markup.inlineKeyboard([
+                        Markup.button.callback(
+                            this.t(ctx, 'broadcast.cancel_button'),
+                            `${BroadcastModule.CANCEL_SCHEDULED_ACTION_PREFIX}:${broadcast.broadcastId}`
+                        )
+                    ])
+                );
+            }
+        }
+
+        if (recent.length === 0) return;
+
+        await ctx.reply(this.t(ctx, 'broadcast.list_recent_header'));
+        for (const broadcast of recent) {
+            const date = broadcast.sentAt ?? broadcast.cancelledAt ?? broadcast.createdAt;
+            await ctx.reply(
+                this.t(ctx, 'broadcast.list_recent_item', {
+                    broadcastId: broadcast.broadcastId,
+                    status: this.t(ctx, BroadcastModule.STATUS_LABELS[broadcast.status ?? 'sent']),
+                    date: date ? this.formatTimestamp(date) : '',
+                    audience: this.describeBroadcastAudience(locale, broadcast),
+                    successCount: broadcast.successCount,
+                    failedCount: broadcast.failedCount,
+                    unreachableCount: broadcast.unreachableCount ?? 0
+                }),
+                broadcast.status === 'cancelled'
+                    ? undefined
+                    : Markup.inlineKeyboard([
+                        Markup.button.callback(
+                            this.t(ctx, 'broadcast.report_button'),
+                            `${BroadcastModule.REPORT_ACTION_PREFIX}:${broadcast.broadcastId}`
+                        )
+                    ])
+            );
+        }
+    }
+
+    private async handleCancelScheduled(ctx: Context, broadcastId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            logger.warn('Unauthorized broadcast cancel', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'broadcast.not_authorized'));
+            return;
+        }
+
+        const cancelled = await this.services.broadcastManager.cancelBroadcast(broadcastId, ctx.chat.id);
+        if (!cancelled) {
+            await ctx.reply(this.t(ctx, 'broadcast.cancel_unavailable'));
+            return;
+        }
+
+        await this.services.auditLogManager.recordAdminAction(ctx.chat.id.toString(), 'cancel_broadcast', broadcastId);
+        await ctx.reply(this.t(ctx, 'broadcast.schedule_cancelled', { broadcastId }));
+    }
+
+    private async handleDeliveryReport(ctx: Context, broadcastId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'broadcast'))) {
+            logger.warn('Unauthorized broadcast report access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'broadcast.not_authorized'));
+            return;
+        }
+
+        const broadcast = await this.services.broadcastManager.getBroadcast(broadcastId);
+        if (!broadcast) {
+            await ctx.reply(this.t(ctx, 'broadcast.not_found'));
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, 'broadcast.report', {
+            broadcastId,
+            status: this.t(ctx, BroadcastModule.STATUS_LABELS[broadcast.status ?? 'sent']),
+            audience: this.describeBroadcastAudience(this.getLocale(ctx), broadcast),
+            successCount: broadcast.successCount,
+            failedCount: broadcast.failedCount,
+            unreachableCount: broadcast.unreachableCount ?? 0
+        }));
+
+        const failures = await this.services.broadcastManager.getFailedDeliveries(broadcastId, BroadcastModule.REPORT_FAILURE_LIMIT);
+        if (failures.length === 0) return;
+
+        await ctx.reply(this.t(ctx, 'broadcast.report_failures', {
+            count: failures.length,
+            lines: failures.map(failure => `${failure.chatId}: ${this.trimText(failure.error ?? '', 120)}`).join('\n')
+        }));
+    }
+
+    /**
+     * Start the delivery worker unless it is already running; a running worker keeps claiming until nothing is due
+     */
+    private triggerDispatch(): void {
+        if (this.dispatching) return;
+
+        this.dispatching = this.dispatchBroadcasts()
+            .catch(error => {
+                const err = error as Error;
+                logger.error('Broadcast delivery failed', { message: err.message, stack: err.stack });
+            })
+            .finally(() => {
+                this.dispatching = null;
+            });
+    }
+
+    private async dispatchBroadcasts(): Promise<void> {
+        while (!this.stopping) {
+            const broadcast = await this.services.broadcastManager.claimNextBroadcast();
+            if (!broadcast) return;
+
+            const progressMessage = broadcast.progressMessage ?? await this.sendProgressMessage(broadcast);
+            const result = await this.services.broadcastManager.deliverBroadcast(broadcast, {
+                onProgress: progress => this.reportProgress(broadcast, progressMessage, 'broadcast.progress', progress),
+                shouldStop: () => this.stopping
+            });
+            await this.reportProgress(
+                broadcast,
+                progressMessage,
+                result.completed ? 'broadcast.progress_done' : 'broadcast.progress_paused',
+                result
+            );
+        }
+    }
+
+    /**
+     * Scheduled broadcasts start without an admin in the chat, so post a message for the progress updates
+     */
+    private async sendProgressMessage(broadcast: BroadcastLog): Promise<BroadcastProgressMessage | null> {
+        const chatId = parseInt(broadcast.sentByAdminId, 10);
+        try {
+            const sent = await this.services.bot.telegram.sendMessage(
+                chatId,
+                await this.tForChat(chatId, 'broadcast.progress_waiting')
+            );
+            const progressMessage = { chatId, messageId: sent.message_id };
+            await this.services.broadcastManager.setProgressMessage(broadcast.broadcastId, progressMessage);
+            return progressMessage;
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to post broadcast progress message', { broadcastId: broadcast.broadcastId, message: err.message });
+            return null;
+        }
+    }
+
+    private async reportProgress(
+        broadcast: BroadcastLog,
+        progressMessage: BroadcastProgressMessage | null,
+        key: MessageKey,
+        progress: BroadcastProgress
+    ): Promise<void> {
+        if (!progressMessage) return;
+
+        await this.editProgressMessage(progressMessage, await this.tForChat(progressMessage.chatId, key, {
+            broadcastId: broadcast.broadcastId,
+            processed: progress.successCount + progress.failedCount + progress.unreachableCount,
+            recipientCount: progress.recipientCount,
+            successCount: progress.successCount,
+            failedCount: progress.failedCount,
+            unreachableCount: progress.unreachableCount
+        }));
+    }
+
+    private async editProgressMessage(progressMessage: BroadcastProgressMessage, text: string): Promise<void> {
+        try {
+            await this.services.bot.telegram.editMessageText(progressMessage.chatId, progressMessage.messageId, undefined, text);
+        } catch (error) {
+            // Progress is cosmetic; a deleted message or an unchanged text must not stop delivery
+            const err = error as Error;
+            logger.debug('Failed to update broadcast progress message', { message: err.message });
+        }
+    }
+
+    private describeBroadcastAudience(locale: Locale, broadcast: BroadcastLog): string {
+        return broadcast.segment
+            ? this.describeSegment(locale, broadcast.segment)
+            : translate(locale, BroadcastModule.TARGET_LABELS[broadcast.targetGroup]);
+    }
+
+    private describeSegment(locale: Locale, segment: BroadcastSegment): string {
+        switch (segment.type) {
+            case 'counselor_language':
+                return translate(locale, 'broadcast.audience_counselor_language', { language: segment.language });
+            case 'counselor_domain':
+                return translate(locale, 'broadcast.audience_counselor_domain', { domain: segment.domain });
+            case 'active_users':
+                return translate(locale, 'broadcast.audience_active_users', { days: segment.days });
+            default:
+                return translate(locale, BroadcastModule.TARGET_LABELS[segment.type]);
+        }
+    }
+
+    /**
+     * Read "YYYY-MM-DD HH:MM" as UTC; null when the text is not a real date and time
+     */
+    private parseSchedule(text: string): Date | null {
+        const match = BroadcastModule.SCHEDULE_PATTERN.exec(text);
+        if (!match) return null;
+
+        const [year, month, day, hour, minute] = match.slice(1).map(part => parseInt(part, 10));
+        const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+        const valid = date.getUTCFullYear() === year
+            && date.getUTCMonth() === month - 1
+            && date.getUTCDate() === day
+            && date.getUTCHours() === hour
+            && date.getUTCMinutes() === minute;
+        return valid ? date : null;
+    }
+
+    private scheduleExample(): string {
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        return `${tomorrow.toISOString().slice(0, 10)} 09:00`;
+    }
+}
@@ -0,0 +1,194 @@
+import { Telegraf, Context } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { AdminModule } from './AdminModule';
+import { MAX_CONCURRENT_SESSIONS_LIMIT } from '../../managers/CounselorManager';
+import { CounselorProfileUpdate } from '../../types/Counselor';
+import { logger } from '../../utils/logger';
+
+// Counselor self-service: availability, capacity, personal statistics and the public profile users see
+export class CounselorModule extends BotModule {
+    constructor(services: BotServices) {
+        super(services);
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.STATUS_AVAILABLE), async ctx => this.updateCounselorStatus(ctx, 'available'));
+
+        bot.hears(BotMenu.labels(BotMenu.STATUS_AWAY), async ctx => this.updateCounselorStatus(ctx, 'away'));
+
+        bot.hears(BotMenu.labels(BotMenu.MY_STATS), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleMyStats(ctx);
+        });
+
+        bot.command('available', async ctx => this.updateCounselorStatus(ctx, 'available'));
+
+        bot.command('away', async ctx => this.updateCounselorStatus(ctx, 'away'));
+
+        bot.command('capacity', async ctx => {
+            if (!ctx.chat) return;
+            const capacityArg = this.extractCommandText(ctx.message?.text, 'capacity');
+            await this.handleCapacity(ctx, capacityArg);
+        });
+
+        bot.command('my_stats', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleMyStats(ctx);
+        });
+
+        bot.command('profile', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleProfile(ctx);
+        });
+
+        bot.command('set_alias', async ctx => {
+            if (!ctx.chat) return;
+            const alias = this.extractCommandText(ctx.message?.text, 'set_alias');
+            await this.handleProfileUpdate(ctx, 'alias', alias);
+        });
+
+        bot.command('set_bio', async ctx => {
+            if (!ctx.chat) return;
+            const bio = this.extractCommandText(ctx.message?.text, 'set_bio');
+            await this.handleProfileUpdate(ctx, 'bio', bio);
+        });
+    }
+
+    private async updateCounselorStatus(ctx: Context, status: 'available' | 'busy' | 'away'): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor) {
+            await ctx.reply(this.t(ctx, 'counselor.not_registered'));
+            return;
+        }
+
+        if (!counselor.isApproved || counselor.isSuspended) {
+            logger.warn('Unauthorized counselor status update', { chatId: ctx.chat.id, counselorId: counselor.id });
+            await ctx.reply(this.t(ctx, 'counselor.status_not_approved'));
+            return;
+        }
+
+        await this.services.counselorManager.setAvailability(counselor.id, status, ctx.chat.id.toString());
+        await ctx.reply(this.t(ctx, 'counselor.status_updated', { status: this.t(ctx, `counselor.status_${status}`) }));
+    }
+
+    private async handleMyStats(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'counselor.stats_not_approved'));
+            return;
+        }
+
+        const stats = await this.services.statisticsManager.getCounselorStats(counselor.id);
+        const capacity = this.services.counselorManager.getSessionCapacity(counselor) ?? 1;
+        await ctx.reply(this.t(ctx, 'counselor.stats', {
+            completed: stats.totalSessionsCompleted,
+            active: stats.activeSessions,
+            capacity,
+            averageDuration: stats.averageSessionDuration,
+            peakHours: stats.peakUsageHours.join(', ') || this.t(ctx, 'common.not_available')
+        }));
+    }
+
+    private async handleCapacity(ctx: Context, capacityArg?: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'counselor.capacity_not_approved'));
+            return;
+        }
+
+        if (!capacityArg) {
+            const capacity = this.services.counselorManager.getSessionCapacity(counselor);
+            await ctx.reply(this.t(ctx, 'counselor.capacity_current', { capacity, maxCapacity: MAX_CONCURRENT_SESSIONS_LIMIT }));
+            return;
+        }
+
+        const capacity = Number.parseInt(capacityArg, 10);
+        try {
+            await this.services.counselorManager.setMaxConcurrentSessions(counselor.id, capacity);
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'common.generic_error'));
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, 'counselor.capacity_updated', { capacity }));
+    }
+
+    private async handleProfile(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor) {
+            await ctx.reply(this.t(ctx, 'counselor.not_registered'));
+            return;
+        }
+
+        const profile = await this.services.counselorManager.getPublicProfile(counselor.id);
+        const lines = [
+            this.t(ctx, 'counselor.profile', {
+                alias: profile?.alias ?? this.t(ctx, 'common.not_available'),
+                bio: profile?.bio ?? this.t(ctx, 'common.not_available')
+            })
+        ];
+        if (counselor.pendingProfileUpdate) {
+            lines.push(this.t(ctx, 'counselor.profile_pending', {
+                alias: counselor.pendingProfileUpdate.alias ?? this.t(ctx, 'admin.profile_unchanged'),
+                bio: counselor.pendingProfileUpdate.bio ?? this.t(ctx, 'admin.profile_unchanged')
+            }));
+        }
+
+        await ctx.reply(lines.join('\n\n'));
+    }
+
+    private async handleProfileUpdate(ctx: Context, field: 'alias' | 'bio', value: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor) {
+            await ctx.reply(this.t(ctx, 'counselor.not_registered'));
+            return;
+        }
+
+        if (counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'counselor.profile_suspended'));
+            return;
+        }
+
+        if (!value) {
+            await ctx.reply(this.t(ctx, field === 'alias' ? 'counselor.alias_usage' : 'counselor.bio_usage'));
+            return;
+        }
+
+        let update: CounselorProfileUpdate;
+        try {
+            update = await this.services.counselorManager.requestProfileUpdate(counselor.id, { [field]: value });
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'counselor.profile_update_failed'));
+            return;
+        }
+
+        const currentAlias = counselor.alias ?? (await this.services.counselorManager.getPublicProfile(counselor.id))?.alias;
+        for (const adminChatId of await this.services.adminManager.getChatIdsWithPermission('review_content')) {
+            try {
+                const locale = await this.getChatLocale(adminChatId);
+                await this.services.bot.telegram.sendMessage(
+                    adminChatId,
+                    AdminModule.formatProfileReview(locale, counselor.id, currentAlias, update),
+                    AdminModule.buildProfileReviewKeyboard(locale, counselor.id)
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify admin about profile change', { counselorId: counselor.id, message: err.message });
+            }
+        }
+
+        await ctx.reply(this.t(ctx, 'counselor.profile_update_submitted'));
+    }
+}
@@ -0,0 +1,602 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { AdminModule } from './AdminModule';
+import { UserState } from '../../types/User';
+import { translate } from '../../i18n';
+import { logger } from '../../utils/logger';
+import { ConversationStateMap } from '../../state';
+
+type CounselorOnboardingStep =
+    | 'full_name'
+    | 'telegram_username'
+    | 'languages'
+    | 'languages_other'
+    | 'domains'
+    | 'domains_other'
+    | 'experience'
+    | 'country'
+    | 'location'
+    | 'confirm';
+
+interface CounselorOnboardingData {
+    fullName?: string;
+    telegramUsername?: string;
+    languages: string[];
+    domains: string[];
+    yearsExperience?: number;
+    country?: string;
+    location?: string;
+}
+
+interface CounselorOnboardingState {
+    step: CounselorOnboardingStep;
+    data: CounselorOnboardingData;
+}
+
+// Counselor registration: collecting the application and sending it to admins for approval
+export class CounselorOnboardingModule extends BotModule {
+    private static readonly COUNSELOR_ONBOARDING_LANG_ACTION_PREFIX = 'co_lang';
+    private static readonly COUNSELOR_ONBOARDING_DOMAIN_ACTION_PREFIX = 'co_dom';
+    private static readonly COUNSELOR_ONBOARDING_LANG_DONE = 'co_lang_done';
+    private static readonly COUNSELOR_ONBOARDING_DOMAIN_DONE = 'co_dom_done';
+    private static readonly COUNSELOR_ONBOARDING_BACK = 'co_back';
+    private static readonly COUNSELOR_ONBOARDING_CANCEL = 'co_cancel';
+    private static readonly COUNSELOR_ONBOARDING_CONFIRM = 'co_confirm';
+
+    private counselorOnboardingState: ConversationStateMap<CounselorOnboardingState>;
+
+    constructor(services: BotServices) {
+        super(services);
+        this.counselorOnboardingState = this.createStateMap('counselor_onboarding');
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.REGISTER_COUNSELOR), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleRegisterCounselor(ctx);
+        });
+
+        bot.action(new RegExp(`^${CounselorOnboardingModule.COUNSELOR_ONBOARDING_LANG_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const language = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleCounselorOnboardingLanguageSelect(ctx, language);
+        });
+
+        bot.action(new RegExp(`^${CounselorOnboardingModule.COUNSELOR_ONBOARDING_DOMAIN_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const domain = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleCounselorOnboardingDomainSelect(ctx, domain);
+        });
+
+        bot.action(CounselorOnboardingModule.COUNSELOR_ONBOARDING_LANG_DONE, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCounselorOnboardingLanguagesDone(ctx);
+        });
+
+        bot.action(CounselorOnboardingModule.COUNSELOR_ONBOARDING_DOMAIN_DONE, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCounselorOnboardingDomainsDone(ctx);
+        });
+
+        bot.action(CounselorOnboardingModule.COUNSELOR_ONBOARDING_BACK, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCounselorOnboardingBack(ctx);
+        });
+
+        bot.action(CounselorOnboardingModule.COUNSELOR_ONBOARDING_CANCEL, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCounselorOnboardingCancel(ctx);
+        });
+
+        bot.action(CounselorOnboardingModule.COUNSELOR_ONBOARDING_CONFIRM, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCounselorOnboardingConfirm(ctx);
+        });
+
+        bot.command('register_counselor', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleRegisterCounselor(ctx);
+        });
+    }
+
+    async handleText(ctx: Context, text: string, state: UserState): Promise<boolean> {
+        if (state !== 'COUNSELOR_ONBOARDING') {
+            return false;
+        }
+
+        await this.handleCounselorOnboardingText(ctx, text);
+        return true;
+    }
+
+    private async handleRegisterCounselor(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const existing = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (existing) {
+            const statusMessage = existing.isApproved
+                ? this.t(ctx, 'onboarding.already_registered')
+                : this.t(ctx, 'onboarding.already_pending');
+            await ctx.reply(`${statusMessage} ${this.t(ctx, 'onboarding.counselor_id', { counselorId: existing.id })}`);
+            return;
+        }
+
+        await this.startCounselorOnboarding(ctx);
+    }
+
+    private async startCounselorOnboarding(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const telegramUsername = ctx.from?.username?.trim();
+        const data: CounselorOnboardingData = {
+            languages: [],
+            domains: []
+        };
+        if (telegramUsername && telegramUsername.length > 0) {
+            data.telegramUsername = telegramUsername;
+        }
+
+        const state: CounselorOnboardingState = {
+            step: 'full_name',
+            data
+        };
+
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'COUNSELOR_ONBOARDING');
+        await this.promptCounselorOnboardingStep(ctx, state);
+    }
+
+    private async handleCounselorOnboardingText(ctx: Context, text: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state = await this.counselorOnboardingState.get(ctx.chat.id);
+        if (!state) {
+            await this.startCounselorOnboarding(ctx);
+            return;
+        }
+
+        const trimmed = text.trim();
+
+        switch (state.step) {
+            case 'full_name':
+                if (!trimmed) {
+                    await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.prompt_full_name'));
+                    return;
+                }
+                state.data.fullName = trimmed;
+                state.step = 'telegram_username';
+                if (state.data.telegramUsername) {
+                    const username = this.formatTelegramUsername(state.data.telegramUsername);
+                    state.step = 'languages';
+                    await this.promptCounselorOnboardingStep(
+                        ctx,
+                        state,
+                        this.t(ctx, 'onboarding.username_detected', { username })
+                    );
+                } else {
+                    await this.promptCounselorOnboardingStep(ctx, state);
+                }
+                return;
+            case 'telegram_username':
+                if (!trimmed) {
+                    await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.prompt_username'));
+                    return;
+                }
+                state.data.telegramUsername = this.normalizeTelegramUsername(trimmed);
+                state.step = 'languages';
+                await this.promptCounselorOnboardingStep(ctx, state);
+                return;
+            case 'languages_other':
+                if (!trimmed) {
+                    await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.language_empty'));
+                    return;
+                }
+                this.addUniqueSelection(state.data.languages, trimmed);
+                state.step = 'languages';
+                await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'matching.language_added', { language: trimmed }));
+                return;
+            case 'domains_other':
+                if (!trimmed) {
+                    await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.domain_empty'));
+                    return;
+                }
+                this.addUniqueSelection(state.data.domains, trimmed);
+                state.step = 'domains';
+                await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.domain_added', { domain: trimmed }));
+                return;
+            case 'experience': {
+                const years = Number.parseInt(trimmed, 10);
+                if (!Number.isFinite(years) || years <= 0) {
+                    await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.experience_invalid'));
+                    return;
+                }
+                state.data.yearsExperience = years;
+                state.step = 'country';
+                await this.promptCounselorOnboardingStep(ctx, state);
+                return;
+            }
+            case 'country':
+                if (!trimmed) {
+                    await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.prompt_country'));
+                    return;
+                }
+                state.data.country = trimmed;
+                state.step = 'location';
+                await this.promptCounselorOnboardingStep(ctx, state);
+                return;
+            case 'location':
+                if (!trimmed) {
+                    await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.prompt_location'));
+                    return;
+                }
+                state.data.location = trimmed;
+                state.step = 'confirm';
+                await this.promptCounselorOnboardingStep(ctx, state);
+                return;
+            case 'languages':
+            case 'domains':
+            case 'confirm':
+                await ctx.reply(this.t(ctx, 'common.use_buttons'));
+                return;
+            default:
+                await this.promptCounselorOnboardingStep(ctx, state);
+        }
+    }
+
+    private async handleCounselorOnboardingLanguageSelect(ctx: Context, language: string): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.counselorOnboardingState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (language === 'Other') {
+            state.step = 'languages_other';
+            await this.promptCounselorOnboardingStep(ctx, state);
+            return;
+        }
+
+        this.toggleSelection(state.data.languages, language);
+        state.step = 'languages';
+        await this.promptCounselorOnboardingStep(ctx, state);
+    }
+
+    private async handleCounselorOnboardingDomainSelect(ctx: Context, domain: string): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.counselorOnboardingState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (domain === 'Other') {
+            state.step = 'domains_other';
+            await this.promptCounselorOnboardingStep(ctx, state);
+            return;
+        }
+
+        this.toggleSelection(state.data.domains, domain);
+        state.step = 'domains';
+        await this.promptCounselorOnboardingStep(ctx, state);
+    }
+
+    private async handleCounselorOnboardingLanguagesDone(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.counselorOnboardingState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (state.data.languages.length === 0) {
+            state.step = 'languages';
+            await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'common.select_one_language'));
+            return;
+        }
+
+        state.step = 'domains';
+        await this.promptCounselorOnboardingStep(ctx, state);
+    }
+
+    private async handleCounselorOnboardingDomainsDone(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.counselorOnboardingState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (state.data.domains.length === 0) {
+            state.step = 'domains';
+            await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'onboarding.select_one_domain'));
+            return;
+        }
+
+        state.step = 'experience';
+        await this.promptCounselorOnboardingStep(ctx, state);
+    }
+
+    private async handleCounselorOnboardingBack(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.counselorOnboardingState.get(ctx.chat.id);
+        if (!state) return;
+
+        switch (state.step) {
+            case 'languages_other':
+                state.step = 'languages';
+                break;
+            case 'domains_other':
+                state.step = 'domains';
+                break;
+            case 'confirm':
+                state.step = 'location';
+                break;
+            case 'location':
+                state.step = 'country';
+                break;
+            case 'country':
+                state.step = 'experience';
+                break;
+            case 'experience':
+                state.step = 'domains';
+                break;
+            case 'domains':
+                state.step = 'languages';
+                break;
+            case 'languages':
+                state.step = 'telegram_username';
+                break;
+            case 'telegram_username':
+                state.step = 'full_name';
+                break;
+            case 'full_name':
+                await this.promptCounselorOnboardingStep(ctx, state, this.t(ctx, 'common.first_step'));
+                return;
+            default:
+                state.step = 'full_name';
+        }
+
+        await this.promptCounselorOnboardingStep(ctx, state);
+    }
+
+    private async handleCounselorOnboardingCancel(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        await this.counselorOnboardingState.delete(ctx.chat.id);
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'onboarding.canceled'));
+    }
+
+    private async handleCounselorOnboardingConfirm(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state = await this.counselorOnboardingState.get(ctx.chat.id);
+        if (!state) return;
+
+        const existing = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (existing) {
+            await this.counselorOnboardingState.delete(ctx.chat.id);
+            await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'onboarding.already_registered'));
+            return;
+        }
+
+        const { fullName, telegramUsername, languages, domains, yearsExperience, country, location } = state.data;
+        if (!fullName || !telegramUsername || languages.length === 0 || domains.length === 0 || !yearsExperience || !country || !location) {
+            await this.counselorOnboardingState.delete(ctx.chat.id);
+            await ctx.reply(this.t(ctx, 'onboarding.restarted'));
+            await this.startCounselorOnboarding(ctx);
+            return;
+        }
+
+        const counselorId = await this.services.counselorManager.createCounselor(ctx.chat.id, {
+            fullName,
+            telegramUsername,
+            languagesSpoken: languages,
+            domainExpertise: domains,
+            yearsExperience,
+            country,
+            location
+        });
+
+        const alias = (await this.services.counselorManager.getPublicProfile(counselorId))?.alias
+            ?? this.t(ctx, 'common.not_available');
+        const applicationParams = {
+            counselorId,
+            alias,
+            fullName,
+            telegram: this.formatTelegramUsername(telegramUsername),
+            languages: languages.join(', '),
+            domains: domains.join(', '),
+            experience: yearsExperience,
+            country,
+            location
+        };
+
+        for (const adminChatId of await this.services.adminManager.getChatIdsWithPermission('approve_counselors')) {
+            try {
+                const locale = await this.getChatLocale(adminChatId);
+                await this.services.bot.telegram.sendMessage(
+                    adminChatId,
+                    translate(locale, 'onboarding.admin_application', applicationParams),
+                    Markup.inlineKeyboard([
+                        Markup.button.callback(
+                            translate(locale, BotMenu.APPROVE_COUNSELOR),
+                            `${AdminModule.APPROVE_COUNSELOR_ACTION_PREFIX}:${counselorId}`
+                        )
+                    ])
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify admin about counselor application', {
+                    counselorId,
+                    message: err.message
+                });
+            }
+        }
+
+        await this.counselorOnboardingState.delete(ctx.chat.id);
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+        await this.replyWithMenu(
+            ctx,
+            'IDLE',
+            this.t(ctx, 'onboarding.submitted', { counselorId, alias })
+        );
+    }
+
+    /**
+     * Save the onboarding state and prompt for its current step
+     */
+    private async promptCounselorOnboardingStep(
+        ctx: Context,
+        state: CounselorOnboardingState,
+        message?: string
+    ): Promise<void> {
+        if (!ctx.chat) return;
+
+        await this.counselorOnboardingState.set(ctx.chat.id, state);
+
+        switch (state.step) {
+            case 'full_name': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_full_name');
+                await ctx.reply(text, Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+                return;
+            }
+            case 'telegram_username': {
+                const current = state.data.telegramUsername
+                    ? this.t(ctx, 'onboarding.current_value', { value: this.formatTelegramUsername(state.data.telegramUsername) })
+                    : undefined;
+                const text = message ?? [
+                    this.t(ctx, 'onboarding.prompt_username'),
+                    current ? current : ''
+                ].filter(Boolean).join('\n');
+                await ctx.reply(text, Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+                return;
+            }
+            case 'languages': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_languages');
+                await ctx.reply(
+                    text,
+                    this.buildOnboardingMultiSelectKeyboard(
+                        ctx,
+                        BotMenu.COUNSELOR_LANGUAGES,
+                        state.data.languages,
+                        CounselorOnboardingModule.COUNSELOR_ONBOARDING_LANG_ACTION_PREFIX,
+                        CounselorOnboardingModule.COUNSELOR_ONBOARDING_LANG_DONE
+                    )
+                );
+                return;
+            }
+            case 'languages_other': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_language_other');
+                await ctx.reply(text, Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+                return;
+            }
+            case 'domains': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_domains');
+                await ctx.reply(
+                    text,
+                    this.buildOnboardingMultiSelectKeyboard(
+                        ctx,
+                        BotMenu.COUNSELOR_DOMAINS,
+                        state.data.domains,
+                        CounselorOnboardingModule.COUNSELOR_ONBOARDING_DOMAIN_ACTION_PREFIX,
+                        CounselorOnboardingModule.COUNSELOR_ONBOARDING_DOMAIN_DONE
+                    )
+                );
+                return;
+            }
+            case 'domains_other': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_domain_other');
+                await ctx.reply(text, Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+                return;
+            }
+            case 'experience': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_experience');
+                await ctx.reply(text, Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+                return;
+            }
+            case 'country': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_country');
+                await ctx.reply(text, Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+                return;
+            }
+            case 'location': {
+                const text = message ?? this.t(ctx, 'onboarding.prompt_location');
+                await ctx.reply(text, Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+                return;
+            }
+            case 'confirm': {
+                const summary = this.buildCounselorOnboardingSummary(ctx, state.data);
+                const text = message ?? `${summary}\n\n${this.t(ctx, 'onboarding.confirm_prompt')}`;
+                await ctx.reply(text, this.buildOnboardingConfirmKeyboard(ctx));
+                return;
+            }
+            default:
+                await ctx.reply(this.t(ctx, 'onboarding.continue_application'), Markup.inlineKeyboard(this.buildOnboardingNavButtons(ctx)));
+        }
+    }
+
+    private buildOnboardingNavButtons(ctx: Context, includeBack = true): Array<ReturnType<typeof Markup.button.callback>[]> {
+        const row: ReturnType<typeof Markup.button.callback>[] = [];
+        if (includeBack) {
+            row.push(Markup.button.callback(this.t(ctx, 'common.back'), CounselorOnboardingModule.COUNSELOR_ONBOARDING_BACK));
+        }
+        row.push(Markup.button.callback(this.t(ctx, 'common.cancel'), CounselorOnboardingModule.COUNSELOR_ONBOARDING_CANCEL));
+        return [row];
+    }
+
+    private buildOnboardingMultiSelectKeyboard(
+        ctx: Context,
+        options: string[],
+        selected: string[],
+        togglePrefix: string,
+        doneAction: string
+    ) {
+        const rows: Array<ReturnType<typeof Markup.button.callback>[]> = [];
+        const selectedSet = new Set(selected);
+
+        for (let i = 0; i < options.length; i += 2) {
+            const left = options[i];
+            const right = options[i + 1];
+            const row: ReturnType<typeof Markup.button.callback>[] = [];
+            const leftLabel = selectedSet.has(left) ? `✅ ${left}` : left;
+            row.push(Markup.button.callback(leftLabel, `${togglePrefix}:${left}`));
+            if (right) {
+                const rightLabel = selectedSet.has(right) ? `✅ ${right}` : right;
+                row.push(Markup.button.callback(rightLabel, `${togglePrefix}:${right}`));
+            }
+            rows.push(row);
+        }
+
+        rows.push([Markup.button.callback(this.t(ctx, 'common.done'), doneAction)]);
+        rows.push(...this.buildOnboardingNavButtons(ctx));
+
+        return Markup.inlineKeyboard(rows);
+    }
+
+    private buildOnboardingConfirmKeyboard(ctx: Context) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(this.t(ctx, 'onboarding.submit_button'), CounselorOnboardingModule.COUNSELOR_ONBOARDING_CONFIRM)],
+            ...this.buildOnboardingNavButtons(ctx)
+        ]);
+    }
+
+    private buildCounselorOnboardingSummary(ctx: Context, data: CounselorOnboardingData): string {
+        const missing = this.t(ctx, 'common.not_available');
+        return this.t(ctx, 'onboarding.summary', {
+            fullName: data.fullName ?? missing,
+            telegram: data.telegramUsername ? this.formatTelegramUsername(data.telegramUsername) : missing,
+            languages: data.languages.join(', ') || missing,
+            domains: data.domains.join(', ') || missing,
+            experience: data.yearsExperience ?? missing,
+            country: data.country ?? missing,
+            location: data.location ?? missing
+        });
+    }
+
+    private normalizeTelegramUsername(value: string): string {
+        const trimmed = value.trim();
+        return trimmed.startsWith('@') ? trimmed.slice(1) : trimmed;
+    }
+
+    private formatTelegramUsername(value: string): string {
+        const normalized = this.normalizeTelegramUsername(value);
+        return normalized ? `@${normalized}` : value;
+    }
+}
@@ -0,0 +1,285 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import type { SessionModule } from './SessionModule';
+import type { MatchingModule } from './MatchingModule';
+import { FollowUp } from '../../types/FollowUp';
+import { Session, SessionLogMode } from '../../types/Session';
+import { Locale } from '../../types/Locale';
+import { translate } from '../../i18n';
+import { logger } from '../../utils/logger';
+
+// Anonymous check-ins a counselor schedules after a session ends, and the user's reply to them
+export class FollowUpModule extends BotModule {
+    private static readonly SCHEDULE_ACTION_PREFIX = 'fu_s';
+    private static readonly CANCEL_ACTION_PREFIX = 'fu_x';
+    private static readonly RECONNECT_ACTION_PREFIX = 'fu_r';
+    private static readonly RECONNECT_CONSENT_ACTION_PREFIX = 'fu_ok';
+    private static readonly RECONNECT_NO_LOG_CONSENT_ACTION_PREFIX = 'fu_nolog';
+    private static readonly NEW_SESSION_ACTION_PREFIX = 'fu_n';
+    private static readonly DECLINE_ACTION_PREFIX = 'fu_d';
+    private static readonly DELAY_OPTIONS_DAYS = [1, 3, 7];
+    private static readonly DELIVERY_INTERVAL_MS = 60 * 1000;
+
+    private sessionModule: SessionModule;
+    private matchingModule: MatchingModule;
+    private deliveryInterval: NodeJS.Timeout | null = null;
+    private delivering: Promise<void> = Promise.resolve();
+
+    constructor(services: BotServices, sessionModule: SessionModule, matchingModule: MatchingModule) {
+        super(services);
+        this.sessionModule = sessionModule;
+        this.matchingModule = matchingModule;
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.action(new RegExp(`^${FollowUpModule.SCHEDULE_ACTION_PREFIX}:(.+):(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const match = ctx.match as RegExpMatchArray;
+            await ctx.answerCbQuery();
+            await this.handleSchedule(ctx, match[1], parseInt(match[2], 10));
+        });
+
+        bot.action(new RegExp(`^${FollowUpModule.CANCEL_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCancel(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${FollowUpModule.RECONNECT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleReconnect(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${FollowUpModule.RECONNECT_CONSENT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleReconnectConsent(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${FollowUpModule.RECONNECT_NO_LOG_CONSENT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleReconnectConsent(ctx, (ctx.match as RegExpMatchArray)[1], 'no_log');
+        });
+
+        bot.action(new RegExp(`^${FollowUpModule.NEW_SESSION_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleNewSession(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${FollowUpModule.DECLINE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleDecline(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+    }
+
+    start(): void {
+        const runDelivery = () => this.deliverDueFollowUps();
+        void runDelivery();
+        this.deliveryInterval = setInterval(runDelivery, FollowUpModule.DELIVERY_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.deliveryInterval) {
+            clearInterval(this.deliveryInterval);
+            this.deliveryInterval = null;
+        }
+    }
+
+    /**
+     * Offer the counselor of a just-ended session a follow-up check-in
+     */
+    static buildOfferKeyboard(locale: Locale, sessionId: string) {
+        return Markup.inlineKeyboard([
+            FollowUpModule.DELAY_OPTIONS_DAYS.map(days =>
+                Markup.button.callback(
+                    translate(locale, 'followup.delay_button', { days }),
+                    `${FollowUpModule.SCHEDULE_ACTION_PREFIX}:${sessionId}:${days}`
+                )
+            )
+        ]);
+    }
+
+    private async handleSchedule(ctx: Context, sessionId: string, delayDays: number): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'followup.not_approved'));
+            return;
+        }
+
+        let followUp: FollowUp;
+        try {
+            followUp = await this.services.followUpManager.scheduleFollowUp(sessionId, counselor.id, delayDays);
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'followup.schedule_failed'));
+            return;
+        }
+
+        await ctx.reply(
+            this.t(ctx, 'followup.scheduled', { date: this.formatTimestamp(followUp.scheduledFor) }),
+            Markup.inlineKeyboard([
+                Markup.button.callback(
+                    this.t(ctx, 'followup.cancel_button'),
+                    `${FollowUpModule.CANCEL_ACTION_PREFIX}:${followUp.followUpId}`
+                )
+            ])
+        );
+    }
+
+    private async handleCancel(ctx: Context, followUpId: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        const cancelled = counselor
+            ? await this.services.followUpManager.cancelFollowUp(followUpId, counselor.id)
+            : false;
+        await ctx.reply(this.t(ctx, cancelled ? 'followup.cancelled' : 'followup.cannot_cancel'));
+    }
+
+    /**
+     * Find the delivered, still unanswered check-in addressed to this chat
+     */
+    private async resolvePendingFollowUp(ctx: Context, followUpId: string): Promise<FollowUp | null> {
+        if (!ctx.chat) return null;
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        const followUp = await this.services.followUpManager.getFollowUp(followUpId);
+        if (!user || !followUp || followUp.userId !== user.uuid || followUp.status !== 'delivered') {
+            await ctx.reply(this.t(ctx, 'followup.no_longer_active'));
+            return null;
+        }
+
+        return followUp;
+    }
+
+    private async handleReconnect(ctx: Context, followUpId: string): Promise<void> {
+        const followUp = await this.resolvePendingFollowUp(ctx, followUpId);
+        if (!followUp) return;
+
+        const counselor = await this.getCounselorDisplayName(this.getLocale(ctx), followUp.counselorId);
+        await ctx.reply(
+            `${this.t(ctx, 'matching.consent_counselor', { counselor })}\n\n${this.getConsentDisclosure(ctx)}`,
+            Markup.inlineKeyboard([
+                [Markup.button.callback(
+                    this.t(ctx, 'matching.consent_button'),
+                    `${FollowUpModule.RECONNECT_CONSENT_ACTION_PREFIX}:${followUp.followUpId}`
+                )],
+                [Markup.button.callback(
+                    this.t(ctx, 'matching.consent_no_log_button'),
+                    `${FollowUpModule.RECONNECT_NO_LOG_CONSENT_ACTION_PREFIX}:${followUp.followUpId}`
+                )]
+            ])
+        );
+    }
+
+    private async handleReconnectConsent(ctx: Context, followUpId: string, logMode: SessionLogMode = 'standard'): Promise<void> {
+        if (!ctx.chat) return;
+
+        const followUp = await this.resolvePendingFollowUp(ctx, followUpId);
+        if (!followUp) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ id: followUp.counselorId });
+        if (!counselor || counselor.status === 'away') {
+            await ctx.reply(this.t(ctx, 'followup.counselor_unavailable'), this.buildUnavailableKeyboard(ctx, followUp));
+            return;
+        }
+
+        let session: Session;
+        try {
+            session = await this.services.sessionManager.createSession(followUp.userId, followUp.counselorId, true, logMode);
+        } catch (error) {
+            const err = error as Error;
+            if (err.message.includes('Counselor not available') || err.message.includes('no remaining session capacity')) {
+                await ctx.reply(this.t(ctx, 'followup.counselor_unavailable'), this.buildUnavailableKeyboard(ctx, followUp));
+                return;
+            }
+            await ctx.reply(this.describeError(ctx, error, 'matching.session_start_failed'));
+            return;
+        }
+
+        await this.services.followUpManager.recordResponse(followUp.followUpId, followUp.userId, 'reconnected', session.sessionId);
+        await this.services.queueManager.leaveQueue(followUp.userId);
+        await this.services.userManager.updateUserState(followUp.userId, 'IN_SESSION');
+        await this.sessionModule.notifyCounselorOfNewSession(counselor.telegramChatId, session);
+        await this.replyWithMenu(ctx, 'IN_SESSION', this.t(ctx, 'followup.reconnected', { sessionId: session.sessionId }));
+        await this.sessionModule.introduceCounselorToUser(ctx.chat.id, followUp.counselorId);
+    }
+
+    private async handleNewSession(ctx: Context, followUpId: string): Promise<void> {
+        const followUp = await this.resolvePendingFollowUp(ctx, followUpId);
+        if (!followUp) return;
+
+        await this.services.followUpManager.recordResponse(followUp.followUpId, followUp.userId, 'new_session');
+        await this.matchingModule.startCounselingFlow(ctx);
+    }
+
+    private async handleDecline(ctx: Context, followUpId: string): Promise<void> {
+        const followUp = await this.resolvePendingFollowUp(ctx, followUpId);
+        if (!followUp) return;
+
+        await this.services.followUpManager.recordResponse(followUp.followUpId, followUp.userId, 'declined');
+        await this.resetToMainMenu(ctx, this.t(ctx, 'followup.declined'));
+    }
+
+    private buildUnavailableKeyboard(ctx: Context, followUp: FollowUp) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(this.t(ctx, 'followup.new_session_button'), `${FollowUpModule.NEW_SESSION_ACTION_PREFIX}:${followUp.followUpId}`)],
+            [Markup.button.callback(this.t(ctx, 'followup.decline_button'), `${FollowUpModule.DECLINE_ACTION_PREFIX}:${followUp.followUpId}`)]
+        ]);
+    }
+
+    private buildCheckInKeyboard(locale: Locale, followUpId: string) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(translate(locale, 'followup.reconnect_button'), `${FollowUpModule.RECONNECT_ACTION_PREFIX}:${followUpId}`)],
+            [Markup.button.callback(translate(locale, 'followup.new_session_button'), `${FollowUpModule.NEW_SESSION_ACTION_PREFIX}:${followUpId}`)],
+            [Markup.button.callback(translate(locale, 'followup.decline_button'), `${FollowUpModule.DECLINE_ACTION_PREFIX}:${followUpId}`)]
+        ]);
+    }
+
+    /**
+     * Deliver every check-in that has come due. Runs are chained so a slow pass never overlaps the next tick;
+     * claimDueFollowUp keeps concurrent replicas from sending the same check-in twice.
+     */
+    private deliverDueFollowUps(): Promise<void> {
+        this.delivering = this.delivering
+            .then(async () => {
+                let followUp = await this.services.followUpManager.claimDueFollowUp();
+                while (followUp) {
+                    await this.deliverFollowUp(followUp);
+                    followUp = await this.services.followUpManager.claimDueFollowUp();
+                }
+            })
+            .catch(error => {
+                const err = error as Error;
+                logger.error('Follow-up delivery failed', { message: err.message, stack: err.stack });
+            });
+        return this.delivering;
+    }
+
+    private async deliverFollowUp(followUp: FollowUp): Promise<void> {
+        const userChatId = await this.resolveChatId(followUp.userId, 'user');
+        if (!userChatId) {
+            await this.services.followUpManager.markFailed(followUp.followUpId);
+            return;
+        }
+
+        try {
+            const locale = await this.getChatLocale(userChatId);
+            await this.services.bot.telegram.sendMessage(
+                userChatId,
+                translate(locale, 'followup.check_in'),
+                this.buildCheckInKeyboard(locale, followUp.followUpId)
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to deliver follow-up check-in', { followUpId: followUp.followUpId, message: err.message });
+            await this.services.followUpManager.markFailed(followUp.followUpId);
+        }
+    }
+}
@@ -0,0 +1,111 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { MAX_CONCURRENT_SESSIONS_LIMIT } from '../../managers/CounselorManager';
+import { Locale } from '../../types/Locale';
+import { LOCALE_NAMES, SUPPORTED_LOCALES } from '../../i18n';
+
+// Entry points shared by everyone: /start, help, language choice and the main menu
+export class GeneralModule extends BotModule {
+    private static readonly LANGUAGE_ACTION_PREFIX = 'lang';
+
+    constructor(services: BotServices) {
+        super(services);
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.start(async ctx => {
+            if (!ctx.chat) return;
+
+            const userId = await this.services.userManager.registerUser(ctx.chat.id, ctx.from?.language_code);
+            await this.services.userManager.updateUserState(userId, 'IDLE');
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'general.welcome', { userId }));
+        });
+
+        bot.command('help', async ctx => {
+            if (!ctx.chat) return;
+            await this.sendHelp(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.HELP), async ctx => {
+            if (!ctx.chat) return;
+            await this.sendHelp(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.MAIN), async ctx => {
+            if (!ctx.chat) return;
+            await this.resetToMainMenu(ctx);
+        });
+
+        bot.command('language', async ctx => {
+            if (!ctx.chat) return;
+            await this.sendLanguagePicker(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.LANGUAGE), async ctx => {
+            if (!ctx.chat) return;
+            await this.sendLanguagePicker(ctx);
+        });
+
+        bot.action(new RegExp(`^${GeneralModule.LANGUAGE_ACTION_PREFIX}:(${SUPPORTED_LOCALES.join('|')})$`), async ctx => {
+            if (!ctx.chat) return;
+            const locale = (ctx.match as RegExpMatchArray)[1] as Locale;
+            await ctx.answerCbQuery();
+            await this.handleLanguageSelect(ctx, locale);
+        });
+    }
+
+    // Last in the text router: anything no other module claimed sends the user back to the menu
+    async handleText(ctx: Context): Promise<boolean> {
+        await this.resetToMainMenu(ctx, this.t(ctx, 'general.use_menu'));
+        return true;
+    }
+
+    private async sendLanguagePicker(ctx: Context): Promise<void> {
+        await ctx.reply(
+            this.t(ctx, 'general.choose_language'),
+            Markup.inlineKeyboard(
+                SUPPORTED_LOCALES.map(locale => [
+                    Markup.button.callback(LOCALE_NAMES[locale], `${GeneralModule.LANGUAGE_ACTION_PREFIX}:${locale}`)
+                ])
+            )
+        );
+    }
+
+    private async handleLanguageSelect(ctx: Context, locale: Locale): Promise<void> {
+        if (!ctx.chat) return;
+
+        await this.services.userManager.registerUser(ctx.chat.id, locale);
+        await this.services.userManager.updateUserLanguage(ctx.chat.id, locale);
+        ctx.state.locale = locale;
+        await this.resetToMainMenu(ctx, this.t(ctx, 'general.language_updated', { language: LOCALE_NAMES[locale] }));
+    }
+
+    private async sendHelp(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const isAdmin = await this.isAdmin(ctx.chat.id);
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        const isCounselor = !!counselor && counselor.isApproved && !counselor.isSuspended;
+
+        if (!isAdmin && !isCounselor) {
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'general.help_user'));
+            return;
+        }
+
+        const sections = [
+            this.t(ctx, 'general.help_counselor_commands', {
+                maxCapacity: MAX_CONCURRENT_SESSIONS_LIMIT,
+                transferLabel: this.t(ctx, BotMenu.TRANSFER_SESSION),
+                switchLabel: this.t(ctx, BotMenu.SWITCH_CONVERSATION)
+            })
+        ];
+
+        if (isAdmin) {
+            sections.push(this.t(ctx, 'general.help_admin_commands', { broadcastLabel: this.t(ctx, BotMenu.BROADCAST) }));
+        }
+
+        await ctx.reply([this.t(ctx, 'general.help_commands_header'), ...sections].join('\n'));
+    }
+}
@@ -0,0 +1,182 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { Session } from '../../types/Session';
+import { formatMessageContent } from '../../models/utils';
+
+// Past session history and transcripts
+export class HistoryModule extends BotModule {
+    private static readonly PAGINATE_HISTORY_LIST_ACTION_PREFIX = 'pghl';
+    private static readonly PAGINATE_HISTORY_CHAT_ACTION_PREFIX = 'pghc';
+    private static readonly VIEW_HISTORY_CHAT_ACTION_PREFIX = 'vhc';
+    private static readonly HISTORY_CHAT_PAGE_SIZE = 25;
+
+    constructor(services: BotServices) {
+        super(services);
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.HISTORY), async ctx => {
+            if (!ctx.chat) return;
+            await this.sendHistory(ctx);
+        });
+
+        bot.action(new RegExp(`^${HistoryModule.PAGINATE_HISTORY_LIST_ACTION_PREFIX}:(\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const page = parseInt((ctx.match as RegExpMatchArray)[1], 10);
+            await ctx.answerCbQuery();
+            await this.handleHistoryList(ctx, page);
+        });
+
+        bot.action(new RegExp(`^${HistoryModule.PAGINATE_HISTORY_CHAT_ACTION_PREFIX}:(\d+):(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const match = ctx.match as RegExpMatchArray;
+            const page = parseInt(match[1], 10);
+            const sessionId = match[2];
+            await ctx.answerCbQuery();
+            await this.sendHistoryChat(ctx, sessionId, page);
+        });
+
+        bot.action(new RegExp(`^${HistoryModule.VIEW_HISTORY_CHAT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const sessionId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.sendHistoryChat(ctx, sessionId, 1);
+        });
+    }
+
+    private async sendHistory(ctx: Context, page = 1): Promise<void> {
+        await this.handleHistoryList(ctx, page);
+    }
+
+    private async handleHistoryList(ctx: Context, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'VIEWING_HISTORY');
+
+        const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+        const query = requesterType === 'user'
+            ? { userId: requesterId }
+            : {
+                $or: [
+                    { counselorId: requesterId },
+                    { currentCounselorId: requesterId },
+                    { previousCounselorId: requesterId },
+                    { 'transferHistory.fromCounselorId': requesterId },
+                    { 'transferHistory.toCounselorId': requesterId }
+                ]
+            };
+
+        const sessions = await this.services.collections.sessions
+            .find(query as unknown as Record<string, unknown>)
+            .sort({ startTime: -1 })
+            .toArray();
+
+        if (sessions.length === 0) {
+            await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'history.none'));
+            return;
+        }
+
+        const { pageItems, safePage, totalPages } = this.getPagination(sessions, page, BotModule.PAGE_SIZE);
+
+        await ctx.reply(this.t(ctx, 'history.list_header', { count: sessions.length }));
+        for (const session of pageItems) {
+            const topic = session.userRequestedDomain ?? this.t(ctx, 'history.general_topic');
+            const date = this.formatTimestamp(session.startTime);
+            const status = session.isActive
+                ? this.t(ctx, 'history.status_active')
+                : (session.transferCount ?? 0) > 0
+                    ? this.t(ctx, 'history.status_transferred')
+                    : this.t(ctx, 'history.status_completed');
+            const message = requesterType === 'user'
+                ? this.t(ctx, 'history.item_with_counselor', {
+                    topic,
+                    date,
+                    status,
+                    counselor: await this.getCounselorDisplayName(this.getLocale(ctx), this.getSessionCounselorId(session))
+                })
+                : this.t(ctx, 'history.item', { topic, date, status });
+
+            if (session.logMode === 'no_log') {
+                await ctx.reply(`${message}\n${this.t(ctx, 'history.no_log_label')}`);
+                continue;
+            }
+
+            await ctx.reply(
+                message,
+                Markup.inlineKeyboard([
+                    Markup.button.callback(
+                        this.t(ctx, 'history.see_chat'),
+                        `${HistoryModule.VIEW_HISTORY_CHAT_ACTION_PREFIX}:${session.sessionId}`
+                    )
+                ])
+            );
+        }
+
+        await this.sendPaginationControls(
+            ctx,
+            HistoryModule.PAGINATE_HISTORY_LIST_ACTION_PREFIX,
+            safePage,
+            totalPages
+        );
+    }
+
+    private async sendHistoryChat(ctx: Context, sessionId: string, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'VIEWING_HISTORY');
+
+        const session = await this.services.collections.sessions.findOne({ sessionId });
+        if (!session) {
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'error.session_not_found'));
+            return;
+        }
+
+        const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+        const { messages, total } = await this.services.sessionManager.getMessageHistoryPage(
+            session.sessionId,
+            requesterId,
+            requesterType,
+            page,
+            HistoryModule.HISTORY_CHAT_PAGE_SIZE
+        );
+
+        if (total === 0) {
+            const emptyKey = session.logMode === 'no_log' ? 'history.no_log_transcript' : 'history.no_messages';
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, emptyKey));
+            return;
+        }
+
+        const totalPages = Math.max(1, Math.ceil(total / HistoryModule.HISTORY_CHAT_PAGE_SIZE));
+        const safePage = Math.min(Math.max(page, 1), totalPages);
+
+        const counselorNames = new Map<string, string>();
+        if (requesterType === 'user') {
+            for (const senderId of new Set(messages.filter(msg => msg.senderType === 'counselor').map(msg => msg.senderId))) {
+                counselorNames.set(senderId, await this.getCounselorDisplayName(this.getLocale(ctx), senderId));
+            }
+        }
+
+        const formatted = messages.map(msg => {
+            const senderLabel = msg.senderType === 'user'
+                ? this.t(ctx, 'common.user')
+                : counselorNames.get(msg.senderId) ?? this.t(ctx, 'common.counselor');
+            const timestamp = msg.timestamp instanceof Date
+                ? msg.timestamp.toISOString()
+                : new Date(msg.timestamp).toISOString();
+            return `[${timestamp}] ${senderLabel}: ${formatMessageContent(msg)}`;
+        });
+
+        await ctx.reply(this.t(ctx, 'history.chat_header', { count: total }));
+        await ctx.reply(formatted.join('\n'));
+        await this.sendPaginationControls(
+            ctx,
+            HistoryModule.PAGINATE_HISTORY_CHAT_ACTION_PREFIX,
+            safePage,
+            totalPages,
+            session.sessionId
+        );
+    }
+}
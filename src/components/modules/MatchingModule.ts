@@ -0,0 +1,1132 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { SessionModule } from './SessionModule';
+import { Session, SessionLogMode } from '../../types/Session';
+import { PreviousCounselor } from '../../managers/SessionManager';
+import { UserState } from '../../types/User';
+import { Locale } from '../../types/Locale';
+import { translate, MessageKey } from '../../i18n';
+import { logger } from '../../utils/logger';
+import { metrics } from '../../utils/metrics';
+import { ConversationStateMap } from '../../state';
+
+type MatchingStep = 'language' | 'language_other' | 'domain' | 'domain_other' | 'consent';
+
+interface MatchingState {
+    step: MatchingStep;
+    languages: string[];
+    domain?: string;
+    logMode?: SessionLogMode; // remembered after consent so a later queue join keeps the user's choice
+}
+
+interface PreviousCounselorRequest {
+    userId: string;
+    counselorId: string;
+    requestedAt: number;
+    logMode?: SessionLogMode;
+}
+
+// Connecting users with counselors: the matching flow, consent and the waiting queue
+export class MatchingModule extends BotModule {
+    private static readonly MATCHING_LANG_ACTION_PREFIX = 'match_lang';
+    private static readonly MATCHING_LANG_DONE = 'match_lang_done';
+    private static readonly MATCHING_DOMAIN_ACTION_PREFIX = 'match_dom';
+    private static readonly MATCHING_BACK = 'match_back';
+    private static readonly MATCHING_CANCEL = 'match_cancel';
+    private static readonly MATCHING_RETRY_LANG = 'match_retry_lang';
+    private static readonly MATCHING_WAIT = 'match_wait';
+    private static readonly QUEUE_LEAVE_ACTION = 'queue_leave';
+    static readonly CONSENT_ACTION_PREFIX = 'consent';
+    private static readonly NO_LOG_CONSENT_ACTION_PREFIX = 'consent_nolog';
+    private static readonly PREVIOUS_PICK_ACTION_PREFIX = 'prev_pick';
+    private static readonly PREVIOUS_CONSENT_ACTION_PREFIX = 'prev_ok';
+    private static readonly PREVIOUS_NO_LOG_CONSENT_ACTION_PREFIX = 'prev_nolog';
+    private static readonly PREVIOUS_ACCEPT_ACTION_PREFIX = 'prev_accept';
+    private static readonly PREVIOUS_DECLINE_ACTION_PREFIX = 'prev_decline';
+    private static readonly PREVIOUS_NEW_MATCH_ACTION = 'prev_new';
+    private static readonly QUEUE_CHECK_INTERVAL_MS = 60 * 1000;
+
+    private sessionModule: SessionModule;
+    private matchingState: ConversationStateMap<MatchingState>;
+    private previousCounselorRequests: ConversationStateMap<PreviousCounselorRequest>;
+    private queueInterval: NodeJS.Timeout | null = null;
+    private queueProcessing: Promise<void> = Promise.resolve();
+
+    constructor(services: BotServices, sessionModule: SessionModule) {
+        super(services);
+        this.sessionModule = sessionModule;
+        this.matchingState = this.createStateMap('matching');
+        this.previousCounselorRequests = this.createStateMap('previous_counselor_request');
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.START_COUNSELING), async ctx => {
+            if (!ctx.chat) return;
+            await this.startCounselingFlow(ctx);
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.MATCHING_LANG_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const language = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleMatchingLanguageSelect(ctx, language);
+        });
+
+        bot.action(MatchingModule.MATCHING_LANG_DONE, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMatchingLanguageDone(ctx);
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.MATCHING_DOMAIN_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const domain = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleMatchingDomainSelect(ctx, domain);
+        });
+
+        bot.action(MatchingModule.MATCHING_BACK, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMatchingBack(ctx);
+        });
+
+        bot.action(MatchingModule.MATCHING_CANCEL, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMatchingCancel(ctx);
+        });
+
+        bot.action(MatchingModule.MATCHING_RETRY_LANG, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMatchingRetryLanguage(ctx);
+        });
+
+        bot.action(MatchingModule.MATCHING_WAIT, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMatchingWait(ctx);
+        });
+
+        bot.action(MatchingModule.QUEUE_LEAVE_ACTION, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleLeaveQueue(ctx);
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.CONSENT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const userId = (ctx.match as RegExpMatchArray)[1];
+            await this.handleConsent(ctx, userId);
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.NO_LOG_CONSENT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const userId = (ctx.match as RegExpMatchArray)[1];
+            await this.handleConsent(ctx, userId, 'no_log');
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.PREVIOUS_PICK_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePreviousCounselorPick(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.PREVIOUS_CONSENT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePreviousCounselorConsent(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.PREVIOUS_NO_LOG_CONSENT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePreviousCounselorConsent(ctx, (ctx.match as RegExpMatchArray)[1], 'no_log');
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.PREVIOUS_ACCEPT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePreviousCounselorAccept(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${MatchingModule.PREVIOUS_DECLINE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePreviousCounselorDecline(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(MatchingModule.PREVIOUS_NEW_MATCH_ACTION, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.startCounselingFlow(ctx, false);
+        });
+    }
+
+    async handleText(ctx: Context, text: string, state: UserState): Promise<boolean> {
+        if (state === 'MATCHING') {
+            await this.handleMatchingText(ctx, text);
+            return true;
+        }
+
+        if (state === 'WAITING_COUNSELOR') {
+            if (ctx.chat && await this.hasPendingPreviousCounselorRequest(ctx.chat.id)) {
+                await ctx.reply(this.t(ctx, 'matching.previous_request_pending'));
+                return true;
+            }
+            await this.sendQueueStatus(ctx);
+            return true;
+        }
+
+        return false;
+    }
+
+    start(): void {
+        this.services.sessionManager.onCounselorFreed(() => this.processWaitingQueue());
+        this.services.counselorManager.onCounselorFreed(() => this.processWaitingQueue());
+
+        const runMaintenance = async () => {
+            try {
+                await this.expireWaitingUsers();
+                await this.expirePreviousCounselorRequests();
+                await this.processWaitingQueue();
+            } catch (error) {
+                const err = error as Error;
+                logger.error('Queue maintenance failed', { message: err.message, stack: err.stack });
+            }
+        };
+
+        void runMaintenance();
+        this.queueInterval = setInterval(runMaintenance, MatchingModule.QUEUE_CHECK_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.queueInterval) {
+            clearInterval(this.queueInterval);
+            this.queueInterval = null;
+        }
+    }
+
+    /**
+     * Entry point of the counseling flow. Returning users are first offered the counselors they talked to before,
+     * unless they already chose to look for someone new.
+     */
+    async startCounselingFlow(ctx: Context, offerPreviousCounselors = true): Promise<void> {
+        if (!ctx.chat) return;
+
+        if (await this.isAdmin(ctx.chat.id)) {
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'matching.admin_cannot_start'));
+            return;
+        }
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const activeSession = await this.services.sessionManager.getActiveSessionForUser(userId);
+        if (activeSession) {
+            await this.services.userManager.updateUserState(userId, 'IN_SESSION');
+            await this.replyWithMenu(ctx, 'IN_SESSION', this.t(ctx, 'matching.already_in_session'));
+            return;
+        }
+
+        const waitingEntry = await this.services.queueManager.getWaitingEntry(userId);
+        if (waitingEntry) {
+            await this.sendQueueStatus(ctx);
+            return;
+        }
+
+        if (await this.previousCounselorRequests.get(userId)) {
+            await ctx.reply(this.t(ctx, 'matching.previous_request_pending'));
+            return;
+        }
+
+        if (offerPreviousCounselors) {
+            const previous = await this.getAvailablePreviousCounselors(userId, ctx.chat.id);
+            if (previous.length > 0) {
+                await this.matchingState.delete(ctx.chat.id);
+                await ctx.reply(
+                    this.t(ctx, 'matching.previous_counselor_prompt'),
+                    await this.buildPreviousCounselorKeyboard(ctx, previous)
+                );
+                return;
+            }
+        }
+
+        await this.startMatchingFlow(ctx);
+    }
+
+    /**
+     * Past counselors of this user who could take a session right now, most recent first
+     */
+    private async getAvailablePreviousCounselors(userId: string, requesterChatId: number): Promise<PreviousCounselor[]> {
+        const limit = this.services.config.previousCounselorOptions;
+        if (limit === 0) {
+            return [];
+        }
+
+        const previous = await this.services.sessionManager.getPreviousCounselors(userId);
+        if (previous.length === 0) {
+            return [];
+        }
+
+        const available = await this.services.counselorManager.getCounselorsWithCapacity();
+        const availableIds = new Set(
+            available
+                .filter(({ counselor }) => counselor.telegramChatId !== requesterChatId)
+                .map(({ counselor }) => counselor.id)
+        );
+
+        return previous.filter(entry => availableIds.has(entry.counselorId)).slice(0, limit);
+    }
+
+    private async findAvailablePreviousCounselor(ctx: Context, counselorId: string): Promise<PreviousCounselor | null> {
+        if (!ctx.chat) return null;
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const previous = await this.getAvailablePreviousCounselors(userId, ctx.chat.id);
+        return previous.find(entry => entry.counselorId === counselorId) ?? null;
+    }
+
+    private async handlePreviousCounselorPick(ctx: Context, counselorId: string): Promise<void> {
+        const previous = await this.findAvailablePreviousCounselor(ctx, counselorId);
+        if (!previous) {
+            await ctx.reply(this.t(ctx, 'matching.previous_counselor_unavailable'), this.buildPreviousFallbackKeyboard(this.getLocale(ctx)));
+            return;
+        }
+
+        const counselor = await this.getCounselorDisplayName(this.getLocale(ctx), counselorId);
+        await ctx.reply(
+            `${this.t(ctx, 'matching.consent_counselor', { counselor })}\n\n${this.getConsentDisclosure(ctx)}`,
+            Markup.inlineKeyboard([
+                [Markup.button.callback(this.t(ctx, 'matching.consent_button'), `${MatchingModule.PREVIOUS_CONSENT_ACTION_PREFIX}:${counselorId}`)],
+                [Markup.button.callback(this.t(ctx, 'matching.consent_no_log_button'), `${MatchingModule.PREVIOUS_NO_LOG_CONSENT_ACTION_PREFIX}:${counselorId}`)],
+                [Markup.button.callback(this.t(ctx, 'common.cancel'), MatchingModule.MATCHING_CANCEL)]
+            ])
+        );
+    }
+
+    /**
+     * After consent, ask the chosen past counselor to take the session. The user waits until they answer
+     * or the request times out, then falls back to normal matching.
+     */
+    private async handlePreviousCounselorConsent(ctx: Context, counselorId: string, logMode: SessionLogMode = 'standard'): Promise<void> {
+        if (!ctx.chat) return;
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        if (await this.services.sessionManager.getActiveSessionForUser(userId)) {
+            await this.services.userManager.updateUserState(userId, 'IN_SESSION');
+            await this.replyWithMenu(ctx, 'IN_SESSION', this.t(ctx, 'matching.already_in_session'));
+            return;
+        }
+
+        if (await this.previousCounselorRequests.get(userId)) {
+            await ctx.reply(this.t(ctx, 'matching.previous_request_pending'));
+            return;
+        }
+
+        const previous = await this.findAvailablePreviousCounselor(ctx, counselorId);
+        const counselor = previous
+            ? await this.services.collections.counselors.findOne({ id: counselorId })
+            : null;
+        if (!previous || !counselor) {
+            await ctx.reply(this.t(ctx, 'matching.previous_counselor_unavailable'), this.buildPreviousFallbackKeyboard(this.getLocale(ctx)));
+            return;
+        }
+
+        const timeoutMinutes = this.services.config.previousCounselorRequestTimeoutMinutes;
+        try {
+            const locale = await this.getChatLocale(counselor.telegramChatId);
+            await this.services.bot.telegram.sendMessage(
+                counselor.telegramChatId,
+                translate(locale, 'matching.previous_request_to_counselor', {
+                    date: this.formatDate(previous.lastSessionAt),
+                    minutes: timeoutMinutes
+                }),
+                Markup.inlineKeyboard([
+                    [Markup.button.callback(translate(locale, 'matching.previous_accept_button'), `${MatchingModule.PREVIOUS_ACCEPT_ACTION_PREFIX}:${userId}`)],
+                    [Markup.button.callback(translate(locale, 'matching.previous_decline_button'), `${MatchingModule.PREVIOUS_DECLINE_ACTION_PREFIX}:${userId}`)]
+                ])
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to send previous counselor request', { counselorId, message: err.message });
+            await ctx.reply(this.t(ctx, 'matching.previous_counselor_unavailable'), this.buildPreviousFallbackKeyboard(this.getLocale(ctx)));
+            return;
+        }
+
+        await this.previousCounselorRequests.set(userId, { userId, counselorId, requestedAt: Date.now(), logMode });
+        await this.matchingState.delete(ctx.chat.id);
+        await this.services.userManager.updateUserState(userId, 'WAITING_COUNSELOR');
+        await this.replyWithMenu(
+            ctx,
+            'WAITING_COUNSELOR',
+            this.t(ctx, 'matching.previous_request_sent', { minutes: timeoutMinutes })
+        );
+    }
+
+    /**
+     * Claim the pending request addressed to the counselor in this chat, or null if it is gone or meant for someone else.
+     * The request is taken from the store in one step, so of two concurrent accepts or declines only one wins.
+     */
+    private async claimPreviousCounselorRequest(ctx: Context, userId: string): Promise<{ request: PreviousCounselorRequest; counselorId: string } | null> {
+        if (!ctx.chat) return null;
+
+        const request = await this.previousCounselorRequests.get(userId);
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!request || !counselor || request.counselorId !== counselor.id) {
+            await ctx.reply(this.t(ctx, 'matching.previous_request_inactive'));
+            return null;
+        }
+
+        const claimed = await this.previousCounselorRequests.take(userId);
+        if (!claimed || claimed.counselorId !== counselor.id) {
+            if (claimed) {
+                // The user asked for someone else in the meantime; leave that request in place
+                await this.previousCounselorRequests.set(userId, claimed);
+            }
+            await ctx.reply(this.t(ctx, 'matching.previous_request_inactive'));
+            return null;
+        }
+        return { request: claimed, counselorId: counselor.id };
+    }
+
+    private async handlePreviousCounselorAccept(ctx: Context, userId: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const claimed = await this.claimPreviousCounselorRequest(ctx, userId);
+        if (!claimed) return;
+
+        let session: Session;
+        try {
+            session = await this.services.sessionManager.createSession(userId, claimed.counselorId, true, claimed.request.logMode ?? 'standard');
+        } catch (error) {
+            metrics.increment('matching_failures_total');
+            await ctx.reply(this.describeError(ctx, error, 'matching.session_start_failed'));
+            await this.fallBackToNewMatch(userId, 'matching.previous_counselor_unavailable');
+            return;
+        }
+
+        await this.services.queueManager.leaveQueue(userId);
+        await this.services.userManager.updateUserState(userId, 'IN_SESSION');
+        await this.sessionModule.notifyCounselorOfNewSession(ctx.chat.id, session);
+
+        const userChatId = await this.resolveChatId(userId, 'user');
+        if (!userChatId) {
+            return;
+        }
+
+        await this.matchingState.delete(userChatId);
+        try {
+            await this.sendMenuToChatId(
+                userChatId,
+                'IN_SESSION',
+                await this.tForChat(userChatId, 'matching.previous_counselor_accepted', { sessionId: session.sessionId })
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to notify user of accepted request', { sessionId: session.sessionId, message: err.message });
+        }
+        await this.sessionModule.introduceCounselorToUser(userChatId, claimed.counselorId);
+    }
+
+    private async handlePreviousCounselorDecline(ctx: Context, userId: string): Promise<void> {
+        const claimed = await this.claimPreviousCounselorRequest(ctx, userId);
+        if (!claimed) return;
+
+        await ctx.reply(this.t(ctx, 'matching.previous_request_declined'));
+        await this.fallBackToNewMatch(userId, 'matching.previous_counselor_declined');
+    }
+
+    private async hasPendingPreviousCounselorRequest(chatId: number): Promise<boolean> {
+        const userId = await this.services.userManager.registerUser(chatId);
+        return Boolean(await this.previousCounselorRequests.get(userId));
+    }
+
+    /**
+     * Drop requests the past counselor left unanswered and offer the user normal matching instead
+     */
+    private async expirePreviousCounselorRequests(): Promise<void> {
+        const timeoutMs = this.services.config.previousCounselorRequestTimeoutMinutes * 60 * 1000;
+        const now = Date.now();
+        for (const [key, request] of await this.previousCounselorRequests.entries()) {
+            if (now - request.requestedAt < timeoutMs) {
+                continue;
+            }
+
+            await this.previousCounselorRequests.delete(key);
+            await this.fallBackToNewMatch(request.userId, 'matching.previous_counselor_timeout');
+        }
+    }
+
+    private async fallBackToNewMatch(userId: string, messageKey: MessageKey): Promise<void> {
+        const state = await this.services.userManager.getUserState(userId);
+        if (state === 'WAITING_COUNSELOR' && !await this.services.queueManager.getWaitingEntry(userId)) {
+            await this.services.userManager.updateUserState(userId, 'IDLE');
+        }
+
+        const userChatId = await this.resolveChatId(userId, 'user');
+        if (!userChatId) {
+            return;
+        }
+
+        try {
+            const locale = await this.getChatLocale(userChatId);
+            await this.sendMenuToChatId(userChatId, 'IDLE', translate(locale, messageKey));
+            await this.services.bot.telegram.sendMessage(
+                userChatId,
+                translate(locale, 'matching.previous_fallback_prompt'),
+                this.buildPreviousFallbackKeyboard(locale)
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to offer normal matching after previous counselor request', { userId, message: err.message });
+        }
+    }
+
+    private async handleConsent(ctx: Context, userId: string, logMode: SessionLogMode = 'standard'): Promise<void> {
+        if (!ctx.chat) return;
+
+        try {
+            const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+            if (!user || user.uuid !== userId) {
+                await ctx.reply(this.t(ctx, 'matching.consent_wrong_account'));
+                return;
+            }
+
+            if (user.state !== 'MATCHING' && user.state !== 'WAITING_COUNSELOR') {
+                await ctx.reply(this.t(ctx, 'matching.no_pending_consent'));
+                return;
+            }
+
+            const matching = await this.matchingState.get(ctx.chat.id);
+            const preferredLanguages = matching?.languages ?? user.user_preferred_language ?? [];
+            const requestedDomain = matching?.domain ?? user.user_requested_domain;
+            if (!requestedDomain || preferredLanguages.length === 0) {
+                await ctx.reply(this.t(ctx, 'matching.missing_preferences'));
+                await this.startMatchingFlow(ctx);
+                return;
+            }
+
+            if (matching && matching.step !== 'consent') {
+                await ctx.reply(this.t(ctx, 'matching.complete_steps_first'));
+                return;
+            }
+
+            await this.matchingState.set(ctx.chat.id, {
+                step: 'consent',
+                languages: preferredLanguages,
+                domain: requestedDomain,
+                logMode
+            });
+
+            await ctx.reply(this.t(ctx, 'matching.searching'));
+
+            const matchResult = await this.findBestCounselorMatch(preferredLanguages, requestedDomain, ctx.chat.id);
+            if (!matchResult) {
+                metrics.increment('matching_failures_total');
+                await ctx.reply(
+                    this.t(ctx, 'matching.no_counselors_available'),
+                    this.buildMatchingUnavailableKeyboard(ctx)
+                );
+                return;
+            }
+
+            if ('reason' in matchResult) {
+                metrics.increment('matching_failures_total');
+                if (matchResult.reason === 'no_language_match') {
+                    await ctx.reply(
+                        this.t(ctx, 'matching.no_language_match'),
+                        this.buildMatchingNoLanguageKeyboard(ctx)
+                    );
+                    return;
+                }
+
+                await ctx.reply(
+                    this.t(ctx, 'matching.no_counselors_available'),
+                    this.buildMatchingUnavailableKeyboard(ctx)
+                );
+                return;
+            }
+
+            const counselorId = matchResult.counselorId;
+            const counselor = matchResult.counselor;
+
+            let session: Session;
+            try {
+                session = await this.services.sessionManager.createSession(user.uuid, counselorId, true, logMode);
+            } catch (error) {
+                const err = error as Error;
+                if (err.message.includes('no remaining session capacity')) {
+                    metrics.increment('matching_failures_total');
+                    await ctx.reply(
+                        this.t(ctx, 'matching.no_counselors_available'),
+                        this.buildMatchingUnavailableKeyboard(ctx)
+                    );
+                    return;
+                }
+                throw error;
+            }
+            await this.sessionModule.notifyCounselorOfNewSession(counselor.telegramChatId, session);
+
+            await this.services.queueManager.leaveQueue(user.uuid);
+            await this.services.userManager.updateUserState(user.uuid, 'IN_SESSION');
+            await this.matchingState.delete(ctx.chat.id);
+
+            await this.replyWithMenu(ctx, 'IN_SESSION', this.t(ctx, 'matching.session_started', { sessionId: session.sessionId }));
+            await this.sessionModule.introduceCounselorToUser(ctx.chat.id, counselorId);
+        } catch (error) {
+            metrics.increment('matching_failures_total');
+            await ctx.reply(this.describeError(ctx, error, 'matching.session_start_failed'));
+        }
+    }
+
+    private async startMatchingFlow(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state: MatchingState = {
+            step: 'language',
+            languages: []
+        };
+
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'MATCHING');
+        await this.promptMatchingStep(ctx, state);
+    }
+
+    private async handleMatchingText(ctx: Context, text: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const state = await this.matchingState.get(ctx.chat.id);
+        if (!state) {
+            await this.startMatchingFlow(ctx);
+            return;
+        }
+
+        const trimmed = text.trim();
+        if (!trimmed) {
+            await this.promptMatchingStep(ctx, state, this.t(ctx, 'common.invalid_response'));
+            return;
+        }
+
+        if (state.step === 'language_other') {
+            this.addUniqueSelection(state.languages, trimmed);
+            state.step = 'language';
+            await this.promptMatchingStep(ctx, state, this.t(ctx, 'matching.language_added', { language: trimmed }));
+            return;
+        }
+
+        if (state.step === 'domain_other') {
+            state.domain = trimmed;
+            state.step = 'consent';
+            await this.services.userManager.updateUserMatchingPreferences(ctx.chat.id, state.languages, trimmed);
+            await this.promptMatchingStep(ctx, state);
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, 'common.use_buttons'));
+    }
+
+    private async handleMatchingLanguageSelect(ctx: Context, language: string): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.matchingState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (language === 'Other') {
+            state.step = 'language_other';
+            await this.promptMatchingStep(ctx, state);
+            return;
+        }
+
+        this.toggleSelection(state.languages, language);
+        state.step = 'language';
+        await this.promptMatchingStep(ctx, state);
+    }
+
+    private async handleMatchingLanguageDone(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.matchingState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (state.languages.length === 0) {
+            await this.promptMatchingStep(ctx, state, this.t(ctx, 'common.select_one_language'));
+            return;
+        }
+
+        state.step = 'domain';
+        await this.promptMatchingStep(ctx, state);
+    }
+
+    private async handleMatchingDomainSelect(ctx: Context, domain: string): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.matchingState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (domain === 'Other') {
+            state.step = 'domain_other';
+            await this.promptMatchingStep(ctx, state);
+            return;
+        }
+
+        state.domain = domain;
+        state.step = 'consent';
+        await this.services.userManager.updateUserMatchingPreferences(ctx.chat.id, state.languages, domain);
+        await this.promptMatchingStep(ctx, state);
+    }
+
+    private async handleMatchingBack(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.matchingState.get(ctx.chat.id);
+        if (!state) return;
+
+        switch (state.step) {
+            case 'language_other':
+                state.step = 'language';
+                break;
+            case 'domain_other':
+                state.step = 'domain';
+                break;
+            case 'domain':
+                state.step = 'language';
+                break;
+            case 'consent':
+                state.step = 'domain';
+                break;
+            case 'language':
+            default:
+                await this.promptMatchingStep(ctx, state, this.t(ctx, 'common.first_step'));
+                return;
+        }
+
+        await this.promptMatchingStep(ctx, state);
+    }
+
+    private async handleMatchingCancel(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        await this.matchingState.delete(ctx.chat.id);
+        await this.previousCounselorRequests.delete(await this.services.userManager.registerUser(ctx.chat.id));
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'matching.canceled'));
+    }
+
+    private async handleMatchingRetryLanguage(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        const state: MatchingState = {
+            step: 'language',
+            languages: []
+        };
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'MATCHING');
+        await this.promptMatchingStep(ctx, state, this.t(ctx, 'matching.retry_language'));
+    }
+
+    private async handleMatchingWait(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        if (!user) return;
+
+        const matching = await this.matchingState.get(ctx.chat.id);
+        const preferredLanguages = matching?.languages ?? user.user_preferred_language ?? [];
+        const requestedDomain = matching?.domain ?? user.user_requested_domain;
+        if (!requestedDomain || preferredLanguages.length === 0) {
+            await ctx.reply(this.t(ctx, 'matching.missing_preferences'));
+            await this.startMatchingFlow(ctx);
+            return;
+        }
+
+        const entry = await this.services.queueManager.enqueue(
+            user.uuid,
+            preferredLanguages,
+            requestedDomain,
+            matching?.logMode ?? 'standard'
+        );
+        const position = await this.services.queueManager.getPosition(entry);
+        await this.services.queueManager.recordNotifiedPosition(entry.queueId, position);
+
+        await this.matchingState.delete(ctx.chat.id);
+        await this.services.userManager.updateUserState(user.uuid, 'WAITING_COUNSELOR');
+        await this.replyWithMenu(
+            ctx,
+            'WAITING_COUNSELOR',
+            this.t(ctx, 'matching.queue_joined', { position })
+        );
+        await ctx.reply(this.t(ctx, 'matching.queue_leave_hint'), this.buildQueueKeyboard(this.getLocale(ctx)));
+
+        void this.processWaitingQueue();
+    }
+
+    private async handleLeaveQueue(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const left = await this.services.queueManager.leaveQueue(userId);
+        if (!left) {
+            await this.resetToMainMenu(ctx, this.t(ctx, 'matching.not_in_queue'));
+            return;
+        }
+
+        await this.services.userManager.updateUserState(userId, 'IDLE');
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'matching.queue_left'));
+        void this.processWaitingQueue();
+    }
+
+    private async sendQueueStatus(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const entry = await this.services.queueManager.getWaitingEntry(userId);
+        if (!entry) {
+            await this.resetToMainMenu(ctx);
+            return;
+        }
+
+        const position = await this.services.queueManager.getPosition(entry);
+        await ctx.reply(
+            this.t(ctx, 'matching.queue_status', { position }),
+            this.buildQueueKeyboard(this.getLocale(ctx))
+        );
+    }
+
+    private buildQueueKeyboard(locale: Locale) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(translate(locale, 'matching.leave_queue_button'), MatchingModule.QUEUE_LEAVE_ACTION)]
+        ]);
+    }
+
+    /**
+     * Try to assign waiting users to counselors with free capacity.
+     * Runs are chained so only one pass touches the queue at a time in this process;
+     * claimEntry keeps concurrent replicas from assigning the same user twice.
+     */
+    private processWaitingQueue(): Promise<void> {
+        this.queueProcessing = this.queueProcessing
+            .then(() => this.assignWaitingUsers())
+            .catch(error => {
+                const err = error as Error;
+                logger.error('Waiting queue processing failed', { message: err.message, stack: err.stack });
+            });
+        return this.queueProcessing;
+    }
+
+    private async assignWaitingUsers(): Promise<void> {
+        const entries = await this.services.queueManager.getWaitingEntries();
+        for (const entry of entries) {
+            const userChatId = await this.resolveChatId(entry.userId, 'user');
+            if (!userChatId) {
+                continue;
+            }
+
+            const match = await this.findBestCounselorMatch(entry.preferredLanguages, entry.requestedDomain, userChatId);
+            if (!match || 'reason' in match) {
+                continue;
+            }
+
+            const claimed = await this.services.queueManager.claimEntry(entry.queueId, match.counselorId);
+            if (!claimed) {
+                continue;
+            }
+
+            let session: Session;
+            try {
+                session = await this.services.sessionManager.createSession(entry.userId, match.counselorId, true, entry.logMode ?? 'standard');
+            } catch (error) {
+                const err = error as Error;
+                if (err.message.includes('User already has an active session')) {
+                    await this.services.queueManager.abandonEntry(entry.queueId);
+                } else {
+                    await this.services.queueManager.releaseEntry(entry.queueId);
+                }
+                logger.warn('Failed to assign queued user', { queueId: entry.queueId, message: err.message });
+                continue;
+            }
+
+            await this.services.queueManager.recordAssignment(entry.queueId, session.sessionId);
+            await this.services.userManager.updateUserState(entry.userId, 'IN_SESSION');
+            await this.matchingState.delete(userChatId);
+
+            try {
+                await this.sessionModule.notifyCounselorOfNewSession(match.counselor.telegramChatId, session);
+                await this.sendMenuToChatId(
+                    userChatId,
+                    'IN_SESSION',
+                    await this.tForChat(userChatId, 'matching.queue_session_started', { sessionId: session.sessionId })
+                );
+                await this.sessionModule.introduceCounselorToUser(userChatId, match.counselorId);
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify participants of queued session', {
+                    sessionId: session.sessionId,
+                    message: err.message
+                });
+            }
+        }
+
+        await this.sendQueuePositionUpdates();
+    }
+
+    private async sendQueuePositionUpdates(): Promise<void> {
+        const entries = await this.services.queueManager.getWaitingEntries();
+        for (const [index, entry] of entries.entries()) {
+            const position = index + 1;
+            if (entry.lastNotifiedPosition === position) {
+                continue;
+            }
+
+            const userChatId = await this.resolveChatId(entry.userId, 'user');
+            if (!userChatId) {
+                continue;
+            }
+
+            try {
+                const locale = await this.getChatLocale(userChatId);
+                await this.services.bot.telegram.sendMessage(
+                    userChatId,
+                    translate(locale, 'matching.queue_position_update', { position }),
+                    this.buildQueueKeyboard(locale)
+                );
+                await this.services.queueManager.recordNotifiedPosition(entry.queueId, position);
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to send queue position update', { queueId: entry.queueId, message: err.message });
+            }
+        }
+    }
+
+    private async expireWaitingUsers(): Promise<void> {
+        const expired = await this.services.queueManager.expireStaleEntries(this.services.config.queueMaxWaitMinutes);
+        for (const entry of expired) {
+            const state = await this.services.userManager.getUserState(entry.userId);
+            if (state === 'WAITING_COUNSELOR') {
+                await this.services.userManager.updateUserState(entry.userId, 'IDLE');
+            }
+
+            const userChatId = await this.resolveChatId(entry.userId, 'user');
+            if (!userChatId) {
+                continue;
+            }
+
+            try {
+                await this.sendMenuToChatId(
+                    userChatId,
+                    'IDLE',
+                    await this.tForChat(userChatId, 'matching.queue_expired')
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify expired queue entry', { queueId: entry.queueId, message: err.message });
+            }
+        }
+    }
+
+    /**
+     * Save the matching state and prompt for its current step
+     */
+    private async promptMatchingStep(ctx: Context, state: MatchingState, message?: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        await this.matchingState.set(ctx.chat.id, state);
+
+        switch (state.step) {
+            case 'language': {
+                const text = message ?? this.t(ctx, 'matching.prompt_language');
+                await ctx.reply(text, this.buildMatchingLanguageKeyboard(ctx, state.languages));
+                return;
+            }
+            case 'language_other': {
+                const text = message ?? this.t(ctx, 'matching.prompt_language_other');
+                await ctx.reply(text, this.buildMatchingNavKeyboard(ctx));
+                return;
+            }
+            case 'domain': {
+                const text = message ?? this.t(ctx, 'matching.prompt_domain');
+                await ctx.reply(text, this.buildMatchingDomainKeyboard(ctx));
+                return;
+            }
+            case 'domain_other': {
+                const text = message ?? this.t(ctx, 'matching.prompt_domain_other');
+                await ctx.reply(text, this.buildMatchingNavKeyboard(ctx));
+                return;
+            }
+            case 'consent': {
+                const text = message ?? this.getConsentDisclosure(ctx);
+                const userId = await this.services.userManager.registerUser(ctx.chat.id);
+                await ctx.reply(
+                    text,
+                    Markup.inlineKeyboard([
+                        [Markup.button.callback(this.t(ctx, 'matching.consent_button'), `${MatchingModule.CONSENT_ACTION_PREFIX}:${userId}`)],
+                        [Markup.button.callback(this.t(ctx, 'matching.consent_no_log_button'), `${MatchingModule.NO_LOG_CONSENT_ACTION_PREFIX}:${userId}`)],
+                        ...this.buildMatchingNavButtonsRow(ctx, true)
+                    ])
+                );
+                return;
+            }
+            default:
+                await ctx.reply(this.t(ctx, 'matching.continue_setup'), this.buildMatchingNavKeyboard(ctx));
+        }
+    }
+
+    private buildMatchingLanguageKeyboard(ctx: Context, selected: string[]) {
+        const rows: Array<ReturnType<typeof Markup.button.callback>[]> = [];
+        const selectedSet = new Set(selected);
+
+        for (let i = 0; i < BotMenu.COUNSELOR_LANGUAGES.length; i += 2) {
+            const left = BotMenu.COUNSELOR_LANGUAGES[i];
+            const right = BotMenu.COUNSELOR_LANGUAGES[i + 1];
+            const row: ReturnType<typeof Markup.button.callback>[] = [];
+            const leftLabel = selectedSet.has(left) ? `✅ ${left}` : left;
+            row.push(Markup.button.callback(leftLabel, `${MatchingModule.MATCHING_LANG_ACTION_PREFIX}:${left}`));
+            if (right) {
+                const rightLabel = selectedSet.has(right) ? `✅ ${right}` : right;
+                row.push(Markup.button.callback(rightLabel, `${MatchingModule.MATCHING_LANG_ACTION_PREFIX}:${right}`));
+            }
+            rows.push(row);
+        }
+
+        rows.push([Markup.button.callback(this.t(ctx, 'common.done'), MatchingModule.MATCHING_LANG_DONE)]);
+        rows.push(...this.buildMatchingNavButtonsRow(ctx, true));
+        return Markup.inlineKeyboard(rows);
+    }
+
+    private buildMatchingDomainKeyboard(ctx: Context) {
+        const rows: Array<ReturnType<typeof Markup.button.callback>[]> = [];
+        for (let i = 0; i < BotMenu.COUNSELOR_DOMAINS.length; i += 2) {
+            const left = BotMenu.COUNSELOR_DOMAINS[i];
+            const right = BotMenu.COUNSELOR_DOMAINS[i + 1];
+            const row: ReturnType<typeof Markup.button.callback>[] = [];
+            row.push(Markup.button.callback(left, `${MatchingModule.MATCHING_DOMAIN_ACTION_PREFIX}:${left}`));
+            if (right) {
+                row.push(Markup.button.callback(right, `${MatchingModule.MATCHING_DOMAIN_ACTION_PREFIX}:${right}`));
+            }
+            rows.push(row);
+        }
+
+        rows.push(...this.buildMatchingNavButtonsRow(ctx, true));
+        return Markup.inlineKeyboard(rows);
+    }
+
+    private buildMatchingNavButtonsRow(ctx: Context, includeBack: boolean): Array<ReturnType<typeof Markup.button.callback>[]> {
+        const row: ReturnType<typeof Markup.button.callback>[] = [];
+        if (includeBack) {
+            row.push(Markup.button.callback(this.t(ctx, 'common.back'), MatchingModule.MATCHING_BACK));
+        }
+        row.push(Markup.button.callback(this.t(ctx, 'common.cancel'), MatchingModule.MATCHING_CANCEL));
+        return [row];
+    }
+
+    private buildMatchingNavKeyboard(ctx: Context) {
+        return Markup.inlineKeyboard(this.buildMatchingNavButtonsRow(ctx, true));
+    }
+
+    private async buildPreviousCounselorKeyboard(ctx: Context, previous: PreviousCounselor[]) {
+        const rows: Array<ReturnType<typeof Markup.button.callback>[]> = [];
+        for (const entry of previous) {
+            const label = this.t(ctx, 'matching.previous_counselor_button', {
+                counselor: await this.getCounselorDisplayName(this.getLocale(ctx), entry.counselorId),
+                date: this.formatDate(entry.lastSessionAt)
+            });
+            rows.push([Markup.button.callback(label, `${MatchingModule.PREVIOUS_PICK_ACTION_PREFIX}:${entry.counselorId}`)]);
+        }
+
+        rows.push([Markup.button.callback(this.t(ctx, 'matching.find_new_counselor_button'), MatchingModule.PREVIOUS_NEW_MATCH_ACTION)]);
+        rows.push([Markup.button.callback(this.t(ctx, 'common.cancel'), MatchingModule.MATCHING_CANCEL)]);
+        return Markup.inlineKeyboard(rows);
+    }
+
+    private buildPreviousFallbackKeyboard(locale: Locale) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(translate(locale, 'matching.find_new_counselor_button'), MatchingModule.PREVIOUS_NEW_MATCH_ACTION)],
+            [Markup.button.callback(translate(locale, 'common.cancel'), MatchingModule.MATCHING_CANCEL)]
+        ]);
+    }
+
+    private formatDate(date: Date | string): string {
+        return (date instanceof Date ? date : new Date(date)).toISOString().slice(0, 10);
+    }
+
+    private buildMatchingUnavailableKeyboard(ctx: Context) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(this.t(ctx, 'matching.join_queue_button'), MatchingModule.MATCHING_WAIT)],
+            [Markup.button.callback(this.t(ctx, 'common.cancel'), MatchingModule.MATCHING_CANCEL)]
+        ]);
+    }
+
+    private buildMatchingNoLanguageKeyboard(ctx: Context) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(this.t(ctx, 'matching.choose_another_language_button'), MatchingModule.MATCHING_RETRY_LANG)],
+            [Markup.button.callback(this.t(ctx, 'matching.wait_button'), MatchingModule.MATCHING_WAIT)]
+        ]);
+    }
+
+    private async findBestCounselorMatch(
+        preferredLanguages: string[],
+        requestedDomain: string,
+        requesterChatId: number
+    ): Promise<{ counselorId: string; counselor: { telegramChatId: number } } | { reason: 'no_language_match' } | null> {
+        const counselors = await this.services.counselorManager.getCounselorsWithCapacity();
+
+        if (counselors.length === 0) {
+            return null;
+        }
+
+        const normalizedLanguages = preferredLanguages.map(lang => lang.toLowerCase());
+        const normalizedDomain = requestedDomain.toLowerCase();
+
+        const candidates = counselors
+            .filter(({ counselor }) => counselor.telegramChatId !== requesterChatId)
+            .map(({ counselor, activeSessions, remainingCapacity }) => {
+                const counselorLanguages = (counselor.languagesSpoken ?? []).map((lang: string) => lang.toLowerCase());
+                const counselorDomains = (counselor.domainExpertise ?? []).map((domain: string) => domain.toLowerCase());
+                const languageMatchCount = counselorLanguages.filter(lang => normalizedLanguages.includes(lang)).length;
+                const domainMatch = counselorDomains.includes(normalizedDomain);
+                return {
+                    counselor,
+                    activeSessions,
+                    remainingCapacity,
+                    languageMatchCount,
+                    domainMatch
+                };
+            })
+            .filter(candidate => candidate.languageMatchCount > 0);
+
+        if (candidates.length === 0) {
+            return { reason: 'no_language_match' };
+        }
+
+        const exactMatches = candidates.filter(candidate => candidate.domainMatch);
+        const pool = exactMatches.length > 0 ? exactMatches : candidates;
+
+        const ranked = pool.map(candidate => {
+            const ratingAverage = typeof candidate.counselor.ratingAverage === 'number'
+                ? candidate.counselor.ratingAverage
+                : 0;
+            const sessionsHandled = candidate.counselor.sessionsHandled ?? 0;
+            return {
+                ...candidate,
+                activeCount: candidate.activeSessions,
+                ratingAverage,
+                sessionsHandled
+            };
+        });
+
+        ranked.sort((a, b) => {
+            if (a.domainMatch !== b.domainMatch) {
+                return a.domainMatch ? -1 : 1;
+            }
+            if (a.languageMatchCount !== b.languageMatchCount) {
+                return b.languageMatchCount - a.languageMatchCount;
+            }
+            if (a.activeCount !== b.activeCount) {
+                return a.activeCount - b.activeCount;
+            }
+            if (a.remainingCapacity !== b.remainingCapacity) {
+                return b.remainingCapacity - a.remainingCapacity;
+            }
+            if (a.ratingAverage !== b.ratingAverage) {
+                return b.ratingAverage - a.ratingAverage;
+            }
+            return a.sessionsHandled - b.sessionsHandled;
+        });
+
+        const best = ranked[0];
+        return best ? { counselorId: best.counselor.id, counselor: best.counselor } : null;
+    }
+}
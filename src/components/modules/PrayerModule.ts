@@ -0,0 +1,658 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { PrayerWallModule } from './PrayerWallModule';
+import { UserState } from '../../types/User';
+import { Locale } from '../../types/Locale';
+import { PrayerCategory, PrayerRequest } from '../../types/PrayerRequest';
+import { DEFAULT_LOCALE, translate } from '../../i18n';
+import type { MessageKey } from '../../i18n';
+import { logger } from '../../utils/logger';
+import { ConversationStateMap } from '../../state';
+
+interface PrayerDraft {
+    step: 'title' | 'update' | 'testimony';
+    category?: PrayerCategory;
+    prayerId?: string;
+}
+
+// Prayer requests: submission, updates and testimonies by users, listing, praying for and closing by counselors
+export class PrayerModule extends BotModule {
+    private static readonly CATEGORY_ACTION_PREFIX = 'prayer_cat';
+    private static readonly UPDATE_ACTION_PREFIX = 'prayer_upd';
+    private static readonly ANSWERED_ACTION_PREFIX = 'prayer_ans';
+    private static readonly TESTIMONY_ACTION_PREFIX = 'prayer_tst';
+    private static readonly SHARE_TESTIMONY_ACTION_PREFIX = 'prayer_shr';
+    private static readonly KEEP_TESTIMONY_PRIVATE_ACTION_PREFIX = 'prayer_prv';
+    private static readonly CLOSE_PRAYER_ACTION_PREFIX = 'close_prayer';
+    private static readonly PRAYED_ACTION_PREFIX = 'prayed';
+    private static readonly MUTE_ACTION_PREFIX = 'prayer_mute';
+    private static readonly UNMUTE_ACTION_PREFIX = 'prayer_unmute';
+    private static readonly PAGINATE_PRAYERS_ACTION_PREFIX = 'pgp';
+    private static readonly PAGINATE_MY_PRAYERS_ACTION_PREFIX = 'pgmp';
+    private static readonly NOTIFICATION_INTERVAL_MS = 5 * 60 * 1000;
+    private static readonly DIGEST_INTERVAL_DAYS = 7;
+    private static readonly DIGEST_TESTIMONY_MAX_LENGTH = 700;
+    private static readonly DIGEST_MESSAGE_MAX_LENGTH = 4000; // Telegram rejects messages over 4096 characters
+
+    private prayerWallModule: PrayerWallModule;
+    private prayerDrafts: ConversationStateMap<PrayerDraft>;
+    private notificationInterval: NodeJS.Timeout | null = null;
+    private notifying: Promise<void> = Promise.resolve();
+    private digesting: Promise<void> = Promise.resolve();
+
+    constructor(services: BotServices, prayerWallModule: PrayerWallModule) {
+        super(services);
+        this.prayerWallModule = prayerWallModule;
+        this.prayerDrafts = this.createStateMap('prayer_draft');
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.SUBMIT_PRAYER), async ctx => {
+            if (!ctx.chat) return;
+            await this.startPrayerSubmission(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.MY_PRAYERS), async ctx => {
+            if (!ctx.chat) return;
+            await this.sendMyPrayerRequests(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.PRAYER_REQUESTS), async ctx => {
+            if (!ctx.chat) return;
+            await this.sendPrayerRequestsToCounselor(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.CLOSE_PRAYER), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleClosePrayer(ctx);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.CLOSE_PRAYER_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const prayerId = (ctx.match as RegExpMatchArray)[1];
+            await this.handleClosePrayer(ctx, prayerId);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.CATEGORY_ACTION_PREFIX}:(${PrayerModule.categoryPattern()})$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleCategorySelected(ctx, (ctx.match as RegExpMatchArray)[1] as PrayerCategory);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.UPDATE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.startPrayerDraft(ctx, { step: 'update', prayerId: (ctx.match as RegExpMatchArray)[1] }, 'prayer.prompt_update');
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.ANSWERED_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMarkAnswered(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.TESTIMONY_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.startPrayerDraft(ctx, { step: 'testimony', prayerId: (ctx.match as RegExpMatchArray)[1] }, 'prayer.prompt_testimony');
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.SHARE_TESTIMONY_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleTestimonySharing(ctx, (ctx.match as RegExpMatchArray)[1], true);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.KEEP_TESTIMONY_PRIVATE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleTestimonySharing(ctx, (ctx.match as RegExpMatchArray)[1], false);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.PRAYED_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handlePrayed(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.MUTE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMuteUpdates(ctx, (ctx.match as RegExpMatchArray)[1], true);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.UNMUTE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleMuteUpdates(ctx, (ctx.match as RegExpMatchArray)[1], false);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.PAGINATE_PRAYERS_ACTION_PREFIX}:(\\d+)(?::(${PrayerModule.categoryPattern()}))?$`), async ctx => {
+            if (!ctx.chat) return;
+            const match = ctx.match as RegExpMatchArray;
+            await ctx.answerCbQuery();
+            await this.sendPrayerRequestsToCounselor(ctx, parseInt(match[1], 10), match[2] as PrayerCategory | undefined);
+        });
+
+        bot.action(new RegExp(`^${PrayerModule.PAGINATE_MY_PRAYERS_ACTION_PREFIX}:(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const page = parseInt((ctx.match as RegExpMatchArray)[1], 10);
+            await ctx.answerCbQuery();
+            await this.sendMyPrayerRequests(ctx, page);
+        });
+
+        bot.command('list_of_prayer_requests', async ctx => {
+            if (!ctx.chat) return;
+            const category = this.extractCommandText(ctx.message?.text, 'list_of_prayer_requests').toLowerCase();
+            await this.sendPrayerRequestsToCounselor(ctx, 1, PrayerModule.isCategory(category) ? category : undefined);
+        });
+
+        bot.command('my_prayers', async ctx => {
+            if (!ctx.chat) return;
+            await this.sendMyPrayerRequests(ctx);
+        });
+
+        bot.command('close_prayer', async ctx => {
+            const prayerId = this.extractCommandText(ctx.message?.text, 'close_prayer');
+            await this.handleClosePrayer(ctx, prayerId);
+        });
+    }
+
+    start(): void {
+        const runJobs = () => {
+            void this.deliverPrayerNotifications();
+            void this.deliverTestimonyDigest();
+        };
+        runJobs();
+        this.notificationInterval = setInterval(runJobs, PrayerModule.NOTIFICATION_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.notificationInterval) {
+            clearInterval(this.notificationInterval);
+            this.notificationInterval = null;
+        }
+    }
+
+    async handleText(ctx: Context, text: string, state: UserState): Promise<boolean> {
+        if (state !== 'SUBMITTING_PRAYER') {
+            return false;
+        }
+
+        const draft = ctx.chat ? await this.prayerDrafts.get(ctx.chat.id) : undefined;
+        if (draft?.step === 'update' && draft.prayerId) {
+            await this.handlePrayerUpdateText(ctx, text, draft.prayerId);
+        } else if (draft?.step === 'testimony' && draft.prayerId) {
+            await this.handleTestimonyText(ctx, text, draft.prayerId);
+        } else {
+            // Without a draft (it expired) the text is still taken as a new request
+            await this.handlePrayerTitle(ctx, text, draft?.category ?? 'other');
+        }
+        return true;
+    }
+
+    private static categoryPattern(): string {
+        return Object.keys(BotMenu.PRAYER_CATEGORIES).join('|');
+    }
+
+    private static isCategory(value: string): value is PrayerCategory {
+        return Object.prototype.hasOwnProperty.call(BotMenu.PRAYER_CATEGORIES, value);
+    }
+
+    private categoryLabel(locale: Locale, category: PrayerCategory): string {
+        return translate(locale, BotMenu.PRAYER_CATEGORIES[category]);
+    }
+
+    async startPrayerSubmission(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const buttons = (Object.keys(BotMenu.PRAYER_CATEGORIES) as PrayerCategory[]).map(category =>
+            Markup.button.callback(
+                this.categoryLabel(this.getLocale(ctx), category),
+                `${PrayerModule.CATEGORY_ACTION_PREFIX}:${category}`
+            )
+        );
+        await ctx.reply(this.t(ctx, 'prayer.select_category'), Markup.inlineKeyboard(buttons, { columns: 2 }));
+    }
+
+    private async handleCategorySelected(ctx: Context, category: PrayerCategory): Promise<void> {
+        await this.startPrayerDraft(ctx, { step: 'title', category }, 'prayer.prompt_title');
+    }
+
+    /**
+     * Remember what the user's next message is for and ask for it
+     */
+    private async startPrayerDraft(ctx: Context, draft: PrayerDraft, promptKey: MessageKey): Promise<void> {
+        if (!ctx.chat) return;
+        await this.prayerDrafts.set(ctx.chat.id, draft);
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'SUBMITTING_PRAYER');
+        await this.replyWithMenu(ctx, 'SUBMITTING_PRAYER', this.t(ctx, promptKey));
+    }
+
+    private async finishPrayerDraft(ctx: Context, userId: string, message: string): Promise<void> {
+        if (!ctx.chat) return;
+        await this.prayerDrafts.delete(ctx.chat.id);
+        await this.services.userManager.updateUserState(userId, 'IDLE');
+        await this.replyWithMenu(ctx, 'IDLE', message);
+    }
+
+    private async handlePrayerTitle(ctx: Context, text: string, category: PrayerCategory): Promise<void> {
+        if (!ctx.chat) return;
+        const title = text.trim();
+        if (!title) {
+            await this.replyWithMenu(ctx, 'SUBMITTING_PRAYER', this.t(ctx, 'prayer.prompt_title'));
+            return;
+        }
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const prayerId = await this.services.userManager.submitPrayerRequest(userId, title, category);
+        await this.prayerDrafts.delete(ctx.chat.id);
+        await this.services.userManager.updateUserState(userId, 'IDLE');
+        await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'prayer.received'));
+        await ctx.reply(this.t(ctx, 'prayer.updates_notice'), this.buildMuteKeyboard(this.getLocale(ctx), prayerId));
+        await this.prayerWallModule.offerPublication(ctx, prayerId);
+    }
+
+    private async sendPrayerRequestsToCounselor(ctx: Context, page = 1, category?: PrayerCategory): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'prayer.view_not_approved'));
+            return;
+        }
+
+        const prayers = await this.services.userManager.getPrayerRequestsForCounselors(category);
+        const locale = this.getLocale(ctx);
+        if (prayers.length === 0) {
+            if (category) {
+                await ctx.reply(
+                    this.t(ctx, 'prayer.none_in_category', { category: this.categoryLabel(locale, category) }),
+                    this.buildCategoryFilterKeyboard(ctx)
+                );
+                return;
+            }
+            await ctx.reply(this.t(ctx, 'prayer.none'));
+            return;
+        }
+
+        const { pageItems, safePage, totalPages } = this.getPagination(prayers, page, BotModule.PAGE_SIZE);
+
+        await ctx.reply(
+            category
+                ? this.t(ctx, 'prayer.list_header_category', { category: this.categoryLabel(locale, category), count: prayers.length })
+                : this.t(ctx, 'prayer.list_header', { count: prayers.length }),
+            this.buildCategoryFilterKeyboard(ctx)
+        );
+
+        for (const prayer of pageItems) {
+            let message = this.t(ctx, 'prayer.item', {
+                title: prayer.title,
+                category: this.categoryLabel(locale, prayer.category),
+                prayerId: prayer.prayerId,
+                submittedAt: prayer.createdAt.toISOString(),
+                prayedCount: prayer.prayedCount,
+                updateCount: prayer.updateCount
+            });
+            if (prayer.latestUpdate) {
+                message += `\n${this.t(ctx, 'prayer.item_latest_update', {
+                    updatedAt: this.formatTimestamp(prayer.latestUpdate.createdAt),
+                    text: this.trimText(prayer.latestUpdate.text, 300)
+                })}`;
+            }
+
+            await ctx.reply(
+                message,
+                Markup.inlineKeyboard([
+                    Markup.button.callback(this.t(ctx, 'prayer.prayed_button'), `${PrayerModule.PRAYED_ACTION_PREFIX}:${prayer.prayerId}`),
+                    Markup.button.callback(this.t(ctx, 'prayer.close_button'), `${PrayerModule.CLOSE_PRAYER_ACTION_PREFIX}:${prayer.prayerId}`)
+                ])
+            );
+        }
+
+        await this.sendPaginationControls(
+            ctx,
+            PrayerModule.PAGINATE_PRAYERS_ACTION_PREFIX,
+            safePage,
+            totalPages,
+            category
+        );
+    }
+
+    private buildCategoryFilterKeyboard(ctx: Context) {
+        const locale = this.getLocale(ctx);
+        const buttons = (Object.keys(BotMenu.PRAYER_CATEGORIES) as PrayerCategory[]).map(category =>
+            Markup.button.callback(
+                this.categoryLabel(locale, category),
+                this.buildPageCallback(PrayerModule.PAGINATE_PRAYERS_ACTION_PREFIX, 1, category)
+            )
+        );
+        buttons.push(
+            Markup.button.callback(this.t(ctx, 'prayer.category_all'), this.buildPageCallback(PrayerModule.PAGINATE_PRAYERS_ACTION_PREFIX, 1))
+        );
+        return Markup.inlineKeyboard(buttons, { columns: 3 });
+    }
+
+    private async sendMyPrayerRequests(ctx: Context, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        const prayers = user
+            ? (await this.services.userManager.getUserPrayerRequests(user.uuid)).filter(prayer => prayer.status !== 'closed')
+            : [];
+        if (prayers.length === 0) {
+            await ctx.reply(this.t(ctx, 'prayer.my_none'));
+            return;
+        }
+
+        const { pageItems, safePage, totalPages } = this.getPagination(prayers, page, BotModule.PAGE_SIZE);
+        const locale = this.getLocale(ctx);
+
+        await ctx.reply(this.t(ctx, 'prayer.my_list_header', { count: prayers.length }));
+
+        for (const prayer of pageItems) {
+            await ctx.reply(
+                this.t(ctx, 'prayer.my_item', {
+                    title: prayer.title,
+                    category: this.categoryLabel(locale, prayer.category ?? 'other'),
+                    submittedAt: this.formatTimestamp(prayer.createdAt),
+                    prayedCount: prayer.prayedCount ?? 0,
+                    updateCount: prayer.updates?.length ?? 0
+                }),
+                Markup.inlineKeyboard([
+                    Markup.button.callback(this.t(ctx, 'prayer.update_button'), `${PrayerModule.UPDATE_ACTION_PREFIX}:${prayer.prayerId}`),
+                    Markup.button.callback(this.t(ctx, 'prayer.answered_button'), `${PrayerModule.ANSWERED_ACTION_PREFIX}:${prayer.prayerId}`)
+                ])
+            );
+        }
+
+        await this.sendPaginationControls(ctx, PrayerModule.PAGINATE_MY_PRAYERS_ACTION_PREFIX, safePage, totalPages);
+    }
+
+    private async handlePrayerUpdateText(ctx: Context, text: string, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!text.trim()) {
+            await this.replyWithMenu(ctx, 'SUBMITTING_PRAYER', this.t(ctx, 'prayer.prompt_update'));
+            return;
+        }
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const posted = await this.services.userManager.addPrayerUpdate(prayerId, userId, text);
+        await this.finishPrayerDraft(ctx, userId, this.t(ctx, posted ? 'prayer.update_posted' : 'prayer.update_unavailable'));
+    }
+
+    private async handleMarkAnswered(ctx: Context, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        const answered = user ? await this.services.userManager.markPrayerAnswered(prayerId, user.uuid) : false;
+        if (!answered) {
+            await ctx.reply(this.t(ctx, 'prayer.update_unavailable'));
+            return;
+        }
+
+        await this.prayerWallModule.refreshPost(prayerId);
+        await ctx.reply(
+            this.t(ctx, 'prayer.answered'),
+            Markup.inlineKeyboard([
+                Markup.button.callback(this.t(ctx, 'prayer.testimony_button'), `${PrayerModule.TESTIMONY_ACTION_PREFIX}:${prayerId}`)
+            ])
+        );
+    }
+
+    private async handleTestimonyText(ctx: Context, text: string, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!text.trim()) {
+            await this.replyWithMenu(ctx, 'SUBMITTING_PRAYER', this.t(ctx, 'prayer.prompt_testimony'));
+            return;
+        }
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const saved = await this.services.userManager.addPrayerTestimony(prayerId, userId, text);
+        if (!saved) {
+            await this.finishPrayerDraft(ctx, userId, this.t(ctx, 'prayer.testimony_locked'));
+            return;
+        }
+
+        await this.finishPrayerDraft(ctx, userId, this.t(ctx, 'prayer.testimony_saved'));
+        await ctx.reply(
+            this.t(ctx, 'prayer.testimony_share_prompt'),
+            Markup.inlineKeyboard([
+                [Markup.button.callback(this.t(ctx, 'prayer.share_button'), `${PrayerModule.SHARE_TESTIMONY_ACTION_PREFIX}:${prayerId}`)],
+                [Markup.button.callback(this.t(ctx, 'prayer.keep_private_button'), `${PrayerModule.KEEP_TESTIMONY_PRIVATE_ACTION_PREFIX}:${prayerId}`)]
+            ])
+        );
+    }
+
+    private async handleTestimonySharing(ctx: Context, prayerId: string, share: boolean): Promise<void> {
+        if (!ctx.chat) return;
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        const updated = user ? await this.services.userManager.setTestimonySharing(prayerId, user.uuid, share) : false;
+        if (!updated) {
+            await ctx.reply(this.t(ctx, 'prayer.testimony_locked'));
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, share ? 'prayer.testimony_shared' : 'prayer.testimony_private'));
+    }
+
+    private async handleClosePrayer(ctx: Context, prayerId?: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'prayer.close_not_approved'));
+            return;
+        }
+
+        if (!prayerId) {
+            await ctx.reply(this.t(ctx, 'prayer.select_to_close'));
+            await this.sendPrayerRequestsToCounselor(ctx);
+    
+            return;
+        }
+
+        try {
+            const result = await this.services.userManager.closePrayerRequest(prayerId);
+            if (!result.closed) {
+                await ctx.reply(this.t(ctx, 'prayer.already_closed'));
+                return;
+            }
+
+            await ctx.reply(this.t(ctx, 'prayer.closed', { prayerId }));
+            await this.prayerWallModule.refreshPost(prayerId);
+            if (result.prayer.notificationsMuted) {
+                return;
+            }
+
+            const userChatId = await this.resolveChatId(result.prayer.userId, 'user');
+            if (!userChatId) {
+                logger.warn('Unable to notify prayer request submitter (missing chat ID)', { prayerId });
+                return;
+            }
+
+            try {
+                const message = await this.tForChat(userChatId, 'prayer.prayed_for', {
+                    title: result.prayer.title,
+                    submittedAt: result.prayer.createdAt.toISOString()
+                });
+
+                await this.services.bot.telegram.sendMessage(userChatId, message);
+            } catch (notifyError) {
+                const err = notifyError as Error;
+                logger.warn('Failed to notify prayer request submitter', {
+                    prayerId,
+                    message: err.message
+                });
+            }
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'prayer.close_failed'));
+        }
+    }
+
+    private async handlePrayed(ctx: Context, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'prayer.view_not_approved'));
+            return;
+        }
+
+        try {
+            const result = await this.services.userManager.recordPrayer(prayerId, counselor.id);
+            await ctx.reply(this.t(ctx, result.recorded ? 'prayer.prayed_recorded' : 'prayer.already_prayed'));
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'prayer.update_unavailable'));
+            return;
+        }
+
+        void this.deliverPrayerNotifications();
+    }
+
+    private async handleMuteUpdates(ctx: Context, prayerId: string, muted: boolean): Promise<void> {
+        if (!ctx.chat) return;
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        const updated = user
+            ? await this.services.userManager.setPrayerNotificationsMuted(prayerId, user.uuid, muted)
+            : false;
+        if (!updated) {
+            await ctx.reply(this.t(ctx, 'prayer.update_unavailable'));
+            return;
+        }
+
+        if (muted) {
+            await ctx.reply(
+                this.t(ctx, 'prayer.muted'),
+                Markup.inlineKeyboard([
+                    Markup.button.callback(this.t(ctx, 'prayer.unmute_button'), `${PrayerModule.UNMUTE_ACTION_PREFIX}:${prayerId}`)
+                ])
+            );
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, 'prayer.unmuted'));
+    }
+
+    private buildMuteKeyboard(locale: Locale, prayerId: string) {
+        return Markup.inlineKeyboard([
+            Markup.button.callback(translate(locale, 'prayer.mute_button'), `${PrayerModule.MUTE_ACTION_PREFIX}:${prayerId}`)
+        ]);
+    }
+
+    /**
+     * Tell submitters how many counselors have prayed for their requests. Runs are chained so passes never overlap;
+     * claimDuePrayerNotification throttles each request and keeps replicas from sending the same update twice.
+     */
+    private deliverPrayerNotifications(): Promise<void> {
+        this.notifying = this.notifying
+            .then(async () => {
+                const cooldownMinutes = this.services.config.prayerNotificationCooldownMinutes;
+                let prayer = await this.services.userManager.claimDuePrayerNotification(cooldownMinutes);
+                while (prayer) {
+                    await this.deliverPrayerNotification(prayer);
+                    prayer = await this.services.userManager.claimDuePrayerNotification(cooldownMinutes);
+                }
+            })
+            .catch(error => {
+                const err = error as Error;
+                logger.error('Prayer notification delivery failed', { message: err.message, stack: err.stack });
+            });
+        return this.notifying;
+    }
+
+    private async deliverPrayerNotification(prayer: PrayerRequest): Promise<void> {
+        const userChatId = await this.resolveChatId(prayer.userId, 'user');
+        if (!userChatId) {
+            return;
+        }
+
+        try {
+            const locale = await this.getChatLocale(userChatId);
+            const count = prayer.prayedCount ?? 0;
+            await this.services.bot.telegram.sendMessage(
+                userChatId,
+                count === 1
+                    ? translate(locale, 'prayer.prayed_count_one', { title: prayer.title })
+                    : translate(locale, 'prayer.prayed_count', { count, title: prayer.title }),
+                this.buildMuteKeyboard(locale, prayer.prayerId)
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to send prayer update', { prayerId: prayer.prayerId, message: err.message });
+        }
+    }
+
+    /**
+     * Send the testimonies users agreed to share to everyone, at most once per digest interval.
+     * Only the category and testimony text go out, never the title or who wrote it.
+     */
+    private deliverTestimonyDigest(): Promise<void> {
+        this.digesting = this.digesting
+            .then(async () => {
+                const digest = await this.services.userManager.claimTestimonyDigest(PrayerModule.DIGEST_INTERVAL_DAYS);
+                if (!digest) {
+                    return;
+                }
+                const { digestId, testimonies } = digest;
+
+                // Chats that blocked the bot are skipped, as for broadcasts
+                const recipients = await this.services.collections.users
+                    .find({ unreachableAt: { $exists: false } }, { projection: { telegramChatId: 1, language: 1 } })
+                    .toArray();
+                const messagesByLocale = new Map<Locale, string[]>();
+                let delivered = 0;
+
+                for (const recipient of recipients) {
+                    const locale = recipient.language ?? DEFAULT_LOCALE;
+                    let messages = messagesByLocale.get(locale);
+                    if (!messages) {
+                        messages = this.buildDigestMessages(locale, testimonies);
+                        messagesByLocale.set(locale, messages);
+                    }
+
+                    if (await this.services.broadcastManager.sendDirect(recipient.telegramChatId, messages) === 'sent') {
+                        delivered++;
+                    }
+                }
+
+                if (delivered === 0) {
+                    await this.services.userManager.releaseTestimonyDigest(digestId);
+                    logger.warn('Testimony digest reached nobody; it will be retried', { testimonies: testimonies.length });
+                    return;
+                }
+                await this.services.userManager.completeTestimonyDigest(digestId);
+                logger.info('Testimony digest sent', { testimonies: testimonies.length, recipients: delivered });
+            })
+            .catch(error => {
+                const err = error as Error;
+                logger.error('Testimony digest delivery failed', { message: err.message, stack: err.stack });
+            });
+        return this.digesting;
+    }
+
+    private buildDigestMessages(locale: Locale, testimonies: Array<{ category: PrayerCategory; text: string }>): string[] {
+        const messages: string[] = [];
+        let current = translate(locale, 'prayer.digest_header', { count: testimonies.length });
+
+        for (const testimony of testimonies) {
+            const item = translate(locale, 'prayer.digest_item', {
+                category: this.categoryLabel(locale, testimony.category),
+                text: this.trimText(testimony.text, PrayerModule.DIGEST_TESTIMONY_MAX_LENGTH)
+            });
+            if (current.length + item.length + 2 > PrayerModule.DIGEST_MESSAGE_MAX_LENGTH) {
+                messages.push(current);
+                current = item;
+            } else {
+                current = `${current}\n\n${item}`;
+            }
+        }
+
+        messages.push(current);
+        return messages;
+    }
+}
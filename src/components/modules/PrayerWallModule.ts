@@ -0,0 +1,328 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { Locale } from '../../types/Locale';
+import { PrayerWallItem } from '../../managers/PrayerWallManager';
+import { MessageKey, translate } from '../../i18n';
+import { logger } from '../../utils/logger';
+import { ConversationStateMap } from '../../state';
+
+interface PrayerWallEditState {
+    prayerId: string;
+}
+
+// Public prayer wall: submitter opt-in, admin moderation and the anonymous posts in the configured channel
+export class PrayerWallModule extends BotModule {
+    private static readonly OPT_IN_ACTION_PREFIX = 'wall_optin';
+    private static readonly APPROVE_ACTION_PREFIX = 'wall_ok';
+    private static readonly EDIT_ACTION_PREFIX = 'wall_edit';
+    private static readonly REJECT_ACTION_PREFIX = 'wall_no';
+
+    private wallEdits: ConversationStateMap<PrayerWallEditState>;
+
+    constructor(services: BotServices) {
+        super(services);
+        this.wallEdits = this.createStateMap('prayer_wall_edit');
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.command('prayer_wall', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleQueue(ctx);
+        });
+
+        bot.action(new RegExp(`^${PrayerWallModule.OPT_IN_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleOptIn(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${PrayerWallModule.APPROVE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleApprove(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${PrayerWallModule.EDIT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleEditStart(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+
+        bot.action(new RegExp(`^${PrayerWallModule.REJECT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleReject(ctx, (ctx.match as RegExpMatchArray)[1]);
+        });
+    }
+
+    async handleText(ctx: Context, text: string): Promise<boolean> {
+        if (!ctx.chat) return false;
+
+        const edit = await this.wallEdits.get(ctx.chat.id);
+        if (!edit) return false;
+
+        if (!(await this.hasPermission(ctx.chat.id, 'review_content'))) {
+            await this.wallEdits.delete(ctx.chat.id);
+            return false;
+        }
+
+        if (!text.trim()) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.prompt_edit_empty'));
+            return true;
+        }
+
+        await this.wallEdits.delete(ctx.chat.id);
+        const item = await this.services.prayerWallManager.editPendingText(edit.prayerId, text);
+        if (!item) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.already_reviewed'));
+            return true;
+        }
+
+        await ctx.reply(this.t(ctx, 'prayer_wall.edited'));
+        await ctx.reply(this.formatReview(this.getLocale(ctx), item), this.buildReviewKeyboard(this.getLocale(ctx), item.prayerId));
+        return true;
+    }
+
+    isEnabled(): boolean {
+        return Boolean(this.services.config.prayerWallChannelId);
+    }
+
+    /**
+     * Ask a submitter whether their new request may go on the prayer wall. Nothing is posted without admin approval.
+     */
+    async offerPublication(ctx: Context, prayerId: string): Promise<void> {
+        if (!this.isEnabled()) return;
+
+        await ctx.reply(
+            this.t(ctx, 'prayer_wall.opt_in_prompt'),
+            Markup.inlineKeyboard([
+                Markup.button.callback(this.t(ctx, 'prayer_wall.opt_in_button'), `${PrayerWallModule.OPT_IN_ACTION_PREFIX}:${prayerId}`)
+            ])
+        );
+    }
+
+    /**
+     * Bring the channel post in line with the request after it was closed or answered
+     */
+    async refreshPost(prayerId: string): Promise<void> {
+        if (!this.isEnabled()) return;
+
+        const item = await this.services.prayerWallManager.getItem(prayerId);
+        if (item?.channelMessageId === undefined) return;
+
+        try {
+            await this.services.bot.telegram.editMessageText(
+                this.services.config.prayerWallChannelId,
+                item.channelMessageId,
+                undefined,
+                this.formatPost(item)
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to update prayer wall post', { prayerId, message: err.message });
+        }
+    }
+
+    /**
+     * Take posts down from the channel. A post the bot can no longer delete is overwritten instead;
+     * returns how many stayed up unchanged.
+     */
+    async removePosts(channelMessageIds: number[]): Promise<number> {
+        if (!this.isEnabled()) return channelMessageIds.length;
+
+        const channelId = this.services.config.prayerWallChannelId;
+        let kept = 0;
+        for (const messageId of channelMessageIds) {
+            try {
+                await this.services.bot.telegram.deleteMessage(channelId, messageId);
+                continue;
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to delete prayer wall post, overwriting it instead', { messageId, message: err.message });
+            }
+
+            try {
+                await this.services.bot.telegram.editMessageText(
+                    channelId,
+                    messageId,
+                    undefined,
+                    translate(this.services.config.prayerWallLanguage, 'prayer_wall.post_removed')
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to overwrite prayer wall post', { messageId, message: err.message });
+                kept++;
+            }
+        }
+        return kept;
+    }
+
+    private async handleOptIn(ctx: Context, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!this.isEnabled()) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.opt_in_unavailable'));
+            return;
+        }
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        const item = user ? await this.services.prayerWallManager.requestPublication(prayerId, user.uuid) : null;
+        if (!item) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.opt_in_unavailable'));
+            return;
+        }
+
+        await ctx.reply(this.t(ctx, 'prayer_wall.opt_in_received'));
+
+        for (const adminChatId of await this.services.adminManager.getChatIdsWithPermission('review_content')) {
+            try {
+                const locale = await this.getChatLocale(adminChatId);
+                await this.services.bot.telegram.sendMessage(
+                    adminChatId,
+                    `${translate(locale, 'prayer_wall.admin_new_request')}\n\n${this.formatReview(locale, item)}`,
+                    this.buildReviewKeyboard(locale, item.prayerId)
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify admin about prayer wall request', { prayerId, message: err.message });
+            }
+        }
+    }
+
+    private async handleQueue(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'review_content'))) {
+            logger.warn('Unauthorized prayer_wall access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'prayer_wall.not_authorized'));
+            return;
+        }
+
+        if (!this.isEnabled()) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.disabled'));
+            return;
+        }
+
+        const items = await this.services.prayerWallManager.getPendingItems();
+        if (items.length === 0) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.queue_empty'));
+            return;
+        }
+
+        const locale = this.getLocale(ctx);
+        await ctx.reply(this.t(ctx, 'prayer_wall.queue_header', { count: items.length }));
+        for (const item of items) {
+            await ctx.reply(this.formatReview(locale, item), this.buildReviewKeyboard(locale, item.prayerId));
+        }
+    }
+
+    private async handleApprove(ctx: Context, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'review_content'))) {
+            logger.warn('Unauthorized prayer wall review', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'prayer_wall.not_authorized'));
+            return;
+        }
+
+        const adminId = ctx.chat.id.toString();
+        const item = await this.services.prayerWallManager.approve(prayerId, adminId);
+        if (!item) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.already_reviewed'));
+            return;
+        }
+
+        try {
+            const post = await this.services.bot.telegram.sendMessage(this.services.config.prayerWallChannelId, this.formatPost(item));
+            await this.services.prayerWallManager.recordChannelPost(prayerId, post.message_id);
+        } catch (error) {
+            const err = error as Error;
+            logger.error('Failed to publish to prayer wall', { prayerId, message: err.message });
+            await this.services.prayerWallManager.revertApproval(prayerId);
+            await ctx.reply(this.t(ctx, 'prayer_wall.publish_failed', { message: err.message }));
+            return;
+        }
+
+        await this.services.auditLogManager.recordAdminAction(adminId, 'approve_prayer_wall', prayerId, { text: item.text });
+        await ctx.reply(this.t(ctx, 'prayer_wall.published'));
+        await this.notifySubmitter(prayerId, 'prayer_wall.submitter_published');
+    }
+
+    private async handleEditStart(ctx: Context, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'review_content'))) {
+            logger.warn('Unauthorized prayer wall review', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'prayer_wall.not_authorized'));
+            return;
+        }
+
+        const item = await this.services.prayerWallManager.getItem(prayerId);
+        if (!item || item.status !== 'open') {
+            await ctx.reply(this.t(ctx, 'prayer_wall.already_reviewed'));
+            return;
+        }
+
+        await this.wallEdits.set(ctx.chat.id, { prayerId });
+        await ctx.reply(this.t(ctx, 'prayer_wall.prompt_edit', { text: item.text }));
+    }
+
+    private async handleReject(ctx: Context, prayerId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'review_content'))) {
+            logger.warn('Unauthorized prayer wall review', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'prayer_wall.not_authorized'));
+            return;
+        }
+
+        const adminId = ctx.chat.id.toString();
+        const rejected = await this.services.prayerWallManager.reject(prayerId, adminId);
+        if (!rejected) {
+            await ctx.reply(this.t(ctx, 'prayer_wall.already_reviewed'));
+            return;
+        }
+
+        await this.services.auditLogManager.recordAdminAction(adminId, 'reject_prayer_wall', prayerId);
+        await ctx.reply(this.t(ctx, 'prayer_wall.rejected'));
+        await this.notifySubmitter(prayerId, 'prayer_wall.submitter_rejected');
+    }
+
+    private async notifySubmitter(prayerId: string, key: MessageKey): Promise<void> {
+        const prayer = await this.services.collections.prayers.findOne({ prayerId });
+        const userChatId = prayer ? await this.resolveChatId(prayer.userId, 'user') : null;
+        if (!prayer || !userChatId) return;
+
+        try {
+            await this.services.bot.telegram.sendMessage(userChatId, await this.tForChat(userChatId, key, { title: prayer.title }));
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to notify submitter about prayer wall review', { prayerId, message: err.message });
+        }
+    }
+
+    private formatReview(locale: Locale, item: PrayerWallItem): string {
+        return translate(locale, 'prayer_wall.review_item', {
+            category: translate(locale, BotMenu.PRAYER_CATEGORIES[item.category]),
+            text: item.text,
+            prayerId: item.prayerId,
+            requestedAt: this.formatTimestamp(item.requestedAt)
+        });
+    }
+
+    private buildReviewKeyboard(locale: Locale, prayerId: string) {
+        return Markup.inlineKeyboard([
+            Markup.button.callback(translate(locale, 'prayer_wall.approve_button'), `${PrayerWallModule.APPROVE_ACTION_PREFIX}:${prayerId}`),
+            Markup.button.callback(translate(locale, 'prayer_wall.edit_button'), `${PrayerWallModule.EDIT_ACTION_PREFIX}:${prayerId}`),
+            Markup.button.callback(translate(locale, 'prayer_wall.reject_button'), `${PrayerWallModule.REJECT_ACTION_PREFIX}:${prayerId}`)
+        ]);
+    }
+
+    private formatPost(item: PrayerWallItem): string {
+        const locale = this.services.config.prayerWallLanguage;
+        const key: MessageKey = item.answered
+            ? 'prayer_wall.post_answered'
+            : item.status === 'closed' ? 'prayer_wall.post_closed' : 'prayer_wall.post';
+        return translate(locale, key, {
+            category: translate(locale, BotMenu.PRAYER_CATEGORIES[item.category]),
+            text: item.text
+        });
+    }
+}
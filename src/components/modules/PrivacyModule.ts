@@ -0,0 +1,133 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { PrayerWallModule } from './PrayerWallModule';
+import { User } from '../../types/User';
+import { logger } from '../../utils/logger';
+
+// Users' own data: exporting everything stored about them and erasing it on request
+export class PrivacyModule extends BotModule {
+    private static readonly ERASE_CONFIRM_ACTION = 'privacy_erase';
+    private static readonly ERASE_CANCEL_ACTION = 'privacy_erase_no';
+
+    private prayerWallModule: PrayerWallModule;
+
+    constructor(services: BotServices, prayerWallModule: PrayerWallModule) {
+        super(services);
+        this.prayerWallModule = prayerWallModule;
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.command('my_data', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleExport(ctx);
+        });
+
+        bot.command('delete_my_data', async ctx => {
+            if (!ctx.chat) return;
+            await this.handleEraseRequest(ctx);
+        });
+
+        bot.action(PrivacyModule.ERASE_CONFIRM_ACTION, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleEraseConfirm(ctx);
+        });
+
+        bot.action(PrivacyModule.ERASE_CANCEL_ACTION, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await ctx.reply(this.t(ctx, 'privacy.delete_cancelled'));
+        });
+    }
+
+    /**
+     * The user record behind this chat. Counselor data is handled by admins, so counselors are turned away here.
+     */
+    private async resolveDataSubject(ctx: Context): Promise<User | null> {
+        if (!ctx.chat) return null;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (counselor) {
+            await ctx.reply(this.t(ctx, 'privacy.counselor_not_supported'));
+            return null;
+        }
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        if (!user) {
+            await ctx.reply(this.t(ctx, 'privacy.no_data'));
+            return null;
+        }
+
+        return user;
+    }
+
+    private async handleExport(ctx: Context): Promise<void> {
+        const user = await this.resolveDataSubject(ctx);
+        if (!user) return;
+
+        try {
+            const data = await this.services.privacyManager.exportUserData(user.uuid);
+            await ctx.replyWithDocument(
+                {
+                    source: Buffer.from(JSON.stringify(data, null, 2), 'utf8'),
+                    filename: `my-data-${data.exportedAt.toISOString().slice(0, 10)}.json`
+                },
+                { caption: this.t(ctx, 'privacy.export_caption') }
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.error('Failed to export user data', { message: err.message });
+            await ctx.reply(this.describeError(ctx, error, 'privacy.export_failed'));
+        }
+    }
+
+    private async handleEraseRequest(ctx: Context): Promise<void> {
+        const user = await this.resolveDataSubject(ctx);
+        if (!user) return;
+
+        await ctx.reply(
+            this.t(ctx, 'privacy.delete_confirm'),
+            Markup.inlineKeyboard([
+                [Markup.button.callback(this.t(ctx, 'privacy.delete_button'), PrivacyModule.ERASE_CONFIRM_ACTION)],
+                [Markup.button.callback(this.t(ctx, 'common.cancel'), PrivacyModule.ERASE_CANCEL_ACTION)]
+            ])
+        );
+    }
+
+    private async handleEraseConfirm(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const user = await this.resolveDataSubject(ctx);
+        if (!user) return;
+
+        let wallPostsKept = 0;
+        try {
+            // Posts cannot be restored once removed, so refuse before touching them if the erase itself would fail
+            await this.services.privacyManager.assertErasable(user.uuid);
+
+            // The prayer records hold the only link to their channel posts, so take the posts down first
+            const channelMessageIds = await this.services.prayerWallManager.getChannelMessageIds(user.uuid);
+            wallPostsKept = await this.prayerWallModule.removePosts(channelMessageIds);
+
+            const result = await this.services.privacyManager.eraseUserData(user.uuid);
+            // The erased ID no longer maps to anyone; keeping it lets admins match the entry to a support request
+            await this.services.auditLogManager.recordAdminAction('system', 'erase_user_data', user.uuid, {
+                ...result,
+                wallPostsRemoved: channelMessageIds.length - wallPostsKept,
+                wallPostsKept
+            });
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to erase user data', { message: err.message });
+            await ctx.reply(this.describeError(ctx, error, 'privacy.delete_failed'));
+            return;
+        }
+
+        await this.replyWithMenu(
+            ctx,
+            'IDLE',
+            wallPostsKept > 0 ? this.t(ctx, 'privacy.deleted_wall_posts_kept', { count: wallPostsKept }) : this.t(ctx, 'privacy.deleted')
+        );
+    }
+}
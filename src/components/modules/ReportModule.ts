@@ -0,0 +1,343 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { Session } from '../../types/Session';
+import { UserState } from '../../types/User';
+import { formatMessageContent } from '../../models/utils';
+import { logger } from '../../utils/logger';
+
+// Reporting counselors after a session and admin review of pending reports
+export class ReportModule extends BotModule {
+    private static readonly PROCESS_REPORT_ACTION_PREFIX = 'pr';
+    private static readonly VIEW_REPORT_CHAT_ACTION_PREFIX = 'vrc';
+    private static readonly PAGINATE_REPORTS_ACTION_PREFIX = 'pgr';
+
+    constructor(services: BotServices) {
+        super(services);
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.REPORT), async ctx => {
+            if (!ctx.chat) return;
+            await this.startReport(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.PENDING_REPORTS), async ctx => {
+            if (!ctx.chat) return;
+            await this.handlePendingReports(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.PROCESS_REPORT), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleProcessReport(ctx);
+        });
+
+        bot.action(new RegExp(`^${ReportModule.PROCESS_REPORT_ACTION_PREFIX}:(.+):(s|d)$`), async ctx => {
+            if (!ctx.chat) return;
+            const match = ctx.match as RegExpMatchArray;
+            const reportId = match[1];
+            const actionToken = match[2];
+            const action = actionToken === 's' ? 'strike' : 'dismiss';
+            await this.processReportAction(ctx, reportId, action);
+        });
+
+        bot.action(new RegExp(`^${ReportModule.VIEW_REPORT_CHAT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const reportId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleViewReportChat(ctx, reportId);
+        });
+
+        bot.action(new RegExp(`^${ReportModule.PAGINATE_REPORTS_ACTION_PREFIX}:(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const page = parseInt((ctx.match as RegExpMatchArray)[1], 10);
+            await ctx.answerCbQuery();
+            await this.handlePendingReports(ctx, page);
+        });
+
+        bot.command('pending_reports', async ctx => {
+            if (!ctx.chat) return;
+            await this.handlePendingReports(ctx);
+        });
+
+        bot.command('process_report', async ctx => {
+            if (!ctx.chat) return;
+            const args = this.extractCommandText(ctx.message?.text, 'process_report');
+            await this.handleProcessReport(ctx, args);
+        });
+    }
+
+    async handleText(ctx: Context, text: string, state: UserState): Promise<boolean> {
+        if (state !== 'REPORTING') {
+            return false;
+        }
+
+        await this.handleReportReason(ctx, text);
+        return true;
+    }
+
+    private async startReport(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const activeSession = await this.services.sessionManager.getActiveSessionForUser(userId);
+        if (activeSession) {
+            await this.services.userManager.updateUserState(userId, 'IN_SESSION');
+            await this.replyWithMenu(ctx, 'IN_SESSION', this.t(ctx, 'report.end_session_first'));
+            return;
+        }
+
+        const user = await this.services.userManager.getUserByTelegramId(ctx.chat.id);
+        if (user?.state !== 'POST_SESSION') {
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'report.after_session_only'));
+            return;
+        }
+
+        await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'REPORTING');
+        await this.replyWithMenu(ctx, 'REPORTING', this.t(ctx, 'report.prompt_reason'));
+    }
+
+    private async handleReportReason(ctx: Context, text: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const reason = text.trim();
+        if (!reason) {
+            await this.replyWithMenu(ctx, 'REPORTING', this.t(ctx, 'report.prompt_reason'));
+            return;
+        }
+
+        const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+        if (requesterType !== 'user') {
+            await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'report.users_only'));
+            return;
+        }
+
+        let session = await this.services.sessionManager.getActiveSessionForUser(requesterId);
+        if (!session) {
+            session = await this.findRecentSessionByUserId(requesterId);
+        }
+
+        if (!session || session.userId !== requesterId) {
+            await this.services.userManager.updateUserStateByTelegramId(ctx.chat.id, 'IDLE');
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'report.no_recent_session'));
+            return;
+        }
+
+        const sessionCounselorId = this.getSessionCounselorId(session);
+        const report = await this.services.reportingSystem.submitReport(session.sessionId, sessionCounselorId, reason);
+        const counselorChatId = await this.resolveChatId(sessionCounselorId, 'counselor');
+        if (counselorChatId) {
+            await this.services.bot.telegram.sendMessage(
+                counselorChatId,
+                await this.tForChat(counselorChatId, 'report.counselor_notice', { reportId: report.reportId, reason })
+            );
+        }
+        const stillActive = await this.services.sessionManager.getActiveSessionForUser(requesterId);
+        const nextState: UserState = stillActive ? 'IN_SESSION' : 'IDLE';
+        await this.services.userManager.updateUserState(requesterId, nextState);
+        await this.replyWithMenu(ctx, nextState, this.t(ctx, 'report.submitted', { reportId: report.reportId }));
+    }
+
+    private async handlePendingReports(ctx: Context, page = 1): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'process_reports'))) {
+            logger.warn('Unauthorized pending_reports access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'report.view_not_authorized'));
+            return;
+        }
+
+        const reports = await this.services.reportingSystem.getPendingReports();
+        if (reports.length === 0) {
+            await ctx.reply(this.t(ctx, 'report.none_pending'));
+            return;
+        }
+
+        const { pageItems, safePage, totalPages } = this.getPagination(reports, page, BotModule.PAGE_SIZE);
+
+        await ctx.reply(this.t(ctx, 'report.pending_header', { count: reports.length }));
+        for (const report of pageItems) {
+            const submittedAt = report.timestamp instanceof Date
+                ? report.timestamp.toISOString()
+                : new Date(report.timestamp).toISOString();
+            const message = this.t(ctx, 'report.pending_item', {
+                reportId: report.reportId,
+                counselorId: report.counselorId,
+                reason: report.reason,
+                submittedAt
+            });
+
+            await ctx.reply(
+                message,
+                Markup.inlineKeyboard([
+                    [
+                        Markup.button.callback(
+                            this.t(ctx, 'report.view_chat_button'),
+                            `${ReportModule.VIEW_REPORT_CHAT_ACTION_PREFIX}:${report.reportId}`
+                        )
+                    ],
+                    [
+                        Markup.button.callback(
+                            this.t(ctx, 'report.strike_button'),
+                            `${ReportModule.PROCESS_REPORT_ACTION_PREFIX}:${report.reportId}:s`
+                        ),
+                        Markup.button.callback(
+                            this.t(ctx, 'report.dismiss_button'),
+                            `${ReportModule.PROCESS_REPORT_ACTION_PREFIX}:${report.reportId}:d`
+                        )
+                    ]
+                ])
+            );
+        }
+
+        await this.sendPaginationControls(
+            ctx,
+            ReportModule.PAGINATE_REPORTS_ACTION_PREFIX,
+            safePage,
+            totalPages
+        );
+    }
+
+    private async handleViewReportChat(ctx: Context, reportId: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'process_reports'))) {
+            logger.warn('Unauthorized view report chat access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'report.chat_not_authorized'));
+            return;
+        }
+
+        const report = await this.services.collections.reports.findOne({ reportId });
+        if (!report) {
+            await ctx.reply(this.t(ctx, 'error.report_not_found'));
+            return;
+        }
+
+        try {
+            const session = await this.services.collections.sessions.findOne({ sessionId: report.sessionId });
+            if (session?.logMode === 'no_log') {
+                await ctx.reply(this.t(ctx, 'report.chat_no_log', {
+                    sessionId: report.sessionId,
+                    count: session.messageCount ?? 0,
+                    reason: report.reason
+                }));
+                return;
+            }
+
+            if (session?.userErasedAt) {
+                await ctx.reply(this.t(ctx, 'report.chat_erased', { sessionId: report.sessionId, reason: report.reason }));
+                return;
+            }
+
+            const messages = await this.services.sessionManager.getMessageHistoryForAdmin(report.sessionId);
+            if (messages.length === 0) {
+                await ctx.reply(this.t(ctx, 'report.chat_empty', { sessionId: report.sessionId, reason: report.reason }));
+                return;
+            }
+
+            const formatted = messages.map(msg => {
+                const senderLabel = this.t(ctx, msg.senderType === 'user' ? 'common.user' : 'common.counselor');
+                const ts = msg.timestamp instanceof Date
+                    ? msg.timestamp.toISOString()
+                    : new Date(msg.timestamp).toISOString();
+                return `[${ts}] ${senderLabel}: ${formatMessageContent(msg)}`;
+            });
+
+            const header = this.t(ctx, 'report.chat_header', {
+                reportId: report.reportId,
+                counselorId: report.counselorId,
+                reason: report.reason
+            }) + '\n\n';
+            const fullText = header + formatted.join('\n');
+
+            const TELEGRAM_MAX_LENGTH = 4096;
+            if (fullText.length <= TELEGRAM_MAX_LENGTH) {
+                await ctx.reply(fullText);
+            } else {
+                await ctx.reply(header.trim());
+                let currentChunk = '';
+                for (const line of formatted) {
+                    if (currentChunk.length + line.length + 1 > TELEGRAM_MAX_LENGTH && currentChunk) {
+                        await ctx.reply(currentChunk);
+                        currentChunk = '';
+                    }
+                    currentChunk += (currentChunk ? '\n' : '') + line;
+                }
+                if (currentChunk) {
+                    await ctx.reply(currentChunk);
+                }
+            }
+        } catch (error) {
+            const err = error as Error;
+            logger.error('Failed to fetch report chat', { reportId, message: err.message });
+            await ctx.reply(this.t(ctx, 'report.chat_failed', { message: err.message }));
+        }
+    }
+
+    private async handleProcessReport(ctx: Context, args?: string): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'process_reports'))) {
+            logger.warn('Unauthorized process_report access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'report.process_not_authorized'));
+            return;
+        }
+
+        if (!args) {
+            await ctx.reply(this.t(ctx, 'report.process_usage'));
+            return;
+        }
+
+        const [reportId, action] = args.split(' ');
+        if (!reportId || (action !== 'strike' && action !== 'dismiss')) {
+            await ctx.reply(this.t(ctx, 'report.process_usage'));
+            return;
+        }
+
+        await this.processReportAction(ctx, reportId, action);
+    }
+
+    private async processReportAction(ctx: Context, reportId: string, action: 'strike' | 'dismiss'): Promise<void> {
+        if (!ctx.chat) return;
+        if (!(await this.hasPermission(ctx.chat.id, 'process_reports'))) {
+            logger.warn('Unauthorized process_report access', { chatId: ctx.chat.id });
+            await ctx.reply(this.t(ctx, 'report.process_not_authorized'));
+            return;
+        }
+
+        const report = await this.services.reportingSystem.processReport(reportId, ctx.chat.id.toString(), action);
+        await this.services.auditLogManager.recordAdminAction(
+            ctx.chat.id.toString(),
+            'process_report',
+            reportId,
+            { action, counselorId: report.counselorId }
+        );
+        await ctx.reply(this.t(ctx, 'report.processed', { reportId: report.reportId, action }));
+
+        if (action === 'strike' && this.services.collections && this.services.bot) {
+            const counselor = await this.services.collections.counselors.findOne({ id: report.counselorId });
+            if (counselor?.telegramChatId && (counselor.isSuspended || counselor.isApproved === false)) {
+                const message = await this.tForChat(
+                    counselor.telegramChatId,
+                    counselor.isApproved === false ? 'report.access_revoked' : 'report.account_suspended'
+                );
+                try {
+                    await this.services.bot.telegram.sendMessage(counselor.telegramChatId, message);
+                } catch (error) {
+                    const err = error as Error;
+                    logger.warn('Failed to notify counselor suspension status', {
+                        counselorId: report.counselorId,
+                        message: err.message
+                    });
+                }
+            }
+        }
+    }
+
+    private async findRecentSessionByUserId(userId: string): Promise<Session | null> {
+        return this.services.collections.sessions
+            .find({ userId })
+            .sort({ startTime: -1 })
+            .limit(1)
+            .next();
+    }
+}
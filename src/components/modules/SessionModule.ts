@@ -0,0 +1,719 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import type { Message as TelegramMessage } from 'telegraf/types';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { MatchingModule } from './MatchingModule';
+import { FollowUpModule } from './FollowUpModule';
+import { CrisisDetection, CRISIS_LANGUAGE_LOCALES } from '../../managers/CrisisDetector';
+import { Session } from '../../types/Session';
+import { Message, MessageMedia, MediaContentType } from '../../types/Message';
+import { UserState } from '../../types/User';
+import { Locale } from '../../types/Locale';
+import { translate } from '../../i18n';
+import { formatMessageContent } from '../../models/utils';
+import { logger } from '../../utils/logger';
+import { ConversationStateMap } from '../../state';
+
+// Live counseling sessions: relaying messages and media, crisis escalation, switching between conversations, ending and rating sessions
+export class SessionModule extends BotModule {
+    static readonly RATE_SESSION_ACTION_PREFIX = 'rate_session';
+    private static readonly SWITCH_SESSION_ACTION_PREFIX = 'sw';
+    private static readonly RELAYED_MEDIA_TYPES: MediaContentType[] = [
+        'photo',
+        'voice',
+        'audio',
+        'video',
+        'video_note',
+        'document',
+        'sticker',
+        'animation'
+    ];
+    private static readonly CRISIS_ALERT_COOLDOWN_MS = 30 * 60 * 1000;
+
+    private crisisAlerts: ConversationStateMap<{ alertedAt: Date }>;
+
+    constructor(services: BotServices) {
+        super(services);
+        this.crisisAlerts = this.createStateMap('crisis_alert', SessionModule.CRISIS_ALERT_COOLDOWN_MS);
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.END_SESSION), async ctx => {
+            if (!ctx.chat) return;
+            await this.endSession(ctx);
+        });
+
+        bot.hears(BotMenu.labels(BotMenu.SWITCH_CONVERSATION), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleSwitchConversation(ctx);
+        });
+
+        bot.action(new RegExp(`^${SessionModule.RATE_SESSION_ACTION_PREFIX}:(.+):(\\d+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const match = ctx.match as RegExpMatchArray;
+            const sessionId = match[1];
+            const rating = Number.parseInt(match[2], 10);
+            await ctx.answerCbQuery();
+            await this.handleSessionRating(ctx, sessionId, rating);
+        });
+
+        bot.action(new RegExp(`^${SessionModule.SWITCH_SESSION_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const sessionId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleSwitchConversation(ctx, sessionId);
+        });
+
+        bot.on(SessionModule.RELAYED_MEDIA_TYPES, async ctx => {
+            if (!ctx.chat || !ctx.message) return;
+
+            const media = this.extractMessageMedia(ctx.message);
+            if (!media) return;
+
+            await this.handleSessionMedia(ctx, media);
+        });
+    }
+
+    async handleText(ctx: Context, text: string, state: UserState): Promise<boolean> {
+        if (!ctx.chat) return false;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (counselor && counselor.isApproved && !counselor.isSuspended) {
+            const activeSession = await this.resolveCounselorSession(ctx, counselor.id);
+            if (activeSession) {
+                const routed = await this.services.sessionManager.routeMessage(
+                    activeSession.sessionId,
+                    counselor.id,
+                    'counselor',
+                    text
+                );
+                await this.deliverRoutedMessage(routed);
+            }
+            return true;
+        }
+
+        if (state === 'IN_SESSION') {
+            const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+            const activeSession = await this.services.sessionManager.getActiveSessionForUser(requesterId);
+
+            if (!activeSession) {
+                await this.resetToMainMenu(ctx, this.t(ctx, 'session.no_active_session'));
+                return true;
+            }
+
+            const routed = await this.services.sessionManager.routeMessage(
+                activeSession.sessionId,
+                requesterId,
+                requesterType,
+                text
+            );
+
+            await this.deliverRoutedMessage(routed);
+            return true;
+        }
+
+        const userId = await this.services.userManager.registerUser(ctx.chat.id);
+        const activeSession = await this.services.sessionManager.getActiveSessionForUser(userId);
+        if (!activeSession) {
+            return false;
+        }
+
+        await this.services.userManager.updateUserState(userId, 'IN_SESSION');
+        const routed = await this.services.sessionManager.routeMessage(
+            activeSession.sessionId,
+            userId,
+            'user',
+            text
+        );
+
+        await this.deliverRoutedMessage(routed);
+        return true;
+    }
+
+    /**
+     * Middleware that keeps users who still owe a rating on the rating prompt
+     */
+    async enforcePendingRating(ctx: Context, next: () => Promise<void>): Promise<void> {
+        if (!ctx.chat || (await this.isAdmin(ctx.chat.id))) {
+            return next();
+        }
+
+        const userState = await this.services.userManager.getUserStateByTelegramId(ctx.chat.id);
+        if (userState !== 'RATING_REQUIRED') {
+            return next();
+        }
+
+        const callbackData = ctx.callbackQuery && 'data' in ctx.callbackQuery
+            ? ctx.callbackQuery.data
+            : undefined;
+        if (callbackData && callbackData.startsWith(SessionModule.RATE_SESSION_ACTION_PREFIX)) {
+            return next();
+        }
+        if (callbackData && callbackData.startsWith(MatchingModule.CONSENT_ACTION_PREFIX)) {
+            return next();
+        }
+
+        const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+        if (requesterType !== 'user') {
+            return next();
+        }
+
+        const pendingSession = await this.findPendingRatingSession(requesterId);
+        if (!pendingSession) {
+            await this.services.userManager.updateUserState(requesterId, 'IDLE');
+            return next();
+        }
+
+        await this.sendRatingPrompt(ctx, pendingSession.sessionId);
+    }
+
+    private async handleSessionMedia(ctx: Context, media: MessageMedia): Promise<void> {
+        if (!ctx.chat) return;
+
+        if (await this.isAdmin(ctx.chat.id)) {
+            return;
+        }
+
+        const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+        let activeSession: Session | null;
+        if (requesterType === 'counselor') {
+            activeSession = await this.resolveCounselorSession(ctx, requesterId);
+            if (!activeSession) {
+                return;
+            }
+        } else {
+            activeSession = await this.services.sessionManager.getActiveSessionForUser(requesterId);
+            if (!activeSession) {
+                await ctx.reply(this.t(ctx, 'session.media_requires_session'));
+                return;
+            }
+            await this.services.userManager.updateUserState(requesterId, 'IN_SESSION');
+        }
+
+        const routed = await this.services.sessionManager.routeMessage(
+            activeSession.sessionId,
+            requesterId,
+            requesterType,
+            '',
+            media
+        );
+
+        await this.deliverRoutedMessage(routed);
+    }
+
+    /**
+     * Send a routed message to its recipient. Counselors juggling several conversations
+     * get a label on each relayed message so they know who is speaking, and user messages
+     * are screened for crisis phrases before they are relayed.
+     */
+    private async deliverRoutedMessage(routed: {
+        message: Message;
+        recipientId: string;
+        recipientType: 'user' | 'counselor';
+    }): Promise<void> {
+        const recipientChatId = await this.resolveChatId(routed.recipientId, routed.recipientType);
+        if (!recipientChatId) {
+            return;
+        }
+
+        const crisis = routed.message.senderType === 'user'
+            ? this.services.crisisDetector.detect(routed.message.content)
+            : null;
+        const recipientLocale = await this.getChatLocale(recipientChatId);
+        if (crisis && routed.recipientType === 'counselor') {
+            await this.services.bot.telegram.sendMessage(
+                recipientChatId,
+                translate(recipientLocale, 'session.crisis_counselor_alert', { sessionId: routed.message.sessionId })
+            );
+        }
+
+        let label: string | undefined;
+        if (routed.recipientType === 'counselor') {
+            const sessions = await this.services.sessionManager.getActiveSessionsForCounselor(routed.recipientId);
+            const position = sessions.findIndex(session => session.sessionId === routed.message.sessionId);
+            if (sessions.length > 1 && position >= 0) {
+                label = `💬 ${this.formatConversationLabel(recipientLocale, sessions[position], position + 1)}`;
+            }
+        }
+
+        const relayedMessageId = await this.relayMessage(recipientChatId, routed.message, label);
+        if (routed.recipientType === 'counselor' && relayedMessageId !== null) {
+            await this.services.sessionManager.recordRelayedMessage(routed.message, relayedMessageId);
+        }
+
+        if (crisis) {
+            await this.escalateCrisis(routed.message, crisis);
+        }
+    }
+
+    /**
+     * Show the user hotline resources and alert admins about a crisis message.
+     * Alerts only carry the session ID; the user's identity is never included.
+     * Repeat alerts for the same session are throttled by CRISIS_ALERT_COOLDOWN_MS.
+     */
+    private async escalateCrisis(message: Message, crisis: CrisisDetection): Promise<void> {
+        try {
+            await this.services.auditLogManager.recordAdminAction('system', 'crisis_detected', message.sessionId, {
+                messageId: message.messageId,
+                language: crisis.language
+            });
+        } catch (error) {
+            const err = error as Error;
+            logger.error('Failed to record crisis detection', { sessionId: message.sessionId, message: err.message });
+        }
+
+        if (await this.crisisAlerts.get(message.sessionId)) {
+            return;
+        }
+        await this.crisisAlerts.set(message.sessionId, { alertedAt: new Date() });
+
+        const userChatId = await this.resolveChatId(message.senderId, 'user');
+        if (userChatId) {
+            try {
+                // Answer in the language the user wrote in, else the user's interface language
+                const locale = CRISIS_LANGUAGE_LOCALES[crisis.language] ?? await this.getChatLocale(userChatId);
+                const hotline = this.services.config.crisisHotlineMessages[locale] ?? translate(locale, 'session.crisis_hotline');
+                await this.services.bot.telegram.sendMessage(userChatId, `💛 ${hotline}`);
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to send crisis resources to user', { sessionId: message.sessionId, message: err.message });
+            }
+        }
+
+        for (const adminChatId of await this.services.adminManager.getChatIdsWithPermission('crisis_alerts')) {
+            try {
+                await this.services.bot.telegram.sendMessage(
+                    adminChatId,
+                    await this.tForChat(adminChatId, 'session.crisis_admin_alert', {
+                        sessionId: message.sessionId,
+                        language: crisis.language
+                    })
+                );
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to notify admin about crisis', { sessionId: message.sessionId, message: err.message });
+            }
+        }
+    }
+
+    /**
+     * Work out which session a counselor message belongs to: the session of the message
+     * being replied to, else the focused session, else the only active session.
+     * Replies to the counselor (and returns null) when nothing can be resolved.
+     */
+    async resolveCounselorSession(ctx: Context, counselorId: string): Promise<Session | null> {
+        if (!ctx.chat) return null;
+
+        const sessions = await this.services.sessionManager.getActiveSessionsForCounselor(counselorId);
+        if (sessions.length === 0) {
+            await ctx.reply(this.t(ctx, 'session.no_active_session'));
+            return null;
+        }
+
+        const replyToMessageId = ctx.message && 'reply_to_message' in ctx.message
+            ? ctx.message.reply_to_message?.message_id
+            : undefined;
+        if (replyToMessageId !== undefined) {
+            const repliedSessionId = await this.services.sessionManager.findSessionIdByRelayedMessage(
+                sessions.map(session => session.sessionId),
+                replyToMessageId
+            );
+            const repliedSession = sessions.find(session => session.sessionId === repliedSessionId);
+            if (repliedSession) {
+                await this.services.counselorManager.setFocusedSession(counselorId, repliedSession.sessionId);
+                return repliedSession;
+            }
+        }
+
+        const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+        const focused = sessions.find(session => session.sessionId === counselor?.focusedSessionId);
+        if (focused) {
+            return focused;
+        }
+
+        if (sessions.length === 1) {
+            await this.services.counselorManager.setFocusedSession(counselorId, sessions[0].sessionId);
+            return sessions[0];
+        }
+
+        await ctx.reply(
+            this.t(ctx, 'session.choose_conversation', { count: sessions.length }),
+            this.buildSwitchConversationKeyboard(this.getLocale(ctx), sessions)
+        );
+        return null;
+    }
+
+    private async handleSwitchConversation(ctx: Context, sessionId?: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'session.switch_counselors_only'));
+            return;
+        }
+
+        const sessions = await this.services.sessionManager.getActiveSessionsForCounselor(counselor.id);
+        if (sessions.length === 0) {
+            await ctx.reply(this.t(ctx, 'session.no_active_session'));
+            return;
+        }
+
+        const locale = this.getLocale(ctx);
+        if (!sessionId) {
+            const focusedPosition = sessions.findIndex(session => session.sessionId === counselor.focusedSessionId);
+            const current = focusedPosition >= 0
+                ? this.t(ctx, 'session.currently_replying', {
+                    label: this.formatConversationLabel(locale, sessions[focusedPosition], focusedPosition + 1)
+                })
+                : this.t(ctx, 'session.no_conversation_selected');
+            await ctx.reply(
+                `${current}\n${this.t(ctx, 'session.select_conversation')}`,
+                this.buildSwitchConversationKeyboard(locale, sessions)
+            );
+            return;
+        }
+
+        const position = sessions.findIndex(session => session.sessionId === sessionId);
+        if (position < 0) {
+            await ctx.reply(this.t(ctx, 'session.conversation_inactive'));
+            return;
+        }
+
+        await this.services.counselorManager.setFocusedSession(counselor.id, sessionId);
+        await ctx.reply(this.t(ctx, 'session.now_replying', {
+            label: this.formatConversationLabel(locale, sessions[position], position + 1)
+        }));
+    }
+
+    private buildSwitchConversationKeyboard(locale: Locale, sessions: Session[]) {
+        return Markup.inlineKeyboard(
+            sessions.map((session, index) => [
+                Markup.button.callback(
+                    this.formatConversationLabel(locale, session, index + 1),
+                    `${SessionModule.SWITCH_SESSION_ACTION_PREFIX}:${session.sessionId}`
+                )
+            ])
+        );
+    }
+
+    private formatConversationLabel(locale: Locale, session: Session, position: number): string {
+        const topic = session.userRequestedDomain ?? translate(locale, 'session.general_support');
+        return translate(locale, 'session.conversation_label', { position, topic });
+    }
+
+    private extractMessageMedia(message: TelegramMessage): MessageMedia | null {
+        if ('photo' in message) {
+            const largest = message.photo[message.photo.length - 1];
+            if (!largest) return null;
+            return { contentType: 'photo', fileId: largest.file_id, fileUniqueId: largest.file_unique_id };
+        }
+
+        if ('voice' in message) {
+            return this.withOptionalMediaFields(
+                { contentType: 'voice', fileId: message.voice.file_id, fileUniqueId: message.voice.file_unique_id },
+                { duration: message.voice.duration, mimeType: message.voice.mime_type }
+            );
+        }
+
+        if ('video_note' in message) {
+            return this.withOptionalMediaFields(
+                { contentType: 'video_note', fileId: message.video_note.file_id, fileUniqueId: message.video_note.file_unique_id },
+                { duration: message.video_note.duration }
+            );
+        }
+
+        if ('sticker' in message) {
+            return this.withOptionalMediaFields(
+                { contentType: 'sticker', fileId: message.sticker.file_id, fileUniqueId: message.sticker.file_unique_id },
+                { emoji: message.sticker.emoji }
+            );
+        }
+
+        // Animations also carry a `document` field, so they must be checked first
+        if ('animation' in message) {
+            return this.withOptionalMediaFields(
+                { contentType: 'animation', fileId: message.animation.file_id, fileUniqueId: message.animation.file_unique_id },
+                { duration: message.animation.duration, mimeType: message.animation.mime_type }
+            );
+        }
+
+        if ('audio' in message) {
+            return this.withOptionalMediaFields(
+                { contentType: 'audio', fileId: message.audio.file_id, fileUniqueId: message.audio.file_unique_id },
+                { duration: message.audio.duration, mimeType: message.audio.mime_type }
+            );
+        }
+
+        if ('video' in message) {
+            return this.withOptionalMediaFields(
+                { contentType: 'video', fileId: message.video.file_id, fileUniqueId: message.video.file_unique_id },
+                { duration: message.video.duration, mimeType: message.video.mime_type }
+            );
+        }
+
+        if ('document' in message) {
+            return this.withOptionalMediaFields(
+                { contentType: 'document', fileId: message.document.file_id, fileUniqueId: message.document.file_unique_id },
+                { fileName: message.document.file_name, mimeType: message.document.mime_type }
+            );
+        }
+
+        return null;
+    }
+
+    private withOptionalMediaFields(
+        media: MessageMedia,
+        optional: { duration?: number | undefined; fileName?: string | undefined; mimeType?: string | undefined; emoji?: string | undefined }
+    ): MessageMedia {
+        const result: MessageMedia = { ...media };
+        if (typeof optional.duration === 'number') {
+            result.duration = optional.duration;
+        }
+        if (optional.fileName) {
+            result.fileName = optional.fileName;
+        }
+        if (optional.mimeType) {
+            result.mimeType = optional.mimeType;
+        }
+        if (optional.emoji) {
+            result.emoji = optional.emoji;
+        }
+        return result;
+    }
+
+    /**
+     * Deliver a stored session message to the other participant.
+     * Media is re-sent by file reference (never forwarded), so the recipient sees
+     * neither the original caption nor any "forwarded from" header.
+     */
+    private async relayMessage(chatId: number, message: Message, label?: string): Promise<number | null> {
+        const contentType = message.contentType ?? 'text';
+        if (contentType === 'text' || !message.file) {
+            const text = label ? `${label}\n${message.content}` : message.content;
+            return (await this.services.bot.telegram.sendMessage(chatId, text)).message_id;
+        }
+
+        const fileId = message.file.fileId;
+        const extra = label ? { caption: label } : {};
+        switch (contentType) {
+            case 'photo':
+                return (await this.services.bot.telegram.sendPhoto(chatId, fileId, extra)).message_id;
+            case 'voice':
+                return (await this.services.bot.telegram.sendVoice(chatId, fileId, extra)).message_id;
+            case 'audio':
+                return (await this.services.bot.telegram.sendAudio(chatId, fileId, extra)).message_id;
+            case 'video':
+                return (await this.services.bot.telegram.sendVideo(chatId, fileId, extra)).message_id;
+            case 'document':
+                return (await this.services.bot.telegram.sendDocument(chatId, fileId, extra)).message_id;
+            case 'animation':
+                return (await this.services.bot.telegram.sendAnimation(chatId, fileId, extra)).message_id;
+            case 'video_note':
+            case 'sticker':
+                // Neither supports captions, so the label goes in a separate message first
+                if (label) {
+                    await this.services.bot.telegram.sendMessage(chatId, label);
+                }
+                return contentType === 'sticker'
+                    ? (await this.services.bot.telegram.sendSticker(chatId, fileId)).message_id
+                    : (await this.services.bot.telegram.sendVideoNote(chatId, fileId)).message_id;
+            default:
+                return null;
+        }
+    }
+
+    async notifyCounselorOfNewSession(counselorChatId: number, session: Session): Promise<void> {
+        const locale = await this.getChatLocale(counselorChatId);
+        const counselorSessions = await this.services.sessionManager.getActiveSessionsForCounselor(this.getSessionCounselorId(session));
+        if (counselorSessions.length > 1) {
+            const label = this.formatConversationLabel(locale, session, counselorSessions.length);
+            await this.services.bot.telegram.sendMessage(
+                counselorChatId,
+                translate(locale, 'session.new_session_multiple', {
+                    label,
+                    userId: session.userId,
+                    switchLabel: translate(locale, BotMenu.SWITCH_CONVERSATION)
+                })
+            );
+        } else {
+            await this.services.bot.telegram.sendMessage(
+                counselorChatId,
+                translate(locale, 'session.new_session', { userId: session.userId })
+            );
+        }
+
+        if (session.logMode === 'no_log') {
+            await this.services.bot.telegram.sendMessage(counselorChatId, translate(locale, 'session.no_log_notice'));
+        }
+    }
+
+    /**
+     * Tell the user who they are talking with, by alias and optional bio, when a session starts or changes hands
+     */
+    async introduceCounselorToUser(userChatId: number, counselorId: string): Promise<void> {
+        try {
+            const locale = await this.getChatLocale(userChatId);
+            const profile = await this.services.counselorManager.getPublicProfile(counselorId);
+            const counselor = await this.getCounselorDisplayName(locale, counselorId);
+            await this.services.bot.telegram.sendMessage(
+                userChatId,
+                profile?.bio
+                    ? translate(locale, 'session.counselor_intro_bio', { counselor, bio: profile.bio })
+                    : translate(locale, 'session.counselor_intro', { counselor })
+            );
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to introduce counselor to user', { counselorId, message: err.message });
+        }
+    }
+
+    private async endSession(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        if (await this.isAdmin(ctx.chat.id)) {
+            await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'session.admin_no_sessions'));
+            return;
+        }
+
+        const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+        let session: Session | null;
+        if (requesterType === 'user') {
+            session = await this.services.sessionManager.getActiveSessionForUser(requesterId);
+            if (!session) {
+                await this.replyWithMenu(ctx, 'IDLE', this.t(ctx, 'session.nothing_to_end'));
+                return;
+            }
+        } else {
+            session = await this.resolveCounselorSession(ctx, requesterId);
+            if (!session) {
+                return;
+            }
+        }
+
+        await this.services.sessionManager.endSession(session.sessionId);
+
+        if (requesterType === 'user') {
+            await this.services.userManager.updateUserState(requesterId, 'RATING_REQUIRED');
+            await this.sendRatingPrompt(ctx, session.sessionId);
+            const counselorChatId = await this.resolveChatId(this.getSessionCounselorId(session), 'counselor');
+            if (counselorChatId) {
+                const locale = await this.getChatLocale(counselorChatId);
+                await this.services.bot.telegram.sendMessage(
+                    counselorChatId,
+                    translate(locale, 'session.ended_by_user')
+                );
+                await this.services.bot.telegram.sendMessage(
+                    counselorChatId,
+                    translate(locale, 'followup.offer'),
+                    FollowUpModule.buildOfferKeyboard(locale, session.sessionId)
+                );
+            }
+        } else {
+            await ctx.reply(this.t(ctx, 'session.ended'));
+            await ctx.reply(this.t(ctx, 'followup.offer'), FollowUpModule.buildOfferKeyboard(this.getLocale(ctx), session.sessionId));
+            const userChatId = await this.resolveChatId(session.userId, 'user');
+            if (userChatId) {
+                await this.services.bot.telegram.sendMessage(
+                    userChatId,
+                    await this.tForChat(userChatId, 'session.ended_by_counselor'),
+                    this.buildRatingKeyboard(session.sessionId)
+                );
+            }
+            await this.services.userManager.updateUserState(session.userId, 'RATING_REQUIRED');
+        }
+    }
+
+    private async handleSessionRating(ctx: Context, sessionId: string, rating: number): Promise<void> {
+        if (!ctx.chat) return;
+
+        const { requesterId, requesterType } = await this.resolveRequester(ctx.chat.id);
+        if (requesterType !== 'user') {
+            await ctx.reply(this.t(ctx, 'session.rating_users_only'));
+            return;
+        }
+
+        try {
+            await this.services.sessionManager.rateSession(sessionId, requesterId, rating);
+        } catch (error) {
+            await ctx.reply(this.describeError(ctx, error, 'session.rating_failed'));
+            return;
+        }
+
+        await this.services.userManager.updateUserState(requesterId, 'POST_SESSION');
+        await this.replyWithMenu(
+            ctx,
+            'POST_SESSION',
+            this.t(ctx, 'session.rating_thanks', { rating })
+        );
+    }
+
+    buildRatingKeyboard(sessionId: string) {
+        const buttons = [1, 2, 3, 4, 5].map(score =>
+            Markup.button.callback(`${score}`, `${SessionModule.RATE_SESSION_ACTION_PREFIX}:${sessionId}:${score}`)
+        );
+
+        return Markup.inlineKeyboard([
+            [buttons[0], buttons[1], buttons[2], buttons[3], buttons[4]]
+        ]);
+    }
+
+    async sendRatingPrompt(ctx: Context, sessionId: string): Promise<void> {
+        await ctx.reply(
+            this.t(ctx, 'session.rating_prompt'),
+            this.buildRatingKeyboard(sessionId)
+        );
+    }
+
+    async sendSessionHistoryToCounselor(sessionId: string, counselorId: string, chatId: number): Promise<void> {
+        try {
+            // No-log sessions have nothing to hand over; the new counselor is told why instead
+            const session = await this.services.collections.sessions.findOne({ sessionId });
+            if (session?.logMode === 'no_log') {
+                await this.services.bot.telegram.sendMessage(chatId, await this.tForChat(chatId, 'session.no_log_notice'));
+                return;
+            }
+
+            const messages = await this.services.sessionManager.getMessageHistory(sessionId, counselorId, 'counselor', 50);
+            if (messages.length === 0) {
+                return;
+            }
+
+            const locale = await this.getChatLocale(chatId);
+            const formatted = messages.map(msg => {
+                const senderLabel = translate(locale, msg.senderType === 'user' ? 'common.user' : 'common.counselor');
+                const ts = msg.timestamp instanceof Date
+                    ? msg.timestamp.toISOString()
+                    : new Date(msg.timestamp).toISOString();
+                return `[${ts}] ${senderLabel}: ${formatMessageContent(msg)}`;
+            });
+
+            const header = `${translate(locale, 'session.recent_history')}\n`;
+            const TELEGRAM_MAX_LENGTH = 4096;
+            let currentChunk = header;
+
+            for (const line of formatted) {
+                if (currentChunk.length + line.length + 1 > TELEGRAM_MAX_LENGTH) {
+                    await this.services.bot.telegram.sendMessage(chatId, currentChunk);
+                    currentChunk = '';
+                }
+                currentChunk += (currentChunk ? '\n' : '') + line;
+            }
+
+            if (currentChunk) {
+                await this.services.bot.telegram.sendMessage(chatId, currentChunk);
+            }
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to send transfer history', { sessionId, message: err.message });
+        }
+    }
+
+    async findPendingRatingSession(userId: string): Promise<Session | null> {
+        return this.services.collections.sessions
+            .find({ userId, isActive: false, ratingScore: { $exists: false } })
+            .sort({ endTime: -1 })
+            .limit(1)
+            .next();
+    }
+}
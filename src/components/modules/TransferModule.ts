@@ -0,0 +1,508 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { BotModule } from '../BotModule';
+import { BotServices } from '../BotServices';
+import { BotMenu } from '../BotMenu';
+import { SessionModule } from './SessionModule';
+import { Session } from '../../types/Session';
+import { Locale } from '../../types/Locale';
+import { translate } from '../../i18n';
+import { ConversationStateMap } from '../../state';
+
+type TransferStep = 'reason' | 'reason_other' | 'request_sent';
+
+interface TransferState {
+    step: TransferStep;
+    sessionId: string;
+    counselorId: string;
+    userId: string;
+    languages: string[];
+    domain: string;
+    reason?: string;
+}
+
+interface PendingTransfer {
+    sessionId: string;
+    fromCounselorId: string;
+    userId: string;
+    domain: string;
+    languages: string[];
+    reason: string;
+    candidateIds: string[];
+    candidateIndex: number;
+}
+
+// Handing an active session over to a better-suited counselor
+export class TransferModule extends BotModule {
+    private static readonly TRANSFER_REASON_ACTION_PREFIX = 'transfer_reason';
+    private static readonly TRANSFER_ACCEPT_ACTION_PREFIX = 'transfer_accept';
+    private static readonly TRANSFER_DECLINE_ACTION_PREFIX = 'transfer_decline';
+    private static readonly TRANSFER_OPTION_CONTINUE = 'transfer_continue';
+    private static readonly TRANSFER_OPTION_WAIT = 'transfer_wait';
+    private static readonly TRANSFER_OPTION_END = 'transfer_end';
+    private static readonly TRANSFER_CANCEL = 'transfer_cancel';
+    private static readonly TRANSFER_REASONS = [
+        'Outside my expertise',
+        'Language mismatch',
+        'User needs specialized support',
+        'Technical issue',
+        'Other'
+    ];
+
+    private sessionModule: SessionModule;
+    private transferState: ConversationStateMap<TransferState>;
+    private pendingTransfers: ConversationStateMap<PendingTransfer>;
+
+    constructor(services: BotServices, sessionModule: SessionModule) {
+        super(services);
+        this.sessionModule = sessionModule;
+        this.transferState = this.createStateMap('transfer');
+        this.pendingTransfers = this.createStateMap('pending_transfer');
+    }
+
+    register(bot: Telegraf<Context>): void {
+        bot.hears(BotMenu.labels(BotMenu.TRANSFER_SESSION), async ctx => {
+            if (!ctx.chat) return;
+            await this.handleTransferStart(ctx);
+        });
+
+        bot.action(new RegExp(`^${TransferModule.TRANSFER_REASON_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const reason = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleTransferReasonSelect(ctx, reason);
+        });
+
+        bot.action(new RegExp(`^${TransferModule.TRANSFER_ACCEPT_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const sessionId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleTransferAccept(ctx, sessionId);
+        });
+
+        bot.action(new RegExp(`^${TransferModule.TRANSFER_DECLINE_ACTION_PREFIX}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const sessionId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleTransferDecline(ctx, sessionId);
+        });
+
+        bot.action(new RegExp(`^${TransferModule.TRANSFER_OPTION_CONTINUE}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const sessionId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleTransferContinue(ctx, sessionId);
+        });
+
+        bot.action(new RegExp(`^${TransferModule.TRANSFER_OPTION_WAIT}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const sessionId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleTransferWait(ctx, sessionId);
+        });
+
+        bot.action(new RegExp(`^${TransferModule.TRANSFER_OPTION_END}:(.+)$`), async ctx => {
+            if (!ctx.chat) return;
+            const sessionId = (ctx.match as RegExpMatchArray)[1];
+            await ctx.answerCbQuery();
+            await this.handleTransferEnd(ctx, sessionId);
+        });
+
+        bot.action(TransferModule.TRANSFER_CANCEL, async ctx => {
+            if (!ctx.chat) return;
+            await ctx.answerCbQuery();
+            await this.handleTransferCancel(ctx);
+        });
+    }
+
+    async handleText(ctx: Context, text: string): Promise<boolean> {
+        if (!ctx.chat) return false;
+
+        const state = await this.transferState.get(ctx.chat.id);
+        if (!state || state.step !== 'reason_other') {
+            return false;
+        }
+
+        await this.handleTransferReasonText(ctx, text);
+        return true;
+    }
+
+    private async handleTransferStart(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+
+        const counselor = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!counselor || !counselor.isApproved || counselor.isSuspended) {
+            await ctx.reply(this.t(ctx, 'transfer.not_approved'));
+            return;
+        }
+
+        const session = await this.sessionModule.resolveCounselorSession(ctx, counselor.id);
+        if (!session) {
+            return;
+        }
+
+        const { languages, domain } = await this.getSessionPreferences(session);
+        if (!domain || languages.length === 0) {
+            await ctx.reply(this.t(ctx, 'transfer.missing_preferences'));
+            return;
+        }
+
+        const state: TransferState = {
+            sessionId: session.sessionId,
+            counselorId: counselor.id,
+            userId: session.userId,
+            languages,
+            domain,
+            step: 'reason'
+        };
+
+        await this.transferState.set(ctx.chat.id, state);
+        await ctx.reply(this.t(ctx, 'transfer.select_reason'), this.buildTransferReasonKeyboard(ctx));
+    }
+
+    private async handleTransferReasonSelect(ctx: Context, reason: string): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.transferState.get(ctx.chat.id);
+        if (!state) return;
+
+        if (reason === 'Other') {
+            state.step = 'reason_other';
+            await this.transferState.set(ctx.chat.id, state);
+            await ctx.reply(this.t(ctx, 'transfer.enter_reason'), Markup.inlineKeyboard([[
+                Markup.button.callback(this.t(ctx, 'common.cancel'), TransferModule.TRANSFER_CANCEL)
+            ]]));
+            return;
+        }
+
+        state.reason = reason;
+        state.step = 'request_sent';
+        await this.initiateTransferSearch(ctx, state);
+    }
+
+    private async handleTransferReasonText(ctx: Context, text: string): Promise<void> {
+        if (!ctx.chat) return;
+        const state = await this.transferState.get(ctx.chat.id);
+        if (!state) return;
+
+        const reason = text.trim();
+        if (!reason) {
+            await ctx.reply(this.t(ctx, 'transfer.reason_empty'));
+            return;
+        }
+
+        state.reason = reason;
+        state.step = 'request_sent';
+        await this.initiateTransferSearch(ctx, state);
+    }
+
+    private async initiateTransferSearch(ctx: Context, state: TransferState): Promise<void> {
+        if (!ctx.chat) return;
+
+        if (!state.reason) {
+            await ctx.reply(this.t(ctx, 'transfer.reason_required'));
+            return;
+        }
+
+        await this.transferState.set(ctx.chat.id, state);
+
+        const candidates = await this.findTransferCandidates(state.languages, state.domain, state.counselorId);
+        if (candidates.length === 0) {
+            await ctx.reply(
+                this.t(ctx, 'transfer.no_candidates'),
+                this.buildTransferFallbackKeyboard(this.getLocale(ctx), state.sessionId)
+            );
+            await this.transferState.delete(ctx.chat.id);
+            return;
+        }
+
+        const pending: PendingTransfer = {
+            sessionId: state.sessionId,
+            fromCounselorId: state.counselorId,
+            userId: state.userId,
+            domain: state.domain,
+            languages: state.languages,
+            reason: state.reason,
+            candidateIds: candidates,
+            candidateIndex: 0
+        };
+
+        await ctx.reply(this.t(ctx, 'transfer.request_sent'));
+        await this.sendTransferRequestToCandidate(pending);
+    }
+
+    private async handleTransferAccept(ctx: Context, sessionId: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const pending = await this.pendingTransfers.get(sessionId);
+        if (!pending) {
+            await ctx.reply(this.t(ctx, 'transfer.request_inactive'));
+            return;
+        }
+
+        const candidate = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!candidate) {
+            await ctx.reply(this.t(ctx, 'transfer.accept_failed'));
+            return;
+        }
+
+        const expectedId = pending.candidateIds[pending.candidateIndex];
+        if (candidate.id !== expectedId) {
+            await ctx.reply(this.t(ctx, 'transfer.request_expired'));
+            return;
+        }
+
+        // transferSession reserves the candidate's slot and re-checks the session atomically
+        try {
+            await this.services.sessionManager.transferSession(sessionId, pending.fromCounselorId, candidate.id, pending.reason);
+        } catch (error) {
+            const message = (error as Error).message;
+            if (message.includes('no remaining session capacity')) {
+                await ctx.reply(this.t(ctx, 'transfer.no_capacity'));
+                return;
+            }
+            if (message.includes('Active session not found')) {
+                await this.pendingTransfers.delete(sessionId);
+                await ctx.reply(this.t(ctx, 'transfer.request_inactive'));
+                return;
+            }
+            throw error;
+        }
+        await this.services.counselorManager.setFocusedSession(candidate.id, sessionId);
+
+        const oldCounselorChatId = await this.resolveChatId(pending.fromCounselorId, 'counselor');
+        if (oldCounselorChatId) {
+            await this.services.bot.telegram.sendMessage(
+                oldCounselorChatId,
+                await this.tForChat(oldCounselorChatId, 'transfer.completed')
+            );
+        }
+
+        const userChatId = await this.resolveChatId(pending.userId, 'user');
+        if (userChatId) {
+            await this.services.bot.telegram.sendMessage(
+                userChatId,
+                await this.tForChat(userChatId, 'transfer.user_notice')
+            );
+            await this.sessionModule.introduceCounselorToUser(userChatId, candidate.id);
+        }
+
+        await ctx.reply(this.t(ctx, 'transfer.connected'));
+        await this.sessionModule.sendSessionHistoryToCounselor(sessionId, candidate.id, ctx.chat.id);
+
+        await this.pendingTransfers.delete(sessionId);
+        for (const [chatId, state] of await this.transferState.entries()) {
+            if (state.sessionId === sessionId) {
+                await this.transferState.delete(chatId);
+            }
+        }
+    }
+
+    private async handleTransferDecline(ctx: Context, sessionId: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const pending = await this.pendingTransfers.get(sessionId);
+        if (!pending) {
+            await ctx.reply(this.t(ctx, 'transfer.request_inactive'));
+            return;
+        }
+
+        const candidate = await this.services.collections.counselors.findOne({ telegramChatId: ctx.chat.id });
+        if (!candidate) {
+            await ctx.reply(this.t(ctx, 'transfer.decline_failed'));
+            return;
+        }
+
+        const expectedId = pending.candidateIds[pending.candidateIndex];
+        if (candidate.id !== expectedId) {
+            await ctx.reply(this.t(ctx, 'transfer.request_expired'));
+            return;
+        }
+
+        pending.candidateIndex += 1;
+        if (pending.candidateIndex >= pending.candidateIds.length) {
+            await this.pendingTransfers.delete(sessionId);
+            const oldCounselorChatId = await this.resolveChatId(pending.fromCounselorId, 'counselor');
+            if (oldCounselorChatId) {
+                const locale = await this.getChatLocale(oldCounselorChatId);
+                await this.services.bot.telegram.sendMessage(
+                    oldCounselorChatId,
+                    translate(locale, 'transfer.nobody_accepted'),
+                    this.buildTransferFallbackKeyboard(locale, sessionId)
+                );
+            }
+            return;
+        }
+
+        await this.sendTransferRequestToCandidate(pending);
+        await ctx.reply(this.t(ctx, 'transfer.declined'));
+    }
+
+    private async handleTransferContinue(ctx: Context, sessionId: string): Promise<void> {
+        if (!ctx.chat) return;
+        await this.pendingTransfers.delete(sessionId);
+        await this.transferState.delete(ctx.chat.id);
+        await ctx.reply(this.t(ctx, 'transfer.continuing'));
+    }
+
+    private async handleTransferWait(ctx: Context, sessionId: string): Promise<void> {
+        if (!ctx.chat) return;
+        await this.pendingTransfers.delete(sessionId);
+        await this.transferState.delete(ctx.chat.id);
+        await ctx.reply(this.t(ctx, 'transfer.waiting'));
+    }
+
+    private async handleTransferEnd(ctx: Context, sessionId: string): Promise<void> {
+        if (!ctx.chat) return;
+
+        const session = await this.services.collections.sessions.findOne({ sessionId });
+        if (!session) {
+            await ctx.reply(this.t(ctx, 'error.session_not_found'));
+            return;
+        }
+
+        await this.services.sessionManager.endSession(sessionId);
+        await ctx.reply(this.t(ctx, 'session.ended'));
+
+        const userChatId = await this.resolveChatId(session.userId, 'user');
+        if (userChatId) {
+            await this.services.bot.telegram.sendMessage(
+                userChatId,
+                await this.tForChat(userChatId, 'session.ended_by_counselor'),
+                this.sessionModule.buildRatingKeyboard(sessionId)
+            );
+        }
+        await this.services.userManager.updateUserState(session.userId, 'RATING_REQUIRED');
+
+        await this.pendingTransfers.delete(sessionId);
+        await this.transferState.delete(ctx.chat.id);
+    }
+
+    private async handleTransferCancel(ctx: Context): Promise<void> {
+        if (!ctx.chat) return;
+        await this.transferState.delete(ctx.chat.id);
+        await ctx.reply(this.t(ctx, 'transfer.canceled'));
+    }
+
+    private buildTransferReasonKeyboard(ctx: Context) {
+        const rows: Array<ReturnType<typeof Markup.button.callback>[]> = [];
+        for (let i = 0; i < TransferModule.TRANSFER_REASONS.length; i += 2) {
+            const left = TransferModule.TRANSFER_REASONS[i];
+            const right = TransferModule.TRANSFER_REASONS[i + 1];
+            const row: ReturnType<typeof Markup.button.callback>[] = [];
+            row.push(Markup.button.callback(left, `${TransferModule.TRANSFER_REASON_ACTION_PREFIX}:${left}`));
+            if (right) {
+                row.push(Markup.button.callback(right, `${TransferModule.TRANSFER_REASON_ACTION_PREFIX}:${right}`));
+            }
+            rows.push(row);
+        }
+        rows.push([Markup.button.callback(this.t(ctx, 'common.cancel'), TransferModule.TRANSFER_CANCEL)]);
+        return Markup.inlineKeyboard(rows);
+    }
+
+    private buildTransferFallbackKeyboard(locale: Locale, sessionId: string) {
+        return Markup.inlineKeyboard([
+            [Markup.button.callback(translate(locale, 'transfer.continue_button'), `${TransferModule.TRANSFER_OPTION_CONTINUE}:${sessionId}`)],
+            [Markup.button.callback(translate(locale, 'transfer.wait_button'), `${TransferModule.TRANSFER_OPTION_WAIT}:${sessionId}`)],
+            [Markup.button.callback(translate(locale, BotMenu.END_SESSION), `${TransferModule.TRANSFER_OPTION_END}:${sessionId}`)]
+        ]);
+    }
+
+    private async findTransferCandidates(
+        languages: string[],
+        domain: string,
+        excludedCounselorId: string
+    ): Promise<string[]> {
+        const candidates = await this.services.counselorManager.getCounselorsWithCapacity();
+
+        const normalizedLanguages = languages.map(lang => lang.toLowerCase());
+        const normalizedDomain = domain.toLowerCase();
+
+        const filtered = candidates
+            .filter(({ counselor }) => counselor.id !== excludedCounselorId)
+            .map(({ counselor, activeSessions }) => {
+                const counselorLanguages = (counselor.languagesSpoken ?? []).map((lang: string) => lang.toLowerCase());
+                const counselorDomains = (counselor.domainExpertise ?? []).map((item: string) => item.toLowerCase());
+                const languageMatch = counselorLanguages.some(lang => normalizedLanguages.includes(lang));
+                const domainMatch = counselorDomains.includes(normalizedDomain);
+                return { counselor, activeSessions, languageMatch, domainMatch };
+            })
+            .filter(candidate => candidate.languageMatch && candidate.domainMatch);
+
+        if (filtered.length === 0) {
+            return [];
+        }
+
+        const ranked = filtered.map(candidate => ({
+            counselor: candidate.counselor,
+            activeCount: candidate.activeSessions,
+            ratingAverage: candidate.counselor.ratingAverage ?? 0,
+            lastActive: candidate.counselor.lastActive ?? new Date(0)
+        }));
+
+        ranked.sort((a, b) => {
+            if (a.activeCount !== b.activeCount) {
+                return a.activeCount - b.activeCount;
+            }
+            if (a.ratingAverage !== b.ratingAverage) {
+                return b.ratingAverage - a.ratingAverage;
+            }
+            return b.lastActive.getTime() - a.lastActive.getTime();
+        });
+
+        return ranked.map(item => item.counselor.id);
+    }
+
+    private async sendTransferRequestToCandidate(pending: PendingTransfer): Promise<void> {
+        const candidateId = pending.candidateIds[pending.candidateIndex];
+        const counselor = await this.services.collections.counselors.findOne({ id: candidateId });
+        if (!counselor?.telegramChatId) {
+            pending.candidateIndex += 1;
+            if (pending.candidateIndex >= pending.candidateIds.length) {
+                await this.pendingTransfers.delete(pending.sessionId);
+                const oldCounselorChatId = await this.resolveChatId(pending.fromCounselorId, 'counselor');
+                if (oldCounselorChatId) {
+                    const locale = await this.getChatLocale(oldCounselorChatId);
+                    await this.services.bot.telegram.sendMessage(
+                        oldCounselorChatId,
+                        translate(locale, 'transfer.nobody_accepted'),
+                        this.buildTransferFallbackKeyboard(locale, pending.sessionId)
+                    );
+                }
+                return;
+            }
+            await this.sendTransferRequestToCandidate(pending);
+            return;
+        }
+
+        await this.pendingTransfers.set(pending.sessionId, pending);
+
+        const locale = await this.getChatLocale(counselor.telegramChatId);
+        const message = translate(locale, 'transfer.request', {
+            domain: pending.domain,
+            languages: pending.languages.join(', '),
+            reason: pending.reason
+        });
+
+        await this.services.bot.telegram.sendMessage(
+            counselor.telegramChatId,
+            message,
+            Markup.inlineKeyboard([
+                [Markup.button.callback(translate(locale, 'transfer.accept_button'), `${TransferModule.TRANSFER_ACCEPT_ACTION_PREFIX}:${pending.sessionId}`)],
+                [Markup.button.callback(translate(locale, 'transfer.decline_button'), `${TransferModule.TRANSFER_DECLINE_ACTION_PREFIX}:${pending.sessionId}`)]
+            ])
+        );
+    }
+
+    private async getSessionPreferences(session: Session): Promise<{ languages: string[]; domain?: string }> {
+        if (session.userPreferredLanguage && session.userRequestedDomain) {
+            return { languages: session.userPreferredLanguage, domain: session.userRequestedDomain };
+        }
+
+        const user = await this.services.collections.users.findOne({ uuid: session.userId });
+        const languages = user?.user_preferred_language ?? [];
+        const domain = user?.user_requested_domain;
+        if (domain) {
+            return { languages, domain };
+        }
+        return { languages };
+    }
+}
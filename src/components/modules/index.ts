@@ -0,0 +1,16 @@
+export { SessionModule } from './SessionModule';
+export { MatchingModule } from './MatchingModule';
+export { FollowUpModule } from './FollowUpModule';
+export { TransferModule } from './TransferModule';
+export { CounselorOnboardingModule } from './CounselorOnboardingModule';
+export { CounselorModule } from './CounselorModule';
+export { PrayerModule } from './PrayerModule';
+export { PrayerWallModule } from './PrayerWallModule';
+export { HistoryModule } from './HistoryModule';
+export { ReportModule } from './ReportModule';
+export { AppealModule } from './AppealModule';
+export { AdminModule } from './AdminModule';
+export { AdminRoleModule } from './AdminRoleModule';
+export { BroadcastModule } from './BroadcastModule';
+export { PrivacyModule } from './PrivacyModule';
+export { GeneralModule } from './GeneralModule';
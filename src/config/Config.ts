@@ -1,5 +1,8 @@
 import dotenv from 'dotenv';
+import { createHash } from 'crypto';
 import { LogLevel } from '../utils/logger';
+import { Locale } from '../types/Locale';
+import { SUPPORTED_LOCALES } from '../i18n';
 import { validateConfig } from './validation';
 
 // Load environment variables
@@ -11,11 +14,34 @@ export interface AppConfig {
     mongodbDbName: string;
     nodeEnv: string;
     port: number;
+    webhookUrl: string; // public HTTPS base URL Telegram posts updates to; empty uses long polling
+    webhookPath: string; // secret path on PORT that receives the updates
+    webhookSecretToken: string; // checked against the X-Telegram-Bot-Api-Secret-Token header
     sessionRetentionDays: number;
+    messageRetentionDays: number; // 0 keeps messages as long as their session
+    closedPrayerRetentionDays: number; // 0 keeps closed prayer requests
+    processedReportRetentionDays: number; // 0 keeps processed reports
+    auditLogRetentionDays: number; // 0 keeps audit log entries
+    broadcastLogRetentionDays: number; // 0 keeps broadcast logs
     cleanupIntervalHours: number;
     reportSuspendThreshold: number;
     reportRevokeThreshold: number;
+    defaultMaxConcurrentSessions: number;
+    queueMaxWaitMinutes: number;
+    previousCounselorOptions: number;
+    previousCounselorRequestTimeoutMinutes: number;
+    conversationStateTtlMinutes: number;
+    prayerNotificationCooldownMinutes: number;
+    prayerWallChannelId: string; // channel numeric ID or @username; empty disables the prayer wall
+    prayerWallLanguage: Locale;
+    messageEncryptionKey: string; // base64 master key; empty leaves message content unencrypted
+    messageEncryptionKeyId: string;
+    messageEncryptionRetiredKeys: Record<string, string>; // key ID -> base64 master key, kept for unwrapping after rotation
+    crisisExtraKeywords: Partial<Record<Locale, string[]>>; // extra crisis phrases per language, added to the built-in lists
+    crisisHotlineMessages: Partial<Record<Locale, string>>; // hotline text per language; missing languages use the catalog default
     adminChatIds: number[];
+    dashboardTokens: Record<string, number>; // access token -> admin chat ID; empty disables the web dashboard
+    fourEyesWindowMinutes: number; // how long a destructive action waits for a second admin; 0 lets one admin act alone
     logLevel: LogLevel;
 }
 
@@ -59,19 +85,111 @@ export class Config {
             mongodbDbName: normalizedDbName || dbNameFromUri || 'telegram-counseling-bot',
             nodeEnv: process.env.NODE_ENV || 'development',
             port: parseInt(process.env.PORT || '3000', 10),
+            webhookUrl: (process.env.WEBHOOK_URL || '').trim().replace(/\/+$/, ''),
+            webhookPath: (process.env.WEBHOOK_PATH || '').trim() || Config.defaultWebhookPath(process.env.BOT_TOKEN ?? ''),
+            webhookSecretToken: (process.env.WEBHOOK_SECRET_TOKEN || '').trim(),
             sessionRetentionDays: parseInt(process.env.SESSION_RETENTION_DAYS || '90', 10),
+            messageRetentionDays: parseInt(process.env.MESSAGE_RETENTION_DAYS || process.env.SESSION_RETENTION_DAYS || '90', 10),
+            closedPrayerRetentionDays: parseInt(process.env.CLOSED_PRAYER_RETENTION_DAYS || '0', 10),
+            processedReportRetentionDays: parseInt(process.env.PROCESSED_REPORT_RETENTION_DAYS || process.env.SESSION_RETENTION_DAYS || '90', 10),
+            auditLogRetentionDays: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '0', 10),
+            broadcastLogRetentionDays: parseInt(process.env.BROADCAST_LOG_RETENTION_DAYS || '0', 10),
             cleanupIntervalHours: parseInt(process.env.CLEANUP_INTERVAL_HOURS || '24', 10),
             reportSuspendThreshold: parseInt(process.env.REPORT_SUSPEND_THRESHOLD || '3', 10),
             reportRevokeThreshold: parseInt(process.env.REPORT_REVOKE_THRESHOLD || '5', 10),
+            defaultMaxConcurrentSessions: parseInt(process.env.COUNSELOR_MAX_CONCURRENT_SESSIONS || '1', 10),
+            queueMaxWaitMinutes: parseInt(process.env.QUEUE_MAX_WAIT_MINUTES || '60', 10),
+            previousCounselorOptions: parseInt(process.env.PREVIOUS_COUNSELOR_OPTIONS || '3', 10),
+            previousCounselorRequestTimeoutMinutes: parseInt(process.env.PREVIOUS_COUNSELOR_REQUEST_TIMEOUT_MINUTES || '10', 10),
+            conversationStateTtlMinutes: parseInt(process.env.CONVERSATION_STATE_TTL_MINUTES || '1440', 10),
+            prayerNotificationCooldownMinutes: parseInt(process.env.PRAYER_NOTIFICATION_COOLDOWN_MINUTES || '60', 10),
+            prayerWallChannelId: process.env.PRAYER_WALL_CHANNEL_ID?.trim() || '',
+            prayerWallLanguage: (process.env.PRAYER_WALL_LANGUAGE?.trim() || 'en') as Locale,
+            messageEncryptionKey: process.env.MESSAGE_ENCRYPTION_KEY?.trim() || '',
+            messageEncryptionKeyId: process.env.MESSAGE_ENCRYPTION_KEY_ID?.trim() || 'primary',
+            messageEncryptionRetiredKeys: Config.parseKeyList(process.env.MESSAGE_ENCRYPTION_RETIRED_KEYS),
+            crisisExtraKeywords: Config.parseCrisisKeywords(),
+            crisisHotlineMessages: Config.parseCrisisHotlineMessages(),
             adminChatIds: process.env.ADMIN_CHAT_IDS
                 ? process.env.ADMIN_CHAT_IDS.split(',').map(id => parseInt(id.trim(), 10))
                 : [],
+            dashboardTokens: Config.parseDashboardTokens(process.env.DASHBOARD_TOKENS),
+            fourEyesWindowMinutes: parseInt(process.env.FOUR_EYES_WINDOW_MINUTES || '0', 10),
             logLevel: (process.env.LOG_LEVEL || 'info') as LogLevel
         };
 
         validateConfig(config);
         return config;
     }
+
+    /**
+     * Read CRISIS_KEYWORDS_<LOCALE> (e.g. CRISIS_KEYWORDS_AM) as comma-separated phrase lists
+     */
+    private static parseCrisisKeywords(): Partial<Record<Locale, string[]>> {
+        const keywords: Partial<Record<Locale, string[]>> = {};
+        for (const locale of SUPPORTED_LOCALES) {
+            const list = (process.env[`CRISIS_KEYWORDS_${locale.toUpperCase()}`] ?? '')
+                .split(',')
+                .map(keyword => keyword.trim())
+                .filter(Boolean);
+            if (list.length > 0) {
+                keywords[locale] = list;
+            }
+        }
+        return keywords;
+    }
+
+    /**
+     * Read CRISIS_HOTLINE_MESSAGE_<LOCALE>, falling back to CRISIS_HOTLINE_MESSAGE for every language
+     */
+    private static parseCrisisHotlineMessages(): Partial<Record<Locale, string>> {
+        const messages: Partial<Record<Locale, string>> = {};
+        for (const locale of SUPPORTED_LOCALES) {
+            const message = process.env[`CRISIS_HOTLINE_MESSAGE_${locale.toUpperCase()}`]?.trim()
+                || process.env.CRISIS_HOTLINE_MESSAGE?.trim();
+            if (message) {
+                messages[locale] = message;
+            }
+        }
+        return messages;
+    }
+
+    /**
+     * Parse "id:base64key,id2:base64key" into a key ID map
+     */
+    private static parseKeyList(value: string | undefined): Record<string, string> {
+        const keys: Record<string, string> = {};
+        for (const entry of (value ?? '').split(',').map(item => item.trim()).filter(Boolean)) {
+            const separator = entry.indexOf(':');
+            if (separator <= 0) {
+                throw new Error('MESSAGE_ENCRYPTION_RETIRED_KEYS entries must look like <keyId>:<base64 key>');
+            }
+            keys[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+        }
+        return keys;
+    }
+
+    /**
+     * Unguessable but stable path derived from the bot token, so restarts keep the registered webhook valid
+     */
+    private static defaultWebhookPath(botToken: string): string {
+        return `/telegram/${createHash('sha256').update(botToken).digest('hex').slice(0, 32)}`;
+    }
+
+    /**
+     * Parse "adminChatId:token,adminChatId:token" into a token lookup, so dashboard actions are audited per admin
+     */
+    private static parseDashboardTokens(value: string | undefined): Record<string, number> {
+        const tokens: Record<string, number> = {};
+        for (const entry of (value ?? '').split(',').map(item => item.trim()).filter(Boolean)) {
+            const separator = entry.indexOf(':');
+            if (separator <= 0) {
+                throw new Error('DASHBOARD_TOKENS entries must look like <adminChatId>:<token>');
+            }
+            tokens[entry.slice(separator + 1).trim()] = parseInt(entry.slice(0, separator).trim(), 10);
+        }
+        return tokens;
+    }
 }
 
 // Re-export validateConfig for convenience
@@ -1,4 +1,5 @@
 import { AppConfig } from './Config';
+import { SUPPORTED_LOCALES } from '../i18n';
 
 export function validateConfig(config: AppConfig): void {
     // Validate bot token format (should be a valid Telegram bot token)
@@ -16,11 +17,44 @@ export function validateConfig(config: AppConfig): void {
         throw new Error('PORT must be between 1 and 65535');
     }
 
+    // Validate webhook settings
+    if (config.webhookUrl) {
+        let webhookUrl: URL;
+        try {
+            webhookUrl = new URL(config.webhookUrl);
+        } catch {
+            throw new Error('WEBHOOK_URL must be a valid URL');
+        }
+        if (webhookUrl.protocol !== 'https:') {
+            throw new Error('WEBHOOK_URL must use https://');
+        }
+        if (!/^(\/[\w-]+)+$/.test(config.webhookPath)) {
+            throw new Error('WEBHOOK_PATH must start with / and contain only letters, numbers, underscores, hyphens and slashes');
+        }
+        if (!/^[A-Za-z0-9_-]{1,256}$/.test(config.webhookSecretToken)) {
+            throw new Error('WEBHOOK_SECRET_TOKEN is required with WEBHOOK_URL and must be 1-256 letters, numbers, underscores or hyphens');
+        }
+    }
+
     // Validate session retention days
     if (config.sessionRetentionDays < 1) {
         throw new Error('SESSION_RETENTION_DAYS must be at least 1');
     }
 
+    // Validate per-collection retention periods
+    const retentionPeriods: Array<[string, number]> = [
+        ['MESSAGE_RETENTION_DAYS', config.messageRetentionDays],
+        ['CLOSED_PRAYER_RETENTION_DAYS', config.closedPrayerRetentionDays],
+        ['PROCESSED_REPORT_RETENTION_DAYS', config.processedReportRetentionDays],
+        ['AUDIT_LOG_RETENTION_DAYS', config.auditLogRetentionDays],
+        ['BROADCAST_LOG_RETENTION_DAYS', config.broadcastLogRetentionDays]
+    ];
+    for (const [name, days] of retentionPeriods) {
+        if (!Number.isInteger(days) || days < 0) {
+            throw new Error(`${name} must be zero or a positive integer`);
+        }
+    }
+
     // Validate cleanup interval
     if (config.cleanupIntervalHours < 1) {
         throw new Error('CLEANUP_INTERVAL_HOURS must be at least 1');
@@ -35,6 +69,66 @@ export function validateConfig(config: AppConfig): void {
         throw new Error('REPORT_REVOKE_THRESHOLD must be greater than or equal to REPORT_SUSPEND_THRESHOLD');
     }
 
+    // Validate default counselor capacity
+    if (!Number.isInteger(config.defaultMaxConcurrentSessions) || config.defaultMaxConcurrentSessions < 1) {
+        throw new Error('COUNSELOR_MAX_CONCURRENT_SESSIONS must be at least 1');
+    }
+
+    // Validate waiting queue timeout
+    if (config.queueMaxWaitMinutes < 1) {
+        throw new Error('QUEUE_MAX_WAIT_MINUTES must be at least 1');
+    }
+
+    // Validate previous counselor requests
+    if (!Number.isInteger(config.previousCounselorOptions) || config.previousCounselorOptions < 0) {
+        throw new Error('PREVIOUS_COUNSELOR_OPTIONS must be zero or a positive integer');
+    }
+
+    if (config.previousCounselorRequestTimeoutMinutes < 1) {
+        throw new Error('PREVIOUS_COUNSELOR_REQUEST_TIMEOUT_MINUTES must be at least 1');
+    }
+
+    // Validate conversation state expiry
+    if (config.conversationStateTtlMinutes < 1) {
+        throw new Error('CONVERSATION_STATE_TTL_MINUTES must be at least 1');
+    }
+
+    // Validate prayer update throttling
+    if (!Number.isInteger(config.prayerNotificationCooldownMinutes) || config.prayerNotificationCooldownMinutes < 1) {
+        throw new Error('PRAYER_NOTIFICATION_COOLDOWN_MINUTES must be at least 1');
+    }
+
+    // Validate prayer wall channel
+    if (config.prayerWallChannelId && !/^(-\d+|@\w{5,})$/.test(config.prayerWallChannelId)) {
+        throw new Error('PRAYER_WALL_CHANNEL_ID must be a numeric channel ID or an @username');
+    }
+
+    if (!SUPPORTED_LOCALES.includes(config.prayerWallLanguage)) {
+        throw new Error(`PRAYER_WALL_LANGUAGE must be one of: ${SUPPORTED_LOCALES.join(', ')}`);
+    }
+
+    // Validate message encryption keys
+    const retiredKeys = Object.entries(config.messageEncryptionRetiredKeys);
+    if (retiredKeys.length > 0 && !config.messageEncryptionKey) {
+        throw new Error('MESSAGE_ENCRYPTION_RETIRED_KEYS requires MESSAGE_ENCRYPTION_KEY to be set');
+    }
+
+    if (config.messageEncryptionKey) {
+        const masterKeys: Array<[string, string]> = [[config.messageEncryptionKeyId, config.messageEncryptionKey], ...retiredKeys];
+        for (const [keyId, key] of masterKeys) {
+            if (!/^[\w-]+$/.test(keyId)) {
+                throw new Error('Message encryption key IDs may only contain letters, numbers, underscores and hyphens');
+            }
+            if (Buffer.from(key, 'base64').length !== 32) {
+                throw new Error('Message encryption keys must be base64-encoded 32-byte keys');
+            }
+        }
+
+        if (config.messageEncryptionKeyId in config.messageEncryptionRetiredKeys) {
+            throw new Error('MESSAGE_ENCRYPTION_RETIRED_KEYS must not reuse MESSAGE_ENCRYPTION_KEY_ID');
+        }
+    }
+
     // Validate admin chat IDs
     for (const chatId of config.adminChatIds) {
         if (!Number.isInteger(chatId) || chatId === 0) {
@@ -42,6 +136,21 @@ export function validateConfig(config: AppConfig): void {
         }
     }
 
+    // Validate dashboard tokens
+    for (const [token, adminChatId] of Object.entries(config.dashboardTokens)) {
+        if (!Number.isInteger(adminChatId) || adminChatId === 0) {
+            throw new Error('DASHBOARD_TOKENS chat IDs must be valid non-zero integers');
+        }
+        if (token.length < 32) {
+            throw new Error('DASHBOARD_TOKENS tokens must be at least 32 characters long');
+        }
+    }
+
+    // Validate two-admin approval window
+    if (!Number.isInteger(config.fourEyesWindowMinutes) || config.fourEyesWindowMinutes < 0) {
+        throw new Error('FOUR_EYES_WINDOW_MINUTES must be zero or a positive integer');
+    }
+
     // Validate log level
     const validLogLevels = ['error', 'warn', 'info', 'debug'];
     if (!validLogLevels.includes(config.logLevel)) {
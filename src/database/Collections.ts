@@ -2,12 +2,19 @@ import { Collection, Db } from 'mongodb';
 import { User } from '../types/User';
 import { Counselor } from '../types/Counselor';
 import { Session } from '../types/Session';
-import { Message } from '../types/Message';
+import { Message, RelayRoute } from '../types/Message';
 import { PrayerRequest } from '../types/PrayerRequest';
 import { Report } from '../types/Report';
 import { AuditLog } from '../types/AuditLog';
+import { Admin } from '../types/Admin';
+import { PendingAction } from '../types/PendingAction';
 import { Appeal } from '../types/Appeal';
 import { BroadcastLog } from '../types/BroadcastLog';
+import { BroadcastDelivery } from '../types/BroadcastDelivery';
+import { QueueEntry } from '../types/QueueEntry';
+import { FollowUp } from '../types/FollowUp';
+import { SessionKey } from '../types/SessionKey';
+import { ConversationStateRecord } from '../types/ConversationState';
 
 export class Collections {
     private db: Db;
@@ -17,11 +24,19 @@ export class Collections {
     public counselors: Collection<Counselor>;
     public sessions: Collection<Session>;
     public messages: Collection<Message>;
+    public relayRoutes: Collection<RelayRoute>;
     public prayers: Collection<PrayerRequest>;
     public reports: Collection<Report>;
     public auditLogs: Collection<AuditLog>;
+    public admins: Collection<Admin>;
+    public pendingActions: Collection<PendingAction>;
     public appeals: Collection<Appeal>;
     public broadcastLogs: Collection<BroadcastLog>;
+    public broadcastDeliveries: Collection<BroadcastDelivery>;
+    public waitingQueue: Collection<QueueEntry>;
+    public followUps: Collection<FollowUp>;
+    public sessionKeys: Collection<SessionKey>;
+    public conversationStates: Collection<ConversationStateRecord>;
 
     constructor(db: Db) {
         this.db = db;
@@ -31,11 +46,19 @@ export class Collections {
         this.counselors = db.collection<Counselor>('counselors');
         this.sessions = db.collection<Session>('sessions');
         this.messages = db.collection<Message>('messages');
+        this.relayRoutes = db.collection<RelayRoute>('relay_routes');
         this.prayers = db.collection<PrayerRequest>('prayers');
         this.reports = db.collection<Report>('reports');
         this.auditLogs = db.collection<AuditLog>('audit_logs');
+        this.admins = db.collection<Admin>('admins');
+        this.pendingActions = db.collection<PendingAction>('pending_actions');
         this.appeals = db.collection<Appeal>('appeals');
         this.broadcastLogs = db.collection<BroadcastLog>('broadcast_logs');
+        this.broadcastDeliveries = db.collection<BroadcastDelivery>('broadcast_deliveries');
+        this.waitingQueue = db.collection<QueueEntry>('waiting_queue');
+        this.followUps = db.collection<FollowUp>('follow_ups');
+        this.sessionKeys = db.collection<SessionKey>('session_keys');
+        this.conversationStates = db.collection<ConversationStateRecord>('conversation_states');
     }
 
     async initializeCollections(): Promise<void> {
@@ -53,11 +76,16 @@ export class Collections {
             await this.counselors.createIndex({ status: 1 });
             await this.counselors.createIndex({ isApproved: 1 });
             await this.counselors.createIndex({ isSuspended: 1 });
+            await this.counselors.createIndex(
+                { alias: 1 },
+                { unique: true, sparse: true, collation: { locale: 'en', strength: 2 } }
+            );
 
             // Create indexes for sessions collection
             await this.sessions.createIndex({ sessionId: 1 }, { unique: true });
             await this.sessions.createIndex({ userId: 1 });
             await this.sessions.createIndex({ counselorId: 1 });
+            await this.sessions.createIndex({ currentCounselorId: 1 });
             await this.sessions.createIndex({ isActive: 1 });
             await this.sessions.createIndex({ startTime: 1 });
 
@@ -66,6 +94,10 @@ export class Collections {
             await this.messages.createIndex({ sessionId: 1 });
             await this.messages.createIndex({ senderId: 1 });
             await this.messages.createIndex({ timestamp: 1 });
+            await this.messages.createIndex({ sessionId: 1, recipientTelegramMessageId: 1 }, { sparse: true });
+
+            // Create indexes for no-log relay routes collection
+            await this.relayRoutes.createIndex({ sessionId: 1, recipientTelegramMessageId: 1 });
 
             // Create indexes for prayers collection
             await this.prayers.createIndex({ prayerId: 1 }, { unique: true });
@@ -86,6 +118,18 @@ export class Collections {
             await this.auditLogs.createIndex({ action: 1 });
             await this.auditLogs.createIndex({ timestamp: 1 });
 
+            // Create indexes for admins collection
+            await this.admins.createIndex({ telegramChatId: 1 }, { unique: true });
+            await this.admins.createIndex({ role: 1 });
+
+            // Create indexes for pending actions collection
+            await this.pendingActions.createIndex({ actionId: 1 }, { unique: true });
+            await this.pendingActions.createIndex({ status: 1, expiresAt: 1 });
+            await this.pendingActions.createIndex(
+                { type: 1, targetId: 1 },
+                { unique: true, partialFilterExpression: { status: 'pending' } }
+            );
+
             // Create indexes for appeals collection
             await this.appeals.createIndex({ appealId: 1 }, { unique: true });
             await this.appeals.createIndex({ counselorId: 1 });
@@ -96,6 +140,36 @@ export class Collections {
             await this.broadcastLogs.createIndex({ broadcastId: 1 }, { unique: true });
             await this.broadcastLogs.createIndex({ sentByAdminId: 1 });
             await this.broadcastLogs.createIndex({ sentAt: 1 });
+            await this.broadcastLogs.createIndex({ status: 1, scheduledFor: 1 });
+
+            // Create indexes for broadcast deliveries collection
+            await this.broadcastDeliveries.createIndex({ broadcastId: 1, chatId: 1 }, { unique: true });
+            await this.broadcastDeliveries.createIndex({ broadcastId: 1, status: 1 });
+            await this.broadcastDeliveries.createIndex({ chatId: 1 });
+
+            // Create indexes for waiting queue collection
+            await this.waitingQueue.createIndex({ queueId: 1 }, { unique: true });
+            await this.waitingQueue.createIndex(
+                { userId: 1 },
+                { unique: true, partialFilterExpression: { status: 'waiting' } }
+            );
+            await this.waitingQueue.createIndex({ status: 1, enqueuedAt: 1 });
+
+            // Create indexes for follow-up check-ins collection
+            await this.followUps.createIndex({ followUpId: 1 }, { unique: true });
+            await this.followUps.createIndex(
+                { sessionId: 1 },
+                { unique: true, partialFilterExpression: { status: 'scheduled' } }
+            );
+            await this.followUps.createIndex({ status: 1, scheduledFor: 1 });
+
+            // Create indexes for session data keys collection
+            await this.sessionKeys.createIndex({ sessionId: 1 }, { unique: true });
+            await this.sessionKeys.createIndex({ masterKeyId: 1 });
+
+            // Create indexes for conversation state collection
+            await this.conversationStates.createIndex({ namespace: 1, key: 1 }, { unique: true });
+            await this.conversationStates.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
             console.log('Successfully initialized all collections and indexes');
         } catch (error) {
@@ -110,11 +184,19 @@ export class Collections {
             'counselors',
             'sessions',
             'messages',
+            'relay_routes',
             'prayers',
             'reports',
             'audit_logs',
+            'admins',
+            'pending_actions',
             'appeals',
-            'broadcast_logs'
+            'broadcast_logs',
+            'broadcast_deliveries',
+            'waiting_queue',
+            'follow_ups',
+            'session_keys',
+            'conversation_states'
         ];
 
         const existingCollections = await this.db.listCollections().toArray();
@@ -136,11 +218,19 @@ export class Collections {
             { name: 'counselors', collection: this.counselors },
             { name: 'sessions', collection: this.sessions },
             { name: 'messages', collection: this.messages },
+            { name: 'relay_routes', collection: this.relayRoutes },
             { name: 'prayers', collection: this.prayers },
             { name: 'reports', collection: this.reports },
             { name: 'audit_logs', collection: this.auditLogs },
+            { name: 'admins', collection: this.admins },
+            { name: 'pending_actions', collection: this.pendingActions },
             { name: 'appeals', collection: this.appeals },
-            { name: 'broadcast_logs', collection: this.broadcastLogs }
+            { name: 'broadcast_logs', collection: this.broadcastLogs },
+            { name: 'broadcast_deliveries', collection: this.broadcastDeliveries },
+            { name: 'waiting_queue', collection: this.waitingQueue },
+            { name: 'follow_ups', collection: this.followUps },
+            { name: 'session_keys', collection: this.sessionKeys },
+            { name: 'conversation_states', collection: this.conversationStates }
         ];
 
         for (const { name, collection } of collections) {
@@ -76,6 +76,20 @@ export class DatabaseConnection {
         return this.client !== null && this.db !== null;
     }
 
+    /**
+     * Round-trip to the server; false when it cannot be reached
+     */
+    async ping(): Promise<boolean> {
+        if (!this.client) return false;
+
+        try {
+            await this.client.db(this.databaseName).admin().ping();
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
     private delay(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
@@ -39,4 +39,8 @@ export class DatabaseManager {
     isConnected(): boolean {
         return this.connection.isConnected();
     }
+
+    async ping(): Promise<boolean> {
+        return this.connection.ping();
+    }
 }
\ No newline at end of file
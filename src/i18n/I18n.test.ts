@@ -0,0 +1,51 @@
+import { resolveLocale, translate, translateError, translations } from './I18n';
+import { en, MessageCatalog, MessageKey } from './locales/en';
+import { am } from './locales/am';
+import { om } from './locales/om';
+import { ti } from './locales/ti';
+
+const CATALOGS: Array<[string, MessageCatalog]> = [['am', am], ['om', om], ['ti', ti]];
+
+const placeholders = (text: string): string[] => (text.match(/\{\w+\}/g) ?? []).sort();
+
+describe('I18n', () => {
+    it('maps Telegram language codes to supported locales', () => {
+        expect(resolveLocale('am')).toBe('am');
+        expect(resolveLocale('om-ET')).toBe('om');
+        expect(resolveLocale('fr')).toBe('en');
+        expect(resolveLocale(undefined)).toBe('en');
+    });
+
+    it('fills placeholders in every locale', () => {
+        expect(translate('ti', 'common.page', { page: 2, totalPages: 5 })).toBe('ገጽ 2/5');
+        expect(translate('om', 'admin.admins_item', { chatId: 42, role: 'x' })).toBe('42: x');
+    });
+
+    it('lists every rendering of a menu label once', () => {
+        const labels = translations('menu.help');
+        expect(labels).toContain('ℹ️ Help');
+        expect(labels).toContain('ℹ️ እገዛ');
+        expect(new Set(labels).size).toBe(labels.length);
+    });
+
+    it('translates known manager errors and passes others through', () => {
+        expect(translateError('en', 'Capacity must be a whole number between 1 and 10.'))
+            .toBe('Capacity must be a whole number between 1 and 10.');
+        expect(translateError('am', 'Session not found.')).toBe(translate('am', 'error.session_not_found'));
+        expect(translateError('om', 'Something unexpected')).toBe('Something unexpected');
+    });
+
+    it.each(CATALOGS)('translates every key in %s', (_locale, catalog) => {
+        const missing = (Object.keys(en) as MessageKey[]).filter(key => catalog[key] === undefined);
+
+        expect(missing).toEqual([]);
+    });
+
+    it.each(CATALOGS)('keeps the English placeholders in %s', (_locale, catalog) => {
+        const mismatched = (Object.keys(catalog) as MessageKey[]).filter(key =>
+            placeholders(catalog[key] ?? '').join() !== placeholders(en[key]).join()
+        );
+
+        expect(mismatched).toEqual([]);
+    });
+});
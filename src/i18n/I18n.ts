@@ -0,0 +1,92 @@
+import { Locale } from '../types/Locale';
+import { en, MessageKey, MessageCatalog } from './locales/en';
+import { am } from './locales/am';
+import { om } from './locales/om';
+import { ti } from './locales/ti';
+
+export type TranslationParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'am', 'om', 'ti'];
+
+// Each language's name in that language, for the language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: 'English',
+    am: 'አማርኛ',
+    om: 'Afaan Oromoo',
+    ti: 'ትግርኛ'
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, am, om, ti };
+
+export function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+/**
+ * Map a Telegram language_code (e.g. "am" or "en-US") to a supported locale
+ */
+export function resolveLocale(languageCode?: string): Locale {
+    const primary = languageCode?.toLowerCase().split(/[-_]/)[0];
+    return isLocale(primary) ? primary : DEFAULT_LOCALE;
+}
+
+/**
+ * Look up a message and fill in its {placeholders}.
+ * Keys missing from a locale's catalog fall back to English.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: TranslationParams): string {
+    const template = CATALOGS[locale][key] ?? en[key];
+    if (!params) {
+        return template;
+    }
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder
+    );
+}
+
+/**
+ * Every distinct rendering of a key, used to match reply-keyboard labels in any language
+ */
+export function translations(key: MessageKey): string[] {
+    return [...new Set(SUPPORTED_LOCALES.map(locale => translate(locale, key)))];
+}
+
+const ERROR_PATTERNS: Array<{ key: MessageKey; pattern: RegExp; names: string[] }> = (Object.keys(en) as MessageKey[])
+    .filter(key => key.startsWith('error.'))
+    .map(key => {
+        const names: string[] = [];
+        const source = en[key]
+            .split(/(\{\w+\})/)
+            .map(part => {
+                const placeholder = /^\{(\w+)\}$/.exec(part);
+                if (placeholder) {
+                    names.push(placeholder[1]);
+                    return '(.+?)';
+                }
+                return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            })
+            .join('');
+        return { key, pattern: new RegExp(`^${source}$`), names };
+    });
+
+/**
+ * Localize an error thrown by a manager. Managers throw English messages; those matching
+ * an `error.*` template in the English catalog are translated with their values carried over,
+ * anything else is returned as-is.
+ */
+export function translateError(locale: Locale, message: string): string {
+    for (const { key, pattern, names } of ERROR_PATTERNS) {
+        const match = pattern.exec(message);
+        if (match) {
+            const params: TranslationParams = {};
+            names.forEach((name, index) => {
+                params[name] = match[index + 1];
+            });
+            return translate(locale, key, params);
+        }
+    }
+    return message;
+}
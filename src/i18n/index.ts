@@ -0,0 +1,3 @@
+// Export localization helpers and message catalogs
+export * from './I18n';
+export type { MessageKey, MessageCatalog } from './locales/en';
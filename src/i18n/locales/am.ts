@@ -0,0 +1,577 @@
+import { MessageCatalog } from './en';
+
+// Amharic: every key in en.ts, in the same order
+export const am: MessageCatalog = {
+    // Menu labels
+    'menu.start_counseling': '💬 ከአማካሪ ጋር ውይይት ጀምር',
+    'menu.submit_prayer': '🙏 የጸሎት ጥያቄ አስገባ',
+    'menu.my_prayers': '📿 የእኔ የጸሎት ጥያቄዎች',
+    'menu.history': '📜 የእኔ ታሪክ',
+    'menu.help': 'ℹ️ እገዛ',
+    'menu.end_session': '🛑 ክፍለ ጊዜውን ጨርስ',
+    'menu.report': '⚠️ ሪፖርት አድርግ',
+    'menu.main': '🏠 ዋና ምናሌ',
+    'menu.register_counselor': '🧑‍⚕️ እንደ አማካሪ ተመዝገብ',
+    'menu.status_available': '✅ ዝግጁ ነኝ',
+    'menu.status_away': '⚪ አልገኝም',
+    'menu.my_stats': '📊 የእኔ ስታቲስቲክስ',
+    'menu.prayer_requests': '🙏 የጸሎት ጥያቄዎች',
+    'menu.close_prayer': '✅ ጸሎቶችን ዝጋ',
+    'menu.transfer_session': '🔁 ክፍለ ጊዜውን ወደ ባለሙያ አስተላልፍ',
+    'menu.switch_conversation': '🔀 ውይይት ቀይር',
+    'menu.admin_stats': '🛡️ የአስተዳዳሪ ስታቲስቲክስ',
+    'menu.pending_reports': '🚩 በመጠባበቅ ላይ ያሉ ሪፖርቶች',
+    'menu.process_report': '⚙️ ሪፖርት አስተናግድ',
+    'menu.counselor_list': '🧑‍⚕️ የአማካሪዎች ዝርዝር',
+    'menu.appeal': '📝 ይግባኝ',
+    'menu.appeals': '🧾 ይግባኞች',
+    'menu.approve_counselor': '✅ አማካሪ አጽድቅ',
+    'menu.remove_counselor': '🗑️ አማካሪ አስወግድ',
+    'menu.audit_log': '📜 የኦዲት መዝገብ',
+    'menu.broadcast': '📢 የጅምላ መልእክት',
+    'menu.language': '🌐 ቋንቋ',
+
+    // Menu prompts
+    'menu.main_prompt': 'ዋና ምናሌ፦',
+    'menu.active_session_notice': 'ንቁ ክፍለ ጊዜ አለዎት። ለመጨረስ "ክፍለ ጊዜውን ጨርስ" ይጠቀሙ።',
+
+    // Shared
+    'common.previous': '⬅️ ቀዳሚ',
+    'common.next': 'ቀጣይ ➡️',
+    'common.page': 'ገጽ {page}/{totalPages}',
+    'common.generic_error': 'ይቅርታ፣ ችግር ተፈጥሯል። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+    'common.user': 'ተጠቃሚ',
+    'common.counselor': 'አማካሪ',
+    'common.counselor_alias': 'አማካሪ {alias}',
+    'common.invalid_response': 'እባክዎ ትክክለኛ መልስ ያስገቡ።',
+    'common.use_buttons': 'ለመቀጠል እባክዎ የቀረቡትን ቁልፎች ይጠቀሙ።',
+    'common.select_one_language': 'እባክዎ ቢያንስ አንድ ቋንቋ ይምረጡ።',
+    'common.first_step': 'አሁን በመጀመሪያው ደረጃ ላይ ነዎት።',
+    'common.done': '✅ ጨርሻለሁ',
+    'common.back': '⬅️ ተመለስ',
+    'common.cancel': '❌ ሰርዝ',
+    'common.not_available': 'የለም',
+    'common.yes': 'አዎ',
+    'common.no': 'አይ',
+
+    // General
+    'general.welcome': 'እንኳን ደህና መጡ! ማንነትዎን የማይገልጸው መለያዎ {userId} ነው። ለመጀመር ከታች ያሉትን ቁልፎች ይጠቀሙ።',
+    'general.use_menu': 'ለመቀጠል ከታች ያሉትን የምናሌ ቁልፎች ይጠቀሙ።',
+    'general.choose_language': 'ቋንቋዎን ይምረጡ፦',
+    'general.language_updated': 'ቋንቋው ወደ {language} ተቀይሯል።',
+    'general.help_user': 'ምክር ለመጀመር፣ የጸሎት ጥያቄ ለማስገባት፣ ታሪክዎን ለማየት ወይም እገዛ ለማግኘት የምናሌ ቁልፎቹን ይጠቀሙ።\n\n/my_prayers - በጸሎት ጥያቄዎችዎ ላይ ማሻሻያ ይለጥፉ ወይም መልስ እንዳገኙ ምልክት ያድርጉ\n/my_data - ስለእርስዎ የተቀመጠውን ሁሉ ያውርዱ\n/delete_my_data - መረጃዎን ይሰርዙ',
+    'general.help_commands_header': 'ትዕዛዞች፦',
+    'general.help_counselor_commands': '/register_counselor - እንደ አማካሪ ይመዝገቡ (የአስተዳዳሪ ማጽደቅ ያስፈልጋል)\n/available | /away - የአማካሪ ዝግጁነትዎን ያዘጋጁ\n/capacity [1-{maxCapacity}] - በአንድ ጊዜ የሚይዟቸውን ክፍለ ጊዜዎች ብዛት ይዩ ወይም ያዘጋጁ\n/my_stats - የአማካሪ ስታቲስቲክስ ይዩ\n/profile - ተጠቃሚዎች የሚያዩትን የብዕር ስም እና መግለጫ ይዩ\n/set_alias <alias> | /set_bio <text> - የመገለጫ ለውጥ ይጠይቁ (አስተዳዳሪ ይገመግመዋል)\n/list_of_prayer_requests [health|family|work|spiritual|other] - የጸሎት ጥያቄዎችን ይዩ፣ ከተፈለገ በአንድ ምድብ\n/close_prayer <prayerId> - የጸሎት ጥያቄን ይዝጉ\n/language - የቦቱን ቋንቋ ይቀይሩ\n{transferLabel} - ንቁ ክፍለ ጊዜን ያስተላልፉ (ምናሌ)\n{switchLabel} - የትኛውን ንቁ ክፍለ ጊዜ እንደሚመልሱ ይምረጡ (ምናሌ)',
+    'general.help_admin_commands': '/admin_stats - የሥርዓቱን ስታቲስቲክስ ይመልከቱ (አስተዳዳሪዎች)\n/pending_reports - በመጠባበቅ ላይ ያሉ ሪፖርቶችን ይዘርዝሩ (አስተዳዳሪዎች)\n/process_report <reportId> <strike|dismiss> - ሪፖርት ያስተናግዱ (አስተዳዳሪዎች)\n/approve_counselor <counselorId> - አማካሪ ያጽድቁ (አስተዳዳሪዎች)\n/remove_counselor <counselorId> - አማካሪ ያስወግዱ (አስተዳዳሪዎች)\n/audit_log [limit] - የአስተዳዳሪ ኦዲት መዝገብን ይመልከቱ (አስተዳዳሪዎች)\n/profile_reviews - የአማካሪዎችን የቅጽል ስም እና የሕይወት ታሪክ ለውጦች ይገምግሙ (አስተዳዳሪዎች)\n/rotate_message_keys - የመልእክት ምስጠራ ቁልፎችን በአሁኑ ዋና ቁልፍ እንደገና ይጠቅልሉ (አስተዳዳሪዎች)\n/cleanup_preview - ቀጣዩ የውሂብ ማጽዳት የሚሰርዘውን ይመልከቱ፣ አሁኑኑ ለማስኬድ ቁልፍም አለው (አስተዳዳሪዎች)\n/pending_actions - ሁለተኛ አስተዳዳሪ የሚጠብቁ አጥፊ እርምጃዎችን ያረጋግጡ ወይም ውድቅ ያድርጉ (አስተዳዳሪዎች)\n/prayer_wall - በጸሎት ግድግዳ ላይ ለመለጠፍ የሚጠብቁ የጸሎት ጥያቄዎችን ይገምግሙ (አስተዳዳሪዎች)\n/admins - አስተዳዳሪዎችን እና ሚናቸውን ይዘርዝሩ (ዋና አስተዳዳሪዎች)\n/add_admin <chatId> <role> - አስተዳዳሪ ያክሉ ወይም ሚናቸውን ይቀይሩ (ዋና አስተዳዳሪዎች)\n/remove_admin <chatId> - አስተዳዳሪ ያስወግዱ (ዋና አስተዳዳሪዎች)\n/broadcasts - የታቀዱ እና የቅርብ ጊዜ የጅምላ መልእክቶችን ይገምግሙ (አስተዳዳሪዎች)\n{broadcastLabel} - የሥርዓት ማስታወቂያዎችን ይላኩ (በምናሌ ብቻ፣ አስተዳዳሪዎች)',
+
+    // Sessions
+    'session.no_active_session': 'ንቁ ክፍለ ጊዜ አልተገኘም።',
+    'session.media_requires_session': 'ፎቶዎችን፣ የድምፅ መልዕክቶችን እና ፋይሎችን ማጋራት የሚቻለው በንቁ የምክር ክፍለ ጊዜ ውስጥ ብቻ ነው።',
+    'session.crisis_hotline': 'አስቸኳይ አደጋ ላይ ከሆኑ ወይም ሕይወትዎን ስለማጥፋት እያሰቡ ከሆነ፣ እባክዎ አሁኑኑ የአካባቢዎን የድንገተኛ አገልግሎት ወይም የቀውስ እርዳታ የስልክ መስመር ያግኙ፣ ወይም በአቅራቢያዎ ወዳለ ሆስፒታል ይሂዱ። ብቻዎን አይደሉም።',
+    'session.crisis_counselor_alert': '🚨 የአደጋ ማስጠንቀቂያ (ክፍለ ጊዜ {sessionId})፦ የሚቀጥለው መልዕክት ራስን የመጉዳት አደጋን ሊያመለክት የሚችል ቃል ይዟል። እባክዎ ለዚህ ውይይት ቅድሚያ ይስጡ እና የአደጋ ጊዜ አሰራሩን ይከተሉ። አስተዳዳሪዎች እንዲያውቁ ተደርጓል።',
+    'session.crisis_admin_alert': '🚨 በክፍለ ጊዜ {sessionId} ({language}) የአደጋ ማስጠንቀቂያ። አማካሪው እንዲያውቅ ተደርጓል፣ ተጠቃሚውም የአስቸኳይ እርዳታ የስልክ መስመሮች ታይተውታል።',
+    'session.choose_conversation': '{count} ንቁ ውይይቶች አሉዎት። ለማን እንደሚመልሱ ይምረጡ፣ ወይም ከመልዕክቶቻቸው ለአንዱ በቀጥታ ምላሽ ይስጡ።',
+    'session.switch_counselors_only': 'ውይይት መቀየር የሚችሉት የጸደቁ አማካሪዎች ብቻ ናቸው።',
+    'session.currently_replying': 'አሁን በ{label} ውስጥ እየመለሱ ነው።',
+    'session.no_conversation_selected': 'እስካሁን ውይይት አልተመረጠም።',
+    'session.select_conversation': 'ውይይት ይምረጡ፦',
+    'session.conversation_inactive': 'ያ ውይይት ከእንግዲህ ንቁ አይደለም።',
+    'session.now_replying': 'አሁን በ{label} ውስጥ ይመልሳሉ።',
+    'session.general_support': 'አጠቃላይ ድጋፍ',
+    'session.conversation_label': 'ውይይት {position} · {topic}',
+    'session.new_session_multiple': 'አዲስ ክፍለ ጊዜ ተጀምሯል ({label})። የተጠቃሚ መለያ፦ {userId}። ለመልዕክቶቻቸው ምላሽ ይስጡ ወይም ለማን እንደሚመልሱ ለመምረጥ {switchLabel} ይጠቀሙ።',
+    'session.new_session': 'አዲስ ክፍለ ጊዜ ተጀምሯል። የተጠቃሚ መለያ፦ {userId}። ለመመለስ እንደተለመደው ይጻፉ።',
+    'session.no_log_notice': '🔒 ተጠቃሚው ያልተመዘገበ ክፍለ ጊዜ መርጠዋል። መልዕክቶች ይተላለፋሉ እንጂ በፍጹም አይቀመጡም፤ ስለዚህ በኋላ የውይይት መዝገብ አይኖርም።',
+    'session.admin_no_sessions': 'አስተዳዳሪዎች የሚጨርሱት ንቁ ክፍለ ጊዜ የላቸውም።',
+    'session.nothing_to_end': 'የሚጨረስ ንቁ ክፍለ ጊዜ የለም።',
+    'session.ended_by_user': 'ክፍለ ጊዜው ተጠናቋል። ተጠቃሚው ክፍለ ጊዜውን ጨርሰዋል።',
+    'session.ended': 'ክፍለ ጊዜው ተጠናቋል።',
+    'session.ended_by_counselor': 'ክፍለ ጊዜዎ ተጠናቋል። እባክዎ አማካሪዎን ከ1-5 ይገምግሙ። ለመቀጠል ግምገማ ያስፈልጋል።',
+    'session.rating_users_only': 'ክፍለ ጊዜዎችን መገምገም የሚችሉት ተጠቃሚዎች ብቻ ናቸው።',
+    'session.rating_failed': 'ግምገማውን መመዝገብ አልተቻለም።',
+    'session.rating_thanks': 'ስለገመገሙ እናመሰግናለን። ይህን ክፍለ ጊዜ {rating}/5 ሰጥተዋል። አስፈላጊ ከሆነ ከታች ባለው ምናሌ አማካሪውን ሪፖርት ማድረግ ይችላሉ።',
+    'session.rating_prompt': 'ክፍለ ጊዜው ተጠናቋል። እባክዎ አማካሪዎን ከ1-5 ይገምግሙ። ለመቀጠል ግምገማ ያስፈልጋል።',
+    'session.counselor_intro': 'ከ{counselor} ጋር እየተነጋገሩ ነው።',
+    'session.counselor_intro_bio': 'ከ{counselor} ጋር እየተነጋገሩ ነው።\nስለ እነሱ፦ {bio}',
+    'session.recent_history': 'የቅርብ ጊዜ የውይይት ታሪክ (የመጨረሻዎቹ 50 መልዕክቶች)፦',
+
+    // Matching and waiting queue
+    'matching.admin_cannot_start': 'አስተዳዳሪዎች የምክር ክፍለ ጊዜ መጀመር አይችሉም።',
+    'matching.already_in_session': 'ንቁ ክፍለ ጊዜ አለዎት።',
+    'matching.consent_wrong_account': 'ለዚህ መለያ ስምምነትን ማረጋገጥ አልተቻለም።',
+    'matching.no_pending_consent': 'በመጠባበቅ ላይ ያለ የስምምነት ጥያቄ የለም። ለመጀመር "ከአማካሪ ጋር ውይይት ጀምር"ን ይጠቀሙ።',
+    'matching.missing_preferences': 'የማዛመጃ ምርጫዎች ጠፍተዋል። እባክዎ ቋንቋዎን እና ዘርፍዎን እንደገና ይምረጡ።',
+    'matching.complete_steps_first': 'ስምምነት ከመስጠትዎ በፊት እባክዎ የማዛመጃ ደረጃዎቹን ያጠናቅቁ።',
+    'matching.searching': 'ተስማሚ አማካሪ በመፈለግ ላይ...',
+    'matching.no_counselors_available': 'በአሁኑ ጊዜ ነፃ አማካሪ የለም። የጥበቃ ወረፋውን መቀላቀል ይችላሉ፤ አማካሪ እንደተገኘ እናገናኝዎታለን።',
+    'matching.no_language_match': 'በአሁኑ ጊዜ ቋንቋዎን የሚናገር አማካሪ የለም። ሌላ ቋንቋ መምረጥ ወይም መጠበቅ ይችላሉ።',
+    'matching.session_started': 'ክፍለ ጊዜው ተጀምሯል። አማካሪዎ እንዲያውቁ ተደርጓል። የክፍለ ጊዜ መለያ፦ {sessionId}',
+    'matching.session_start_failed': 'አሁን ክፍለ ጊዜ መጀመር አልተቻለም። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+    'matching.language_added': 'የተጨመረ ቋንቋ፦ {language}። ተጨማሪ ይምረጡ ወይም "ጨርሻለሁ" ይጫኑ።',
+    'matching.canceled': 'ፍለጋው ተሰርዟል።',
+    'matching.retry_language': 'የሚመርጡትን ቋንቋ(ዎች) ይምረጡ።',
+    'matching.queue_joined': 'በወረፋው #{position} ነዎት። አማካሪ እንደተገኘ እናገናኝዎታለን።',
+    'matching.queue_leave_hint': 'ወረፋውን በማንኛውም ጊዜ መልቀቅ ይችላሉ።',
+    'matching.not_in_queue': 'በጥበቃ ወረፋው ውስጥ የሉም።',
+    'matching.queue_left': 'የጥበቃ ወረፋውን ለቀዋል።',
+    'matching.queue_status': 'ለአማካሪ በወረፋው #{position} ነዎት። አማካሪ እንደተገኘ እናገናኝዎታለን።',
+    'matching.leave_queue_button': '🚪 ወረፋውን ልቀቅ',
+    'matching.queue_session_started': 'አማካሪ ተገኝቷል። ክፍለ ጊዜዎ ተጀምሯል። የክፍለ ጊዜ መለያ፦ {sessionId}',
+    'matching.queue_position_update': 'አሁን ለአማካሪ በወረፋው #{position} ነዎት።',
+    'matching.queue_expired': 'ይቅርታ፣ በጊዜው ነፃ የሆነ አማካሪ ስላልተገኘ ከጥበቃ ወረፋው ተወግደዋል። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+    'matching.prompt_language': 'የሚመርጡትን ቋንቋ(ዎች) ይምረጡ (ከአንድ በላይ መምረጥ ይቻላል)። ሲጨርሱ "ጨርሻለሁ" ይጫኑ።',
+    'matching.prompt_language_other': 'እባክዎ የሚመርጡትን ቋንቋ ይጻፉ።',
+    'matching.prompt_domain': 'የምክር ዘርፍዎን ይምረጡ (አንድ ብቻ)።',
+    'matching.prompt_domain_other': 'እባክዎ የሚፈልጉትን የምክር ዘርፍ ይጻፉ።',
+    'matching.consent_disclosure': 'ከመጀመራችን በፊት፦ ይህ የምክር ክፍለ ጊዜ ማንነትዎን አይገልጽም። መልዕክቶች ለደህንነት እና ለጥራት ሲባል ሊመዘገቡ ይችላሉ። ማንነትዎን የሚገልጽ መረጃ አያጋሩ። በመቀጠልዎ በእነዚህ ውሎች ለመሳተፍ ተስማምተዋል።',
+    'matching.consent_counselor': 'ከ{counselor} ጋር ይነጋገራሉ።',
+    'matching.consent_button': '✅ እስማማለሁ፣ ቀጥል',
+    'matching.consent_no_log_option': 'ከፈለጉ "መልእክቶቼን አታስቀምጡ" የሚለውን ይምረጡ፦ መልእክቶችዎ ለአማካሪዎ ይደርሳሉ ነገር ግን በፍጹም አይቀመጡም። በኋላ ለማየትም ሆነ አማካሪውን ሪፖርት ካደረጉ አስተዳዳሪዎች እንዲመረምሩት የሚሆን የውይይት መዝገብ አይኖርም።',
+    'matching.consent_no_log_button': '🔒 እስማማለሁ፣ ግን መልእክቶቼን አታስቀምጡ',
+    'matching.continue_setup': 'የክፍለ ጊዜ ዝግጅትዎን እንቀጥል።',
+    'matching.join_queue_button': '⏳ የጥበቃ ወረፋውን ተቀላቀል',
+    'matching.choose_another_language_button': '🔁 ሌላ ቋንቋ ምረጥ',
+    'matching.wait_button': '⏳ አማካሪ ጠብቅ',
+    'matching.previous_counselor_prompt': 'ከዚህ በፊት ካነጋገሩት አማካሪ ጋር መቀጠል ይፈልጋሉ? መጀመሪያ እንዲያረጋግጡ ይጠየቃሉ። አዲስ አማካሪም መፈለግ ይችላሉ።',
+    'matching.previous_counselor_button': '🤝 {counselor} · {date}',
+    'matching.find_new_counselor_button': '🔎 አዲስ አማካሪ ፈልግ',
+    'matching.previous_counselor_unavailable': 'ያ አማካሪ አሁን አይገኙም።',
+    'matching.previous_request_sent': 'የቀድሞ አማካሪዎ ከእርስዎ ጋር እንዲቀጥሉ ጠይቀናል። በ{minutes} ደቂቃ ውስጥ ካልመለሱ ሌላ አማካሪ እንዲያገኙ እንረዳዎታለን።',
+    'matching.previous_request_pending': 'አሁንም የቀድሞ አማካሪዎን መልስ እየጠበቅን ነው።',
+    'matching.previous_counselor_accepted': 'የቀድሞ አማካሪዎ ተቀብለዋል። ክፍለ ጊዜዎ ተጀምሯል። የክፍለ ጊዜ መለያ፦ {sessionId}',
+    'matching.previous_counselor_declined': 'የቀድሞ አማካሪዎ አሁን ክፍለ ጊዜ መውሰድ አይችሉም።',
+    'matching.previous_counselor_timeout': 'የቀድሞ አማካሪዎ በጊዜው አልመለሱም።',
+    'matching.previous_fallback_prompt': 'ሌላ አማካሪ እንድናገኝልዎ ይፈልጋሉ?',
+    'matching.previous_request_to_counselor': 'ከዚህ በፊት የረዱት ተጠቃሚ (የመጨረሻው ክፍለ ጊዜ {date}) ከእርስዎ ጋር መቀጠል ይፈልጋሉ። እባክዎ በ{minutes} ደቂቃ ውስጥ ይመልሱ።',
+    'matching.previous_accept_button': '✅ ተቀበል',
+    'matching.previous_decline_button': '❌ አትቀበል',
+    'matching.previous_request_inactive': 'ይህ ጥያቄ ከእንግዲህ ንቁ አይደለም።',
+    'matching.previous_request_declined': 'ጥያቄው ተቀባይነት አላገኘም። ተጠቃሚው ከሌላ አማካሪ ጋር ይገናኛሉ።',
+
+    // Session transfers
+    'transfer.not_approved': 'ክፍለ ጊዜዎችን ለማስተላለፍ አልጸደቁም።',
+    'transfer.missing_preferences': 'የክፍለ ጊዜውን ምርጫዎች ማወቅ አልተቻለም። እባክዎ ይቀጥሉ ወይም ክፍለ ጊዜውን ይጨርሱ።',
+    'transfer.select_reason': 'የዝውውሩን ምክንያት ይምረጡ፦',
+    'transfer.enter_reason': 'እባክዎ የዝውውሩን ምክንያት ያስገቡ።',
+    'transfer.reason_empty': 'እባክዎ ለዝውውሩ ምክንያት ያስገቡ።',
+    'transfer.reason_required': 'የዝውውር ምክንያት ያስፈልጋል።',
+    'transfer.no_candidates': 'የሚስማማ ባለሙያ አማካሪ የለም። ከታች አንድ አማራጭ ይምረጡ።',
+    'transfer.request_sent': 'የዝውውር ጥያቄ ተልኳል። የአማካሪውን ምላሽ በመጠበቅ ላይ...',
+    'transfer.request_inactive': 'ይህ የዝውውር ጥያቄ ከእንግዲህ ንቁ አይደለም።',
+    'transfer.accept_failed': 'ዝውውሩን መቀበል አልተቻለም።',
+    'transfer.request_expired': 'ይህ የዝውውር ጥያቄ ጊዜው አልፎበታል።',
+    'transfer.no_capacity': 'ይህን ዝውውር ለመቀበል የቀረ የክፍለ ጊዜ አቅም የለዎትም።',
+    'transfer.completed': 'ክፍለ ጊዜው በተሳካ ሁኔታ ተላልፏል።',
+    'transfer.user_notice': 'በተሻለ ሁኔታ እንዲረዳዎ ክፍለ ጊዜዎ ተገቢው ሙያ ላለው ሌላ አማካሪ ተላልፏል።',
+    'transfer.connected': 'አሁን ከተጠቃሚው ጋር ተገናኝተዋል። የውይይት ታሪኩ ይገኛል።',
+    'transfer.decline_failed': 'ዝውውሩን አለመቀበል አልተቻለም።',
+    'transfer.nobody_accepted': 'የዝውውር ጥያቄውን የተቀበለ ነፃ ባለሙያ አማካሪ የለም።',
+    'transfer.declined': 'አልተቀበሉም። ጥያቄው ለሌላ አማካሪ ተላልፏል።',
+    'transfer.continuing': 'የአሁኑን ክፍለ ጊዜ በመቀጠል ላይ።',
+    'transfer.waiting': 'ባለሙያ እስኪገኝ እንጠብቃለን። ቆይተው ዝውውሩን እንደገና ይሞክሩ።',
+    'transfer.canceled': 'ዝውውሩ ተሰርዟል።',
+    'transfer.continue_button': '✅ ክፍለ ጊዜውን ቀጥል',
+    'transfer.wait_button': '⏳ ባለሙያ ጠብቅ',
+    'transfer.request': 'የክፍለ ጊዜ ዝውውር ጥያቄ አለዎት።\nዘርፍ፦ {domain}\nቋንቋ፦ {languages}\nምክንያት፦ {reason}',
+    'transfer.accept_button': '✅ ዝውውሩን ተቀበል',
+    'transfer.decline_button': '❌ አትቀበል',
+
+    // Follow-up check-ins
+    'followup.offer': 'ቦቱ በኋላ ይህን ሰው እንዲጠይቅ ይፈልጋሉ? ማንነታቸው እንደተሰወረ ይቆያል፤ ከእርስዎ ጋር እንደገና ለመገናኘትም መምረጥ ይችላሉ።',
+    'followup.delay_button': '📅 በ{days} ቀን(ዎች) ውስጥ',
+    'followup.not_approved': 'ክትትል ማዘጋጀት የሚችሉት የጸደቁ አማካሪዎች ብቻ ናቸው።',
+    'followup.schedule_failed': 'ክትትሉን ማዘጋጀት አልተቻለም።',
+    'followup.scheduled': 'ክትትሉ ለ{date} ተዘጋጅቷል። በቀደመው መልዕክት ላይ ሌላ ጊዜ ከመረጡ ይተካዋል።',
+    'followup.cancel_button': '❌ ክትትሉን ሰርዝ',
+    'followup.cancelled': 'ክትትሉ ተሰርዟል።',
+    'followup.cannot_cancel': 'ይህ ክትትል አስቀድሞ ተልኳል ወይም ተሰርዟል።',
+    'followup.check_in': '👋 ሰላም፣ ይህ ከአማካሪዎ የተላከ የክትትል መልዕክት ነው። እንዴት ነዎት? ከተመሳሳይ አማካሪ ጋር እንደገና መገናኘት፣ አዲስ ክፍለ ጊዜ መጀመር ወይም ደህና መሆንዎን ሊያሳውቁን ይችላሉ።',
+    'followup.reconnect_button': '🤝 ከአማካሪዬ ጋር እንደገና ተገናኝ',
+    'followup.new_session_button': '💬 አዲስ ክፍለ ጊዜ ጀምር',
+    'followup.decline_button': '🙏 አመሰግናለሁ፣ ደህና ነኝ',
+    'followup.no_longer_active': 'ይህ የክትትል መልዕክት ከአሁን በኋላ አያገለግልም።',
+    'followup.counselor_unavailable': 'የቀድሞ አማካሪዎ አሁን አይገኙም። በምትኩ ከሌላ አማካሪ ጋር አዲስ ክፍለ ጊዜ መጀመር ይችላሉ።',
+    'followup.reconnected': 'ከአማካሪዎ ጋር እንደገና ተገናኝተዋል። የክፍለ ጊዜ መለያ፦ {sessionId}',
+    'followup.declined': 'በመስማታችን ደስ ብሎናል። በማንኛውም ጊዜ ከምናሌው እንደገና ሊያገኙን ይችላሉ።',
+
+    // Counselor registration
+    'onboarding.already_registered': 'አስቀድመው እንደ አማካሪ ተመዝግበዋል።',
+    'onboarding.already_pending': 'የአማካሪነት ማመልከቻዎ አስቀድሞ ገብቷል፤ የአስተዳዳሪ ማጽደቅን በመጠበቅ ላይ ነው።',
+    'onboarding.counselor_id': 'የአማካሪ መለያ፦ {counselorId}',
+    'onboarding.prompt_full_name': 'እባክዎ ሙሉ ስምዎን ያስገቡ።',
+    'onboarding.username_detected': 'የቴሌግራም የተጠቃሚ ስም ተገኝቷል፦ {username}። አሁን የሚናገሯቸውን ቋንቋዎች ይምረጡ።',
+    'onboarding.prompt_username': 'እባክዎ የቴሌግራም የተጠቃሚ ስምዎን ያስገቡ።',
+    'onboarding.current_value': 'የአሁኑ፦ {value}',
+    'onboarding.language_empty': 'እባክዎ የቋንቋውን ስም ያስገቡ።',
+    'onboarding.domain_empty': 'እባክዎ የዘርፉን ስም ያስገቡ።',
+    'onboarding.domain_added': 'የተጨመረ ዘርፍ፦ {domain}። ተጨማሪ ይምረጡ ወይም "ጨርሻለሁ" ይጫኑ።',
+    'onboarding.experience_invalid': 'እባክዎ ለልምድ ዓመታት አዎንታዊ ቁጥር ያስገቡ።',
+    'onboarding.prompt_country': 'እባክዎ አገርዎን ያስገቡ።',
+    'onboarding.prompt_location': 'እባክዎ ከተማዎን ወይም ክልልዎን ያስገቡ።',
+    'onboarding.select_one_domain': 'እባክዎ ቢያንስ አንድ ዘርፍ ይምረጡ።',
+    'onboarding.canceled': 'የአማካሪ ምዝገባው ተሰርዟል።',
+    'onboarding.restarted': 'አንዳንድ መረጃዎች ስለጎደሉ ምዝገባው እንደገና ተጀምሯል።',
+    'onboarding.admin_application': '🧑‍⚕️ አዲስ የአማካሪ ማመልከቻ\nመለያ፦ {counselorId}\nቅጽል ስም፦ {alias}\nሙሉ ስም፦ {fullName}\nቴሌግራም፦ {telegram}\nቋንቋዎች፦ {languages}\nሙያ፦ {domains}\nልምድ፦ {experience} ዓመት\nአገር፦ {country}\nአካባቢ፦ {location}\nሁኔታ፦ የአስተዳዳሪ ማጽደቅን በመጠባበቅ ላይ',
+    'onboarding.submitted': 'የአማካሪነት ማመልከቻዎ ገብቷል። የአማካሪ መለያ፦ {counselorId}። ሁኔታ፦ የአስተዳዳሪ ማጽደቅን በመጠበቅ ላይ።\nተጠቃሚዎች የሚያውቁዎት {alias} በሚለው ስም ብቻ ነው። ለማየት ወይም ለመቀየር /profile ይጠቀሙ።',
+    'onboarding.prompt_languages': 'የሚናገሯቸውን ቋንቋዎች ይምረጡ (ከአንድ በላይ መምረጥ ይቻላል)። ሲጨርሱ "ጨርሻለሁ" ይጫኑ።',
+    'onboarding.prompt_language_other': 'እባክዎ የሚናገሩትን ሌላ ቋንቋ ይጻፉ።',
+    'onboarding.prompt_domains': 'የምክር ሙያ ዘርፎችዎን ይምረጡ (ከአንድ በላይ መምረጥ ይቻላል)። ሲጨርሱ "ጨርሻለሁ" ይጫኑ።',
+    'onboarding.prompt_domain_other': 'እባክዎ ሌላውን የምክር ዘርፍ ይጻፉ።',
+    'onboarding.prompt_experience': 'ስንት ዓመት የምክር ልምድ አለዎት? (ቁጥር ብቻ)',
+    'onboarding.confirm_prompt': 'ማመልከቻውን ያስገቡ?',
+    'onboarding.continue_application': 'የአማካሪነት ማመልከቻዎን እንቀጥል።',
+    'onboarding.submit_button': '✅ ማመልከቻውን አስገባ',
+    'onboarding.summary': '🧑‍⚕️ የአማካሪነት ማመልከቻ ማጠቃለያ\nሙሉ ስም፦ {fullName}\nቴሌግራም፦ {telegram}\nቋንቋዎች፦ {languages}\nሙያ፦ {domains}\nልምድ፦ {experience} ዓመት\nአገር፦ {country}\nአካባቢ፦ {location}',
+
+    // Counselor self-service
+    'counselor.not_registered': 'እንደ አማካሪ አልተመዘገቡም። መጀመሪያ /register_counselor ይጠቀሙ።',
+    'counselor.status_not_approved': 'ሁኔታዎን ለመቀየር አልጸደቁም።',
+    'counselor.status_updated': 'ሁኔታዎ ወደ {status} ተቀይሯል።',
+    'counselor.status_available': 'ዝግጁ',
+    'counselor.status_busy': 'ሥራ ላይ',
+    'counselor.status_away': 'የለሁም',
+    'counselor.stats_not_approved': 'የአማካሪ ስታቲስቲክስ ለማየት አልጸደቁም።',
+    'counselor.stats': 'የተጠናቀቁ ክፍለ ጊዜዎች፦ {completed}\nንቁ ክፍለ ጊዜዎች፦ {active}/{capacity}\nአማካይ ቆይታ፦ {averageDuration} ደቂቃ\nየሥራ ብዛት ሰዓታት፦ {peakHours}',
+    'counselor.capacity_not_approved': 'የክፍለ ጊዜ አቅምዎን ለመቀየር አልጸደቁም።',
+    'counselor.capacity_current': 'አሁን በአንድ ጊዜ {capacity} ክፍለ ጊዜ(ዎች) መያዝ ይችላሉ። ለመቀየር /capacity <1-{maxCapacity}> ይጠቀሙ።',
+    'counselor.capacity_updated': 'አቅምዎ ተቀይሯል። አሁን በአንድ ጊዜ {capacity} ክፍለ ጊዜ(ዎች) መያዝ ይችላሉ።',
+    'counselor.profile': '🪪 ሕዝባዊ መገለጫዎ\nየብዕር ስም፦ {alias}\nመግለጫ፦ {bio}\n\nተጠቃሚዎች ከስምዎ ይልቅ ይህን ያያሉ። ለውጥ ለመጠየቅ /set_alias <alias> ወይም /set_bio <text> ይጠቀሙ፤ መጀመሪያ አስተዳዳሪ ይገመግመዋል።',
+    'counselor.profile_pending': 'የአስተዳዳሪ ግምገማን በመጠበቅ ላይ፦\nየብዕር ስም፦ {alias}\nመግለጫ፦ {bio}',
+    'counselor.profile_suspended': 'የታገዱ አማካሪዎች ሕዝባዊ መገለጫቸውን መቀየር አይችሉም።',
+    'counselor.alias_usage': 'አጠቃቀም፦ /set_alias <alias>',
+    'counselor.bio_usage': 'አጠቃቀም፦ /set_bio <ተጠቃሚዎች የሚያዩት አጭር መግቢያ>',
+    'counselor.profile_update_submitted': 'የመገለጫ ለውጥዎ ለግምገማ ወደ አስተዳዳሪዎች ተልኳል።',
+    'counselor.profile_update_failed': 'የመገለጫ ለውጥዎን ማስገባት አልተቻለም።',
+    'counselor.profile_update_approved': 'የመገለጫ ለውጥዎ ጸድቋል። ተጠቃሚዎች አሁን {alias} ብለው ያዩዎታል።',
+    'counselor.profile_update_rejected': 'የመገለጫ ለውጥዎ አልጸደቀም። ሕዝባዊ መገለጫዎ አልተቀየረም።',
+
+    // Prayer requests
+    'prayer.select_category': 'የጸሎት ጥያቄዎ ስለ ምንድን ነው?',
+    'prayer.category_health': '🩺 ጤና',
+    'prayer.category_family': '👨‍👩‍👧 ቤተሰብ',
+    'prayer.category_work': '💼 ሥራ',
+    'prayer.category_spiritual': '✝️ መንፈሳዊ',
+    'prayer.category_other': '🕊 ሌላ',
+    'prayer.category_all': '📋 ሁሉም',
+    'prayer.prompt_title': 'እባክዎ የጸሎትዎን ርዕስ ያስገቡ።',
+    'prayer.received': 'የጸሎት ጥያቄዎ ደርሶናል። አማካሪዎች ይጸልዩበታል።',
+    'prayer.view_not_approved': 'የጸሎት ጥያቄዎችን ለማየት አልጸደቁም።',
+    'prayer.none': 'የጸሎት ጥያቄ የለም።',
+    'prayer.none_in_category': 'በ{category} ውስጥ የጸሎት ጥያቄ የለም።',
+    'prayer.list_header': 'የጸሎት ጥያቄዎች ({count})፦',
+    'prayer.list_header_category': 'በ{category} ውስጥ ያሉ የጸሎት ጥያቄዎች ({count})፦',
+    'prayer.item': '🙏 የጸሎት ጥያቄ\nርዕስ፦ {title}\nምድብ፦ {category}\nመለያ፦ {prayerId}\nየገባበት፦ {submittedAt}\nየጸለዩለት፦ {prayedCount}\nማሻሻያዎች፦ {updateCount}',
+    'prayer.item_latest_update': 'የቅርብ ጊዜ ማሻሻያ ({updatedAt})፦ {text}',
+    'prayer.close_button': '✅ ጸሎቱን ዝጋ',
+    'prayer.prayed_button': '🙏 ጸልያለሁ',
+    'prayer.prayed_recorded': 'ስለጸለዩ እናመሰግናለን። ጥያቄውን ያቀረበው ሰው ማንነትዎን ሳያውቅ ይበረታታል።',
+    'prayer.already_prayed': 'ለዚህ ጥያቄ አስቀድመው ጸልየዋል።',
+    'prayer.updates_notice': 'አማካሪዎች ሲጸልዩለት ማንነታቸውን ሳንገልጽ እናሳውቅዎታለን።',
+    'prayer.prayed_count_one': '🙏 አንድ አማካሪ ለ"{title}" ጥያቄዎ ጸልየዋል።',
+    'prayer.prayed_count': '🙏 {count} አማካሪዎች ለ"{title}" ጥያቄዎ ጸልየዋል።',
+    'prayer.mute_button': '🔕 ስለዚህ ጥያቄ ማሳወቂያ አቁም',
+    'prayer.unmute_button': '🔔 ማሳወቂያ ቀጥል',
+    'prayer.muted': 'ስለዚህ የጸሎት ጥያቄ ከእንግዲህ ማሳወቂያ አይደርስዎትም።',
+    'prayer.unmuted': 'ስለዚህ የጸሎት ጥያቄ ማሳወቂያ እንደገና ይደርስዎታል።',
+    'prayer.update_unavailable': 'ይህ የጸሎት ጥያቄ ከእንግዲህ አይገኝም።',
+    'prayer.my_none': 'ክፍት የጸሎት ጥያቄ የለዎትም።',
+    'prayer.my_list_header': 'ክፍት የጸሎት ጥያቄዎችዎ ({count})፦',
+    'prayer.my_item': '🙏 {title}\nምድብ፦ {category}\nየገባበት፦ {submittedAt}\nየጸለዩለት፦ {prayedCount}\nማሻሻያዎች፦ {updateCount}',
+    'prayer.update_button': '✏️ ማሻሻያ ለጥፍ',
+    'prayer.answered_button': '🎉 መልስ አግኝቷል',
+    'prayer.prompt_update': 'ማሻሻያዎን ይጻፉ። አማካሪዎች ከጥያቄዎ ጋር ያዩታል።',
+    'prayer.update_posted': 'ማሻሻያዎ ተለጥፏል።',
+    'prayer.answered': '🎉 እግዚአብሔር ይመስገን! የጸሎት ጥያቄዎ መልስ እንዳገኘ ተመዝግቦ ተዘግቷል።\nአጭር ምስክርነት መጻፍ ይፈልጋሉ?',
+    'prayer.testimony_button': '✍️ ምስክርነት ጻፍ',
+    'prayer.prompt_testimony': 'ምስክርነትዎን ይጻፉ። ለማጋራት እስካልመረጡ ድረስ በግል ይቆያል፤ ሊያጋሩት ከቻሉ እርስዎን የሚለይ ነገር አይጻፉ።',
+    'prayer.testimony_saved': 'ጸሎትዎ እንዴት እንደተመለሰ ስላካፈሉን እናመሰግናለን።',
+    'prayer.testimony_share_prompt': 'ምስክርነትዎን በሳምንታዊው የተመለሱ ጸሎቶች ማጠቃለያ ውስጥ ማንነትዎን ሳንገልጽ ልናጋራው እንችላለን? የሚታዩት ምድቡ እና ምስክርነትዎ ብቻ ናቸው፤ ስምዎ ወይም የጥያቄው ርዕስ በፍጹም አይታይም።',
+    'prayer.share_button': '✅ ማንነቴን ሳትገልጹ አጋሩ',
+    'prayer.keep_private_button': '🔒 በግል ይቆይ',
+    'prayer.testimony_shared': 'ምስክርነትዎ በሚቀጥለው ሳምንታዊ ማጠቃለያ ውስጥ ይካተታል።',
+    'prayer.testimony_private': 'ምስክርነትዎ በግል ይቆያል።',
+    'prayer.testimony_locked': 'ይህ ምስክርነት ከእንግዲህ ሊቀየር አይችልም። ምናልባት አስቀድሞ ተጋርቶ ሊሆን ይችላል።',
+    'prayer.digest_header': '🌟 በዚህ ሳምንት የተመለሱ ጸሎቶች ({count})\nጸሎት በጠየቁ ሰዎች ማንነታቸው ሳይገለጽ የተጋሩ።',
+    'prayer.digest_item': '{category}\n“{text}”',
+    'prayer.close_not_approved': 'የጸሎት ጥያቄዎችን ለመዝጋት አልጸደቁም።',
+    'prayer.select_to_close': 'የሚዘጋ የጸሎት ጥያቄ ይምረጡ፦',
+    'prayer.already_closed': 'የጸሎት ጥያቄው አስቀድሞ ተዘግቷል።',
+    'prayer.closed': 'የጸሎት ጥያቄ {prayerId} ተዘግቷል።',
+    'prayer.prayed_for': '🙏 የጸሎት ዜና\nአንድ አማካሪ ስለ ጸሎት ጥያቄዎ ጸልየዋል።\nርዕስ፦ {title}\nየገባበት ጊዜ፦ {submittedAt}',
+    'prayer.close_failed': 'የጸሎት ጥያቄውን መዝጋት አልተቻለም።',
+
+    // Prayer wall
+    'prayer_wall.opt_in_prompt': 'ምእመናኑም እንዲጸልዩ ጥያቄዎ ማንነትዎ ሳይገለጽ በጸሎት ግድግዳ ቻናላችን ላይ እንዲጋራ ይፈልጋሉ? በመጀመሪያ አስተዳዳሪ ይገመግመዋል፤ ስምዎ በፍጹም አይታይም።',
+    'prayer_wall.opt_in_button': '📣 በጸሎት ግድግዳ ላይ አጋራ',
+    'prayer_wall.opt_in_received': 'እናመሰግናለን። ጥያቄዎ በጸሎት ግድግዳ ላይ ከመታየቱ በፊት አስተዳዳሪ ይገመግመዋል።',
+    'prayer_wall.opt_in_unavailable': 'ይህ ጥያቄ ከእንግዲህ በጸሎት ግድግዳ ላይ ሊጋራ አይችልም።',
+    'prayer_wall.submitter_published': '📣 "{title}" የጸሎት ጥያቄዎ አሁን በጸሎት ግድግዳ ላይ ነው። ምእመናኑ ከእርስዎ ጋር እየጸለዩ ነው።',
+    'prayer_wall.submitter_rejected': '"{title}" የጸሎት ጥያቄዎ በጸሎት ግድግዳ ላይ አልተለጠፈም። አማካሪዎች አሁንም ይጸልዩለታል።',
+    'prayer_wall.post': '🙏 የጸሎት ጥያቄ · {category}\n\n{text}\n\nእባክዎ ከእኛ ጋር ይጸልዩ።',
+    'prayer_wall.post_closed': '✅ የጸሎት ጥያቄ · {category}\n\n{text}\n\nይህ ጥያቄ ተዘግቷል። ስለጸለዩ እናመሰግናለን።',
+    'prayer_wall.post_answered': '🎉 የተመለሰ ጸሎት · {category}\n\n{text}\n\nይህ ጸሎት መልስ አግኝቷል። ስለጸለዩ እናመሰግናለን!',
+    'prayer_wall.post_removed': '🗑 ይህ የጸሎት ጥያቄ ባካፈለው ሰው ተነስቷል።',
+    'prayer_wall.admin_new_request': '📣 አዲስ የጸሎት ግድግዳ ጥያቄ',
+    'prayer_wall.review_item': 'ምድብ፦ {category}\nጽሑፍ፦ {text}\nመለያ፦ {prayerId}\nየተጠየቀው፦ {requestedAt}',
+    'prayer_wall.approve_button': '✅ አትም',
+    'prayer_wall.edit_button': '✏️ አርትዕ',
+    'prayer_wall.reject_button': '❌ ውድቅ አድርግ',
+    'prayer_wall.queue_header': 'ግምገማ የሚጠብቁ የጸሎት ግድግዳ ጥያቄዎች ({count})፦',
+    'prayer_wall.queue_empty': 'ግምገማ የሚጠብቅ የጸሎት ግድግዳ ጥያቄ የለም።',
+    'prayer_wall.not_authorized': 'የጸሎት ግድግዳውን ለማስተዳደር ፈቃድ የለዎትም።',
+    'prayer_wall.disabled': 'የጸሎት ግድግዳው አልተዋቀረም። ለማንቃት PRAYER_WALL_CHANNEL_ID ያዘጋጁ።',
+    'prayer_wall.prompt_edit': 'በሚከተለው ፈንታ የሚታተመውን ጽሑፍ ይላኩ፦\n{text}\n\nአስገቢውን ሊያሳውቅ የሚችል ማንኛውንም ነገር ያስወግዱ።',
+    'prayer_wall.prompt_edit_empty': 'አዲሱ ጽሑፍ ባዶ ሊሆን አይችልም። የሚታተመውን ጽሑፍ ይላኩ።',
+    'prayer_wall.edited': 'ጽሑፉ ተሻሽሏል። ከማተምዎ በፊት እንደገና ይገምግሙት፦',
+    'prayer_wall.already_reviewed': 'ይህ ጥያቄ አስቀድሞ ተገምግሟል ወይም ከእንግዲህ ክፍት አይደለም።',
+    'prayer_wall.published': 'በጸሎት ግድግዳው ላይ ታትሟል።',
+    'prayer_wall.publish_failed': 'በጸሎት ግድግዳው ላይ ማተም አልተቻለም፦ {message}። ጥያቄው ወደ ወረፋው ተመልሷል።',
+    'prayer_wall.rejected': 'ጥያቄው ውድቅ ተደርጓል። አይለጠፍም።',
+
+    // Session history
+    'history.none': 'የክፍለ ጊዜ ታሪክ የለም።',
+    'history.list_header': 'የክፍለ ጊዜ ታሪክ ({count})፦',
+    'history.general_topic': 'አጠቃላይ ድጋፍ',
+    'history.status_active': 'ንቁ',
+    'history.status_transferred': 'የተላለፈ',
+    'history.status_completed': 'የተጠናቀቀ',
+    'history.item': 'የክፍለ ጊዜ ርዕስ፦ {topic}\nቀን፦ {date}\nሁኔታ፦ {status}',
+    'history.item_with_counselor': 'የክፍለ ጊዜ ርዕስ፦ {topic}\nአማካሪ፦ {counselor}\nቀን፦ {date}\nሁኔታ፦ {status}',
+    'history.see_chat': '💬 ውይይቱን እይ',
+    'history.no_messages': 'በዚህ ክፍለ ጊዜ ውስጥ መልዕክት የለም።',
+    'history.no_log_label': '🔒 አልተመዘገበም፣ የውይይት መዝገብ አልተቀመጠም',
+    'history.no_log_transcript': 'ይህ ያልተመዘገበ ክፍለ ጊዜ ነበር፤ መልእክቶቹ በፍጹም አልተቀመጡም።',
+    'history.chat_header': 'የክፍለ ጊዜ ውይይት ({count} መልዕክቶች)፦',
+
+    // Reports
+    'report.end_session_first': 'ሪፖርት ከማድረግዎ በፊት እባክዎ ክፍለ ጊዜዎን ይጨርሱ።',
+    'report.after_session_only': 'ሪፖርት ማድረግ የሚቻለው ክፍለ ጊዜ ካለቀ በኋላ ነው።',
+    'report.prompt_reason': 'እባክዎ የሪፖርቱን ምክንያት ይግለጹ።',
+    'report.users_only': 'ሪፖርት ማስገባት የሚችሉት ተጠቃሚዎች ብቻ ናቸው።',
+    'report.no_recent_session': 'ሪፖርት የሚደረግበት የቅርብ ጊዜ ክፍለ ጊዜ አልተገኘም።',
+    'report.counselor_notice': '⚠️ ሪፖርት ገብቷል\nአንድ ተጠቃሚ ስለ ክፍለ ጊዜዎ ሪፖርት አስገብተዋል።\nየሪፖርት መለያ፦ {reportId}\nምክንያት፦ {reason}',
+    'report.submitted': 'ሪፖርቱ ገብቷል። መለያ፦ {reportId}',
+    'report.view_not_authorized': 'ሪፖርቶችን ለማየት ፈቃድ የለዎትም።',
+    'report.none_pending': 'በመጠባበቅ ላይ ያለ ሪፖርት የለም።',
+    'report.pending_header': 'በመጠባበቅ ላይ ያሉ ሪፖርቶች ({count})፦',
+    'report.pending_item': '🚩 በመጠባበቅ ላይ ያለ ሪፖርት\nየሪፖርት መለያ፦ {reportId}\nየአማካሪ መለያ፦ {counselorId}\nምክንያት፦ {reason}\nየገባው፦ {submittedAt}',
+    'report.view_chat_button': '💬 ውይይቱን ይመልከቱ',
+    'report.strike_button': '⚠️ ማስጠንቀቂያ',
+    'report.dismiss_button': '✅ ውድቅ አድርግ',
+    'report.chat_not_authorized': 'የሪፖርት ውይይቶችን ለማየት ፈቃድ የለዎትም።',
+    'report.chat_empty': 'በክፍለ ጊዜ {sessionId} ውስጥ መልእክት የለም።\n\nሪፖርት፦ {reason}',
+    'report.chat_erased': 'የክፍለ ጊዜ {sessionId} ተጠቃሚ ውሂባቸውን ሰርዘዋል፣ ስለዚህ መልእክቶቹ ከእንግዲህ አይገኙም።\n\nሪፖርት፦ {reason}',
+    'report.chat_no_log': '🔒 ክፍለ ጊዜ {sessionId} ተጠቃሚው የመረጠው መዝገብ የማይያዝበት ክፍለ ጊዜ ነበር። {count} መልእክቶቹ ተላልፈዋል እንጂ አልተቀመጡም፣ ስለዚህ የሚገመገም ግልባጭ የለም።\n\nሪፖርት፦ {reason}',
+    'report.chat_header': '💬 የክፍለ ጊዜ ውይይት (የሪፖርት መለያ፦ {reportId}፣ አማካሪ፦ {counselorId})\nምክንያት፦ {reason}',
+    'report.chat_failed': 'ውይይቱን መጫን አልተቻለም፦ {message}',
+    'report.process_not_authorized': 'ሪፖርቶችን ለማስተናገድ ፈቃድ የለዎትም።',
+    'report.process_usage': 'አጠቃቀም፦ /process_report <reportId> <strike|dismiss>',
+    'report.processed': 'ሪፖርት {reportId} ተስተናግዷል። እርምጃ፦ {action}።',
+    'report.access_revoked': 'በሪፖርት ቅጣቶች ምክንያት የምክር አገልግሎት የማግኘት መብትዎ ተነስቷል። እባክዎ አስተዳዳሪን ያነጋግሩ።',
+    'report.account_suspended': 'በሪፖርት ቅጣቶች ምክንያት የአማካሪ መለያዎ ታግዷል። እባክዎ አስተዳዳሪን ያነጋግሩ።',
+
+    // Appeals
+    'appeal.suspended_only': 'ይግባኝ ማቅረብ የሚችሉት የታገዱ አማካሪዎች ብቻ ናቸው።',
+    'appeal.prompt_message': 'እባክዎ ለአስተዳዳሪዎች የሚያቀርቡትን የይግባኝ መልዕክት ያስገቡ።',
+    'appeal.submitted': 'ይግባኙ ገብቷል። መለያ፦ {appealId}',
+    'appeal.view_not_authorized': 'ይግባኞችን ለማየት ፈቃድ የለዎትም።',
+    'appeal.none_pending': 'በመጠባበቅ ላይ ያለ ይግባኝ የለም።',
+    'appeal.pending_header': 'በመጠባበቅ ላይ ያሉ ይግባኞች ({count})፦',
+    'appeal.item': '🧾 ይግባኝ\nየይግባኝ መለያ፦ {appealId}\nየአማካሪ መለያ፦ {counselorId}\nማስጠንቀቂያዎች፦ {strikes}\nመልእክት፦ {message}\nየገባው፦ {submittedAt}',
+    'appeal.revoke_button': '♻️ እገዳውን አንሳ',
+    'appeal.approve_button': '✅ አጽድቅ',
+    'appeal.process_not_authorized': 'ይግባኞችን ለማስተናገድ ፈቃድ የለዎትም።',
+    'appeal.not_found': 'ይግባኙ አልተገኘም።',
+    'appeal.already_processed': 'ይግባኙ አስቀድሞ ተስተናግዷል።',
+    'appeal.counselor_not_found': 'ለዚህ ይግባኝ አማካሪው አልተገኘም።',
+    'appeal.approved': 'ይግባኙ ጸድቋል። አማካሪ {counselorId} ጸድቀዋል።',
+    'appeal.revoked': 'ይግባኙ ተስተናግዷል። የአማካሪ {counselorId} እገዳ ተነስቷል።',
+    'appeal.approved_notice': 'ይግባኝዎ ተቀባይነት አግኝቷል። የምክር አገልግሎት መብትዎ ተመልሷል።',
+    'appeal.revoked_notice': 'ይግባኝዎ ታይቷል። እገዳዎ ተነስቷል።',
+
+    // Your data
+    'privacy.counselor_not_supported': 'የአማካሪ መዝገቦች የሚተዳደሩት በአስተዳዳሪዎች ነው። ስለ መረጃዎ እባክዎ አስተዳዳሪን ያነጋግሩ።',
+    'privacy.no_data': 'ስለእርስዎ የተቀመጠ መረጃ የለም።',
+    'privacy.export_caption': '📦 ስለእርስዎ የምናስቀምጠው ሁሉ። ይህን ፋይል በግል ቦታ ያስቀምጡት።',
+    'privacy.export_failed': 'የመረጃዎን ቅጂ ማዘጋጀት አልተቻለም። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+    'privacy.delete_confirm': '⚠️ ይህ መልእክቶችዎን፣ የጸሎት ጥያቄዎችዎን፣ የክትትል መልእክቶችን እና መገለጫዎን እስከመጨረሻው ይሰርዛል። ስለ አማካሪዎች የቀረቡ ሪፖርቶች ትክክለኛ ሆነው እንዲቆዩ ያለፉ ክፍለ ጊዜዎች ከእርስዎ ጋር ምንም ግንኙነት ሳይኖራቸው ይቀመጣሉ። ይህ ሊቀለበስ አይችልም። ይቀጥሉ?',
+    'privacy.delete_button': '🗑️ መረጃዬን ሰርዝ',
+    'privacy.delete_cancelled': 'ምንም አልተሰረዘም።',
+    'privacy.deleted': 'መረጃዎ ተሰርዟል። ቦቱን እንደገና ከተጠቀሙ በአዲስ ስም-አልባ መለያ ይጀምራሉ።',
+    'privacy.deleted_wall_posts_kept': 'መረጃዎ ተሰርዟል፣ ነገር ግን በሕዝባዊው የጸሎት ግድግዳ ላይ ካሉት የጸሎት ጥያቄዎችዎ {count}ቱ ከቻናሉ ሊወገዱ አልቻሉም። ማንነትዎን በፍጹም አላሳዩም። ቦቱን እንደገና ከተጠቀሙ በአዲስ ስም-አልባ መለያ ይጀምራሉ።',
+    'privacy.delete_failed': 'መረጃዎን መሰረዝ አልተቻለም። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+
+    // Admin tools
+    'admin.stats_not_authorized': 'የአስተዳዳሪ ስታቲስቲክስን ለማየት ፈቃድ የለዎትም።',
+    'admin.stats': 'የተጠናቀቁ ክፍለ ጊዜያት በአጠቃላይ፦ {completed}\nንቁ ክፍለ ጊዜያት፦ {active}\nአማካይ ቆይታ፦ {averageDuration} ደቂቃ\nየጸሎት ጥያቄዎች፦ {prayers}\nበወረፋ የሚጠብቁ፦ {queueLength}\nከፍተኛ ሰዓታት፦ {peakHours}',
+    'admin.list_not_authorized': 'አማካሪዎችን ለማየት ፈቃድ የለዎትም።',
+    'admin.no_counselors': 'ምንም አማካሪ አልተገኘም።',
+    'admin.counselors_header': 'አማካሪዎች ({count})፦',
+    'admin.counselor_item': '🧑‍⚕️ አማካሪ\nመለያ፦ {counselorId}\nቅጽል ስም፦ {alias}\nሁኔታ፦ {status}\nጸድቋል፦ {approved}\nታግዷል፦ {suspended}\nማስጠንቀቂያዎች፦ {strikes}\nክፍለ ጊዜያት፦ {sessions}',
+    'admin.update_not_authorized': 'አማካሪዎችን ለማዘመን ፈቃድ የለዎትም።',
+    'admin.counselor_not_found': 'አማካሪው አልተገኘም።',
+    'admin.suspension_revoked': 'የአማካሪ {counselorId} እገዳ ተነስቷል።',
+    'admin.suspension_revoked_notice': 'እገዳዎ ተነስቷል። አሁን ሁኔታዎን እንደገና ማዘጋጀት ይችላሉ።',
+    'admin.approve_not_authorized': 'አማካሪዎችን ለማጽደቅ ፈቃድ የለዎትም።',
+    'admin.counselor_approved': 'አማካሪ {counselorId} ጸድቀዋል።',
+    'admin.access_restored_notice': 'የምክር አገልግሎት ፈቃድዎ ተመልሷል። አሁን ሁኔታዎን ማዘጋጀት እና ክፍለ ጊዜያትን መቀበል ይችላሉ።',
+    'admin.no_pending_approvals': 'ማጽደቅ የሚጠብቅ አማካሪ የለም።',
+    'admin.profile_review': '🪪 የመገለጫ ለውጥ ጥያቄ\nየአማካሪ መለያ፦ {counselorId}\nአሁኑ ቅጽል ስም፦ {currentAlias}\nአዲስ ቅጽል ስም፦ {alias}\nአዲስ የሕይወት ታሪክ፦ {bio}',
+    'admin.profile_unchanged': '(አልተቀየረም)',
+    'admin.profile_approve_button': '✅ አጽድቅ',
+    'admin.profile_reject_button': '❌ ውድቅ አድርግ',
+    'admin.profile_reviews_header': 'በመጠባበቅ ላይ ያሉ የመገለጫ ለውጦች ({count})፦',
+    'admin.no_profile_reviews': 'በመጠባበቅ ላይ ያለ የመገለጫ ለውጥ የለም።',
+    'admin.profile_review_not_authorized': 'የመገለጫ ለውጦችን ለመገምገም ፈቃድ የለዎትም።',
+    'admin.profile_update_approved': 'የ{counselorId} የመገለጫ ለውጥ ጸድቋል።',
+    'admin.profile_update_rejected': 'የ{counselorId} የመገለጫ ለውጥ ውድቅ ተደርጓል።',
+    'admin.pending_approvals_header': 'ማጽደቅ የሚጠብቁ አማካሪዎች ({count})፦',
+    'admin.pending_approval_item': 'መለያ፦ {counselorId} | ሁኔታ፦ {status} | ማስጠንቀቂያዎች፦ {strikes}',
+    'admin.approved_notice': 'የአማካሪነት ጥያቄዎ ጸድቋል። አሁን ሁኔታዎን ማዘጋጀት እና ክፍለ ጊዜያትን መቀበል ይችላሉ።',
+    'admin.remove_not_authorized': 'አማካሪዎችን ለማስወገድ ፈቃድ የለዎትም።',
+    'admin.removal_item': '🧑‍⚕️ አማካሪ\nመለያ፦ {counselorId}\nሁኔታ፦ {status}\nማስጠንቀቂያዎች፦ {strikes}',
+    'admin.counselor_removed': 'አማካሪ {counselorId} ተወግደዋል።',
+    'admin.audit_not_authorized': 'የኦዲት መዝገቦችን ለማየት ፈቃድ የለዎትም።',
+    'admin.audit_empty': 'ምንም የኦዲት መዝገብ አልተገኘም።',
+    'admin.audit_header': '🧾 የኦዲት መዝገብ ({count})፦',
+    'admin.audit_entry': '📌 የኦዲት መዝገብ\nጊዜ፦ {timestamp}\nእርምጃ፦ {action}\nአስተዳዳሪ፦ {adminId}',
+    'admin.audit_target': 'ዒላማ፦ {targetId}',
+    'admin.audit_details': 'ዝርዝሮች፦ {details}',
+    'admin.cleanup_not_authorized': 'የመረጃ ማጽዳትን አስቀድሞ ለማየት ፈቃድ የለዎትም።',
+    'admin.cleanup_preview': '🧹 የማጽዳት ቅድመ እይታ፣ ምንም አልተሰረዘም። ቀጣዩ የማጽዳት ሂደት የሚያስወግደው፦\nክፍለ ጊዜያት፦ {sessions}\nመልእክቶች፦ {messages}\nየተዘጉ የጸሎት ጥያቄዎች፦ {prayers}\nየተስተናገዱ ሪፖርቶች፦ {reports}\nየኦዲት መዝገቦች፦ {auditLogs}\nየጅምላ መልእክት መዝገቦች፦ {broadcastLogs}\n\nንቁ ክፍለ ጊዜያት፣ በመጠባበቅ ላይ ያሉ ሪፖርቶች ያሏቸው ክፍለ ጊዜያት እና በይግባኝ ላይ ያሉ ሪፖርቶች ሁልጊዜ ይቀመጣሉ።',
+    'admin.cleanup_run_button': '🧹 አሁን ሰርዝ',
+    'admin.cleanup_done': '🧹 ማጽዳቱ ተጠናቋል። የተወገዱት፦\nክፍለ ጊዜያት፦ {sessions}\nመልእክቶች፦ {messages}\nየተዘጉ የጸሎት ጥያቄዎች፦ {prayers}\nየተስተናገዱ ሪፖርቶች፦ {reports}\nየኦዲት መዝገቦች፦ {auditLogs}\nየጅምላ መልእክት መዝገቦች፦ {broadcastLogs}',
+    'admin.keys_not_authorized': 'የመልዕክት ምስጠራ ቁልፎችን ለመቀየር ፈቃድ የለዎትም።',
+    'admin.keys_encryption_disabled': 'የመልእክት ምስጠራ አልተዋቀረም፣ ስለዚህ የሚቀየሩ ቁልፎች የሉም።',
+    'admin.keys_rotated': '🔐 በዋና ቁልፍ {keyId} እንደገና የተጠቀለሉ የክፍለ ጊዜ ውሂብ ቁልፎች፦ {rewrapped}\nያልተሳኩ፦ {failed}',
+    'admin.keys_rotation_failures': 'አንዳንድ ቁልፎች እንደገና ሊጠቀለሉ አልቻሉም። ጡረታ የወጡ ዋና ቁልፎቻቸውን እንደተዋቀሩ ያቆዩ እና እንደገና ከመሞከርዎ በፊት መዝገቦቹን ይፈትሹ።',
+    'admin.roles_not_authorized': 'አስተዳዳሪዎችን ማስተዳደር የሚችሉት ዋና አስተዳዳሪዎች ብቻ ናቸው።',
+    'admin.role_super_admin': 'ዋና አስተዳዳሪ',
+    'admin.role_moderator': 'ተቆጣጣሪ',
+    'admin.role_reviewer': 'ገምጋሚ',
+    'admin.role_broadcaster': 'አስታዋቂ',
+    'admin.admins_header': '🛡 አስተዳዳሪዎች ({count})። ሚናዎች፦ {roles}',
+    'admin.admins_item': '{chatId}፦ {role}',
+    'admin.admins_item_configured': '{chatId}፦ {role} (ከ ADMIN_CHAT_IDS)',
+    'admin.remove_admin_button': '🗑 አስተዳዳሪ አስወግድ',
+    'admin.add_admin_usage': 'አጠቃቀም፦ /add_admin <chatId> <role>\nሚናዎች፦ {roles}',
+    'admin.remove_admin_usage': 'አጠቃቀም፦ /remove_admin <chatId>',
+    'admin.admin_added': 'ቻት {chatId} አሁን የ{role} ሚና ያለው አስተዳዳሪ ነው።',
+    'admin.admin_role_changed': 'አስተዳዳሪ {chatId} አሁን የ{role} ሚና አላቸው።',
+    'admin.admin_removed': 'አስተዳዳሪ {chatId} ተወግደዋል።',
+    'admin.role_granted_notice': '🛡 አሁን የ{role} ሚና ያለዎት አስተዳዳሪ ነዎት። የአስተዳዳሪ ትዕዛዞችን ለማየት /help ይላኩ።',
+    'admin.role_removed_notice': 'የአስተዳዳሪ ፈቃድዎ ተወግዷል።',
+    'admin.approval_action_remove_counselor': 'አማካሪ {targetId}ን ማስወገድ',
+    'admin.approval_action_revoke_appeal': 'በይግባኝ {targetId} ላይ ያለውን እገዳ ማንሳት እና ማስጠንቀቂያዎቹን ማጽዳት',
+    'admin.approval_action_revoke_suspension': 'የአማካሪ {targetId}ን እገዳ ማንሳት እና ማስጠንቀቂያዎቹን ማጽዳት',
+    'admin.approval_action_run_cleanup': 'በማቆያ መመሪያው መሠረት የቆየ ውሂብን አሁን መሰረዝ',
+    'admin.approval_requested': '⏳ ሁለተኛ አስተዳዳሪ ይህንን እንዲያረጋግጥ በመጠበቅ ላይ፦ {action}። ሌሎቹ አስተዳዳሪዎች ተጠይቀዋል፣ ለማረጋገጥም {minutes} ደቂቃ አላቸው።',
+    'admin.approval_already_pending': '⏳ አስተዳዳሪ {adminId} አስቀድመው ይህንን ጠይቀዋል፦ {action}። ሁለተኛ አስተዳዳሪን በመጠበቅ ላይ ነው።',
+    'admin.approval_request_notice': '⏳ አስተዳዳሪ {adminId} ይህንን ይጠይቃሉ፦ {action}። በ{minutes} ደቂቃ ውስጥ ያረጋግጡ፣ አለበለዚያ ጊዜው ያልፋል።',
+    'admin.approval_confirm_button': '✅ አረጋግጥ',
+    'admin.approval_reject_button': '❌ ውድቅ አድርግ',
+    'admin.approval_not_authorized': 'በዚህ ድርጊት ላይ ለመወሰን ፈቃድ የለዎትም።',
+    'admin.approval_not_found': 'ይህ እርምጃ አልተገኘም።',
+    'admin.approval_already_resolved': 'ይህ እርምጃ አስቀድሞ ተረጋግጧል ወይም ውድቅ ተደርጓል።',
+    'admin.approval_expired': 'ይህ እርምጃ ሁለተኛ አስተዳዳሪ ከማረጋገጡ በፊት ጊዜው አልፏል። አሁንም የሚያስፈልግ ከሆነ እንደገና ይጠይቁ።',
+    'admin.approval_own_request': 'ይህንን እርምጃ የጠየቁት እርስዎ ስለሆኑ ሌላ አስተዳዳሪ ማረጋገጥ አለበት።',
+    'admin.approval_rejected': 'ውድቅ ተደርጓል፦ {action}።',
+    'admin.approval_confirmed_notice': '✅ አስተዳዳሪ {adminId} ጥያቄዎን አረጋግጠዋል፦ {action}።',
+    'admin.approval_rejected_notice': '❌ አስተዳዳሪ {adminId} ጥያቄዎን ውድቅ አድርገዋል፦ {action}።',
+    'admin.approvals_empty': 'ሁለተኛ አስተዳዳሪ የሚጠብቅ እርምጃ የለም።',
+    'admin.approvals_header': '⏳ ሁለተኛ አስተዳዳሪ የሚጠብቁ እርምጃዎች ({count})፦',
+    'admin.approvals_item': 'አስተዳዳሪ {adminId} ይህንን ይጠይቃሉ፦ {action}። የሚያበቃው፦ {expiresAt}።',
+
+    // Broadcasts
+    'broadcast.not_authorized': 'የጅምላ መልዕክቶችን ለመላክ ፈቃድ የለዎትም።',
+    'broadcast.select_target': 'ይህ ማስታወቂያ ለማን ይድረስ?',
+    'broadcast.target_users': '👤 ተጠቃሚዎች',
+    'broadcast.target_counselors': '🧑‍⚕️ አማካሪዎች',
+    'broadcast.target_everyone': '🌍 ሁሉም',
+    'broadcast.target_counselor_language': '🗣 አማካሪዎች በቋንቋ',
+    'broadcast.target_counselor_domain': '🎯 አማካሪዎች በሙያ',
+    'broadcast.target_active_users': '⏱ በቅርቡ ንቁ የነበሩ ተጠቃሚዎች',
+    'broadcast.target_open_prayer_users': '🙏 ክፍት ጸሎት ያላቸው ተጠቃሚዎች',
+    'broadcast.prompt_language': 'አማካሪዎቹ የትኛውን ቋንቋ ይናገሩ? አንዱን ይምረጡ ወይም ይተይቡ።',
+    'broadcast.prompt_domain': 'የትኛው የሙያ ዘርፍ? አንዱን ይምረጡ ወይም ይተይቡ።',
+    'broadcast.prompt_active_days': 'ባለፉት ስንት ቀናት ውስጥ ንቁ ለነበሩ ተጠቃሚዎች ይላክ? ከ1 እስከ {max} ያለ ቁጥር ያስገቡ።',
+    'broadcast.invalid_active_days': 'እባክዎ ከ1 እስከ {max} ያለ ሙሉ የቀናት ቁጥር ያስገቡ።',
+    'broadcast.audience_counselor_language': '{language} የሚናገሩ አማካሪዎች',
+    'broadcast.audience_counselor_domain': 'በ{domain} ሙያ ያላቸው አማካሪዎች',
+    'broadcast.audience_active_users': 'ባለፉት {days} ቀናት ንቁ የነበሩ ተጠቃሚዎች',
+    'broadcast.cancelled': 'የጅምላ መልእክቱ ተሰርዟል።',
+    'broadcast.invalid_target': 'እባክዎ ከሚታዩት ተቀባዮች አንዱን ይምረጡ፣ ወይም ሰርዝ ይጫኑ።',
+    'broadcast.prompt_message': 'እባክዎ የማስታወቂያውን መልእክት ይተይቡ፣ ወይም ፎቶ ወይም ሰነድ ከአማራጭ መግለጫ ጋር ይላኩ፦',
+    'broadcast.message_empty': 'እባክዎ ባዶ ያልሆነ መልእክት ያስገቡ።',
+    'broadcast.compose': 'ቅርጸቱን እና ማንኛውንም የድርጊት ጥሪ ቁልፎች ይምረጡ፣ ከዚያም የጅምላ መልእክቱን ቅድመ እይታ ይመልከቱ። ይዘቱን ለመተካት አዲስ ጽሑፍ ወይም ፋይል ይላኩ።\n\nቅርጸት፦ {format}\nቁልፎች፦ {buttons}',
+    'broadcast.format_plain': 'ተራ ጽሑፍ',
+    'broadcast.format_markdown': 'Markdown',
+    'broadcast.format_html': 'HTML',
+    'broadcast.button_start_counseling': 'ምክር ጀምር',
+    'broadcast.button_submit_prayer': 'ጸሎት አስገባ',
+    'broadcast.buttons_none': 'የለም',
+    'broadcast.preview_button': '👁 ቅድመ እይታ',
+    'broadcast.preview_failed': 'ቴሌግራም ይህንን የጅምላ መልእክት መላክ አልቻለም፦ {message}\nቅርጸቱን ይፈትሹ ወይም ሌላ ቅርጸት ይምረጡ፣ ከዚያም እንደገና ቅድመ እይታ ይመልከቱ።',
+    'broadcast.preview_required': 'እባክዎ የጅምላ መልእክቱን ከመላክዎ ወይም ከማቀድዎ በፊት ቅድመ እይታውን ይመልከቱ።',
+    'broadcast.preview': 'ተቀባዮች ይህንን የጅምላ መልእክት የሚያዩት ከላይ እንዳለው ነው።\n\nተቀባዮች፦ {audience} ({recipientCount} ተቀባዮች)\n\nአሁን ይላክ ወይስ ለሌላ ጊዜ ይታቀድ?',
+    'broadcast.send_button': '✅ ላክ',
+    'broadcast.schedule_button': '🕒 አቅድ',
+    'broadcast.prompt_schedule': 'መቼ ይላክ? የUTC ቀን እና ሰዓት በ YYYY-MM-DD HH:MM መልክ ያስገቡ፣ ለምሳሌ {example}።',
+    'broadcast.invalid_schedule': 'እባክዎ ወደፊት ያለ የUTC ቀን እና ሰዓት በ YYYY-MM-DD HH:MM መልክ ያስገቡ፣ ለምሳሌ {example}።',
+    'broadcast.scheduled': 'የጅምላ መልእክት {broadcastId} ለ{scheduledFor} ታቅዷል። ለመገምገም ወይም ለመሰረዝ /broadcasts ይጠቀሙ።',
+    'broadcast.expired': 'የጅምላ መልእክት ሂደቱ ጊዜው አልፏል። እባክዎ እንደገና ይጀምሩ።',
+    'broadcast.queued': 'የጅምላ መልእክቱ ወረፋ ውስጥ ገብቷል። በጀርባ ስለሚላክ ቦቱን መጠቀም መቀጠል ይችላሉ፤ ሂደቱ ከታች ይታያል።',
+    'broadcast.progress_waiting': '📢 የጅምላ መልእክቱ ለመጀመር በመጠበቅ ላይ...',
+    'broadcast.progress': '📢 የጅምላ መልእክት {broadcastId} በመላክ ላይ፦ {processed}/{recipientCount}\nደርሷል፦ {successCount}፣ አልተሳካም፦ {failedCount}፣ ቦቱን አግደዋል፦ {unreachableCount}',
+    'broadcast.progress_done': '✅ የጅምላ መልእክት {broadcastId} ተጠናቋል፦ {processed}/{recipientCount}\nደርሷል፦ {successCount}፣ አልተሳካም፦ {failedCount}፣ ቦቱን አግደዋል፦ {unreachableCount}',
+    'broadcast.progress_paused': '⏸ ቦቱ እንደገና በመጀመር ላይ ስለሆነ የጅምላ መልእክት {broadcastId} በ{processed}/{recipientCount} ቆሟል። በራሱ ይቀጥላል።\nደርሷል፦ {successCount}፣ አልተሳካም፦ {failedCount}፣ ቦቱን አግደዋል፦ {unreachableCount}',
+    'broadcast.failed': 'የጅምላ መልእክቱ አልተሳካም፦ {message}። እባክዎ እንደገና ይሞክሩ።',
+    'broadcast.list_scheduled_header': 'የታቀዱ የጅምላ መልእክቶች ({count})፦',
+    'broadcast.list_scheduled_none': 'ምንም የታቀደ የጅምላ መልእክት የለም።',
+    'broadcast.list_scheduled_item': '{broadcastId} በ{scheduledFor}\nተቀባዮች፦ {audience}\n\n{message}',
+    'broadcast.list_recent_header': 'የቅርብ ጊዜ የጅምላ መልእክቶች፦',
+    'broadcast.list_recent_item': '{broadcastId} ({status}) {date}\nተቀባዮች፦ {audience}\nተሳክቷል፦ {successCount}፣ አልተሳካም፦ {failedCount}፣ ቦቱን አግደዋል፦ {unreachableCount}',
+    'broadcast.cancel_button': '🚫 የጅምላ መልእክቱን ሰርዝ',
+    'broadcast.report_button': '📊 የመድረስ ሪፖርት',
+    'broadcast.schedule_cancelled': 'የታቀደው የጅምላ መልእክት {broadcastId} ተሰርዟል።',
+    'broadcast.cancel_unavailable': 'ይህ የጅምላ መልእክት ከእንግዲህ የታቀደ ስላልሆነ ሊሰረዝ አይችልም።',
+    'broadcast.not_found': 'የጅምላ መልእክቱ አልተገኘም።',
+    'broadcast.report': 'የጅምላ መልእክት {broadcastId} ({status})\nተቀባዮች፦ {audience}\nተሳክቷል፦ {successCount}፣ አልተሳካም፦ {failedCount}፣ ቦቱን አግደዋል፦ {unreachableCount}',
+    'broadcast.report_failures': 'ያልተሳኩ እና የማይደረስባቸው ተቀባዮች (የመጀመሪያዎቹ {count})፦\n{lines}',
+    'broadcast.status_scheduled': 'ታቅዷል',
+    'broadcast.status_sending': 'በመላክ ላይ',
+    'broadcast.status_sent': 'ተልኳል',
+    'broadcast.status_cancelled': 'ተሰርዟል',
+    'broadcast.header': '📢 የሥርዓት ማስታወቂያ',
+    'broadcast.footer': '— የሥርዓት መልእክት',
+
+    // Errors thrown by managers, matched by translateError
+    'error.session_not_found': 'ክፍለ ጊዜው አልተገኘም።',
+    'error.active_session_not_found': 'ንቁ ክፍለ ጊዜ አልተገኘም።',
+    'error.user_not_found': 'ተጠቃሚው አልተገኘም።',
+    'error.user_has_active_session': 'ተጠቃሚው አስቀድሞ ንቁ ክፍለ ጊዜ አለው።',
+    'error.counselor_not_available': 'አማካሪው ለክፍለ ጊዜ አይገኙም።',
+    'error.counselor_no_capacity': 'አማካሪው የቀረ የክፍለ ጊዜ አቅም የላቸውም።',
+    'error.counselor_not_assigned': 'አማካሪው ለዚህ ክፍለ ጊዜ አልተመደቡም።',
+    'error.follow_up_delay_invalid': 'የክትትል ጊዜ ከ1 እስከ {max} ያለ ሙሉ የቀናት ቁጥር መሆን አለበት።',
+    'error.follow_up_session_active': 'ክትትል ማዘጋጀት የሚቻለው ክፍለ ጊዜው ካለቀ በኋላ ብቻ ነው።',
+    'error.consent_required': 'ክፍለ ጊዜ ከመጀመሩ በፊት ስምምነት ያስፈልጋል።',
+    'error.message_empty': 'የመልዕክቱ ይዘት ባዶ ሊሆን አይችልም።',
+    'error.media_missing_file': 'የሚዲያ መልዕክት የፋይል ማጣቀሻ መያዝ አለበት።',
+    'error.rating_invalid': 'ግምገማው ከ1 እስከ 5 ያለ ቁጥር መሆን አለበት።',
+    'error.rating_active_session': 'ንቁ ክፍለ ጊዜን መገምገም አይቻልም።',
+    'error.rating_not_authorized': 'ተጠቃሚው ይህን ክፍለ ጊዜ ለመገምገም ፈቃድ የለውም።',
+    'error.history_not_authorized': 'ጠያቂው የዚህን ክፍለ ጊዜ ታሪክ ለማየት ፈቃድ የለውም።',
+    'error.counselor_not_found': 'አማካሪው አልተገኙም፦ {counselorId}',
+    'error.capacity_invalid': 'አቅም ከ1 እስከ {max} ያለ ሙሉ ቁጥር መሆን አለበት።',
+    'error.alias_invalid': 'የብዕር ስም ከ3 እስከ {max} ፊደላት፣ ቁጥሮች፣ ክፍተቶች ወይም ሰረዞች መሆን አለበት።',
+    'error.alias_identifying': 'የብዕር ስሙ እውነተኛ ስምዎን ወይም የቴሌግራም የተጠቃሚ ስምዎን መያዝ የለበትም።',
+    'error.alias_taken': 'ያ የብዕር ስም አስቀድሞ ጥቅም ላይ ውሏል።',
+    'error.bio_invalid': 'መግለጫው ከ1 እስከ {max} ቁምፊዎች መሆን አለበት።',
+    'error.profile_update_not_found': 'ለዚህ አማካሪ በመጠበቅ ላይ ያለ የመገለጫ ለውጥ የለም።',
+    'error.report_not_found': 'ሪፖርቱ አልተገኘም።',
+    'error.report_reason_required': 'የሪፖርት ምክንያት ያስፈልጋል።',
+    'error.queue_preferences_required': 'ወረፋውን ለመቀላቀል የማዛመጃ ምርጫዎች ያስፈልጋሉ።',
+    'error.prayer_not_found': 'የጸሎት ጥያቄው አልተገኘም',
+    'error.erasure_active_session': 'መረጃዎን ከመሰረዝዎ በፊት ንቁ ክፍለ ጊዜዎን ያጠናቅቁ።'
+};
@@ -0,0 +1,579 @@
+// English messages are the source of truth: every key lives here and every other locale translates all of them
+export const en = {
+    // Menu labels
+    'menu.start_counseling': '💬 Start chatting with counselor',
+    'menu.submit_prayer': '🙏 Submit Prayer Request',
+    'menu.my_prayers': '📿 My Prayer Requests',
+    'menu.history': '📜 My History',
+    'menu.help': 'ℹ️ Help',
+    'menu.end_session': '🛑 End Session',
+    'menu.report': '⚠️ Report',
+    'menu.main': '🏠 Main Menu',
+    'menu.register_counselor': '🧑‍⚕️ Register as Counselor',
+    'menu.status_available': '✅ Set Available',
+    'menu.status_away': '⚪ Set Away',
+    'menu.my_stats': '📊 My Stats',
+    'menu.prayer_requests': '🙏 Prayer Requests',
+    'menu.close_prayer': '✅ Close Prayers',
+    'menu.transfer_session': '🔁 Transfer Session to Expert',
+    'menu.switch_conversation': '🔀 Switch Conversation',
+    'menu.admin_stats': '🛡️ Admin Stats',
+    'menu.pending_reports': '🚩 Pending Reports',
+    'menu.process_report': '⚙️ Process Report',
+    'menu.counselor_list': '🧑‍⚕️ Counselors List',
+    'menu.appeal': '📝 Appeal',
+    'menu.appeals': '🧾 Appeals',
+    'menu.approve_counselor': '✅ Approve Counselor',
+    'menu.remove_counselor': '🗑️ Remove Counselor',
+    'menu.audit_log': '📜 Audit Log',
+    'menu.broadcast': '📢 Broadcast Message',
+    'menu.language': '🌐 Language',
+
+    // Menu prompts
+    'menu.main_prompt': 'Main menu:',
+    'menu.active_session_notice': 'You have an active session. Use End Session to finish.',
+
+    // Shared
+    'common.previous': '⬅️ Previous',
+    'common.next': 'Next ➡️',
+    'common.page': 'Page {page}/{totalPages}',
+    'common.generic_error': 'Sorry, something went wrong. Please try again later.',
+    'common.user': 'User',
+    'common.counselor': 'Counselor',
+    'common.counselor_alias': 'Counselor {alias}',
+    'common.invalid_response': 'Please enter a valid response.',
+    'common.use_buttons': 'Please use the buttons provided to continue.',
+    'common.select_one_language': 'Please select at least one language.',
+    'common.first_step': 'You are already at the first step.',
+    'common.done': '✅ Done',
+    'common.back': '⬅️ Back',
+    'common.cancel': '❌ Cancel',
+    'common.not_available': 'N/A',
+    'common.yes': 'Yes',
+    'common.no': 'No',
+
+    // General
+    'general.welcome': 'Welcome! Your anonymous ID is {userId}. Use the buttons below to get started.',
+    'general.use_menu': 'Use the menu buttons below to continue.',
+    'general.choose_language': 'Choose your language:',
+    'general.language_updated': 'Language set to {language}.',
+    'general.help_user': 'Use the menu buttons to start counseling, submit a prayer request, view history, or get help.\n\n/my_prayers - Post updates on your prayer requests or mark them answered\n/my_data - Download everything stored about you\n/delete_my_data - Delete your data',
+    'general.help_commands_header': 'Commands:',
+    'general.help_counselor_commands': '/register_counselor - Register as counselor (requires admin approval)\n/available | /away - Set counselor availability\n/capacity [1-{maxCapacity}] - View or set how many concurrent sessions you handle\n/my_stats - View counselor statistics\n/profile - View the alias and bio users see\n/set_alias <alias> | /set_bio <text> - Request a profile change (admin reviewed)\n/list_of_prayer_requests [health|family|work|spiritual|other] - View prayer requests, optionally in one category\n/close_prayer <prayerId> - Close a prayer request\n/language - Change the bot language\n{transferLabel} - Transfer an active session (menu)\n{switchLabel} - Choose which active session you are replying to (menu)',
+    'general.help_admin_commands': '/admin_stats - View system statistics (admins)\n/pending_reports - List pending reports (admins)\n/process_report <reportId> <strike|dismiss> - Process report (admins)\n/approve_counselor <counselorId> - Approve counselor (admins)\n/remove_counselor <counselorId> - Remove counselor (admins)\n/audit_log [limit] - View admin audit log (admins)\n/profile_reviews - Review counselor alias and bio changes (admins)\n/rotate_message_keys - Re-wrap message encryption keys with the current master key (admins)\n/cleanup_preview - Show what the next data cleanup would delete, with a button to run it now (admins)\n/pending_actions - Confirm or reject destructive actions waiting for a second admin (admins)\n/prayer_wall - Review prayer requests waiting to be posted on the prayer wall (admins)\n/admins - List admins and their roles (super-admins)\n/add_admin <chatId> <role> - Add an admin or change their role (super-admins)\n/remove_admin <chatId> - Remove an admin (super-admins)\n/broadcasts - Review scheduled and recent broadcasts (admins)\n{broadcastLabel} - Send system announcements (menu only, admins)',
+
+    // Sessions
+    'session.no_active_session': 'No active session found.',
+    'session.media_requires_session': 'Photos, voice notes and files can only be shared during an active counseling session.',
+    'session.crisis_hotline': 'If you are in immediate danger or thinking about ending your life, please contact your local emergency services or a crisis hotline right now, or go to the nearest hospital. You are not alone.',
+    'session.crisis_counselor_alert': '🚨 CRISIS ALERT (session {sessionId}): the next message contains language that may indicate risk of self-harm. Please prioritise this conversation and follow the crisis protocol. Admins have been notified.',
+    'session.crisis_admin_alert': '🚨 Crisis alert in session {sessionId} ({language}). The counselor has been notified and the user has been shown hotline resources.',
+    'session.choose_conversation': 'You have {count} active conversations. Choose who to reply to, or reply directly to one of their messages.',
+    'session.switch_counselors_only': 'Only approved counselors can switch conversations.',
+    'session.currently_replying': 'Currently replying in {label}.',
+    'session.no_conversation_selected': 'No conversation selected yet.',
+    'session.select_conversation': 'Select a conversation:',
+    'session.conversation_inactive': 'That conversation is no longer active.',
+    'session.now_replying': 'Now replying in {label}.',
+    'session.general_support': 'General Support',
+    'session.conversation_label': 'Conversation {position} · {topic}',
+    'session.new_session_multiple': 'New session started ({label}). User ID: {userId}. Reply to their messages or use {switchLabel} to choose who you are replying to.',
+    'session.new_session': 'New session started. User ID: {userId}. Use normal chat to reply.',
+    'session.no_log_notice': '🔒 The user chose a no-log session. Messages are relayed but never stored, so no transcript will be available afterwards.',
+    'session.admin_no_sessions': 'Admins do not have active sessions to end.',
+    'session.nothing_to_end': 'No active session to end.',
+    'session.ended_by_user': 'Session has ended. The user ended the session.',
+    'session.ended': 'Session ended.',
+    'session.ended_by_counselor': 'Your session has ended. Please rate your counselor (1-5). Rating is required to continue.',
+    'session.rating_users_only': 'Only users can rate sessions.',
+    'session.rating_failed': 'Unable to record rating.',
+    'session.rating_thanks': 'Thanks for rating. You rated this session {rating}/5. You can report the counselor from the menu below if needed.',
+    'session.rating_prompt': 'Session ended. Please rate your counselor (1-5). Rating is required to continue.',
+    'session.counselor_intro': 'You are talking with {counselor}.',
+    'session.counselor_intro_bio': 'You are talking with {counselor}.\nAbout them: {bio}',
+    'session.recent_history': 'Recent chat history (last 50 messages):',
+
+    // Matching and waiting queue
+    'matching.admin_cannot_start': 'Admins cannot start counseling sessions.',
+    'matching.already_in_session': 'You already have an active session.',
+    'matching.consent_wrong_account': 'Unable to confirm consent for this account.',
+    'matching.no_pending_consent': 'No pending consent request. Use Start Counseling to begin.',
+    'matching.missing_preferences': 'Missing matching preferences. Please select your language and domain again.',
+    'matching.complete_steps_first': 'Please complete the matching steps before giving consent.',
+    'matching.searching': 'Finding a suitable counselor...',
+    'matching.no_counselors_available': 'No counselors are available right now. You can join the waiting queue and we will connect you as soon as one is free.',
+    'matching.no_language_match': 'No counselors match your language right now. You can choose another language or wait.',
+    'matching.session_started': 'Session started. Your counselor has been notified. Session ID: {sessionId}',
+    'matching.session_start_failed': 'Unable to start session right now. Please try again later.',
+    'matching.language_added': 'Added language: {language}. Select more or tap Done.',
+    'matching.canceled': 'Matching canceled.',
+    'matching.retry_language': 'Select your preferred language(s).',
+    'matching.queue_joined': 'You are #{position} in line. We will connect you as soon as a counselor is free.',
+    'matching.queue_leave_hint': 'You can leave the queue at any time.',
+    'matching.not_in_queue': 'You are not in the waiting queue.',
+    'matching.queue_left': 'You have left the waiting queue.',
+    'matching.queue_status': 'You are #{position} in line for a counselor. We will connect you as soon as one is free.',
+    'matching.leave_queue_button': '🚪 Leave Queue',
+    'matching.queue_session_started': 'A counselor is now available. Your session has started. Session ID: {sessionId}',
+    'matching.queue_position_update': 'You are now #{position} in line for a counselor.',
+    'matching.queue_expired': 'Sorry, no counselor became available in time, so you have been removed from the waiting queue. Please try again later.',
+    'matching.prompt_language': 'Select your preferred language(s) (multi-select). Tap Done when finished.',
+    'matching.prompt_language_other': 'Please type the language you prefer.',
+    'matching.prompt_domain': 'Select your counseling domain (single selection).',
+    'matching.prompt_domain_other': 'Please type the counseling domain you need.',
+    'matching.consent_disclosure': 'Before we begin, please note: This counseling session is anonymous. Messages may be logged for safety and quality purposes. Do not share personally identifying information. By continuing, you consent to participate under these terms.',
+    'matching.consent_counselor': 'You will be talking with {counselor}.',
+    'matching.consent_button': '✅ Agree and Continue',
+    'matching.consent_no_log_option': 'If you prefer, choose "Don\'t keep my messages": they will be passed to your counselor but never stored. No transcript will exist for you to look back on, or for admins to review if you report the counselor.',
+    'matching.consent_no_log_button': '🔒 Agree, but don\'t keep my messages',
+    'matching.continue_setup': 'Let\'s continue your session setup.',
+    'matching.join_queue_button': '⏳ Join Waiting Queue',
+    'matching.choose_another_language_button': '🔁 Choose Another Language',
+    'matching.wait_button': '⏳ Wait for Counselor',
+    'matching.previous_counselor_prompt': 'Would you like to continue with a counselor you talked to before? They will be asked to confirm first. You can also find a new counselor.',
+    'matching.previous_counselor_button': '🤝 {counselor} · {date}',
+    'matching.find_new_counselor_button': '🔎 Find a New Counselor',
+    'matching.previous_counselor_unavailable': 'That counselor is not available right now.',
+    'matching.previous_request_sent': 'We have asked your previous counselor to continue with you. If they do not answer within {minutes} minutes, we will help you find another counselor.',
+    'matching.previous_request_pending': 'We are still waiting for your previous counselor to answer.',
+    'matching.previous_counselor_accepted': 'Your previous counselor accepted. Your session has started. Session ID: {sessionId}',
+    'matching.previous_counselor_declined': 'Your previous counselor cannot take a session right now.',
+    'matching.previous_counselor_timeout': 'Your previous counselor did not answer in time.',
+    'matching.previous_fallback_prompt': 'Would you like us to find you another counselor?',
+    'matching.previous_request_to_counselor': 'A user you supported before (last session {date}) would like to continue with you. Please answer within {minutes} minutes.',
+    'matching.previous_accept_button': '✅ Accept',
+    'matching.previous_decline_button': '❌ Decline',
+    'matching.previous_request_inactive': 'This request is no longer active.',
+    'matching.previous_request_declined': 'Request declined. The user will be matched with another counselor.',
+
+    // Session transfers
+    'transfer.not_approved': 'You are not approved to transfer sessions.',
+    'transfer.missing_preferences': 'Unable to determine session preferences. Please continue or end the session.',
+    'transfer.select_reason': 'Select the transfer reason:',
+    'transfer.enter_reason': 'Please enter the transfer reason.',
+    'transfer.reason_empty': 'Please enter a reason for the transfer.',
+    'transfer.reason_required': 'Transfer reason is required.',
+    'transfer.no_candidates': 'No matching expert counselors are available. Choose an option below.',
+    'transfer.request_sent': 'Transfer request sent. Waiting for counselor response...',
+    'transfer.request_inactive': 'This transfer request is no longer active.',
+    'transfer.accept_failed': 'Unable to accept transfer.',
+    'transfer.request_expired': 'This transfer request has expired.',
+    'transfer.no_capacity': 'You have no remaining session capacity to accept this transfer.',
+    'transfer.completed': 'Session successfully transferred.',
+    'transfer.user_notice': 'Your session has been transferred to another counselor with appropriate expertise to better support you.',
+    'transfer.connected': 'You are now connected to the user. Chat history is available.',
+    'transfer.decline_failed': 'Unable to decline transfer.',
+    'transfer.nobody_accepted': 'No available expert counselor accepted the transfer request.',
+    'transfer.declined': 'Declined. The request has been forwarded to another counselor.',
+    'transfer.continuing': 'Continuing the current session.',
+    'transfer.waiting': 'We will wait for an expert to become available. Try transfer again later.',
+    'transfer.canceled': 'Transfer canceled.',
+    'transfer.continue_button': '✅ Continue Session',
+    'transfer.wait_button': '⏳ Wait for Expert',
+    'transfer.request': 'You have a session transfer request.\nDomain: {domain}\nLanguage: {languages}\nReason: {reason}',
+    'transfer.accept_button': '✅ Accept Transfer',
+    'transfer.decline_button': '❌ Decline',
+
+    // Follow-up check-ins
+    'followup.offer': 'Would you like the bot to check in with this person later? They stay anonymous and can choose to reconnect with you.',
+    'followup.delay_button': '📅 In {days} day(s)',
+    'followup.not_approved': 'Only approved counselors can schedule follow-ups.',
+    'followup.schedule_failed': 'Unable to schedule the follow-up.',
+    'followup.scheduled': 'Follow-up scheduled for {date}. Choosing another delay on the previous message replaces it.',
+    'followup.cancel_button': '❌ Cancel Follow-up',
+    'followup.cancelled': 'Follow-up cancelled.',
+    'followup.cannot_cancel': 'This follow-up has already been sent or cancelled.',
+    'followup.check_in': '👋 Hi, this is a check-in from your counselor. How are you doing? You can reconnect with the same counselor, start a new session, or let us know you are fine.',
+    'followup.reconnect_button': '🤝 Reconnect with My Counselor',
+    'followup.new_session_button': '💬 Start a New Session',
+    'followup.decline_button': '🙏 No Thanks, I\'m Okay',
+    'followup.no_longer_active': 'This check-in is no longer active.',
+    'followup.counselor_unavailable': 'Your previous counselor is not available right now. You can start a new session with another counselor instead.',
+    'followup.reconnected': 'You are reconnected with your counselor. Session ID: {sessionId}',
+    'followup.declined': 'Glad to hear it. You can always reach out again from the menu.',
+
+    // Counselor registration
+    'onboarding.already_registered': 'You are already registered as a counselor.',
+    'onboarding.already_pending': 'Your counselor application is already submitted and pending admin approval.',
+    'onboarding.counselor_id': 'Counselor ID: {counselorId}',
+    'onboarding.prompt_full_name': 'Please enter your full name.',
+    'onboarding.username_detected': 'Telegram username detected: {username}. Now select languages you speak.',
+    'onboarding.prompt_username': 'Please enter your Telegram username.',
+    'onboarding.current_value': 'Current: {value}',
+    'onboarding.language_empty': 'Please enter the language name.',
+    'onboarding.domain_empty': 'Please enter the domain name.',
+    'onboarding.domain_added': 'Added domain: {domain}. Select more or tap Done.',
+    'onboarding.experience_invalid': 'Please enter a positive number for years of experience.',
+    'onboarding.prompt_country': 'Please enter your country.',
+    'onboarding.prompt_location': 'Please enter your city or region.',
+    'onboarding.select_one_domain': 'Please select at least one domain.',
+    'onboarding.canceled': 'Counselor registration canceled.',
+    'onboarding.restarted': 'Some information was missing, so the onboarding has been restarted.',
+    'onboarding.admin_application': '🧑‍⚕️ New Counselor Application\nID: {counselorId}\nAlias: {alias}\nFull Name: {fullName}\nTelegram: {telegram}\nLanguages: {languages}\nExpertise: {domains}\nExperience: {experience} years\nCountry: {country}\nLocation: {location}\nStatus: Pending Admin Approval',
+    'onboarding.submitted': 'Your counselor application has been submitted. Counselor ID: {counselorId}. Status: Pending Admin Approval.\nUsers will know you only as {alias}. Use /profile to view or change it.',
+    'onboarding.prompt_languages': 'Select the languages you speak (multi-select). Tap Done when finished.',
+    'onboarding.prompt_language_other': 'Please type the other language you speak.',
+    'onboarding.prompt_domains': 'Select your counseling domain expertise (multi-select). Tap Done when finished.',
+    'onboarding.prompt_domain_other': 'Please type the other counseling domain.',
+    'onboarding.prompt_experience': 'How many years of counseling experience do you have? (number only)',
+    'onboarding.confirm_prompt': 'Confirm submission?',
+    'onboarding.continue_application': 'Let\'s continue your counselor application.',
+    'onboarding.submit_button': '✅ Submit Application',
+    'onboarding.summary': '🧑‍⚕️ Counselor Application Summary\nFull Name: {fullName}\nTelegram: {telegram}\nLanguages: {languages}\nExpertise: {domains}\nExperience: {experience} years\nCountry: {country}\nLocation: {location}',
+
+    // Counselor self-service
+    'counselor.not_registered': 'You are not registered as a counselor. Use /register_counselor first.',
+    'counselor.status_not_approved': 'You are not approved to change status.',
+    'counselor.status_updated': 'Status updated to {status}.',
+    'counselor.status_available': 'available',
+    'counselor.status_busy': 'busy',
+    'counselor.status_away': 'away',
+    'counselor.stats_not_approved': 'You are not approved to access counselor stats.',
+    'counselor.stats': 'Sessions completed: {completed}\nActive sessions: {active}/{capacity}\nAverage duration: {averageDuration} minutes\nPeak hours: {peakHours}',
+    'counselor.capacity_not_approved': 'You are not approved to change session capacity.',
+    'counselor.capacity_current': 'You can currently handle {capacity} concurrent session(s). Use /capacity <1-{maxCapacity}> to change it.',
+    'counselor.capacity_updated': 'Capacity updated. You can now handle {capacity} concurrent session(s).',
+    'counselor.profile': '🪪 Your public profile\nAlias: {alias}\nBio: {bio}\n\nUsers see this instead of your name. Use /set_alias <alias> or /set_bio <text> to request a change; an admin reviews it first.',
+    'counselor.profile_pending': 'Waiting for admin review:\nAlias: {alias}\nBio: {bio}',
+    'counselor.profile_suspended': 'Suspended counselors cannot change their public profile.',
+    'counselor.alias_usage': 'Usage: /set_alias <alias>',
+    'counselor.bio_usage': 'Usage: /set_bio <short introduction users will see>',
+    'counselor.profile_update_submitted': 'Your profile change was sent to the admins for review.',
+    'counselor.profile_update_failed': 'Unable to submit your profile change.',
+    'counselor.profile_update_approved': 'Your profile change was approved. Users now see you as {alias}.',
+    'counselor.profile_update_rejected': 'Your profile change was not approved. Your public profile is unchanged.',
+
+    // Prayer requests
+    'prayer.select_category': 'What is your prayer request about?',
+    'prayer.category_health': '🩺 Health',
+    'prayer.category_family': '👨‍👩‍👧 Family',
+    'prayer.category_work': '💼 Work',
+    'prayer.category_spiritual': '✝️ Spiritual',
+    'prayer.category_other': '🕊 Other',
+    'prayer.category_all': '📋 All',
+    'prayer.prompt_title': 'Please enter your prayer title/topic.',
+    'prayer.received': 'Your prayer request has been received. Counselors will pray for it.',
+    'prayer.view_not_approved': 'You are not approved to view prayer requests.',
+    'prayer.none': 'No prayer requests available.',
+    'prayer.none_in_category': 'No prayer requests in {category}.',
+    'prayer.list_header': 'Prayer requests ({count}):',
+    'prayer.list_header_category': 'Prayer requests in {category} ({count}):',
+    'prayer.item': '🙏 Prayer Request\nTitle: {title}\nCategory: {category}\nID: {prayerId}\nSubmitted: {submittedAt}\nPrayed for by: {prayedCount}\nUpdates: {updateCount}',
+    'prayer.item_latest_update': 'Latest update ({updatedAt}): {text}',
+    'prayer.close_button': '✅ Close Prayer',
+    'prayer.prayed_button': '🙏 I prayed',
+    'prayer.prayed_recorded': 'Thank you for praying. The submitter will be encouraged without learning who you are.',
+    'prayer.already_prayed': 'You have already prayed for this request.',
+    'prayer.updates_notice': 'We will let you know, anonymously, when counselors pray for it.',
+    'prayer.prayed_count_one': '🙏 A counselor has prayed for your request "{title}".',
+    'prayer.prayed_count': '🙏 {count} counselors have prayed for your request "{title}".',
+    'prayer.mute_button': '🔕 Stop updates for this request',
+    'prayer.unmute_button': '🔔 Resume updates',
+    'prayer.muted': 'You will no longer get updates about this prayer request.',
+    'prayer.unmuted': 'You will get updates about this prayer request again.',
+    'prayer.update_unavailable': 'This prayer request is no longer available.',
+    'prayer.my_none': 'You have no open prayer requests.',
+    'prayer.my_list_header': 'Your open prayer requests ({count}):',
+    'prayer.my_item': '🙏 {title}\nCategory: {category}\nSubmitted: {submittedAt}\nPrayed for by: {prayedCount}\nUpdates: {updateCount}',
+    'prayer.update_button': '✏️ Post update',
+    'prayer.answered_button': '🎉 Answered',
+    'prayer.prompt_update': 'Write your update. Counselors will see it with your request.',
+    'prayer.update_posted': 'Your update has been posted.',
+    'prayer.answered': '🎉 Praise God! Your prayer request is marked answered and closed.\nWould you like to write a short testimony?',
+    'prayer.testimony_button': '✍️ Write testimony',
+    'prayer.prompt_testimony': 'Write your testimony. It stays private unless you choose to share it, so leave out anything that identifies you if you might.',
+    'prayer.testimony_saved': 'Thank you for sharing how your prayer was answered.',
+    'prayer.testimony_share_prompt': 'May we share your testimony anonymously in the weekly answered-prayers digest? Only the category and your testimony are shown, never your name or request title.',
+    'prayer.share_button': '✅ Share anonymously',
+    'prayer.keep_private_button': '🔒 Keep private',
+    'prayer.testimony_shared': 'Your testimony will be included in the next weekly digest.',
+    'prayer.testimony_private': 'Your testimony will stay private.',
+    'prayer.testimony_locked': 'This testimony can no longer be changed. It may already have been shared.',
+    'prayer.digest_header': '🌟 Answered prayers this week ({count})\nShared anonymously by those who asked for prayer.',
+    'prayer.digest_item': '{category}\n“{text}”',
+    'prayer.close_not_approved': 'You are not approved to close prayer requests.',
+    'prayer.select_to_close': 'Select a prayer request to close:',
+    'prayer.already_closed': 'Prayer request already closed.',
+    'prayer.closed': 'Prayer request {prayerId} closed.',
+    'prayer.prayed_for': '🙏 Prayer Update\nYour prayer request has been prayed for by a counselor.\nTitle: {title}\nSubmitted: {submittedAt}',
+    'prayer.close_failed': 'Unable to close prayer request.',
+
+    // Prayer wall
+    'prayer_wall.opt_in_prompt': 'Would you like your request shared anonymously on our prayer wall channel so the congregation can pray too? An admin reviews it first, and your name is never shown.',
+    'prayer_wall.opt_in_button': '📣 Share on the prayer wall',
+    'prayer_wall.opt_in_received': 'Thank you. An admin will review your request before it appears on the prayer wall.',
+    'prayer_wall.opt_in_unavailable': 'This request can no longer be shared on the prayer wall.',
+    'prayer_wall.submitter_published': '📣 Your prayer request "{title}" is now on the prayer wall. The congregation is praying with you.',
+    'prayer_wall.submitter_rejected': 'Your prayer request "{title}" was not posted on the prayer wall. Counselors are still praying for it.',
+    'prayer_wall.post': '🙏 Prayer request · {category}\n\n{text}\n\nPlease pray with us.',
+    'prayer_wall.post_closed': '✅ Prayer request · {category}\n\n{text}\n\nThis request has been closed. Thank you for praying.',
+    'prayer_wall.post_answered': '🎉 Answered prayer · {category}\n\n{text}\n\nThis prayer has been answered. Thank you for praying!',
+    'prayer_wall.post_removed': '🗑 This prayer request was withdrawn by the person who shared it.',
+    'prayer_wall.admin_new_request': '📣 New prayer wall request',
+    'prayer_wall.review_item': 'Category: {category}\nText: {text}\nID: {prayerId}\nRequested: {requestedAt}',
+    'prayer_wall.approve_button': '✅ Publish',
+    'prayer_wall.edit_button': '✏️ Edit',
+    'prayer_wall.reject_button': '❌ Reject',
+    'prayer_wall.queue_header': 'Prayer wall requests waiting for review ({count}):',
+    'prayer_wall.queue_empty': 'No prayer wall requests are waiting for review.',
+    'prayer_wall.not_authorized': 'You are not authorized to moderate the prayer wall.',
+    'prayer_wall.disabled': 'The prayer wall is not configured. Set PRAYER_WALL_CHANNEL_ID to enable it.',
+    'prayer_wall.prompt_edit': 'Send the wording to publish instead of:\n{text}\n\nRemove anything that could identify the submitter.',
+    'prayer_wall.prompt_edit_empty': 'The new wording cannot be empty. Send the text to publish.',
+    'prayer_wall.edited': 'Wording updated. Review it again before publishing:',
+    'prayer_wall.already_reviewed': 'This request has already been reviewed or is no longer open.',
+    'prayer_wall.published': 'Published to the prayer wall.',
+    'prayer_wall.publish_failed': 'Could not publish to the prayer wall: {message}. The request is back in the queue.',
+    'prayer_wall.rejected': 'Request rejected. It will not be posted.',
+
+    // Session history
+    'history.none': 'No session history available.',
+    'history.list_header': 'Session history ({count}):',
+    'history.general_topic': 'General Support',
+    'history.status_active': 'Active',
+    'history.status_transferred': 'Transferred',
+    'history.status_completed': 'Completed',
+    'history.item': 'Session Topic: {topic}\nDate: {date}\nStatus: {status}',
+    'history.item_with_counselor': 'Session Topic: {topic}\nCounselor: {counselor}\nDate: {date}\nStatus: {status}',
+    'history.see_chat': '💬 See Chat',
+    'history.no_messages': 'No messages in this session.',
+    'history.no_log_label': '🔒 Not logged, no transcript was kept',
+    'history.no_log_transcript': 'This was a no-log session, so its messages were never stored.',
+    'history.chat_header': 'Session chat ({count} messages):',
+
+    // Reports
+    'report.end_session_first': 'Please end your session before reporting.',
+    'report.after_session_only': 'Report is available after a session ends.',
+    'report.prompt_reason': 'Please provide a reason for the report.',
+    'report.users_only': 'Only users can submit reports.',
+    'report.no_recent_session': 'No recent session found to report.',
+    'report.counselor_notice': '⚠️ Report Submitted\nA user has submitted a report about your session.\nReport ID: {reportId}\nReason: {reason}',
+    'report.submitted': 'Report submitted. Reference: {reportId}',
+    'report.view_not_authorized': 'You are not authorized to view reports.',
+    'report.none_pending': 'No pending reports.',
+    'report.pending_header': 'Pending reports ({count}):',
+    'report.pending_item': '🚩 Pending Report\nReport ID: {reportId}\nCounselor ID: {counselorId}\nReason: {reason}\nSubmitted: {submittedAt}',
+    'report.view_chat_button': '💬 View Chat',
+    'report.strike_button': '⚠️ Strike',
+    'report.dismiss_button': '✅ Dismiss',
+    'report.chat_not_authorized': 'You are not authorized to view report chats.',
+    'report.chat_empty': 'No messages in session {sessionId}.\n\nReport: {reason}',
+    'report.chat_erased': 'The user of session {sessionId} deleted their data, so its messages are no longer available.\n\nReport: {reason}',
+    'report.chat_no_log': '🔒 Session {sessionId} was a no-log session chosen by the user. Its {count} messages were relayed but never stored, so there is no transcript to review.\n\nReport: {reason}',
+    'report.chat_header': '💬 Session chat (Report ID: {reportId}, Counselor: {counselorId})\nReason: {reason}',
+    'report.chat_failed': 'Failed to load chat: {message}',
+    'report.process_not_authorized': 'You are not authorized to process reports.',
+    'report.process_usage': 'Usage: /process_report <reportId> <strike|dismiss>',
+    'report.processed': 'Report {reportId} processed. Action: {action}.',
+    'report.access_revoked': 'Your counseling access has been revoked due to report strikes. Please contact an admin.',
+    'report.account_suspended': 'Your counselor account has been suspended due to report strikes. Please contact an admin.',
+
+    // Appeals
+    'appeal.suspended_only': 'Appeals are only available for suspended counselors.',
+    'appeal.prompt_message': 'Please enter your appeal message to the admins.',
+    'appeal.submitted': 'Appeal submitted. Reference: {appealId}',
+    'appeal.view_not_authorized': 'You are not authorized to view appeals.',
+    'appeal.none_pending': 'No pending appeals.',
+    'appeal.pending_header': 'Pending appeals ({count}):',
+    'appeal.item': '🧾 Appeal\nAppeal ID: {appealId}\nCounselor ID: {counselorId}\nStrikes: {strikes}\nMessage: {message}\nSubmitted: {submittedAt}',
+    'appeal.revoke_button': '♻️ Revoke Suspension',
+    'appeal.approve_button': '✅ Approve',
+    'appeal.process_not_authorized': 'You are not authorized to process appeals.',
+    'appeal.not_found': 'Appeal not found.',
+    'appeal.already_processed': 'Appeal already processed.',
+    'appeal.counselor_not_found': 'Counselor not found for this appeal.',
+    'appeal.approved': 'Appeal approved. Counselor {counselorId} is approved.',
+    'appeal.revoked': 'Appeal processed. Suspension revoked for counselor {counselorId}.',
+    'appeal.approved_notice': 'Your appeal has been approved. Your counseling access has been restored.',
+    'appeal.revoked_notice': 'Your appeal has been reviewed. Your suspension has been revoked.',
+
+    // Your data
+    'privacy.counselor_not_supported': 'Counselor records are managed by admins. Please contact an admin about your data.',
+    'privacy.no_data': 'We have no data stored for you.',
+    'privacy.export_caption': '📦 Everything we store about you. Keep this file somewhere private.',
+    'privacy.export_failed': 'Could not prepare your data export. Please try again later.',
+    'privacy.delete_confirm': '⚠️ This permanently deletes your messages, prayer requests, follow-ups and profile. Past sessions are kept without any link to you so reports about counselors stay valid. This cannot be undone. Continue?',
+    'privacy.delete_button': '🗑️ Delete my data',
+    'privacy.delete_cancelled': 'Nothing was deleted.',
+    'privacy.deleted': 'Your data has been deleted. If you use the bot again, you will start with a new anonymous ID.',
+    'privacy.deleted_wall_posts_kept': 'Your data has been deleted, but {count} of your prayer requests on the public prayer wall could not be removed from the channel. They never showed who you are. If you use the bot again, you will start with a new anonymous ID.',
+    'privacy.delete_failed': 'Could not delete your data. Please try again later.',
+
+    // Admin tools
+    'admin.stats_not_authorized': 'You are not authorized to access admin stats.',
+    'admin.stats': 'Total sessions completed: {completed}\nActive sessions: {active}\nAverage duration: {averageDuration} minutes\nPrayer requests: {prayers}\nWaiting in queue: {queueLength}\nPeak hours: {peakHours}',
+    'admin.list_not_authorized': 'You are not authorized to view counselors.',
+    'admin.no_counselors': 'No counselors found.',
+    'admin.counselors_header': 'Counselors ({count}):',
+    'admin.counselor_item': '🧑‍⚕️ Counselor\nID: {counselorId}\nAlias: {alias}\nStatus: {status}\nApproved: {approved}\nSuspended: {suspended}\nStrikes: {strikes}\nSessions: {sessions}',
+    'admin.update_not_authorized': 'You are not authorized to update counselors.',
+    'admin.counselor_not_found': 'Counselor not found.',
+    'admin.suspension_revoked': 'Suspension revoked for counselor {counselorId}.',
+    'admin.suspension_revoked_notice': 'Your suspension has been revoked. You can now set your status again.',
+    'admin.approve_not_authorized': 'You are not authorized to approve counselors.',
+    'admin.counselor_approved': 'Counselor {counselorId} approved.',
+    'admin.access_restored_notice': 'Your counseling access has been restored. You can now set your status and receive sessions.',
+    'admin.no_pending_approvals': 'No counselors awaiting approval.',
+    'admin.profile_review': '🪪 Profile change request\nCounselor ID: {counselorId}\nCurrent alias: {currentAlias}\nNew alias: {alias}\nNew bio: {bio}',
+    'admin.profile_unchanged': '(unchanged)',
+    'admin.profile_approve_button': '✅ Approve',
+    'admin.profile_reject_button': '❌ Reject',
+    'admin.profile_reviews_header': 'Pending profile changes ({count}):',
+    'admin.no_profile_reviews': 'No pending profile changes.',
+    'admin.profile_review_not_authorized': 'You are not authorized to review profile changes.',
+    'admin.profile_update_approved': 'Profile change approved for {counselorId}.',
+    'admin.profile_update_rejected': 'Profile change rejected for {counselorId}.',
+    'admin.pending_approvals_header': 'Pending counselor approvals ({count}):',
+    'admin.pending_approval_item': 'ID: {counselorId} | Status: {status} | Strikes: {strikes}',
+    'admin.approved_notice': 'Your counseling request has been approved. You can now set your status and receive sessions.',
+    'admin.remove_not_authorized': 'You are not authorized to remove counselors.',
+    'admin.removal_item': '🧑‍⚕️ Counselor\nID: {counselorId}\nStatus: {status}\nStrikes: {strikes}',
+    'admin.counselor_removed': 'Counselor {counselorId} removed.',
+    'admin.audit_not_authorized': 'You are not authorized to view audit logs.',
+    'admin.audit_empty': 'No audit log entries found.',
+    'admin.audit_header': '🧾 Audit log ({count}):',
+    'admin.audit_entry': '📌 Audit Entry\nTime: {timestamp}\nAction: {action}\nAdmin: {adminId}',
+    'admin.audit_target': 'Target: {targetId}',
+    'admin.audit_details': 'Details: {details}',
+    'admin.cleanup_not_authorized': 'You are not authorized to preview data cleanup.',
+    'admin.cleanup_preview': '🧹 Cleanup preview, nothing has been deleted. The next cleanup run would remove:\nSessions: {sessions}\nMessages: {messages}\nClosed prayer requests: {prayers}\nProcessed reports: {reports}\nAudit log entries: {auditLogs}\nBroadcast logs: {broadcastLogs}\n\nActive sessions, sessions with pending reports and reports under appeal are always kept.',
+    'admin.cleanup_run_button': '🧹 Delete now',
+    'admin.cleanup_done': '🧹 Cleanup finished. Removed:\nSessions: {sessions}\nMessages: {messages}\nClosed prayer requests: {prayers}\nProcessed reports: {reports}\nAudit log entries: {auditLogs}\nBroadcast logs: {broadcastLogs}',
+    'admin.keys_not_authorized': 'You are not authorized to rotate message encryption keys.',
+    'admin.keys_encryption_disabled': 'Message encryption is not configured, so there are no keys to rotate.',
+    'admin.keys_rotated': '🔐 Session data keys re-wrapped with master key {keyId}: {rewrapped}\nFailed: {failed}',
+    'admin.keys_rotation_failures': 'Some keys could not be re-wrapped. Keep their retired master keys configured and check the logs before retrying.',
+    'admin.roles_not_authorized': 'Only super-admins can manage admins.',
+    'admin.role_super_admin': 'Super-admin',
+    'admin.role_moderator': 'Moderator',
+    'admin.role_reviewer': 'Reviewer',
+    'admin.role_broadcaster': 'Broadcaster',
+    'admin.admins_header': '🛡 Admins ({count}). Roles: {roles}',
+    'admin.admins_item': '{chatId}: {role}',
+    'admin.admins_item_configured': '{chatId}: {role} (from ADMIN_CHAT_IDS)',
+    'admin.remove_admin_button': '🗑 Remove admin',
+    'admin.add_admin_usage': 'Usage: /add_admin <chatId> <role>\nRoles: {roles}',
+    'admin.remove_admin_usage': 'Usage: /remove_admin <chatId>',
+    'admin.admin_added': 'Chat {chatId} is now an admin with the {role} role.',
+    'admin.admin_role_changed': 'Admin {chatId} now has the {role} role.',
+    'admin.admin_removed': 'Admin {chatId} removed.',
+    'admin.role_granted_notice': '🛡 You are now an admin with the {role} role. Send /help to see the admin commands.',
+    'admin.role_removed_notice': 'Your admin access has been removed.',
+    'admin.approval_action_remove_counselor': 'remove counselor {targetId}',
+    'admin.approval_action_revoke_appeal': 'revoke the suspension on appeal {targetId} and clear the strikes',
+    'admin.approval_action_revoke_suspension': 'revoke the suspension of counselor {targetId} and clear the strikes',
+    'admin.approval_action_run_cleanup': 'delete old data under the retention policy now',
+    'admin.approval_requested': '⏳ Waiting for a second admin to {action}. The other admins have been asked and have {minutes} minutes to confirm.',
+    'admin.approval_already_pending': '⏳ Admin {adminId} already asked to {action}. It is waiting for a second admin.',
+    'admin.approval_request_notice': '⏳ Admin {adminId} asks to {action}. Confirm within {minutes} minutes or it expires.',
+    'admin.approval_confirm_button': '✅ Confirm',
+    'admin.approval_reject_button': '❌ Reject',
+    'admin.approval_not_authorized': 'You are not authorized to decide this action.',
+    'admin.approval_not_found': 'This action was not found.',
+    'admin.approval_already_resolved': 'This action was already confirmed or rejected.',
+    'admin.approval_expired': 'This action expired before a second admin confirmed it. Request it again if it is still needed.',
+    'admin.approval_own_request': 'You requested this action, so a different admin must confirm it.',
+    'admin.approval_rejected': 'Rejected: {action}.',
+    'admin.approval_confirmed_notice': '✅ Admin {adminId} confirmed your request to {action}.',
+    'admin.approval_rejected_notice': '❌ Admin {adminId} rejected your request to {action}.',
+    'admin.approvals_empty': 'No actions are waiting for a second admin.',
+    'admin.approvals_header': '⏳ Actions waiting for a second admin ({count}):',
+    'admin.approvals_item': 'Admin {adminId} asks to {action}. Expires {expiresAt}.',
+
+    // Broadcasts
+    'broadcast.not_authorized': 'You are not authorized to send broadcasts.',
+    'broadcast.select_target': 'Who should receive this announcement?',
+    'broadcast.target_users': '👤 Users',
+    'broadcast.target_counselors': '🧑‍⚕️ Counselors',
+    'broadcast.target_everyone': '🌍 Everyone',
+    'broadcast.target_counselor_language': '🗣 Counselors by language',
+    'broadcast.target_counselor_domain': '🎯 Counselors by expertise',
+    'broadcast.target_active_users': '⏱ Recently active users',
+    'broadcast.target_open_prayer_users': '🙏 Users with open prayers',
+    'broadcast.prompt_language': 'Which language should the counselors speak? Choose one or type it.',
+    'broadcast.prompt_domain': 'Which area of expertise? Choose one or type it.',
+    'broadcast.prompt_active_days': 'Send to users active in how many of the last days? Enter a number from 1 to {max}.',
+    'broadcast.invalid_active_days': 'Please enter a whole number of days from 1 to {max}.',
+    'broadcast.audience_counselor_language': 'Counselors speaking {language}',
+    'broadcast.audience_counselor_domain': 'Counselors with {domain} expertise',
+    'broadcast.audience_active_users': 'Users active in the last {days} days',
+    'broadcast.cancelled': 'Broadcast cancelled.',
+    'broadcast.invalid_target': 'Please select one of the audiences shown, or Cancel.',
+    'broadcast.prompt_message': 'Please type the announcement message, or send a photo or document with an optional caption:',
+    'broadcast.message_empty': 'Please enter a non-empty message.',
+    'broadcast.compose': 'Choose the formatting and any call-to-action buttons, then preview the broadcast. Send a new text or file to replace the content.\n\nFormat: {format}\nButtons: {buttons}',
+    'broadcast.format_plain': 'Plain text',
+    'broadcast.format_markdown': 'Markdown',
+    'broadcast.format_html': 'HTML',
+    'broadcast.button_start_counseling': 'Start counseling',
+    'broadcast.button_submit_prayer': 'Submit prayer',
+    'broadcast.buttons_none': 'none',
+    'broadcast.preview_button': '👁 Preview',
+    'broadcast.preview_failed': 'Telegram could not send this broadcast: {message}\nCheck the formatting or choose another format, then preview again.',
+    'broadcast.preview_required': 'Please preview the broadcast before sending or scheduling it.',
+    'broadcast.preview': 'Above is how recipients will see this broadcast.\n\nAudience: {audience} ({recipientCount} recipients)\n\nSend now or schedule it for later?',
+    'broadcast.send_button': '✅ Send',
+    'broadcast.schedule_button': '🕒 Schedule',
+    'broadcast.prompt_schedule': 'When should it be sent? Enter a UTC date and time as YYYY-MM-DD HH:MM, for example {example}.',
+    'broadcast.invalid_schedule': 'Please enter a future UTC date and time as YYYY-MM-DD HH:MM, for example {example}.',
+    'broadcast.scheduled': 'Broadcast {broadcastId} scheduled for {scheduledFor}. Use /broadcasts to review or cancel it.',
+    'broadcast.expired': 'Broadcast session expired. Please start again.',
+    'broadcast.queued': 'Broadcast queued. It is sent in the background, so you can keep using the bot; progress is shown below.',
+    'broadcast.progress_waiting': '📢 Broadcast waiting to start...',
+    'broadcast.progress': '📢 Sending broadcast {broadcastId}: {processed}/{recipientCount}\nDelivered: {successCount}, Failed: {failedCount}, Blocked the bot: {unreachableCount}',
+    'broadcast.progress_done': '✅ Broadcast {broadcastId} finished: {processed}/{recipientCount}\nDelivered: {successCount}, Failed: {failedCount}, Blocked the bot: {unreachableCount}',
+    'broadcast.progress_paused': '⏸ Broadcast {broadcastId} paused at {processed}/{recipientCount} while the bot restarts. It will resume automatically.\nDelivered: {successCount}, Failed: {failedCount}, Blocked the bot: {unreachableCount}',
+    'broadcast.failed': 'Broadcast failed: {message}. Please try again.',
+    'broadcast.list_scheduled_header': 'Scheduled broadcasts ({count}):',
+    'broadcast.list_scheduled_none': 'No broadcasts are scheduled.',
+    'broadcast.list_scheduled_item': '{broadcastId} at {scheduledFor}\nAudience: {audience}\n\n{message}',
+    'broadcast.list_recent_header': 'Recent broadcasts:',
+    'broadcast.list_recent_item': '{broadcastId} ({status}) {date}\nAudience: {audience}\nSuccess: {successCount}, Failed: {failedCount}, Blocked the bot: {unreachableCount}',
+    'broadcast.cancel_button': '🚫 Cancel broadcast',
+    'broadcast.report_button': '📊 Delivery report',
+    'broadcast.schedule_cancelled': 'Scheduled broadcast {broadcastId} cancelled.',
+    'broadcast.cancel_unavailable': 'This broadcast is no longer scheduled, so it cannot be cancelled.',
+    'broadcast.not_found': 'Broadcast not found.',
+    'broadcast.report': 'Broadcast {broadcastId} ({status})\nAudience: {audience}\nSuccess: {successCount}, Failed: {failedCount}, Blocked the bot: {unreachableCount}',
+    'broadcast.report_failures': 'Failed and unreachable recipients (first {count}):\n{lines}',
+    'broadcast.status_scheduled': 'scheduled',
+    'broadcast.status_sending': 'sending',
+    'broadcast.status_sent': 'sent',
+    'broadcast.status_cancelled': 'cancelled',
+    'broadcast.header': '📢 System Announcement',
+    'broadcast.footer': '— System Notification',
+
+    // Errors thrown by managers, matched by translateError
+    'error.session_not_found': 'Session not found.',
+    'error.active_session_not_found': 'Active session not found.',
+    'error.user_not_found': 'User not found.',
+    'error.user_has_active_session': 'User already has an active session.',
+    'error.counselor_not_available': 'Counselor not available for session.',
+    'error.counselor_no_capacity': 'Counselor has no remaining session capacity.',
+    'error.counselor_not_assigned': 'Counselor is not assigned to this session.',
+    'error.follow_up_delay_invalid': 'Follow-up delay must be a whole number of days between 1 and {max}.',
+    'error.follow_up_session_active': 'Follow-ups can only be scheduled after the session ends.',
+    'error.consent_required': 'Consent is required before starting a session.',
+    'error.message_empty': 'Message content cannot be empty.',
+    'error.media_missing_file': 'Media message must include a file reference.',
+    'error.rating_invalid': 'Rating must be a number between 1 and 5.',
+    'error.rating_active_session': 'Cannot rate an active session.',
+    'error.rating_not_authorized': 'User is not authorized to rate this session.',
+    'error.history_not_authorized': 'Requester is not authorized to view this session history.',
+    'error.counselor_not_found': 'Counselor not found: {counselorId}',
+    'error.capacity_invalid': 'Capacity must be a whole number between 1 and {max}.',
+    'error.alias_invalid': 'Alias must be 3 to {max} letters, numbers, spaces or hyphens.',
+    'error.alias_identifying': 'Alias must not contain your real name or Telegram username.',
+    'error.alias_taken': 'That alias is already in use.',
+    'error.bio_invalid': 'Bio must be between 1 and {max} characters.',
+    'error.profile_update_not_found': 'No pending profile change for this counselor.',
+    'error.report_not_found': 'Report not found.',
+    'error.report_reason_required': 'Report reason is required.',
+    'error.queue_preferences_required': 'Matching preferences are required to join the queue.',
+    'error.prayer_not_found': 'Prayer request not found',
+    'error.erasure_active_session': 'End your active session before deleting your data.'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
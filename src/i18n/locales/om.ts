@@ -0,0 +1,577 @@
+import { MessageCatalog } from './en';
+
+// Afaan Oromo: every key in en.ts, in the same order
+export const om: MessageCatalog = {
+    // Menu labels
+    'menu.start_counseling': '💬 Gorsaa waliin haasaa jalqabi',
+    'menu.submit_prayer': '🙏 Gaaffii kadhannaa galchi',
+    'menu.my_prayers': '📿 Gaaffiiwwan kadhannaa koo',
+    'menu.history': '📜 Seenaa koo',
+    'menu.help': 'ℹ️ Gargaarsa',
+    'menu.end_session': '🛑 Marii xumuri',
+    'menu.report': '⚠️ Gabaasi',
+    'menu.main': '🏠 Baafata ijoo',
+    'menu.register_counselor': '🧑‍⚕️ Akka gorsaatti galmaa\'i',
+    'menu.status_available': '✅ Qophaa\'aa dha',
+    'menu.status_away': '⚪ Hin jiru',
+    'menu.my_stats': '📊 Istaatistiksii koo',
+    'menu.prayer_requests': '🙏 Gaaffiiwwan kadhannaa',
+    'menu.close_prayer': '✅ Kadhannaawwan cufi',
+    'menu.transfer_session': '🔁 Marii ogeessatti dabarsi',
+    'menu.switch_conversation': '🔀 Haasaa jijjiiri',
+    'menu.admin_stats': '🛡️ Istaatistiksii bulchaa',
+    'menu.pending_reports': '🚩 Gabaasawwan eegaa jiran',
+    'menu.process_report': '⚙️ Gabaasa hojii irra oolchi',
+    'menu.counselor_list': '🧑‍⚕️ Tarree gorsitootaa',
+    'menu.appeal': '📝 Iyyannoo',
+    'menu.appeals': '🧾 Iyyannoowwan',
+    'menu.approve_counselor': '✅ Gorsaa mirkaneessi',
+    'menu.remove_counselor': '🗑️ Gorsaa haqi',
+    'menu.audit_log': '📜 Galmee odiitii',
+    'menu.broadcast': '📢 Ergaa waliigalaa',
+    'menu.language': '🌐 Afaan',
+
+    // Menu prompts
+    'menu.main_prompt': 'Baafata ijoo:',
+    'menu.active_session_notice': 'Marii itti fufaa jiru qabda. Xumuruuf "Marii xumuri" fayyadami.',
+
+    // Shared
+    'common.previous': '⬅️ Kan duraa',
+    'common.next': 'Kan itti aanu ➡️',
+    'common.page': 'Fuula {page}/{totalPages}',
+    'common.generic_error': 'Dhiifama, rakkoon uumameera. Maaloo booda irra deebi\'ii yaali.',
+    'common.user': 'Fayyadamaa',
+    'common.counselor': 'Gorsaa',
+    'common.counselor_alias': 'Gorsaa {alias}',
+    'common.invalid_response': 'Maaloo deebii sirrii galchi.',
+    'common.use_buttons': 'Itti fufuuf maaloo qabduuwwan kennaman fayyadami.',
+    'common.select_one_language': 'Maaloo yoo xiqqaate afaan tokko filadhu.',
+    'common.first_step': 'Amma sadarkaa jalqabaa irra jirta.',
+    'common.done': '✅ Xumureera',
+    'common.back': '⬅️ Duubatti',
+    'common.cancel': '❌ Haqi',
+    'common.not_available': 'Hin jiru',
+    'common.yes': 'Eeyyee',
+    'common.no': 'Lakki',
+
+    // General
+    'general.welcome': 'Baga nagaan dhufte! Eenyummaan kee hin beekamu; lakkoofsi kee {userId} dha. Jalqabuuf qabduuwwan armaan gadii fayyadami.',
+    'general.use_menu': 'Itti fufuuf qabduuwwan baafataa armaan gadii fayyadami.',
+    'general.choose_language': 'Afaan kee filadhu:',
+    'general.language_updated': 'Afaan gara {language} jijjiirameera.',
+    'general.help_user': 'Gorsa jalqabuuf, gaaffii kadhannaa galchuuf, seenaa kee ilaaluuf ykn gargaarsa argachuuf qabduuwwan baafataa fayyadami.\n\n/my_prayers - Gaaffiiwwan kadhannaa keetiif odeeffannoo haaraa maxxansi ykn deebii argachuu isaanii mallatteessi\n/my_data - Odeeffannoo waa\'ee kee kuufame hunda buufadhu\n/delete_my_data - Odeeffannoo kee haqi',
+    'general.help_commands_header': 'Ajajawwan:',
+    'general.help_counselor_commands': '/register_counselor - Akka gorsaatti galmaa\'i (hayyama bulchaa barbaachisa)\n/available | /away - Qophaa\'ummaa gorsaa kee qindeessi\n/capacity [1-{maxCapacity}] - Baay\'ina marii yeroo tokkotti qabattu ilaali ykn qindeessi\n/my_stats - Istaatistiksii gorsaa ilaali\n/profile - Maqaa masoo fi ibsa fayyadamtoonni argan ilaali\n/set_alias <alias> | /set_bio <text> - Jijjiirama piroofaayilii gaafadhu (bulchaan ni ilaala)\n/list_of_prayer_requests [health|family|work|spiritual|other] - Gaaffiiwwan kadhannaa ilaali, yoo barbaadde gosa tokko keessatti\n/close_prayer <prayerId> - Gaaffii kadhannaa cufi\n/language - Afaan bot kanaa jijjiiri\n{transferLabel} - Marii itti fufaa jiru dabarsi (baafata)\n{switchLabel} - Marii itti fufaa jiru kam akka deebiftu filadhu (baafata)',
+    'general.help_admin_commands': '/admin_stats - Istaatistiksii sirnichaa ilaali (bulchitoota)\n/pending_reports - Gabaasawwan eegaa jiran tarreessi (bulchitoota)\n/process_report <reportId> <strike|dismiss> - Gabaasa hojii irra oolchi (bulchitoota)\n/approve_counselor <counselorId> - Gorsaa mirkaneessi (bulchitoota)\n/remove_counselor <counselorId> - Gorsaa haqi (bulchitoota)\n/audit_log [limit] - Galmee odiitii bulchaa ilaali (bulchitoota)\n/profile_reviews - Jijjiirama maqaa masoo fi seenaa gorsitootaa ilaali (bulchitoota)\n/rotate_message_keys - Furtuuwwan iccitii ergaa furtuu ijoo ammaatiin irra deebi\'ii maruuf (bulchitoota)\n/cleanup_preview - Qulqulleessi daataa itti aanu maal akka haqu ilaali, amma hojjechiisuuf qabduu waliin (bulchitoota)\n/pending_actions - Tarkaanfiiwwan balleessoo bulchaa lammaffaa eegan mirkaneessi ykn didi (bulchitoota)\n/prayer_wall - Gaaffiiwwan kadhannaa dallaa kadhannaa irratti maxxanfamuuf eegan ilaali (bulchitoota)\n/admins - Bulchitootaa fi gahee isaanii tarreessi (bulchitoota olaanoo)\n/add_admin <chatId> <role> - Bulchaa dabali ykn gahee isaa jijjiiri (bulchitoota olaanoo)\n/remove_admin <chatId> - Bulchaa haqi (bulchitoota olaanoo)\n/broadcasts - Ergaawwan waliigalaa karoorfamanii fi dhiyoo ilaali (bulchitoota)\n{broadcastLabel} - Beeksisa sirnichaa ergi (baafata qofaan, bulchitoota)',
+
+    // Sessions
+    'session.no_active_session': 'Mariin itti fufaa jiru hin argamne.',
+    'session.media_requires_session': 'Suuraa, sagalee fi faayiloota qooduun kan danda\'amu yeroo marii gorsaa itti fufaa jiru qofa.',
+    'session.crisis_hotline': 'Balaa hatattamaa keessa yoo jirtan ykn lubbuu keessan baasuuf yoo yaadaa jirtan, maaloo amma tajaajila hatattamaa naannoo keessanii ykn sarara bilbilaa gargaarsa rakkoo hamaa quunnamaa, ykn hospitaala isinitti dhiyoo deemaa. Isin kophaa miti.',
+    'session.crisis_counselor_alert': '🚨 AKEEKKACHIISA BALAA (marii {sessionId}): ergaan itti aanu jecha ofiin of miidhuu agarsiisuu danda\'u of keessaa qaba. Maaloo haasaa kanaaf dursa kenni, qajeelfama balaa hordofi. Bulchitoonni beeksifamaniiru.',
+    'session.crisis_admin_alert': '🚨 Akeekkachiisa balaa marii {sessionId} ({language}) keessatti. Gorsaan beeksifameera, fayyadamaan immoo sarara bilbilaa gargaarsa hatattamaa argeera.',
+    'session.choose_conversation': 'Haasaa itti fufaa jiru {count} qabda. Eenyuuf akka deebiftu filadhu, ykn ergaa isaanii tokkoof kallattiin deebisi.',
+    'session.switch_counselors_only': 'Haasaa jijjiiruu kan danda\'an gorsitoota mirkanaa\'an qofa.',
+    'session.currently_replying': 'Amma {label} keessatti deebisaa jirta.',
+    'session.no_conversation_selected': 'Hanga ammaatti haasaan hin filatamne.',
+    'session.select_conversation': 'Haasaa filadhu:',
+    'session.conversation_inactive': 'Haasaan sun kana booda hin hojjetu.',
+    'session.now_replying': 'Amma {label} keessatti deebifta.',
+    'session.general_support': 'Deeggarsa waliigalaa',
+    'session.conversation_label': 'Haasaa {position} · {topic}',
+    'session.new_session_multiple': 'Mariin haaraan jalqabeera ({label}). Lakkoofsa fayyadamaa: {userId}. Ergaa isaaniitiif deebisi ykn eenyuuf akka deebiftu filachuuf {switchLabel} fayyadami.',
+    'session.new_session': 'Mariin haaraan jalqabeera. Lakkoofsa fayyadamaa: {userId}. Deebisuuf akkuma baratametti barreessi.',
+    'session.no_log_notice': '🔒 Fayyadamaan marii hin galmoofne filateera. Ergaawwan ni darbu malee gonkumaa hin kuufaman, kanaaf booda galmeen haasaa hin jiraatu.',
+    'session.admin_no_sessions': 'Bulchitoonni marii itti fufaa jiru kan xumuran hin qaban.',
+    'session.nothing_to_end': 'Mariin xumuramu hin jiru.',
+    'session.ended_by_user': 'Mariin xumurameera. Fayyadamaan marii xumureera.',
+    'session.ended': 'Mariin xumurameera.',
+    'session.ended_by_counselor': 'Mariin kee xumurameera. Maaloo gorsaa kee 1-5 tti madaali. Itti fufuuf madaallii barbaachisa.',
+    'session.rating_users_only': 'Marii madaaluu kan danda\'an fayyadamtoota qofa.',
+    'session.rating_failed': 'Madaallii galmeessuun hin danda\'amne.',
+    'session.rating_thanks': 'Madaallii keetiif galatoomi. Marii kana {rating}/5 kenniteetta. Yoo barbaachise baafata armaan gadii irraa gorsaa gabaasuu dandeessa.',
+    'session.rating_prompt': 'Mariin xumurameera. Maaloo gorsaa kee 1-5 tti madaali. Itti fufuuf madaallii barbaachisa.',
+    'session.counselor_intro': 'Amma {counselor} waliin haasaa jirta.',
+    'session.counselor_intro_bio': 'Amma {counselor} waliin haasaa jirta.\nIsaan ilaalchisee: {bio}',
+    'session.recent_history': 'Seenaa haasaa dhiyoo (ergaawwan 50 dhumaa):',
+
+    // Matching and waiting queue
+    'matching.admin_cannot_start': 'Bulchitoonni marii gorsaa jalqabuu hin danda\'an.',
+    'matching.already_in_session': 'Marii itti fufaa jiru qabda.',
+    'matching.consent_wrong_account': 'Herrega kanaaf walii galtee mirkaneessuun hin danda\'amne.',
+    'matching.no_pending_consent': 'Gaaffiin walii galtee eegamu hin jiru. Jalqabuuf "Gorsaa waliin haasaa jalqabi" fayyadami.',
+    'matching.missing_preferences': 'Filannoon walsimsiisuu hin argamne. Maaloo afaanii fi damee kee irra deebi\'ii filadhu.',
+    'matching.complete_steps_first': 'Walii galtee kennuu kee dura maaloo sadarkaalee walsimsiisuu xumuri.',
+    'matching.searching': 'Gorsaa si malu barbaachaa jira...',
+    'matching.no_counselors_available': 'Amma gorsaan qophaa\'e hin jiru. Tarree eegumsaa seenuu dandeessa; akkuma gorsaan argameen si walqunnamsiifna.',
+    'matching.no_language_match': 'Amma gorsaan afaan kee dubbatu hin jiru. Afaan biraa filachuu ykn eeguu dandeessa.',
+    'matching.session_started': 'Mariin jalqabeera. Gorsaan kee beeksifameera. Lakkoofsa marii: {sessionId}',
+    'matching.session_start_failed': 'Amma marii jalqabuun hin danda\'amne. Maaloo booda irra deebi\'ii yaali.',
+    'matching.language_added': 'Afaan dabalame: {language}. Kan biraa filadhu ykn "Xumureera" tuqi.',
+    'matching.canceled': 'Barbaachi haqameera.',
+    'matching.retry_language': 'Afaan (afaanota) filattu filadhu.',
+    'matching.queue_joined': 'Tarree keessatti #{position} dha. Akkuma gorsaan argameen si walqunnamsiifna.',
+    'matching.queue_leave_hint': 'Yeroo barbaadde tarree keessaa ba\'uu dandeessa.',
+    'matching.not_in_queue': 'Tarree eegumsaa keessa hin jirtu.',
+    'matching.queue_left': 'Tarree eegumsaa keessaa baateetta.',
+    'matching.queue_status': 'Gorsaaf tarree keessatti #{position} dha. Akkuma gorsaan argameen si walqunnamsiifna.',
+    'matching.leave_queue_button': '🚪 Tarree keessaa ba\'i',
+    'matching.queue_session_started': 'Gorsaan argameera. Mariin kee jalqabeera. Lakkoofsa marii: {sessionId}',
+    'matching.queue_position_update': 'Amma gorsaaf tarree keessatti #{position} dha.',
+    'matching.queue_expired': 'Dhiifama, gorsaan yeroon qophaa\'e waan hin argamneef tarree eegumsaa keessaa baafamteetta. Maaloo booda irra deebi\'ii yaali.',
+    'matching.prompt_language': 'Afaan (afaanota) filattu filadhu (tokkoo ol filachuun ni danda\'ama). Yommuu xumurtu "Xumureera" tuqi.',
+    'matching.prompt_language_other': 'Maaloo afaan filattu barreessi.',
+    'matching.prompt_domain': 'Damee gorsaa kee filadhu (tokko qofa).',
+    'matching.prompt_domain_other': 'Maaloo damee gorsaa barbaaddu barreessi.',
+    'matching.consent_disclosure': 'Osoo hin jalqabin: Mariin gorsaa kun eenyummaa kee hin ibsu. Ergaawwan nageenyaa fi qulqullinaaf galmeeffamuu danda\'u. Odeeffannoo eenyummaa kee ibsu hin qoodin. Itti fufuun kee haala kana irratti hirmaachuuf walii galuu kee agarsiisa.',
+    'matching.consent_counselor': '{counselor} waliin haasofta.',
+    'matching.consent_button': '✅ Walii galeera, itti fufi',
+    'matching.consent_no_log_option': 'Yoo barbaadde "Ergaawwan koo hin kuusinaa" filadhu: ergaawwan kee gorsaa keetiif ni darbu malee gonkumaa hin kuufaman. Galmeen haasaa booda ati ilaaltu ykn yoo gorsaa gabaafte bulchitoonni sakatta\'an hin jiraatu.',
+    'matching.consent_no_log_button': '🔒 Walii galeera, garuu ergaawwan koo hin kuusinaa',
+    'matching.continue_setup': 'Qophii marii keetii itti haa fufnu.',
+    'matching.join_queue_button': '⏳ Tarree eegumsaa seeni',
+    'matching.choose_another_language_button': '🔁 Afaan biraa filadhu',
+    'matching.wait_button': '⏳ Gorsaa eegi',
+    'matching.previous_counselor_prompt': 'Gorsaa kanaan dura waliin haasofte waliin itti fufuu barbaaddaa? Jalqaba akka mirkaneessan gaafatamu. Gorsaa haaraas barbaaduu dandeessa.',
+    'matching.previous_counselor_button': '🤝 {counselor} · {date}',
+    'matching.find_new_counselor_button': '🔎 Gorsaa haaraa barbaadi',
+    'matching.previous_counselor_unavailable': 'Gorsaan sun amma hin argamu.',
+    'matching.previous_request_sent': 'Gorsaan kee duraanii akka si waliin itti fufu gaafanneerra. Yoo daqiiqaa {minutes} keessatti hin deebisne, gorsaa biraa akka argattu si gargaarra.',
+    'matching.previous_request_pending': 'Ammallee deebii gorsaa kee duraanii eegaa jirra.',
+    'matching.previous_counselor_accepted': 'Gorsaan kee duraanii fudhateera. Mariin kee jalqabeera. Lakkoofsa marii: {sessionId}',
+    'matching.previous_counselor_declined': 'Gorsaan kee duraanii amma marii fudhachuu hin danda\'u.',
+    'matching.previous_counselor_timeout': 'Gorsaan kee duraanii yeroon hin deebisne.',
+    'matching.previous_fallback_prompt': 'Gorsaa biraa akka siif barbaannu barbaaddaa?',
+    'matching.previous_request_to_counselor': 'Fayyadamaan kanaan dura gargaarte (marii dhumaa {date}) si waliin itti fufuu barbaada. Maaloo daqiiqaa {minutes} keessatti deebisi.',
+    'matching.previous_accept_button': '✅ Fudhadhu',
+    'matching.previous_decline_button': '❌ Didi',
+    'matching.previous_request_inactive': 'Gaaffiin kun kana booda hin hojjetu.',
+    'matching.previous_request_declined': 'Gaaffiin didameera. Fayyadamaan gorsaa biraa waliin walsimsiifama.',
+
+    // Session transfers
+    'transfer.not_approved': 'Marii dabarsuuf hin mirkanoofne.',
+    'transfer.missing_preferences': 'Filannoo marii beekuun hin danda\'amne. Maaloo itti fufi ykn marii xumuri.',
+    'transfer.select_reason': 'Sababa dabarsaa filadhu:',
+    'transfer.enter_reason': 'Maaloo sababa dabarsaa galchi.',
+    'transfer.reason_empty': 'Maaloo dabarsaaf sababa galchi.',
+    'transfer.reason_required': 'Sababni dabarsaa barbaachisaadha.',
+    'transfer.no_candidates': 'Gorsaan ogeessa walsimu hin jiru. Filannoo armaan gadii keessaa tokko filadhu.',
+    'transfer.request_sent': 'Gaaffiin dabarsaa ergameera. Deebii gorsaa eegaa jira...',
+    'transfer.request_inactive': 'Gaaffiin dabarsaa kun kana booda hin hojjetu.',
+    'transfer.accept_failed': 'Dabarsa fudhachuun hin danda\'amne.',
+    'transfer.request_expired': 'Yeroon gaaffii dabarsaa kanaa darbeera.',
+    'transfer.no_capacity': 'Dabarsa kana fudhachuuf dandeettii marii hafe hin qabdu.',
+    'transfer.completed': 'Mariin milkaa\'inaan dabarfameera.',
+    'transfer.user_notice': 'Akka caalaatti si gargaaruuf, mariin kee gorsaa biraa ogummaa barbaachisu qabutti dabarfameera.',
+    'transfer.connected': 'Amma fayyadamaa waliin walqunnamteetta. Seenaan haasaa ni argama.',
+    'transfer.decline_failed': 'Dabarsa diduun hin danda\'amne.',
+    'transfer.nobody_accepted': 'Gorsaan ogeessa qophaa\'e gaaffii dabarsaa kan fudhate hin jiru.',
+    'transfer.declined': 'Didameera. Gaaffiin gorsaa biraatti dabarfameera.',
+    'transfer.continuing': 'Marii ammaa itti fufaa jira.',
+    'transfer.waiting': 'Hanga ogeessi argamutti ni eegna. Booda dabarsa irra deebi\'ii yaali.',
+    'transfer.canceled': 'Dabarsi haqameera.',
+    'transfer.continue_button': '✅ Marii itti fufi',
+    'transfer.wait_button': '⏳ Ogeessa eegi',
+    'transfer.request': 'Gaaffii dabarsa marii qabda.\nDamee: {domain}\nAfaan: {languages}\nSababa: {reason}',
+    'transfer.accept_button': '✅ Dabarsa fudhadhu',
+    'transfer.decline_button': '❌ Didi',
+
+    // Follow-up check-ins
+    'followup.offer': 'Bot kun booda nama kana akka gaafatu barbaaddaa? Eenyummaan isaanii dhokataa ta\'ee hafa, si waliin deebi\'anii wal qunnamuus filachuu danda\'u.',
+    'followup.delay_button': '📅 Guyyaa {days} booda',
+    'followup.not_approved': 'Hordoffii qindeessuu kan danda\'an gorsitoota mirkanaa\'an qofa.',
+    'followup.schedule_failed': 'Hordoffii qindeessuun hin danda\'amne.',
+    'followup.scheduled': 'Hordoffiin {date}f qindaa\'eera. Ergaa duraa irratti yeroo biraa filachuun kana bakka buusa.',
+    'followup.cancel_button': '❌ Hordoffii haqi',
+    'followup.cancelled': 'Hordoffiin haqameera.',
+    'followup.cannot_cancel': 'Hordoffiin kun duraan ergameera ykn haqameera.',
+    'followup.check_in': '👋 Akkam, kun ergaa hordoffii gorsaa kee irraa dhufe dha. Akkam jirta? Gorsaa kee duraanii waliin deebitee wal qunnamuu, marii haaraa jalqabuu ykn nagaa akka jirtu nutti himuu dandeessa.',
+    'followup.reconnect_button': '🤝 Gorsaa koo waliin deebi\'ee wal qunnami',
+    'followup.new_session_button': '💬 Marii haaraa jalqabi',
+    'followup.decline_button': '🙏 Galatoomaa, nagaadha',
+    'followup.no_longer_active': 'Ergaan hordoffii kun kana booda hin hojjetu.',
+    'followup.counselor_unavailable': 'Gorsaan kee duraanii amma hin argamu. Qooda kanaa gorsaa biraa waliin marii haaraa jalqabuu dandeessa.',
+    'followup.reconnected': 'Gorsaa kee waliin deebitee wal qunnamteetta. Lakkoofsa marii: {sessionId}',
+    'followup.declined': 'Kana dhaga\'uu keenyatti gammadneerra. Yeroo barbaadde baafata irraa nu qunnamuu dandeessa.',
+
+    // Counselor registration
+    'onboarding.already_registered': 'Duraan akka gorsaatti galmoofteetta.',
+    'onboarding.already_pending': 'Iyyannoon gorsummaa kee duraan galfameera, hayyama bulchaa eegaa jira.',
+    'onboarding.counselor_id': 'Lakkoofsa gorsaa: {counselorId}',
+    'onboarding.prompt_full_name': 'Maaloo maqaa kee guutuu galchi.',
+    'onboarding.username_detected': 'Maqaan fayyadamaa Telegram argameera: {username}. Amma afaanota dubbattu filadhu.',
+    'onboarding.prompt_username': 'Maaloo maqaa fayyadamaa Telegram kee galchi.',
+    'onboarding.current_value': 'Kan ammaa: {value}',
+    'onboarding.language_empty': 'Maaloo maqaa afaanii galchi.',
+    'onboarding.domain_empty': 'Maaloo maqaa damee galchi.',
+    'onboarding.domain_added': 'Damee dabalame: {domain}. Kan biraa filadhu ykn "Xumureera" tuqi.',
+    'onboarding.experience_invalid': 'Maaloo waggoota muuxannoo kee lakkoofsa poozatiivii galchi.',
+    'onboarding.prompt_country': 'Maaloo biyya kee galchi.',
+    'onboarding.prompt_location': 'Maaloo magaalaa ykn naannoo kee galchi.',
+    'onboarding.select_one_domain': 'Maaloo yoo xiqqaate damee tokko filadhu.',
+    'onboarding.canceled': 'Galmeen gorsaa haqameera.',
+    'onboarding.restarted': 'Odeeffannoon tokko tokko waan dhabameef galmeen irra deebi\'ee jalqabameera.',
+    'onboarding.admin_application': '🧑‍⚕️ Iyyannoo gorsaa haaraa\nID: {counselorId}\nMaqaa masoo: {alias}\nMaqaa guutuu: {fullName}\nTelegram: {telegram}\nAfaanota: {languages}\nOgummaa: {domains}\nMuuxannoo: waggaa {experience}\nBiyya: {country}\nBakka: {location}\nHaala: Hayyama bulchaa eegaa jira',
+    'onboarding.submitted': 'Iyyannoon gorsummaa kee galfameera. Lakkoofsa gorsaa: {counselorId}. Haala: Hayyama bulchaa eegaa jira.\nFayyadamtoonni si kan beekan maqaa {alias} qofaan. Ilaaluuf ykn jijjiiruuf /profile fayyadami.',
+    'onboarding.prompt_languages': 'Afaanota dubbattu filadhu (tokkoo ol filachuun ni danda\'ama). Yommuu xumurtu "Xumureera" tuqi.',
+    'onboarding.prompt_language_other': 'Maaloo afaan biraa dubbattu barreessi.',
+    'onboarding.prompt_domains': 'Dameewwan ogummaa gorsaa kee filadhu (tokkoo ol filachuun ni danda\'ama). Yommuu xumurtu "Xumureera" tuqi.',
+    'onboarding.prompt_domain_other': 'Maaloo damee gorsaa biraa barreessi.',
+    'onboarding.prompt_experience': 'Muuxannoo gorsaa waggaa meeqa qabda? (lakkoofsa qofa)',
+    'onboarding.confirm_prompt': 'Iyyannoo galchuu mirkaneessitaa?',
+    'onboarding.continue_application': 'Iyyannoo gorsummaa keetii itti haa fufnu.',
+    'onboarding.submit_button': '✅ Iyyannoo galchi',
+    'onboarding.summary': '🧑‍⚕️ Cuunfaa iyyannoo gorsummaa\nMaqaa guutuu: {fullName}\nTelegram: {telegram}\nAfaanota: {languages}\nOgummaa: {domains}\nMuuxannoo: waggaa {experience}\nBiyya: {country}\nBakka: {location}',
+
+    // Counselor self-service
+    'counselor.not_registered': 'Akka gorsaatti hin galmoofne. Jalqaba /register_counselor fayyadami.',
+    'counselor.status_not_approved': 'Haala kee jijjiiruuf hin mirkanoofne.',
+    'counselor.status_updated': 'Haalli kee gara {status} jijjiirameera.',
+    'counselor.status_available': 'qophaa\'aa',
+    'counselor.status_busy': 'hojiin qabamaa',
+    'counselor.status_away': 'hin jiru',
+    'counselor.stats_not_approved': 'Istaatistiksii gorsaa ilaaluuf hin mirkanoofne.',
+    'counselor.stats': 'Mariiwwan xumuraman: {completed}\nMariiwwan itti fufaa jiran: {active}/{capacity}\nYeroo giddugaleessaa: daqiiqaa {averageDuration}\nSa\'aatii hojiin baay\'atu: {peakHours}',
+    'counselor.capacity_not_approved': 'Dandeettii marii kee jijjiiruuf hin mirkanoofne.',
+    'counselor.capacity_current': 'Amma yeroo tokkotti marii {capacity} qabachuu dandeessa. Jijjiiruuf /capacity <1-{maxCapacity}> fayyadami.',
+    'counselor.capacity_updated': 'Dandeettiin jijjiirameera. Amma yeroo tokkotti marii {capacity} qabachuu dandeessa.',
+    'counselor.profile': '🪪 Piroofaayilii kee ummataa\nMaqaa masoo: {alias}\nIbsa: {bio}\n\nFayyadamtoonni maqaa kee bakka kana argu. Jijjiirama gaafachuuf /set_alias <alias> ykn /set_bio <text> fayyadami; jalqaba bulchaan ni ilaala.',
+    'counselor.profile_pending': 'Ilaalcha bulchaa eegaa jira:\nMaqaa masoo: {alias}\nIbsa: {bio}',
+    'counselor.profile_suspended': 'Gorsitoonni dhorkaman piroofaayilii ummataa isaanii jijjiiruu hin danda\'an.',
+    'counselor.alias_usage': 'Itti fayyadama: /set_alias <alias>',
+    'counselor.bio_usage': 'Itti fayyadama: /set_bio <seensa gabaabaa fayyadamtoonni argan>',
+    'counselor.profile_update_submitted': 'Jijjiiramni piroofaayilii kee akka ilaalamuuf bulchitootatti ergameera.',
+    'counselor.profile_update_failed': 'Jijjiirama piroofaayilii kee galchuun hin danda\'amne.',
+    'counselor.profile_update_approved': 'Jijjiiramni piroofaayilii kee mirkanaa\'eera. Fayyadamtoonni amma akka {alias}tti si argu.',
+    'counselor.profile_update_rejected': 'Jijjiiramni piroofaayilii kee hin mirkanoofne. Piroofaayiliin kee ummataa hin jijjiiramne.',
+
+    // Prayer requests
+    'prayer.select_category': 'Gaaffiin kadhannaa kee waa\'ee maalii?',
+    'prayer.category_health': '🩺 Fayyaa',
+    'prayer.category_family': '👨‍👩‍👧 Maatii',
+    'prayer.category_work': '💼 Hojii',
+    'prayer.category_spiritual': '✝️ Hafuuraa',
+    'prayer.category_other': '🕊 Kan biraa',
+    'prayer.category_all': '📋 Hunda',
+    'prayer.prompt_title': 'Maaloo mata duree kadhannaa keetii galchi.',
+    'prayer.received': 'Gaaffiin kadhannaa kee nu qaqqabeera. Gorsitoonni ni kadhatu.',
+    'prayer.view_not_approved': 'Gaaffiiwwan kadhannaa ilaaluuf hin mirkanoofne.',
+    'prayer.none': 'Gaaffiin kadhannaa hin jiru.',
+    'prayer.none_in_category': '{category} keessatti gaaffiin kadhannaa hin jiru.',
+    'prayer.list_header': 'Gaaffiiwwan kadhannaa ({count}):',
+    'prayer.list_header_category': 'Gaaffiiwwan kadhannaa {category} keessaa ({count}):',
+    'prayer.item': '🙏 Gaaffii kadhannaa\nMata duree: {title}\nGosa: {category}\nLakkoofsa: {prayerId}\nKan galfame: {submittedAt}\nKan kadhataniif: {prayedCount}\nOdeeffannoo haaraa: {updateCount}',
+    'prayer.item_latest_update': 'Odeeffannoo haaraa dhumaa ({updatedAt}): {text}',
+    'prayer.close_button': '✅ Kadhannaa cufi',
+    'prayer.prayed_button': '🙏 Kadhadheera',
+    'prayer.prayed_recorded': 'Waan kadhatteef galatoomi. Namni gaaffii galche eenyummaa kee osoo hin beekin ni jajjabaata.',
+    'prayer.already_prayed': 'Gaaffii kanaaf duraan kadhatteetta.',
+    'prayer.updates_notice': 'Yeroo gorsitoonni itti kadhatan, eenyummaa isaanii osoo hin ibsin sitti himna.',
+    'prayer.prayed_count_one': '🙏 Gorsaan tokko gaaffii kadhannaa kee "{title}"f kadhateera.',
+    'prayer.prayed_count': '🙏 Gorsitoonni {count} gaaffii kadhannaa kee "{title}"f kadhataniiru.',
+    'prayer.mute_button': '🔕 Odeeffannoo gaaffii kanaa dhaabi',
+    'prayer.unmute_button': '🔔 Odeeffannoo itti fufi',
+    'prayer.muted': 'Kana booda waa\'ee gaaffii kadhannaa kanaa odeeffannoo hin argattu.',
+    'prayer.unmuted': 'Waa\'ee gaaffii kadhannaa kanaa odeeffannoo irra deebitee ni argatta.',
+    'prayer.update_unavailable': 'Gaaffiin kadhannaa kun kana booda hin argamu.',
+    'prayer.my_none': 'Gaaffii kadhannaa banaa hin qabdu.',
+    'prayer.my_list_header': 'Gaaffiiwwan kadhannaa kee banaa ({count}):',
+    'prayer.my_item': '🙏 {title}\nGosa: {category}\nKan galfame: {submittedAt}\nKan kadhataniif: {prayedCount}\nOdeeffannoo haaraa: {updateCount}',
+    'prayer.update_button': '✏️ Odeeffannoo haaraa maxxansi',
+    'prayer.answered_button': '🎉 Deebii argate',
+    'prayer.prompt_update': 'Odeeffannoo haaraa kee barreessi. Gorsitoonni gaaffii kee waliin ni arguu.',
+    'prayer.update_posted': 'Odeeffannoon haaraan kee maxxanfameera.',
+    'prayer.answered': '🎉 Waaqayyo haa galateeffamu! Gaaffiin kadhannaa kee deebii argachuun isaa galmaa\'ee cufameera.\nDhugaa ba\'umsa gabaabaa barreessuu barbaadda?',
+    'prayer.testimony_button': '✍️ Dhugaa ba\'umsa barreessi',
+    'prayer.prompt_testimony': 'Dhugaa ba\'umsa kee barreessi. Qooduuf yoo hin filatin dhuunfaa kee ta\'ee hafa; qooduu yoo dandeessu waan si beeksisu hin barreessin.',
+    'prayer.testimony_saved': 'Akkaataa kadhannaan kee itti deebi\'e nuuf qooduu keetiif galatoomi.',
+    'prayer.testimony_share_prompt': 'Dhugaa ba\'umsa kee gabaasa torbanii kadhannaawwan deebii argatanii keessatti maqaa kee osoo hin ibsin qooduu dandeenyaa? Gosaa fi dhugaa ba\'umsa kee qofatu mul\'ata; maqaan kee ykn mata dureen gaaffii kee gonkumaa hin mul\'atu.',
+    'prayer.share_button': '✅ Maqaa koo osoo hin ibsin qoodi',
+    'prayer.keep_private_button': '🔒 Dhuunfaa koo haa ta\'u',
+    'prayer.testimony_shared': 'Dhugaa ba\'umsi kee gabaasa torbanii itti aanu keessatti ni hammatama.',
+    'prayer.testimony_private': 'Dhugaa ba\'umsi kee dhuunfaa kee ta\'ee hafa.',
+    'prayer.testimony_locked': 'Dhugaa ba\'umsi kun kana booda jijjiiramuu hin danda\'u. Duraan qoodamee ta\'uu danda\'a.',
+    'prayer.digest_header': '🌟 Kadhannaawwan torban kana deebii argatan ({count})\nWarra kadhannaa gaafataniin maqaan osoo hin ibsamin kan qoodame.',
+    'prayer.digest_item': '{category}\n“{text}”',
+    'prayer.close_not_approved': 'Gaaffiiwwan kadhannaa cufuuf hin mirkanoofne.',
+    'prayer.select_to_close': 'Gaaffii kadhannaa cufamu filadhu:',
+    'prayer.already_closed': 'Gaaffiin kadhannaa duraan cufameera.',
+    'prayer.closed': 'Gaaffiin kadhannaa {prayerId} cufameera.',
+    'prayer.prayed_for': '🙏 Odeeffannoo kadhannaa\nGorsaan tokko gaaffii kadhannaa keetiif kadhateera.\nMata duree: {title}\nKan galfame: {submittedAt}',
+    'prayer.close_failed': 'Gaaffii kadhannaa cufuun hin danda\'amne.',
+
+    // Prayer wall
+    'prayer_wall.opt_in_prompt': 'Waldaan akka kadhatuuf gaaffiin kee maqaa kee osoo hin ibsin chaanaalii dallaa kadhannaa keenya irratti akka qoodamu barbaaddaa? Jalqaba bulchaan ni ilaala; maqaan kee gonkumaa hin mul\'atu.',
+    'prayer_wall.opt_in_button': '📣 Dallaa kadhannaa irratti qoodi',
+    'prayer_wall.opt_in_received': 'Galatoomi. Gaaffiin kee dallaa kadhannaa irratti mul\'achuu isaa dura bulchaan ni ilaala.',
+    'prayer_wall.opt_in_unavailable': 'Gaaffiin kun kana booda dallaa kadhannaa irratti qoodamuu hin danda\'u.',
+    'prayer_wall.submitter_published': '📣 Gaaffiin kadhannaa kee "{title}" amma dallaa kadhannaa irra jira. Waldaan si waliin kadhachaa jira.',
+    'prayer_wall.submitter_rejected': 'Gaaffiin kadhannaa kee "{title}" dallaa kadhannaa irratti hin maxxanfamne. Gorsitoonni ammallee ni kadhatuuf.',
+    'prayer_wall.post': '🙏 Gaaffii kadhannaa · {category}\n\n{text}\n\nMaaloo nu waliin kadhadhaa.',
+    'prayer_wall.post_closed': '✅ Gaaffii kadhannaa · {category}\n\n{text}\n\nGaaffiin kun cufameera. Waan kadhattaniif galatoomaa.',
+    'prayer_wall.post_answered': '🎉 Kadhannaa deebii argate · {category}\n\n{text}\n\nKadhannaan kun deebii argateera. Waan kadhattaniif galatoomaa!',
+    'prayer_wall.post_removed': '🗑 Gaaffiin kadhannaa kun nama qoode sanaan kaafameera.',
+    'prayer_wall.admin_new_request': '📣 Gaaffii dallaa kadhannaa haaraa',
+    'prayer_wall.review_item': 'Ramaddii: {category}\nBarreeffama: {text}\nID: {prayerId}\nKan gaafatame: {requestedAt}',
+    'prayer_wall.approve_button': '✅ Maxxansi',
+    'prayer_wall.edit_button': '✏️ Gulaali',
+    'prayer_wall.reject_button': '❌ Didi',
+    'prayer_wall.queue_header': 'Gaaffiiwwan dallaa kadhannaa ilaalcha eegan ({count}):',
+    'prayer_wall.queue_empty': 'Gaaffiin dallaa kadhannaa ilaalcha eegu hin jiru.',
+    'prayer_wall.not_authorized': 'Dallaa kadhannaa to\'achuuf hayyama hin qabdu.',
+    'prayer_wall.disabled': 'Dallaan kadhannaa hin qindoofne. Hojii irra oolchuuf PRAYER_WALL_CHANNEL_ID qindeessi.',
+    'prayer_wall.prompt_edit': 'Bakka kanaa barreeffama maxxanfamu ergi:\n{text}\n\nWanta nama gaaffii galche beeksisuu danda\'u kamiyyuu haqi.',
+    'prayer_wall.prompt_edit_empty': 'Barreeffamni haaraan duwwaa ta\'uu hin danda\'u. Barreeffama maxxanfamu ergi.',
+    'prayer_wall.edited': 'Barreeffamni haaromfameera. Osoo hin maxxansin dura irra deebi\'ii ilaali:',
+    'prayer_wall.already_reviewed': 'Gaaffiin kun duraan ilaalameera ykn kana booda banaa miti.',
+    'prayer_wall.published': 'Dallaa kadhannaa irratti maxxanfameera.',
+    'prayer_wall.publish_failed': 'Dallaa kadhannaa irratti maxxansuun hin danda\'amne: {message}. Gaaffiin tarree keessatti deebi\'eera.',
+    'prayer_wall.rejected': 'Gaaffiin didameera. Hin maxxanfamu.',
+
+    // Session history
+    'history.none': 'Seenaan marii hin jiru.',
+    'history.list_header': 'Seenaa marii ({count}):',
+    'history.general_topic': 'Deeggarsa waliigalaa',
+    'history.status_active': 'Itti fufaa jira',
+    'history.status_transferred': 'Dabarfame',
+    'history.status_completed': 'Xumurame',
+    'history.item': 'Mata duree marii: {topic}\nGuyyaa: {date}\nHaala: {status}',
+    'history.item_with_counselor': 'Mata duree marii: {topic}\nGorsaa: {counselor}\nGuyyaa: {date}\nHaala: {status}',
+    'history.see_chat': '💬 Haasaa ilaali',
+    'history.no_messages': 'Marii kana keessa ergaan hin jiru.',
+    'history.no_log_label': '🔒 Hin galmoofne, galmeen haasaa hin kuufamne',
+    'history.no_log_transcript': 'Kun marii hin galmoofne ture; ergaawwan isaa gonkumaa hin kuufamne.',
+    'history.chat_header': 'Haasaa marii (ergaawwan {count}):',
+
+    // Reports
+    'report.end_session_first': 'Gabaasuu kee dura maaloo marii kee xumuri.',
+    'report.after_session_only': 'Gabaasni kan danda\'amu erga mariin xumuramee booda.',
+    'report.prompt_reason': 'Maaloo sababa gabaasaa ibsi.',
+    'report.users_only': 'Gabaasa galchuu kan danda\'an fayyadamtoota qofa.',
+    'report.no_recent_session': 'Mariin dhiyoo gabaafamu hin argamne.',
+    'report.counselor_notice': '⚠️ Gabaasni galfameera\nFayyadamaan tokko waa\'ee marii keetii gabaasa galcheera.\nLakkoofsa gabaasaa: {reportId}\nSababa: {reason}',
+    'report.submitted': 'Gabaasni galfameera. Lakkoofsa: {reportId}',
+    'report.view_not_authorized': 'Gabaasota ilaaluuf hayyama hin qabdu.',
+    'report.none_pending': 'Gabaasni eegaa jiru hin jiru.',
+    'report.pending_header': 'Gabaasawwan eegaa jiran ({count}):',
+    'report.pending_item': '🚩 Gabaasa eegaa jiru\nID gabaasaa: {reportId}\nID gorsaa: {counselorId}\nSababa: {reason}\nKan galfame: {submittedAt}',
+    'report.view_chat_button': '💬 Haasaa ilaali',
+    'report.strike_button': '⚠️ Akeekkachiisa',
+    'report.dismiss_button': '✅ Gadi dhiisi',
+    'report.chat_not_authorized': 'Haasaa gabaasaa ilaaluuf hayyama hin qabdu.',
+    'report.chat_empty': 'Marii {sessionId} keessa ergaan hin jiru.\n\nGabaasa: {reason}',
+    'report.chat_erased': 'Fayyadamaan marii {sessionId} daataa isaa haqeera, kanaaf ergaawwan isaa kana booda hin argaman.\n\nGabaasa: {reason}',
+    'report.chat_no_log': '🔒 Mariin {sessionId} marii galmee hin qabne kan fayyadamaan filate ture. Ergaawwan isaa {count} ni dabarfaman malee gonkumaa hin kuufamne, kanaaf barreeffamni ilaalamu hin jiru.\n\nGabaasa: {reason}',
+    'report.chat_header': '💬 Haasaa marii (ID gabaasaa: {reportId}, Gorsaa: {counselorId})\nSababa: {reason}',
+    'report.chat_failed': 'Haasaa fe\'uun hin danda\'amne: {message}',
+    'report.process_not_authorized': 'Gabaasota hojiirra oolchuuf hayyama hin qabdu.',
+    'report.process_usage': 'Itti fayyadama: /process_report <reportId> <strike|dismiss>',
+    'report.processed': 'Gabaasni {reportId} hojii irra oolfameera. Tarkaanfii: {action}.',
+    'report.access_revoked': 'Sababa adabbii gabaasaatiin tajaajila gorsaa argachuun kee dhaabbateera. Maaloo bulchaa qunnami.',
+    'report.account_suspended': 'Sababa adabbii gabaasaatiin herregni gorsaa kee dhorkameera. Maaloo bulchaa qunnami.',
+
+    // Appeals
+    'appeal.suspended_only': 'Iyyannoon kan danda\'amu gorsitoota dhorkamaniif qofa.',
+    'appeal.prompt_message': 'Maaloo ergaa iyyannoo bulchitootaaf galchi.',
+    'appeal.submitted': 'Iyyannoon galfameera. Lakkoofsa: {appealId}',
+    'appeal.view_not_authorized': 'Iyyannoowwan ilaaluuf hayyama hin qabdu.',
+    'appeal.none_pending': 'Iyyannoon eegaa jiru hin jiru.',
+    'appeal.pending_header': 'Iyyannoowwan eegaa jiran ({count}):',
+    'appeal.item': '🧾 Iyyannoo\nID iyyannoo: {appealId}\nID gorsaa: {counselorId}\nAkeekkachiisota: {strikes}\nErgaa: {message}\nKan galfame: {submittedAt}',
+    'appeal.revoke_button': '♻️ Dhorkaa kaasi',
+    'appeal.approve_button': '✅ Mirkaneessi',
+    'appeal.process_not_authorized': 'Iyyannoowwan hojiirra oolchuuf hayyama hin qabdu.',
+    'appeal.not_found': 'Iyyannoon hin argamne.',
+    'appeal.already_processed': 'Iyyannoon duraan hojii irra oolfameera.',
+    'appeal.counselor_not_found': 'Gorsaan iyyannoo kanaa hin argamne.',
+    'appeal.approved': 'Iyyannoon mirkanaa\'eera. Gorsaan {counselorId} mirkanaa\'eera.',
+    'appeal.revoked': 'Iyyannoon hojii irra oolfameera. Dhorkaan gorsaa {counselorId} ka\'eera.',
+    'appeal.approved_notice': 'Iyyannoon kee fudhatameera. Tajaajila gorsaa argachuun kee deebi\'eera.',
+    'appeal.revoked_notice': 'Iyyannoon kee ilaalameera. Dhorkaan kee kaafameera.',
+
+    // Your data
+    'privacy.counselor_not_supported': 'Galmeen gorsitootaa kan to\'atamu bulchitootaani. Waa\'ee odeeffannoo keetii maaloo bulchaa qunnami.',
+    'privacy.no_data': 'Odeeffannoon waa\'ee kee kuufame hin jiru.',
+    'privacy.export_caption': '📦 Waan waa\'ee kee kuufnu hunda. Faayila kana bakka dhuunfaa kaa\'i.',
+    'privacy.export_failed': 'Odeeffannoo kee qopheessuun hin danda\'amne. Maaloo booda irra deebi\'ii yaali.',
+    'privacy.delete_confirm': '⚠️ Kun ergaawwan kee, gaaffiiwwan kadhannaa, ergaawwan hordoffii fi piroofaayilii kee bara baraan haqa. Gabaasni waa\'ee gorsitootaa akka sirrii ta\'ee hafuuf, mariiwwan darban osoo si waliin hin hidhamin ni kuufamu. Kun deebi\'uu hin danda\'u. Itti fufaa?',
+    'privacy.delete_button': '🗑️ Odeeffannoo koo haqi',
+    'privacy.delete_cancelled': 'Wanti haqame hin jiru.',
+    'privacy.deleted': 'Odeeffannoon kee haqameera. Yoo booda bot kana fayyadamte, lakkoofsa dhoksaa haaraan jalqabda.',
+    'privacy.deleted_wall_posts_kept': 'Odeeffannoon kee haqameera, garuu gaaffiiwwan kadhannaa kee keessaa {count} kan girgiddaa kadhannaa ummataa irra jiran chaanaalii irraa haqamuu hin dandeenye. Isaan eenyummaa kee gonkumaa hin agarsiifne. Yoo booda bot kana fayyadamte, lakkoofsa dhoksaa haaraan jalqabda.',
+    'privacy.delete_failed': 'Odeeffannoo kee haquun hin danda\'amne. Maaloo booda irra deebi\'ii yaali.',
+
+    // Admin tools
+    'admin.stats_not_authorized': 'Istaatistiksii bulchaa ilaaluuf hayyama hin qabdu.',
+    'admin.stats': 'Marii xumuraman waliigalaan: {completed}\nMarii itti fufaa jiran: {active}\nTurtii giddugaleessaa: daqiiqaa {averageDuration}\nGaaffiiwwan kadhannaa: {prayers}\nTarree keessatti kan eegan: {queueLength}\nSa\'aatii baay\'ee itti hojjetamu: {peakHours}',
+    'admin.list_not_authorized': 'Gorsitoota ilaaluuf hayyama hin qabdu.',
+    'admin.no_counselors': 'Gorsaan tokkollee hin argamne.',
+    'admin.counselors_header': 'Gorsitoota ({count}):',
+    'admin.counselor_item': '🧑‍⚕️ Gorsaa\nID: {counselorId}\nMaqaa masoo: {alias}\nHaala: {status}\nMirkanaa\'e: {approved}\nDhorkame: {suspended}\nAkeekkachiisota: {strikes}\nMarii: {sessions}',
+    'admin.update_not_authorized': 'Gorsitoota haaromsuuf hayyama hin qabdu.',
+    'admin.counselor_not_found': 'Gorsaan hin argamne.',
+    'admin.suspension_revoked': 'Dhorkaan gorsaa {counselorId} ka\'eera.',
+    'admin.suspension_revoked_notice': 'Dhorkaan kee ka\'eera. Amma haala kee irra deebi\'ii qindeessuu dandeessa.',
+    'admin.approve_not_authorized': 'Gorsitoota mirkaneessuuf hayyama hin qabdu.',
+    'admin.counselor_approved': 'Gorsaan {counselorId} mirkanaa\'eera.',
+    'admin.access_restored_notice': 'Hayyamni gorsaa kee deebi\'eera. Amma haala kee qindeessuu fi marii fudhachuu dandeessa.',
+    'admin.no_pending_approvals': 'Gorsaan hayyama eegu hin jiru.',
+    'admin.profile_review': '🪪 Gaaffii jijjiirama piroofaayilii\nID gorsaa: {counselorId}\nMaqaa masoo ammaa: {currentAlias}\nMaqaa masoo haaraa: {alias}\nSeenaa gabaabaa haaraa: {bio}',
+    'admin.profile_unchanged': '(hin jijjiiramne)',
+    'admin.profile_approve_button': '✅ Mirkaneessi',
+    'admin.profile_reject_button': '❌ Didi',
+    'admin.profile_reviews_header': 'Jijjiirama piroofaayilii eegaa jiran ({count}):',
+    'admin.no_profile_reviews': 'Jijjiiramni piroofaayilii eegaa jiru hin jiru.',
+    'admin.profile_review_not_authorized': 'Jijjiirama piroofaayilii ilaaluuf hayyama hin qabdu.',
+    'admin.profile_update_approved': 'Jijjiiramni piroofaayilii {counselorId} mirkanaa\'eera.',
+    'admin.profile_update_rejected': 'Jijjiiramni piroofaayilii {counselorId} didameera.',
+    'admin.pending_approvals_header': 'Gorsitoota hayyama eegan ({count}):',
+    'admin.pending_approval_item': 'ID: {counselorId} | Haala: {status} | Akeekkachiisota: {strikes}',
+    'admin.approved_notice': 'Gaaffiin gorsummaa kee mirkanaa\'eera. Amma haala kee qindeessuu fi marii fudhachuu dandeessa.',
+    'admin.remove_not_authorized': 'Gorsitoota haquuf hayyama hin qabdu.',
+    'admin.removal_item': '🧑‍⚕️ Gorsaa\nID: {counselorId}\nHaala: {status}\nAkeekkachiisota: {strikes}',
+    'admin.counselor_removed': 'Gorsaan {counselorId} haqameera.',
+    'admin.audit_not_authorized': 'Galmee odiitii ilaaluuf hayyama hin qabdu.',
+    'admin.audit_empty': 'Galmeen odiitii tokkollee hin argamne.',
+    'admin.audit_header': '🧾 Galmee odiitii ({count}):',
+    'admin.audit_entry': '📌 Galmee odiitii\nYeroo: {timestamp}\nTarkaanfii: {action}\nBulchaa: {adminId}',
+    'admin.audit_target': 'Kaayyoo: {targetId}',
+    'admin.audit_details': 'Bal\'ina: {details}',
+    'admin.cleanup_not_authorized': 'Qulqulleessa odeeffannoo dursitee ilaaluuf hayyama hin qabdu.',
+    'admin.cleanup_preview': '🧹 Dursa qulqulleessaa, wanti tokkollee hin haqamne. Qulqulleessi itti aanu kanneen armaan gadii ni haqa:\nMarii: {sessions}\nErgaawwan: {messages}\nGaaffiiwwan kadhannaa cufaman: {prayers}\nGabaasawwan hojii irra oolfaman: {reports}\nGalmee odiitii: {auditLogs}\nGalmee ergaa waliigalaa: {broadcastLogs}\n\nMariin itti fufaa jiru, mariin gabaasa eegaa jiru qabuu fi gabaasni iyyannoo jala jiru yeroo hunda ni kuufamu.',
+    'admin.cleanup_run_button': '🧹 Amma haqi',
+    'admin.cleanup_done': '🧹 Qulqulleessi xumurameera. Kan haqaman:\nMarii: {sessions}\nErgaawwan: {messages}\nGaaffiiwwan kadhannaa cufaman: {prayers}\nGabaasawwan hojii irra oolfaman: {reports}\nGalmee odiitii: {auditLogs}\nGalmee ergaa waliigalaa: {broadcastLogs}',
+    'admin.keys_not_authorized': 'Furtuuwwan iccitii ergaa jijjiiruuf hayyama hin qabdu.',
+    'admin.keys_encryption_disabled': 'Iccitiin ergaa hin qindoofne, kanaaf furtuun jijjiiramu hin jiru.',
+    'admin.keys_rotated': '🔐 Furtuuwwan daataa marii furtuu ijoo {keyId}n irra deebi\'anii maraman: {rewrapped}\nKan hin milkoofne: {failed}',
+    'admin.keys_rotation_failures': 'Furtuuwwan tokko tokko irra deebi\'anii maramuu hin dandeenye. Furtuuwwan ijoo soorama bahan isaanii qindaa\'anii akka turan godhii, osoo irra deebitee hin yaalin dura galmee ilaali.',
+    'admin.roles_not_authorized': 'Bulchitoota to\'achuu kan danda\'an bulchitoota olaanoo qofa.',
+    'admin.role_super_admin': 'Bulchaa olaanaa',
+    'admin.role_moderator': 'To\'ataa',
+    'admin.role_reviewer': 'Gamaaggamaa',
+    'admin.role_broadcaster': 'Beeksisaa',
+    'admin.admins_header': '🛡 Bulchitoota ({count}). Gahee: {roles}',
+    'admin.admins_item': '{chatId}: {role}',
+    'admin.admins_item_configured': '{chatId}: {role} (ADMIN_CHAT_IDS irraa)',
+    'admin.remove_admin_button': '🗑 Bulchaa haqi',
+    'admin.add_admin_usage': 'Itti fayyadama: /add_admin <chatId> <role>\nGahee: {roles}',
+    'admin.remove_admin_usage': 'Itti fayyadama: /remove_admin <chatId>',
+    'admin.admin_added': 'Chaatiin {chatId} amma bulchaa gahee {role} qabu dha.',
+    'admin.admin_role_changed': 'Bulchaan {chatId} amma gahee {role} qaba.',
+    'admin.admin_removed': 'Bulchaan {chatId} haqameera.',
+    'admin.role_granted_notice': '🛡 Amma bulchaa gahee {role} qabu dha. Ajajawwan bulchaa ilaaluuf /help ergi.',
+    'admin.role_removed_notice': 'Hayyamni bulchummaa kee haqameera.',
+    'admin.approval_action_remove_counselor': 'gorsaa {targetId} haquu',
+    'admin.approval_action_revoke_appeal': 'dhorkaa iyyannoo {targetId} irra jiru kaasuu fi akeekkachiisota haquu',
+    'admin.approval_action_revoke_suspension': 'dhorkaa gorsaa {targetId} kaasuu fi akeekkachiisota haquu',
+    'admin.approval_action_run_cleanup': 'daataa moofaa akka imaammata kuusaatti amma haquu',
+    'admin.approval_requested': '⏳ Bulchaa lammaffaan kana akka mirkaneessu eegaa jira: {action}. Bulchitoonni kaan gaafatamaniiru, mirkaneessuuf daqiiqaa {minutes} qabu.',
+    'admin.approval_already_pending': '⏳ Bulchaan {adminId} duraan kana gaafateera: {action}. Bulchaa lammaffaa eegaa jira.',
+    'admin.approval_request_notice': '⏳ Bulchaan {adminId} kana gaafata: {action}. Daqiiqaa {minutes} keessatti mirkaneessi, yoo kana hin taane yeroon isaa ni darba.',
+    'admin.approval_confirm_button': '✅ Mirkaneessi',
+    'admin.approval_reject_button': '❌ Didi',
+    'admin.approval_not_authorized': 'Gocha kana irratti murteessuuf hayyama hin qabdu.',
+    'admin.approval_not_found': 'Tarkaanfiin kun hin argamne.',
+    'admin.approval_already_resolved': 'Tarkaanfiin kun duraan mirkanaa\'eera ykn didameera.',
+    'admin.approval_expired': 'Tarkaanfiin kun osoo bulchaan lammaffaan hin mirkaneessin yeroon isaa darbeera. Ammallee yoo barbaachise irra deebi\'ii gaafadhu.',
+    'admin.approval_own_request': 'Tarkaanfii kana kan gaafatte ati waan taateef, bulchaan biraa mirkaneessuu qaba.',
+    'admin.approval_rejected': 'Didame: {action}.',
+    'admin.approval_confirmed_notice': '✅ Bulchaan {adminId} gaaffii kee mirkaneesseera: {action}.',
+    'admin.approval_rejected_notice': '❌ Bulchaan {adminId} gaaffii kee dideera: {action}.',
+    'admin.approvals_empty': 'Tarkaanfiin bulchaa lammaffaa eegu hin jiru.',
+    'admin.approvals_header': '⏳ Tarkaanfiiwwan bulchaa lammaffaa eegan ({count}):',
+    'admin.approvals_item': 'Bulchaan {adminId} kana gaafata: {action}. Yeroon isaa kan darbu: {expiresAt}.',
+
+    // Broadcasts
+    'broadcast.not_authorized': 'Ergaa waliigalaa erguuf hayyama hin qabdu.',
+    'broadcast.select_target': 'Beeksisni kun eenyuuf haa ga\'u?',
+    'broadcast.target_users': '👤 Fayyadamtoota',
+    'broadcast.target_counselors': '🧑‍⚕️ Gorsitoota',
+    'broadcast.target_everyone': '🌍 Hunda',
+    'broadcast.target_counselor_language': '🗣 Gorsitoota afaaniin',
+    'broadcast.target_counselor_domain': '🎯 Gorsitoota ogummaan',
+    'broadcast.target_active_users': '⏱ Fayyadamtoota dhiyoo hojii irra turan',
+    'broadcast.target_open_prayer_users': '🙏 Fayyadamtoota kadhannaa banaa qaban',
+    'broadcast.prompt_language': 'Gorsitoonni afaan kam haa dubbatan? Tokko filadhu ykn barreessi.',
+    'broadcast.prompt_domain': 'Dameen ogummaa kami? Tokko filadhu ykn barreessi.',
+    'broadcast.prompt_active_days': 'Fayyadamtoota guyyoota darban meeqa keessatti hojii irra turaniif haa ergamu? Lakkoofsa 1 hanga {max} galchi.',
+    'broadcast.invalid_active_days': 'Maaloo lakkoofsa guyyaa guutuu 1 hanga {max} galchi.',
+    'broadcast.audience_counselor_language': 'Gorsitoota {language} dubbatan',
+    'broadcast.audience_counselor_domain': 'Gorsitoota ogummaa {domain} qaban',
+    'broadcast.audience_active_users': 'Fayyadamtoota guyyoota {days} darban keessatti hojii irra turan',
+    'broadcast.cancelled': 'Ergaan waliigalaa haqameera.',
+    'broadcast.invalid_target': 'Maaloo dhaggeeffattoota agarsiifaman keessaa tokko filadhu, ykn Haqi.',
+    'broadcast.prompt_message': 'Maaloo ergaa beeksisaa barreessi, ykn suuraa ykn galmee ibsa filannoo waliin ergi:',
+    'broadcast.message_empty': 'Maaloo ergaa duwwaa hin taane galchi.',
+    'broadcast.compose': 'Bifa barreeffamaa fi qabduuwwan waamicha tarkaanfii kamiyyuu filadhu, achiis dursa ergaa waliigalaa ilaali. Qabiyyee bakka buusuuf barreeffama ykn faayilii haaraa ergi.\n\nBifa: {format}\nQabduuwwan: {buttons}',
+    'broadcast.format_plain': 'Barreeffama salphaa',
+    'broadcast.format_markdown': 'Markdown',
+    'broadcast.format_html': 'HTML',
+    'broadcast.button_start_counseling': 'Gorsa jalqabi',
+    'broadcast.button_submit_prayer': 'Kadhannaa galchi',
+    'broadcast.buttons_none': 'hin jiru',
+    'broadcast.preview_button': '👁 Dursa ilaali',
+    'broadcast.preview_failed': 'Telegram ergaa waliigalaa kana erguu hin dandeenye: {message}\nBifa barreeffamaa ilaali ykn bifa biraa filadhu, achiis irra deebi\'ii dursa ilaali.',
+    'broadcast.preview_required': 'Maaloo osoo hin ergin ykn hin karoorfatin dura dursa ergaa waliigalaa ilaali.',
+    'broadcast.preview': 'Armaan olitti kan jiru akkaataa fudhattoonni ergaa waliigalaa kana itti argani dha.\n\nDhaggeeffattoota: {audience} (fudhattoota {recipientCount})\n\nAmma haa ergamu moo booda irratti haa karoorfamu?',
+    'broadcast.send_button': '✅ Ergi',
+    'broadcast.schedule_button': '🕒 Karoorfadhu',
+    'broadcast.prompt_schedule': 'Yoom haa ergamu? Guyyaa fi sa\'aatii UTC akka YYYY-MM-DD HH:MM galchi, fakkeenyaaf {example}.',
+    'broadcast.invalid_schedule': 'Maaloo guyyaa fi sa\'aatii UTC gara fuulduraa akka YYYY-MM-DD HH:MM galchi, fakkeenyaaf {example}.',
+    'broadcast.scheduled': 'Ergaan waliigalaa {broadcastId} {scheduledFor}f karoorfameera. Ilaaluuf ykn haquuf /broadcasts fayyadami.',
+    'broadcast.expired': 'Yeroon ergaa waliigalaa darbeera. Maaloo irra deebi\'ii jalqabi.',
+    'broadcast.queued': 'Ergaan waliigalaa tarree keessa galeera. Duubatti waan ergamuuf, boottii fayyadamuu itti fufuu dandeessa; adeemsi isaa armaan gaditti mul\'ata.',
+    'broadcast.progress_waiting': '📢 Ergaan waliigalaa jalqabuuf eegaa jira...',
+    'broadcast.progress': '📢 Ergaa waliigalaa {broadcastId} erguu irra: {processed}/{recipientCount}\nGa\'e: {successCount}, Hin milkoofne: {failedCount}, Boottii dhorkan: {unreachableCount}',
+    'broadcast.progress_done': '✅ Ergaan waliigalaa {broadcastId} xumurameera: {processed}/{recipientCount}\nGa\'e: {successCount}, Hin milkoofne: {failedCount}, Boottii dhorkan: {unreachableCount}',
+    'broadcast.progress_paused': '⏸ Boottiin irra deebi\'ee ka\'aa waan jiruuf ergaan waliigalaa {broadcastId} {processed}/{recipientCount} irratti dhaabateera. Ofumaan itti fufa.\nGa\'e: {successCount}, Hin milkoofne: {failedCount}, Boottii dhorkan: {unreachableCount}',
+    'broadcast.failed': 'Ergaan waliigalaa hin milkoofne: {message}. Maaloo irra deebi\'ii yaali.',
+    'broadcast.list_scheduled_header': 'Ergaawwan waliigalaa karoorfaman ({count}):',
+    'broadcast.list_scheduled_none': 'Ergaan waliigalaa karoorfame hin jiru.',
+    'broadcast.list_scheduled_item': '{broadcastId} {scheduledFor}\nDhaggeeffattoota: {audience}\n\n{message}',
+    'broadcast.list_recent_header': 'Ergaawwan waliigalaa dhiyoo:',
+    'broadcast.list_recent_item': '{broadcastId} ({status}) {date}\nDhaggeeffattoota: {audience}\nMilkaa\'e: {successCount}, Hin milkoofne: {failedCount}, Boottii dhorkan: {unreachableCount}',
+    'broadcast.cancel_button': '🚫 Ergaa waliigalaa haqi',
+    'broadcast.report_button': '📊 Gabaasa geessuu',
+    'broadcast.schedule_cancelled': 'Ergaan waliigalaa karoorfame {broadcastId} haqameera.',
+    'broadcast.cancel_unavailable': 'Ergaan waliigalaa kun kana booda karoorfamaa waan hin taaneef haqamuu hin danda\'u.',
+    'broadcast.not_found': 'Ergaan waliigalaa hin argamne.',
+    'broadcast.report': 'Ergaa waliigalaa {broadcastId} ({status})\nDhaggeeffattoota: {audience}\nMilkaa\'e: {successCount}, Hin milkoofne: {failedCount}, Boottii dhorkan: {unreachableCount}',
+    'broadcast.report_failures': 'Fudhattoota hin milkoofnee fi hin argamne ({count} jalqabaa):\n{lines}',
+    'broadcast.status_scheduled': 'karoorfame',
+    'broadcast.status_sending': 'ergamaa jira',
+    'broadcast.status_sent': 'ergame',
+    'broadcast.status_cancelled': 'haqame',
+    'broadcast.header': '📢 Beeksisa Sirnaa',
+    'broadcast.footer': '— Ergaa Sirnaa',
+
+    // Errors thrown by managers, matched by translateError
+    'error.session_not_found': 'Mariin hin argamne.',
+    'error.active_session_not_found': 'Mariin itti fufaa jiru hin argamne.',
+    'error.user_not_found': 'Fayyadamaan hin argamne.',
+    'error.user_has_active_session': 'Fayyadamaan duraan marii itti fufaa jiru qaba.',
+    'error.counselor_not_available': 'Gorsaan mariif hin argamu.',
+    'error.counselor_no_capacity': 'Gorsaan dandeettii marii hafe hin qabu.',
+    'error.counselor_not_assigned': 'Gorsaan marii kanaaf hin ramadamne.',
+    'error.follow_up_delay_invalid': 'Yeroon hordoffii lakkoofsa guyyaa guutuu 1 fi {max} gidduu ta\'uu qaba.',
+    'error.follow_up_session_active': 'Hordoffiin kan qindaa\'u erga mariin xumuramee booda qofa.',
+    'error.consent_required': 'Marii jalqabuu dura walii galteen barbaachisaadha.',
+    'error.message_empty': 'Qabiyyeen ergaa duwwaa ta\'uu hin danda\'u.',
+    'error.media_missing_file': 'Ergaan miidiyaa wabii faayilaa qabaachuu qaba.',
+    'error.rating_invalid': 'Madaalliin lakkoofsa 1 fi 5 gidduu ta\'uu qaba.',
+    'error.rating_active_session': 'Marii itti fufaa jiru madaaluun hin danda\'amu.',
+    'error.rating_not_authorized': 'Fayyadamaan marii kana madaaluuf hayyama hin qabu.',
+    'error.history_not_authorized': 'Gaafataan seenaa marii kanaa ilaaluuf hayyama hin qabu.',
+    'error.counselor_not_found': 'Gorsaan hin argamne: {counselorId}',
+    'error.capacity_invalid': 'Dandeettiin lakkoofsa guutuu 1 fi {max} gidduu ta\'uu qaba.',
+    'error.alias_invalid': 'Maqaan masoo qubee, lakkoofsa, iddoo duwwaa ykn sarara xiqqaa 3 hanga {max} ta\'uu qaba.',
+    'error.alias_identifying': 'Maqaan masoo maqaa kee dhugaa ykn maqaa fayyadamaa Telegram kee of keessaa qabaachuu hin qabu.',
+    'error.alias_taken': 'Maqaan masoo sun duraan fayyadamameera.',
+    'error.bio_invalid': 'Ibsi qubee 1 hanga {max} ta\'uu qaba.',
+    'error.profile_update_not_found': 'Gorsaa kanaaf jijjiiramni piroofaayilii eegamu hin jiru.',
+    'error.report_not_found': 'Gabaasni hin argamne.',
+    'error.report_reason_required': 'Sababni gabaasaa barbaachisaadha.',
+    'error.queue_preferences_required': 'Tarree seenuuf filannoon walsimsiisuu barbaachisaadha.',
+    'error.prayer_not_found': 'Gaaffiin kadhannaa hin argamne',
+    'error.erasure_active_session': 'Osoo odeeffannoo kee hin haqin dura marii itti fufaa jiru xumuri.'
+};
@@ -0,0 +1,577 @@
+import { MessageCatalog } from './en';
+
+// Tigrinya: every key in en.ts, in the same order
+export const ti: MessageCatalog = {
+    // Menu labels
+    'menu.start_counseling': '💬 ምስ ኣማኻሪ ዕላል ጀምር',
+    'menu.submit_prayer': '🙏 ሕቶ ጸሎት ኣእቱ',
+    'menu.my_prayers': '📿 ሕቶታት ጸሎተይ',
+    'menu.history': '📜 ታሪኸይ',
+    'menu.help': 'ℹ️ ሓገዝ',
+    'menu.end_session': '🛑 ክፍለ-ግዜ ወድእ',
+    'menu.report': '⚠️ ጸብጻብ',
+    'menu.main': '🏠 ቀንዲ ዝርዝር',
+    'menu.register_counselor': '🧑‍⚕️ ከም ኣማኻሪ ተመዝገብ',
+    'menu.status_available': '✅ ድሉው እየ',
+    'menu.status_away': '⚪ የለኹን',
+    'menu.my_stats': '📊 ስታቲስቲክሰይ',
+    'menu.prayer_requests': '🙏 ሕቶታት ጸሎት',
+    'menu.close_prayer': '✅ ጸሎታት ዕጾ',
+    'menu.transfer_session': '🔁 ክፍለ-ግዜ ናብ ክኢላ ኣሕልፍ',
+    'menu.switch_conversation': '🔀 ዕላል ቀይር',
+    'menu.admin_stats': '🛡️ ስታቲስቲክስ ኣመሓዳሪ',
+    'menu.pending_reports': '🚩 ዝጽበዩ ጸብጻባት',
+    'menu.process_report': '⚙️ ጸብጻብ ኣተግብር',
+    'menu.counselor_list': '🧑‍⚕️ ዝርዝር ኣማኸርቲ',
+    'menu.appeal': '📝 ይግባይ',
+    'menu.appeals': '🧾 ይግባያት',
+    'menu.approve_counselor': '✅ ኣማኻሪ ኣጽድቕ',
+    'menu.remove_counselor': '🗑️ ኣማኻሪ ኣወግድ',
+    'menu.audit_log': '📜 መዝገብ ኦዲት',
+    'menu.broadcast': '📢 ሓፈሻዊ መልእኽቲ',
+    'menu.language': '🌐 ቋንቋ',
+
+    // Menu prompts
+    'menu.main_prompt': 'ቀንዲ ዝርዝር፦',
+    'menu.active_session_notice': 'ንጡፍ ክፍለ-ግዜ ኣለኩም። ንምውዳእ "ክፍለ-ግዜ ወድእ" ተጠቐሙ።',
+
+    // Shared
+    'common.previous': '⬅️ ዝሓለፈ',
+    'common.next': 'ዝቕጽል ➡️',
+    'common.page': 'ገጽ {page}/{totalPages}',
+    'common.generic_error': 'ይቕሬታ፣ ጸገም ተፈጢሩ። በጃኹም ደሓር ደጊምኩም ፈትኑ።',
+    'common.user': 'ተጠቃሚ',
+    'common.counselor': 'ኣማኻሪ',
+    'common.counselor_alias': 'ኣማኻሪ {alias}',
+    'common.invalid_response': 'በጃኹም ቅኑዕ መልሲ ኣእትዉ።',
+    'common.use_buttons': 'ንምቕጻል በጃኹም ዝቐረቡ መጠወቒታት ተጠቐሙ።',
+    'common.select_one_language': 'በጃኹም እንተወሓደ ሓደ ቋንቋ ምረጹ።',
+    'common.first_step': 'ኣብ መጀመርታ ደረጃ ኢኹም ዘለኹም።',
+    'common.done': '✅ ወዲአ',
+    'common.back': '⬅️ ተመለስ',
+    'common.cancel': '❌ ሰርዝ',
+    'common.not_available': 'የለን',
+    'common.yes': 'እወ',
+    'common.no': 'ኣይፋል',
+
+    // General
+    'general.welcome': 'እንቋዕ ብደሓን መጻእኩም! መንነትኩም ዘይገልጽ መለለዪኹም {userId} እዩ። ንምጅማር ኣብ ታሕቲ ዘለዉ መጠወቒታት ተጠቐሙ።',
+    'general.use_menu': 'ንምቕጻል ኣብ ታሕቲ ዘለዉ መጠወቒታት ዝርዝር ተጠቐሙ።',
+    'general.choose_language': 'ቋንቋኹም ምረጹ፦',
+    'general.language_updated': 'ቋንቋ ናብ {language} ተቐይሩ።',
+    'general.help_user': 'ምኽሪ ንምጅማር፣ ሕቶ ጸሎት ንምእታው፣ ታሪኽኩም ንምርኣይ ወይ ሓገዝ ንምርካብ መጠወቒታት ዝርዝር ተጠቐሙ።\n\n/my_prayers - ኣብ ሕቶታት ጸሎትኩም ሓበሬታ ወስኹ ወይ መልሲ ከም ዝረኸቡ ምልክት ግበሩ\n/my_data - ብዛዕባኹም ዝተዓቀበ ኩሉ ኣውርዱ\n/delete_my_data - ሓበሬታኹም ደምስሱ',
+    'general.help_commands_header': 'ትእዛዛት፦',
+    'general.help_counselor_commands': '/register_counselor - ከም ኣማኻሪ ተመዝገቡ (ፍቓድ ኣመሓዳሪ የድሊ)\n/available | /away - ድሉውነትኩም ከም ኣማኻሪ ኣቐምጡ\n/capacity [1-{maxCapacity}] - ብሓንሳእ እትሕዝዎም ክፍለ-ግዜታት ብዝሒ ርኣዩ ወይ ኣቐምጡ\n/my_stats - ስታቲስቲክስ ኣማኻሪ ርኣዩ\n/profile - ተጠቀምቲ ዝርእይዎ ሳጓ ስምን መግለጺን ርኣዩ\n/set_alias <alias> | /set_bio <text> - ለውጢ መግለጺ ሕተቱ (ኣመሓዳሪ ይርእዮ)\n/list_of_prayer_requests [health|family|work|spiritual|other] - ሕቶታት ጸሎት ርኣዩ፣ እንተደሊኹም ኣብ ሓደ ዓይነት\n/close_prayer <prayerId> - ሕቶ ጸሎት ዕጸዉ\n/language - ቋንቋ ናይቲ ቦት ቀይሩ\n{transferLabel} - ንጡፍ ክፍለ-ግዜ ኣሕልፉ (ዝርዝር)\n{switchLabel} - ኣየናይ ንጡፍ ክፍለ-ግዜ ከም እትምልሱ ምረጹ (ዝርዝር)',
+    'general.help_admin_commands': '/admin_stats - ስታቲስቲክስ ስርዓት ርአ (ኣመሓደርቲ)\n/pending_reports - ዝጽበዩ ጸብጻባት ዘርዝር (ኣመሓደርቲ)\n/process_report <reportId> <strike|dismiss> - ጸብጻብ ኣተግብር (ኣመሓደርቲ)\n/approve_counselor <counselorId> - ኣማኻሪ ኣጽድቕ (ኣመሓደርቲ)\n/remove_counselor <counselorId> - ኣማኻሪ ኣወግድ (ኣመሓደርቲ)\n/audit_log [limit] - መዝገብ ኦዲት ኣመሓደርቲ ርአ (ኣመሓደርቲ)\n/profile_reviews - ለውጥታት ሳጓን ታሪኽ ህይወትን ኣማኸርቲ ገምግም (ኣመሓደርቲ)\n/rotate_message_keys - መፍትሕታት ምስጢራዊ ጽሑፍ መልእኽቲ ብናይ ሕጂ ቀንዲ መፍትሕ ከም ብሓድሽ ጠቕልል (ኣመሓደርቲ)\n/cleanup_preview - እቲ ዝቕጽል ምጽራይ ሓበሬታ እንታይ ከም ዝድምስስ ርአ፡ ሕጂ ንምክያዱ መጠውቕ ውን ኣለዎ (ኣመሓደርቲ)\n/pending_actions - ንካልኣይ ኣመሓዳሪ ዝጽበዩ ኣዕናዊ ስጉምትታት ኣረጋግጽ ወይ ንጸግ (ኣመሓደርቲ)\n/prayer_wall - ኣብ መንደቕ ጸሎት ንኽልጠፉ ዝጽበዩ ሕቶታት ጸሎት ገምግም (ኣመሓደርቲ)\n/admins - ኣመሓደርትን ተራታቶምን ዘርዝር (ላዕለዎት ኣመሓደርቲ)\n/add_admin <chatId> <role> - ኣመሓዳሪ ወስኽ ወይ ተራኡ ቀይር (ላዕለዎት ኣመሓደርቲ)\n/remove_admin <chatId> - ኣመሓዳሪ ኣወግድ (ላዕለዎት ኣመሓደርቲ)\n/broadcasts - ዝተመደቡን ናይ ቀረባ ግዜን ሓፈሻዊ መልእኽትታት ገምግም (ኣመሓደርቲ)\n{broadcastLabel} - ምልክታታት ስርዓት ስደድ (ብዝርዝር ጥራይ፡ ኣመሓደርቲ)',
+
+    // Sessions
+    'session.no_active_session': 'ንጡፍ ክፍለ-ግዜ ኣይተረኽበን።',
+    'session.media_requires_session': 'ስእልታት፣ ድምጻዊ መልእኽትታትን ፋይላትን ክካፈሉ ዝኽእሉ ኣብ ንጡፍ ክፍለ-ግዜ ምኽሪ ጥራይ እዩ።',
+    'session.crisis_hotline': 'ኣብ ቅጽበታዊ ሓደጋ እንተ ሃሊኹም ወይ ህይወትኩም ከተጥፍኡ እንተ ሓሲብኩም፡ በጃኹም ሕጂ ንኣገልግሎት ህጹጽ ረድኤት ከባቢኹም ወይ ናይ ቅልውላው ሓገዝ መስመር ተሌፎን ተወከሱ፡ ወይ ናብ ዝቐረበ ሆስፒታል ኪዱ። በይንኹም ኣይኮንኩምን።',
+    'session.crisis_counselor_alert': '🚨 መጠንቀቕታ ሓደጋ (ክፍለ-ግዜ {sessionId})፦ እቲ ዝቕጽል መልእኽቲ ርእሰ-ምጉዳእ ክሕብር ዝኽእል ቃላት ሒዙ ኣሎ። በጃኹም ነዚ ዕላል ቀዳምነት ሃብዎ፣ መምርሒ ሓደጋ ድማ ተኸተሉ። ኣመሓደርቲ ተሓቢሮም ኣለዉ።',
+    'session.crisis_admin_alert': '🚨 ኣብ ክፍለ-ግዜ {sessionId} ({language}) መጠንቀቕታ ሓደጋ። እቲ ኣማኻሪ ተሓቢሩ እዩ፡ እቲ ተጠቃሚ ድማ መስመራት ተሌፎን ህጹጽ ሓገዝ ተራእይዎ እዩ።',
+    'session.choose_conversation': '{count} ንጡፋት ዕላላት ኣለዉኹም። ንመን ከም እትምልሱ ምረጹ፣ ወይ ንሓደ ካብ መልእኽትታቶም ብቐጥታ መልሱ።',
+    'session.switch_counselors_only': 'ዕላል ክቕይሩ ዝኽእሉ ዝጸደቑ ኣማኸርቲ ጥራይ እዮም።',
+    'session.currently_replying': 'ሕጂ ኣብ {label} ትምልሱ ኣለኹም።',
+    'session.no_conversation_selected': 'ክሳዕ ሕጂ ዕላል ኣይተመርጸን።',
+    'session.select_conversation': 'ዕላል ምረጹ፦',
+    'session.conversation_inactive': 'እቲ ዕላል ደጊም ንጡፍ ኣይኮነን።',
+    'session.now_replying': 'ሕጂ ኣብ {label} ትምልሱ ኣለኹም።',
+    'session.general_support': 'ሓፈሻዊ ደገፍ',
+    'session.conversation_label': 'ዕላል {position} · {topic}',
+    'session.new_session_multiple': 'ሓድሽ ክፍለ-ግዜ ጀሚሩ ({label})። መለለዪ ተጠቃሚ፦ {userId}። ንመልእኽትታቶም መልሱ ወይ ንመን ከም እትምልሱ ንምምራጽ {switchLabel} ተጠቐሙ።',
+    'session.new_session': 'ሓድሽ ክፍለ-ግዜ ጀሚሩ። መለለዪ ተጠቃሚ፦ {userId}። ንምምላስ ከም ልሙድ ጽሓፉ።',
+    'session.no_log_notice': '🔒 እቲ ተጠቃሚ ዘይምዝገብ ክፍለ-ግዜ መሪጹ። መልእኽትታት ይሰጋገሩ እምበር ፈጺሞም ኣይዕቀቡን፤ ስለዚ ድሒሩ መዝገብ ዘተ ኣይህሉን።',
+    'session.admin_no_sessions': 'ኣመሓደርቲ ዝውድእዎ ንጡፍ ክፍለ-ግዜ የብሎምን።',
+    'session.nothing_to_end': 'ዝውዳእ ንጡፍ ክፍለ-ግዜ የለን።',
+    'session.ended_by_user': 'ክፍለ-ግዜ ተወዲኡ። እቲ ተጠቃሚ ነቲ ክፍለ-ግዜ ወዲእዎ።',
+    'session.ended': 'ክፍለ-ግዜ ተወዲኡ።',
+    'session.ended_by_counselor': 'ክፍለ-ግዜኹም ተወዲኡ። በጃኹም ንኣማኻሪኹም ካብ 1-5 ገምግሙ። ንምቕጻል ገምጋም የድሊ።',
+    'session.rating_users_only': 'ክፍለ-ግዜታት ክገምግሙ ዝኽእሉ ተጠቀምቲ ጥራይ እዮም።',
+    'session.rating_failed': 'ገምጋም ምምዝጋብ ኣይተኻእለን።',
+    'session.rating_thanks': 'ስለ ዝገምገምኩም የቐንየልና። ነዚ ክፍለ-ግዜ {rating}/5 ሂብኩሞ። እንተድኣ ኣድልዩ ካብቲ ኣብ ታሕቲ ዘሎ ዝርዝር ንኣማኻሪ ክትጸብጽቡ ትኽእሉ ኢኹም።',
+    'session.rating_prompt': 'ክፍለ-ግዜ ተወዲኡ። በጃኹም ንኣማኻሪኹም ካብ 1-5 ገምግሙ። ንምቕጻል ገምጋም የድሊ።',
+    'session.counselor_intro': 'ምስ {counselor} ትዘራረቡ ኣለኹም።',
+    'session.counselor_intro_bio': 'ምስ {counselor} ትዘራረቡ ኣለኹም።\nብዛዕባኦም፦ {bio}',
+    'session.recent_history': 'ናይ ቀረባ ግዜ ታሪኽ ዕላል (ናይ መወዳእታ 50 መልእኽትታት)፦',
+
+    // Matching and waiting queue
+    'matching.admin_cannot_start': 'ኣመሓደርቲ ናይ ምኽሪ ክፍለ-ግዜ ክጅምሩ ኣይክእሉን።',
+    'matching.already_in_session': 'ንጡፍ ክፍለ-ግዜ ኣለኩም።',
+    'matching.consent_wrong_account': 'ነዚ ሕሳብ ስምምዕ ምርግጋጽ ኣይተኻእለን።',
+    'matching.no_pending_consent': 'ዝጽበ ሕቶ ስምምዕ የለን። ንምጅማር "ምስ ኣማኻሪ ዕላል ጀምር" ተጠቐሙ።',
+    'matching.missing_preferences': 'ምርጫታት ምዝማድ ጠፊኦም። በጃኹም ቋንቋኹምን ዓውድኹምን ደጊምኩም ምረጹ።',
+    'matching.complete_steps_first': 'ስምምዕ ቅድሚ ምሃብኩም በጃኹም ደረጃታት ምዝማድ ወድኡ።',
+    'matching.searching': 'ዝሰማማዕ ኣማኻሪ ይድለ ኣሎ...',
+    'matching.no_counselors_available': 'ሕጂ ነጻ ኣማኻሪ የለን። ናብ መስርዕ ምጽባይ ክትጽንበሩ ትኽእሉ ኢኹም፤ ኣማኻሪ ምስ ተረኸበ ክንራኽበኩም ኢና።',
+    'matching.no_language_match': 'ሕጂ ቋንቋኹም ዝዛረብ ኣማኻሪ የለን። ካልእ ቋንቋ ክትመርጹ ወይ ክትጽበዩ ትኽእሉ ኢኹም።',
+    'matching.session_started': 'ክፍለ-ግዜ ጀሚሩ። ኣማኻሪኹም ተሓቢሩ። መለለዪ ክፍለ-ግዜ፦ {sessionId}',
+    'matching.session_start_failed': 'ሕጂ ክፍለ-ግዜ ክጅመር ኣይተኻእለን። በጃኹም ደሓር ደጊምኩም ፈትኑ።',
+    'matching.language_added': 'ዝተወሰኸ ቋንቋ፦ {language}። ተወሳኺ ምረጹ ወይ "ወዲአ" ጠውቑ።',
+    'matching.canceled': 'ምድላይ ተሰሪዙ።',
+    'matching.retry_language': 'እትመርጽዎ ቋንቋ(ታት) ምረጹ።',
+    'matching.queue_joined': 'ኣብ መስርዕ #{position} ኢኹም። ኣማኻሪ ምስ ተረኸበ ክንራኽበኩም ኢና።',
+    'matching.queue_leave_hint': 'ኣብ ዝኾነ ግዜ ካብ መስርዕ ክትወጹ ትኽእሉ ኢኹም።',
+    'matching.not_in_queue': 'ኣብ መስርዕ ምጽባይ የለኹምን።',
+    'matching.queue_left': 'ካብ መስርዕ ምጽባይ ወጺእኩም።',
+    'matching.queue_status': 'ንኣማኻሪ ኣብ መስርዕ #{position} ኢኹም። ኣማኻሪ ምስ ተረኸበ ክንራኽበኩም ኢና።',
+    'matching.leave_queue_button': '🚪 ካብ መስርዕ ውጻእ',
+    'matching.queue_session_started': 'ኣማኻሪ ተረኺቡ። ክፍለ-ግዜኹም ጀሚሩ። መለለዪ ክፍለ-ግዜ፦ {sessionId}',
+    'matching.queue_position_update': 'ሕጂ ንኣማኻሪ ኣብ መስርዕ #{position} ኢኹም።',
+    'matching.queue_expired': 'ይቕሬታ፣ ብግዜኡ ነጻ ዝኾነ ኣማኻሪ ስለ ዘይተረኽበ ካብ መስርዕ ምጽባይ ተኣሊኹም ኣለኹም። በጃኹም ደሓር ደጊምኩም ፈትኑ።',
+    'matching.prompt_language': 'እትመርጽዎ ቋንቋ(ታት) ምረጹ (ካብ ሓደ ንላዕሊ ክምረጽ ይከኣል)። ምስ ወዳእኩም "ወዲአ" ጠውቑ።',
+    'matching.prompt_language_other': 'በጃኹም እትመርጽዎ ቋንቋ ጸሓፉ።',
+    'matching.prompt_domain': 'ዓውዲ ምኽሪኹም ምረጹ (ሓደ ጥራይ)።',
+    'matching.prompt_domain_other': 'በጃኹም እተድልዩዎ ዓውዲ ምኽሪ ጸሓፉ።',
+    'matching.consent_disclosure': 'ቅድሚ ምጅማርና፦ እዚ ክፍለ-ግዜ ምኽሪ መንነትኩም ኣይገልጽን እዩ። መልእኽትታት ንድሕንነትን ንዓቐንን ክምዝገቡ ይኽእሉ። መንነትኩም ዝገልጽ ሓበሬታ ኣይተካፈሉ። ብምቕጻልኩም በዚ ውዕላት ክትሳተፉ ተሰማሚዕኩም ኣለኹም።',
+    'matching.consent_counselor': 'ምስ {counselor} ክትዘራረቡ ኢኹም።',
+    'matching.consent_button': '✅ ይሰማማዕ፣ ቀጽል',
+    'matching.consent_no_log_option': 'እንተደሊኹም "መልእኽተይ ኣይትዓቕቡ" ምረጹ፦ መልእኽትታትኩም ናብ ኣማኻሪኹም ይበጽሑ እምበር ፈጺሞም ኣይዕቀቡን። ድሒርኩም ክትርእይዎ ወይ ንኣማኻሪ እንተ ሪፖርት ጌርኩም ኣመሓደርቲ ክምርምርዎ ዝኽእሉ መዝገብ ዘተ ኣይህሉን።',
+    'matching.consent_no_log_button': '🔒 ይሰማማዕ፡ ግን መልእኽተይ ኣይትዓቕቡ',
+    'matching.continue_setup': 'ምድላው ክፍለ-ግዜኹም ንቀጽል።',
+    'matching.join_queue_button': '⏳ ናብ መስርዕ ምጽባይ ተጸንበር',
+    'matching.choose_another_language_button': '🔁 ካልእ ቋንቋ ምረጽ',
+    'matching.wait_button': '⏳ ኣማኻሪ ተጸበ',
+    'matching.previous_counselor_prompt': 'ምስቲ ቅድሚ ሕጂ ዘዕለልኩምዎ ኣማኻሪ ክትቕጽሉ ትደልዩ ዶ? ኣቐዲሞም ከረጋግጹ ክሕተቱ እዮም። ሓድሽ ኣማኻሪ እውን ክትደልዩ ትኽእሉ ኢኹም።',
+    'matching.previous_counselor_button': '🤝 {counselor} · {date}',
+    'matching.find_new_counselor_button': '🔎 ሓድሽ ኣማኻሪ ድለ',
+    'matching.previous_counselor_unavailable': 'እቲ ኣማኻሪ ሕጂ ኣይርከብን።',
+    'matching.previous_request_sent': 'ናይ ቀደም ኣማኻሪኹም ምሳኹም ክቕጽሉ ሓቲትናዮም ኣለና። ኣብ ውሽጢ {minutes} ደቒቕ እንተዘይመሊሶም፣ ካልእ ኣማኻሪ ክትረኽቡ ክንሕግዘኩም ኢና።',
+    'matching.previous_request_pending': 'ሕጂ እውን መልሲ ናይ ቀደም ኣማኻሪኹም ንጽበ ኣለና።',
+    'matching.previous_counselor_accepted': 'ናይ ቀደም ኣማኻሪኹም ተቐቢሎም። ክፍለ-ግዜኹም ጀሚሩ። መለለዪ ክፍለ-ግዜ፦ {sessionId}',
+    'matching.previous_counselor_declined': 'ናይ ቀደም ኣማኻሪኹም ሕጂ ክፍለ-ግዜ ክወስዱ ኣይኽእሉን።',
+    'matching.previous_counselor_timeout': 'ናይ ቀደም ኣማኻሪኹም ብግዜኡ ኣይመለሱን።',
+    'matching.previous_fallback_prompt': 'ካልእ ኣማኻሪ ክንደልየልኩም ትደልዩ ዶ?',
+    'matching.previous_request_to_counselor': 'ቅድሚ ሕጂ ዝሓገዝኩምዎ ተጠቃሚ (ናይ መወዳእታ ክፍለ-ግዜ {date}) ምሳኹም ክቕጽል ይደሊ። በጃኹም ኣብ ውሽጢ {minutes} ደቒቕ መልሱ።',
+    'matching.previous_accept_button': '✅ ተቐበል',
+    'matching.previous_decline_button': '❌ ኣይትቐበል',
+    'matching.previous_request_inactive': 'እዚ ሕቶ ደጊም ንጡፍ ኣይኮነን።',
+    'matching.previous_request_declined': 'እቲ ሕቶ ኣይተቐበልኩምዎን። እቲ ተጠቃሚ ምስ ካልእ ኣማኻሪ ክራኸብ እዩ።',
+
+    // Session transfers
+    'transfer.not_approved': 'ክፍለ-ግዜታት ንምሕላፍ ኣይጸደቕኩምን።',
+    'transfer.missing_preferences': 'ምርጫታት ክፍለ-ግዜ ምፍላጥ ኣይተኻእለን። በጃኹም ቀጽሉ ወይ ነቲ ክፍለ-ግዜ ወድእዎ።',
+    'transfer.select_reason': 'ምኽንያት ምሕላፍ ምረጹ፦',
+    'transfer.enter_reason': 'በጃኹም ምኽንያት ምሕላፍ ኣእትዉ።',
+    'transfer.reason_empty': 'በጃኹም ንምሕላፍ ምኽንያት ኣእትዉ።',
+    'transfer.reason_required': 'ምኽንያት ምሕላፍ የድሊ።',
+    'transfer.no_candidates': 'ዝሰማማዕ ክኢላ ኣማኻሪ የለን። ካብዚ ኣብ ታሕቲ ዘሎ ሓደ ምርጫ ምረጹ።',
+    'transfer.request_sent': 'ሕቶ ምሕላፍ ተላኢኹ። መልሲ ኣማኻሪ ይጽበ ኣሎ...',
+    'transfer.request_inactive': 'እዚ ሕቶ ምሕላፍ ደጊም ንጡፍ ኣይኮነን።',
+    'transfer.accept_failed': 'ምሕላፍ ምቕባል ኣይተኻእለን።',
+    'transfer.request_expired': 'ግዜ እዚ ሕቶ ምሕላፍ ሓሊፉ።',
+    'transfer.no_capacity': 'ነዚ ምሕላፍ ንምቕባል ዝተረፈ ዓቕሚ ክፍለ-ግዜ የብልኩምን።',
+    'transfer.completed': 'ክፍለ-ግዜ ብዓወት ሓሊፉ።',
+    'transfer.user_notice': 'ብዝሓሸ ክሕግዘኩም፡ ክፍለ-ግዜኹም ናብ ካልእ ግቡእ ክእለት ዘለዎ ኣማኻሪ ሓሊፉ።',
+    'transfer.connected': 'ሕጂ ምስቲ ተጠቃሚ ተራኺብኩም። ታሪኽ ዕላል ይርከብ።',
+    'transfer.decline_failed': 'ምሕላፍ ምንጻግ ኣይተኻእለን።',
+    'transfer.nobody_accepted': 'ነቲ ሕቶ ምሕላፍ ዝተቐበለ ነጻ ክኢላ ኣማኻሪ የለን።',
+    'transfer.declined': 'ኣይተቐበልኩምን። እቲ ሕቶ ናብ ካልእ ኣማኻሪ ሓሊፉ።',
+    'transfer.continuing': 'ነቲ ህሉው ክፍለ-ግዜ ይቕጽል ኣሎ።',
+    'transfer.waiting': 'ክኢላ ክሳዕ ዝርከብ ክንጽበ ኢና። ደሓር ምሕላፍ ደጊምኩም ፈትኑ።',
+    'transfer.canceled': 'ምሕላፍ ተሰሪዙ።',
+    'transfer.continue_button': '✅ ክፍለ-ግዜ ቀጽል',
+    'transfer.wait_button': '⏳ ክኢላ ተጸበ',
+    'transfer.request': 'ሕቶ ምሕላፍ ክፍለ-ግዜ ኣለኩም።\nዓውዲ፦ {domain}\nቋንቋ፦ {languages}\nምኽንያት፦ {reason}',
+    'transfer.accept_button': '✅ ምሕላፍ ተቐበል',
+    'transfer.decline_button': '❌ ኣይትቐበል',
+
+    // Follow-up check-ins
+    'followup.offer': 'እቲ ቦት ደሓር ነዚ ሰብ ክሓቶ ትደልዩ ዶ? መንነቶም ስውር ኮይኑ ይተርፍ፣ ምሳኹም ደጊሞም ክራኸቡ ድማ ክመርጹ ይኽእሉ።',
+    'followup.delay_button': '📅 ድሕሪ {days} መዓልቲ',
+    'followup.not_approved': 'ክትትል ከዳልዉ ዝኽእሉ ዝጸደቑ ኣማኸርቲ ጥራይ እዮም።',
+    'followup.schedule_failed': 'ክትትል ምድላው ኣይተኻእለን።',
+    'followup.scheduled': 'ክትትል ን{date} ተዳልዩ። ኣብቲ ዝሓለፈ መልእኽቲ ካልእ ግዜ እንተ መሪጽኩም ይትክኦ።',
+    'followup.cancel_button': '❌ ክትትል ሰርዝ',
+    'followup.cancelled': 'ክትትል ተሰሪዙ።',
+    'followup.cannot_cancel': 'እዚ ክትትል ድሮ ተላኢኹ ወይ ተሰሪዙ እዩ።',
+    'followup.check_in': '👋 ሰላም፣ እዚ ካብ ኣማኻሪኹም ዝተላእከ መልእኽቲ ክትትል እዩ። ከመይ ኣለኹም? ምስቲ ሓደ ኣማኻሪ ደጊምኩም ክትራኸቡ፣ ሓድሽ ክፍለ-ግዜ ክትጅምሩ ወይ ደሓን ምዃንኩም ክትሕብሩና ትኽእሉ ኢኹም።',
+    'followup.reconnect_button': '🤝 ምስ ኣማኻሪየ ደጊመ ተራኸብ',
+    'followup.new_session_button': '💬 ሓድሽ ክፍለ-ግዜ ጀምር',
+    'followup.decline_button': '🙏 የቐንየለይ፣ ደሓን እየ',
+    'followup.no_longer_active': 'እዚ መልእኽቲ ክትትል ድሕሪ ሕጂ ኣይሰርሕን እዩ።',
+    'followup.counselor_unavailable': 'ናይ ቀደም ኣማኻሪኹም ሕጂ ኣይርከብን። ኣብ ክንድኡ ምስ ካልእ ኣማኻሪ ሓድሽ ክፍለ-ግዜ ክትጅምሩ ትኽእሉ ኢኹም።',
+    'followup.reconnected': 'ምስ ኣማኻሪኹም ደጊምኩም ተራኺብኩም። መለለዪ ክፍለ-ግዜ፦ {sessionId}',
+    'followup.declined': 'ብምስማዕና ተሓጒስና። ኣብ ዝኾነ ግዜ ካብ ዝርዝር ደጊምኩም ክትረኽቡና ትኽእሉ ኢኹም።',
+
+    // Counselor registration
+    'onboarding.already_registered': 'ድሮ ከም ኣማኻሪ ተመዝጊብኩም ኣለኹም።',
+    'onboarding.already_pending': 'መመልከቲ ኣማኻሪኹም ድሮ ኣትዩ፣ ፍቓድ ኣመሓዳሪ ይጽበ ኣሎ።',
+    'onboarding.counselor_id': 'መለለዪ ኣማኻሪ፦ {counselorId}',
+    'onboarding.prompt_full_name': 'በጃኹም ምሉእ ስምኩም ኣእትዉ።',
+    'onboarding.username_detected': 'ስም ተጠቃሚ ቴሌግራም ተረኺቡ፦ {username}። ሕጂ እትዛረብዎም ቋንቋታት ምረጹ።',
+    'onboarding.prompt_username': 'በጃኹም ስም ተጠቃሚ ቴሌግራምኩም ኣእትዉ።',
+    'onboarding.current_value': 'ህሉው፦ {value}',
+    'onboarding.language_empty': 'በጃኹም ስም ቋንቋ ኣእትዉ።',
+    'onboarding.domain_empty': 'በጃኹም ስም ዓውዲ ኣእትዉ።',
+    'onboarding.domain_added': 'ዝተወሰኸ ዓውዲ፦ {domain}። ተወሳኺ ምረጹ ወይ "ወዲአ" ጠውቑ።',
+    'onboarding.experience_invalid': 'በጃኹም ንዓመታት ተመኩሮ ኣወንታዊ ቁጽሪ ኣእትዉ።',
+    'onboarding.prompt_country': 'በጃኹም ሃገርኩም ኣእትዉ።',
+    'onboarding.prompt_location': 'በጃኹም ከተማኹም ወይ ዞባኹም ኣእትዉ።',
+    'onboarding.select_one_domain': 'በጃኹም እንተወሓደ ሓደ ዓውዲ ምረጹ።',
+    'onboarding.canceled': 'ምዝገባ ኣማኻሪ ተሰሪዙ።',
+    'onboarding.restarted': 'ገለ ሓበሬታ ስለ ዝጎደለ ምዝገባ ደጊሙ ጀሚሩ።',
+    'onboarding.admin_application': '🧑‍⚕️ ሓድሽ ሕቶ ኣማኻሪ\nመለለዪ፦ {counselorId}\nሳጓ፦ {alias}\nምሉእ ሽም፦ {fullName}\nቴሌግራም፦ {telegram}\nቋንቋታት፦ {languages}\nክእለት፦ {domains}\nተመኩሮ፦ {experience} ዓመት\nሃገር፦ {country}\nቦታ፦ {location}\nኩነታት፦ ፍቓድ ኣመሓዳሪ ይጽበ ኣሎ',
+    'onboarding.submitted': 'መመልከቲ ኣማኻሪኹም ኣትዩ። መለለዪ ኣማኻሪ፦ {counselorId}። ኩነታት፦ ፍቓድ ኣመሓዳሪ ይጽበ ኣሎ።\nተጠቀምቲ ዝፈልጡኹም ብ{alias} ጥራይ እዩ። ንምርኣይ ወይ ንምቕያር /profile ተጠቐሙ።',
+    'onboarding.prompt_languages': 'እትዛረብዎም ቋንቋታት ምረጹ (ካብ ሓደ ንላዕሊ ክምረጽ ይከኣል)። ምስ ወዳእኩም "ወዲአ" ጠውቑ።',
+    'onboarding.prompt_language_other': 'በጃኹም እትዛረብዎ ካልእ ቋንቋ ጸሓፉ።',
+    'onboarding.prompt_domains': 'ዓውድታት ክእለት ምኽሪኹም ምረጹ (ካብ ሓደ ንላዕሊ ክምረጽ ይከኣል)። ምስ ወዳእኩም "ወዲአ" ጠውቑ።',
+    'onboarding.prompt_domain_other': 'በጃኹም ነቲ ካልእ ዓውዲ ምኽሪ ጸሓፉ።',
+    'onboarding.prompt_experience': 'ክንደይ ዓመት ተመኩሮ ምኽሪ ኣለኩም? (ቁጽሪ ጥራይ)',
+    'onboarding.confirm_prompt': 'መመልከቲ የእትዉ ዶ?',
+    'onboarding.continue_application': 'መመልከቲ ኣማኻሪኹም ንቀጽል።',
+    'onboarding.submit_button': '✅ መመልከቲ ኣእቱ',
+    'onboarding.summary': '🧑‍⚕️ ጽማቕ መመልከቲ ኣማኻሪ\nምሉእ ስም፦ {fullName}\nቴሌግራም፦ {telegram}\nቋንቋታት፦ {languages}\nክእለት፦ {domains}\nተመኩሮ፦ {experience} ዓመት\nሃገር፦ {country}\nቦታ፦ {location}',
+
+    // Counselor self-service
+    'counselor.not_registered': 'ከም ኣማኻሪ ኣይተመዝገብኩምን። መጀመርታ /register_counselor ተጠቐሙ።',
+    'counselor.status_not_approved': 'ኩነታትኩም ንምቕያር ኣይጸደቕኩምን።',
+    'counselor.status_updated': 'ኩነታትኩም ናብ {status} ተቐይሩ።',
+    'counselor.status_available': 'ድሉው',
+    'counselor.status_busy': 'ስራሕ ሒዙ',
+    'counselor.status_away': 'የለን',
+    'counselor.stats_not_approved': 'ስታቲስቲክስ ኣማኻሪ ንምርኣይ ኣይጸደቕኩምን።',
+    'counselor.stats': 'ዝተወድኡ ክፍለ-ግዜታት፦ {completed}\nንጡፋት ክፍለ-ግዜታት፦ {active}/{capacity}\nማእከላይ ንውሓት፦ {averageDuration} ደቒቕ\nዝበዝሐ ስራሕ ዘለዎ ሰዓታት፦ {peakHours}',
+    'counselor.capacity_not_approved': 'ዓቕሚ ክፍለ-ግዜኹም ንምቕያር ኣይጸደቕኩምን።',
+    'counselor.capacity_current': 'ሕጂ ብሓንሳእ {capacity} ክፍለ-ግዜ(ታት) ክትሕዙ ትኽእሉ ኢኹም። ንምቕያር /capacity <1-{maxCapacity}> ተጠቐሙ።',
+    'counselor.capacity_updated': 'ዓቕሚ ተቐይሩ። ሕጂ ብሓንሳእ {capacity} ክፍለ-ግዜ(ታት) ክትሕዙ ትኽእሉ ኢኹም።',
+    'counselor.profile': '🪪 ህዝባዊ መግለጺኹም\nሳጓ ስም፦ {alias}\nመግለጺ፦ {bio}\n\nተጠቀምቲ ኣብ ክንዲ ስምኩም እዚ ይርእዩ። ለውጢ ንምሕታት /set_alias <alias> ወይ /set_bio <text> ተጠቐሙ፤ መጀመርታ ኣመሓዳሪ ይርእዮ።',
+    'counselor.profile_pending': 'ምርኣይ ኣመሓዳሪ ይጽበ ኣሎ፦\nሳጓ ስም፦ {alias}\nመግለጺ፦ {bio}',
+    'counselor.profile_suspended': 'ዝተኣገዱ ኣማኸርቲ ህዝባዊ መግለጺኦም ክቕይሩ ኣይኽእሉን።',
+    'counselor.alias_usage': 'ኣጠቓቕማ፦ /set_alias <alias>',
+    'counselor.bio_usage': 'ኣጠቓቕማ፦ /set_bio <ተጠቀምቲ ዝርእይዎ ሓጺር መእተዊ>',
+    'counselor.profile_update_submitted': 'ለውጢ መግለጺኹም ንምርኣይ ናብ ኣመሓደርቲ ተላኢኹ።',
+    'counselor.profile_update_failed': 'ለውጢ መግለጺኹም ምእታው ኣይተኻእለን።',
+    'counselor.profile_update_approved': 'ለውጢ መግለጺኹም ጸዲቑ። ተጠቀምቲ ሕጂ ከም {alias} ይርእዩኹም።',
+    'counselor.profile_update_rejected': 'ለውጢ መግለጺኹም ኣይጸደቐን። ህዝባዊ መግለጺኹም ኣይተቐየረን።',
+
+    // Prayer requests
+    'prayer.select_category': 'ሕቶ ጸሎትኩም ብዛዕባ እንታይ እዩ?',
+    'prayer.category_health': '🩺 ጥዕና',
+    'prayer.category_family': '👨‍👩‍👧 ስድራ',
+    'prayer.category_work': '💼 ስራሕ',
+    'prayer.category_spiritual': '✝️ መንፈሳዊ',
+    'prayer.category_other': '🕊 ካልእ',
+    'prayer.category_all': '📋 ኩሉ',
+    'prayer.prompt_title': 'በጃኹም ኣርእስቲ ጸሎትኩም ኣእትዉ።',
+    'prayer.received': 'ሕቶ ጸሎትኩም በጺሑና። ኣማኸርቲ ክጽልዩሉ እዮም።',
+    'prayer.view_not_approved': 'ሕቶታት ጸሎት ንምርኣይ ኣይጸደቕኩምን።',
+    'prayer.none': 'ሕቶ ጸሎት የለን።',
+    'prayer.none_in_category': 'ኣብ {category} ሕቶ ጸሎት የለን።',
+    'prayer.list_header': 'ሕቶታት ጸሎት ({count})፦',
+    'prayer.list_header_category': 'ኣብ {category} ዘለዉ ሕቶታት ጸሎት ({count})፦',
+    'prayer.item': '🙏 ሕቶ ጸሎት\nኣርእስቲ፦ {title}\nዓይነት፦ {category}\nመለለዪ፦ {prayerId}\nዝኣተወሉ፦ {submittedAt}\nዝጸለዩሉ፦ {prayedCount}\nሓበሬታታት፦ {updateCount}',
+    'prayer.item_latest_update': 'ናይ መወዳእታ ሓበሬታ ({updatedAt})፦ {text}',
+    'prayer.close_button': '✅ ጸሎት ዕጾ',
+    'prayer.prayed_button': '🙏 ጸልየ',
+    'prayer.prayed_recorded': 'ስለ ዝጸለኹም የቐንየልና። እቲ ዝሓተተ ሰብ መንነትኩም ከይፈለጠ ክተባባዕ እዩ።',
+    'prayer.already_prayed': 'ነዚ ሕቶ ድሮ ጸልዮምሉ ኣለኹም።',
+    'prayer.updates_notice': 'ኣማኸርቲ ምስ ጸለዩሉ መንነቶም ከይገለጽና ክንሕብረኩም ኢና።',
+    'prayer.prayed_count_one': '🙏 ሓደ ኣማካሪ ን"{title}" ሕቶኹም ጸልዩ።',
+    'prayer.prayed_count': '🙏 {count} ኣማኸርቲ ን"{title}" ሕቶኹም ጸልዮም።',
+    'prayer.mute_button': '🔕 ብዛዕባ እዚ ሕቶ ሓበሬታ ኣቋርጽ',
+    'prayer.unmute_button': '🔔 ሓበሬታ ቀጽል',
+    'prayer.muted': 'ብዛዕባ እዚ ሕቶ ጸሎት ደጊም ሓበሬታ ኣይበጽሓኩምን።',
+    'prayer.unmuted': 'ብዛዕባ እዚ ሕቶ ጸሎት እንደገና ሓበሬታ ክበጽሓኩም እዩ።',
+    'prayer.update_unavailable': 'እዚ ሕቶ ጸሎት ደጊም ኣይርከብን።',
+    'prayer.my_none': 'ክፉት ሕቶ ጸሎት የብልኩምን።',
+    'prayer.my_list_header': 'ክፉታት ሕቶታት ጸሎትኩም ({count})፦',
+    'prayer.my_item': '🙏 {title}\nዓይነት፦ {category}\nዝኣተወሉ፦ {submittedAt}\nዝጸለዩሉ፦ {prayedCount}\nሓበሬታታት፦ {updateCount}',
+    'prayer.update_button': '✏️ ሓበሬታ ወስኽ',
+    'prayer.answered_button': '🎉 መልሲ ረኺቡ',
+    'prayer.prompt_update': 'ሓበሬታኹም ጽሓፉ። ኣማኸርቲ ምስ ሕቶኹም ክርእይዎ እዮም።',
+    'prayer.update_posted': 'ሓበሬታኹም ተወሲኹ።',
+    'prayer.answered': '🎉 ስብሓት ንእግዚኣብሄር! ሕቶ ጸሎትኩም መልሲ ከም ዝረኸበ ተመዝጊቡ ተዓጽዩ።\nሓጺር ምስክርነት ክትጽሕፉ ትደልዩ ዶ?',
+    'prayer.testimony_button': '✍️ ምስክርነት ጽሓፍ',
+    'prayer.prompt_testimony': 'ምስክርነትኩም ጽሓፉ። ከተካፍልዎ እንተዘይመሪጽኩም ብሕታዊ ኮይኑ ይተርፍ፤ ከተካፍልዎ እንተኽኢልኩም ዘለልየኩም ነገር ኣይትጽሓፉ።',
+    'prayer.testimony_saved': 'ጸሎትኩም ብኸመይ ከም ዝተመለሰ ስለ ዘካፈልኩምና የቐንየልና።',
+    'prayer.testimony_share_prompt': 'ምስክርነትኩም ኣብቲ ሰሙናዊ ጽማቕ ዝተመለሱ ጸሎታት መንነትኩም ከይገለጽና ከነካፍሎ ንኽእል ዶ? ዝርአ ዓይነቱን ምስክርነትኩምን ጥራይ እዩ፤ ስምኩም ወይ ኣርእስቲ ሕቶኹም ፈጺሙ ኣይርአን።',
+    'prayer.share_button': '✅ መንነተይ ከይገለጽኩም ኣካፍሉ',
+    'prayer.keep_private_button': '🔒 ብሕታዊ ይኹን',
+    'prayer.testimony_shared': 'ምስክርነትኩም ኣብቲ ዝቕጽል ሰሙናዊ ጽማቕ ክካተት እዩ።',
+    'prayer.testimony_private': 'ምስክርነትኩም ብሕታዊ ኮይኑ ክተርፍ እዩ።',
+    'prayer.testimony_locked': 'እዚ ምስክርነት ደጊም ክቕየር ኣይክእልን። ምናልባት ድሮ ተኻፊሉ ክኸውን ይኽእል።',
+    'prayer.digest_header': '🌟 ኣብዚ ሰሙን ዝተመለሱ ጸሎታት ({count})\nብዝሓተቱ ሰባት መንነቶም ከይተገልጸ ዝተኻፈለ።',
+    'prayer.digest_item': '{category}\n“{text}”',
+    'prayer.close_not_approved': 'ሕቶታት ጸሎት ንምዕጻው ኣይጸደቕኩምን።',
+    'prayer.select_to_close': 'ዝዕጾ ሕቶ ጸሎት ምረጹ፦',
+    'prayer.already_closed': 'እቲ ሕቶ ጸሎት ድሮ ተዓጽዩ እዩ።',
+    'prayer.closed': 'ሕቶ ጸሎት {prayerId} ተዓጽዩ።',
+    'prayer.prayed_for': '🙏 ሓበሬታ ጸሎት\nሓደ ኣማኻሪ ንሕቶ ጸሎትኩም ጸልዩ።\nኣርእስቲ፦ {title}\nዝኣተወሉ ግዜ፦ {submittedAt}',
+    'prayer.close_failed': 'ሕቶ ጸሎት ምዕጻው ኣይተኻእለን።',
+
+    // Prayer wall
+    'prayer_wall.opt_in_prompt': 'ማሕበር ምእመናን ውን ክጽልዩ፡ ሕቶኹም መንነትኩም ከይተገልጸ ኣብ ቻነል መንደቕ ጸሎትና ክካፈል ትደልዩ ዶ? መጀመርታ ኣመሓዳሪ ይርእዮ፤ ስምኩም ፈጺሙ ኣይርአን።',
+    'prayer_wall.opt_in_button': '📣 ኣብ መንደቕ ጸሎት ኣካፍል',
+    'prayer_wall.opt_in_received': 'የቐንየልና። ሕቶኹም ኣብ መንደቕ ጸሎት ቅድሚ ምርኣዩ ኣመሓዳሪ ክርእዮ እዩ።',
+    'prayer_wall.opt_in_unavailable': 'እዚ ሕቶ ደጊም ኣብ መንደቕ ጸሎት ክካፈል ኣይክእልን።',
+    'prayer_wall.submitter_published': '📣 "{title}" ሕቶ ጸሎትኩም ሕጂ ኣብ መንደቕ ጸሎት ኣሎ። ማሕበር ምእመናን ምሳኹም ይጸልዩ ኣለዉ።',
+    'prayer_wall.submitter_rejected': '"{title}" ሕቶ ጸሎትኩም ኣብ መንደቕ ጸሎት ኣይተለጠፈን። ኣማኸርቲ ግን ሕጂ ውን ይጸልዩሉ ኣለዉ።',
+    'prayer_wall.post': '🙏 ሕቶ ጸሎት · {category}\n\n{text}\n\nበጃኹም ምሳና ጸልዩ።',
+    'prayer_wall.post_closed': '✅ ሕቶ ጸሎት · {category}\n\n{text}\n\nእዚ ሕቶ ተዓጽዩ እዩ። ስለ ዝጸለኹም የቐንየልና።',
+    'prayer_wall.post_answered': '🎉 ዝተመለሰ ጸሎት · {category}\n\n{text}\n\nእዚ ጸሎት መልሲ ረኺቡ እዩ። ስለ ዝጸለኹም የቐንየልና!',
+    'prayer_wall.post_removed': '🗑 እዚ ሕቶ ጸሎት ብእቲ ዘካፈሎ ሰብ ተላዒሉ እዩ።',
+    'prayer_wall.admin_new_request': '📣 ሓድሽ ሕቶ መንደቕ ጸሎት',
+    'prayer_wall.review_item': 'ምድብ፦ {category}\nጽሑፍ፦ {text}\nመለለዪ፦ {prayerId}\nዝተሓተሉ፦ {requestedAt}',
+    'prayer_wall.approve_button': '✅ ዘርግሕ',
+    'prayer_wall.edit_button': '✏️ ኣመዓራርይ',
+    'prayer_wall.reject_button': '❌ ንጸግ',
+    'prayer_wall.queue_header': 'ግምገማ ዝጽበዩ ሕቶታት መንደቕ ጸሎት ({count})፦',
+    'prayer_wall.queue_empty': 'ግምገማ ዝጽበ ሕቶ መንደቕ ጸሎት የለን።',
+    'prayer_wall.not_authorized': 'ንመንደቕ ጸሎት ከተመሓድሩ ፍቓድ የብልኩምን።',
+    'prayer_wall.disabled': 'መንደቕ ጸሎት ኣይተዳለወን። ንምንቃሑ PRAYER_WALL_CHANNEL_ID ኣዳሉ።',
+    'prayer_wall.prompt_edit': 'ኣብ ክንዲ እዚ ዝዝርጋሕ ጽሑፍ ስደድ፦\n{text}\n\nነቲ ዘቕረበ ሰብ ከለልዮ ዝኽእል ዝኾነ ነገር ኣወግድ።',
+    'prayer_wall.prompt_edit_empty': 'እቲ ሓድሽ ጽሑፍ ባዶ ክኸውን ኣይክእልን። ዝዝርጋሕ ጽሑፍ ስደድ።',
+    'prayer_wall.edited': 'ጽሑፍ ተመሓይሹ። ቅድሚ ምዝርጋሑ ከም ብሓድሽ ገምግሞ፦',
+    'prayer_wall.already_reviewed': 'እዚ ሕቶ ድሮ ተገምጊሙ ወይ ደጊም ክፉት ኣይኮነን።',
+    'prayer_wall.published': 'ኣብ መንደቕ ጸሎት ተዘርጊሑ።',
+    'prayer_wall.publish_failed': 'ኣብ መንደቕ ጸሎት ምዝርጋሕ ኣይተኻእለን፦ {message}። እቲ ሕቶ ናብ መስርዕ ተመሊሱ።',
+    'prayer_wall.rejected': 'እቲ ሕቶ ተነጺጉ። ኣይክልጠፍን እዩ።',
+
+    // Session history
+    'history.none': 'ታሪኽ ክፍለ-ግዜ የለን።',
+    'history.list_header': 'ታሪኽ ክፍለ-ግዜ ({count})፦',
+    'history.general_topic': 'ሓፈሻዊ ደገፍ',
+    'history.status_active': 'ንጡፍ',
+    'history.status_transferred': 'ዝሓለፈ',
+    'history.status_completed': 'ዝተወድአ',
+    'history.item': 'ኣርእስቲ ክፍለ-ግዜ፦ {topic}\nዕለት፦ {date}\nኩነታት፦ {status}',
+    'history.item_with_counselor': 'ኣርእስቲ ክፍለ-ግዜ፦ {topic}\nኣማኻሪ፦ {counselor}\nዕለት፦ {date}\nኩነታት፦ {status}',
+    'history.see_chat': '💬 ዕላል ርአ',
+    'history.no_messages': 'ኣብዚ ክፍለ-ግዜ መልእኽቲ የለን።',
+    'history.no_log_label': '🔒 ኣይተመዝገበን፡ መዝገብ ዘተ ኣይተዓቀበን',
+    'history.no_log_transcript': 'እዚ ዘይተመዝገበ ክፍለ-ግዜ ነይሩ፤ መልእኽትታቱ ፈጺሞም ኣይተዓቀቡን።',
+    'history.chat_header': 'ዕላል ክፍለ-ግዜ ({count} መልእኽትታት)፦',
+
+    // Reports
+    'report.end_session_first': 'ቅድሚ ምጽብጻብኩም በጃኹም ክፍለ-ግዜኹም ወድእዎ።',
+    'report.after_session_only': 'ጸብጻብ ዝከኣል ክፍለ-ግዜ ምስ ተወድአ እዩ።',
+    'report.prompt_reason': 'በጃኹም ምኽንያት ናይቲ ጸብጻብ ግለጹ።',
+    'report.users_only': 'ጸብጻብ ከእትዉ ዝኽእሉ ተጠቀምቲ ጥራይ እዮም።',
+    'report.no_recent_session': 'ዝጽብጸብ ናይ ቀረባ ግዜ ክፍለ-ግዜ ኣይተረኽበን።',
+    'report.counselor_notice': '⚠️ ጸብጻብ ኣትዩ\nሓደ ተጠቃሚ ብዛዕባ ክፍለ-ግዜኹም ጸብጻብ ኣእትዩ።\nመለለዪ ጸብጻብ፦ {reportId}\nምኽንያት፦ {reason}',
+    'report.submitted': 'ጸብጻብ ኣትዩ። መለለዪ፦ {reportId}',
+    'report.view_not_authorized': 'ጸብጻባት ንምርኣይ ፍቓድ የብልኩምን።',
+    'report.none_pending': 'ዝጽበ ጸብጻብ የለን።',
+    'report.pending_header': 'ዝጽበዩ ጸብጻባት ({count})፦',
+    'report.pending_item': '🚩 ዝጽበ ጸብጻብ\nመለለዪ ጸብጻብ፦ {reportId}\nመለለዪ ኣማኻሪ፦ {counselorId}\nምኽንያት፦ {reason}\nዝቐረበሉ፦ {submittedAt}',
+    'report.view_chat_button': '💬 ዕላል ርአ',
+    'report.strike_button': '⚠️ መጠንቀቕታ',
+    'report.dismiss_button': '✅ ሕደጎ',
+    'report.chat_not_authorized': 'ዕላላት ጸብጻብ ንምርኣይ ፍቓድ የብልኩምን።',
+    'report.chat_empty': 'ኣብ ክፍለ-ግዜ {sessionId} መልእኽቲ የለን።\n\nጸብጻብ፦ {reason}',
+    'report.chat_erased': 'ተጠቃሚ ክፍለ-ግዜ {sessionId} ሓበሬታኦም ደምሲሶም እዮም፡ ስለዚ መልእኽትታቱ ደጊም ኣይርከቡን።\n\nጸብጻብ፦ {reason}',
+    'report.chat_no_log': '🔒 ክፍለ-ግዜ {sessionId} እቲ ተጠቃሚ ዝመረጾ መዝገብ ዘይሓዝ ክፍለ-ግዜ ነይሩ። {count} መልእኽትታቱ ተሓላሊፎም እምበር ኣይተዓቀቡን፡ ስለዚ ዝግምገም ቃል ብቓል ጽሑፍ የለን።\n\nጸብጻብ፦ {reason}',
+    'report.chat_header': '💬 ዕላል ክፍለ-ግዜ (መለለዪ ጸብጻብ፦ {reportId}፡ ኣማኻሪ፦ {counselorId})\nምኽንያት፦ {reason}',
+    'report.chat_failed': 'ዕላል ምጽዓን ኣይተኻእለን፦ {message}',
+    'report.process_not_authorized': 'ጸብጻባት ንምስራሕ ፍቓድ የብልኩምን።',
+    'report.process_usage': 'ኣጠቓቕማ፦ /process_report <reportId> <strike|dismiss>',
+    'report.processed': 'ጸብጻብ {reportId} ተተግቢሩ። ስጉምቲ፦ {action}።',
+    'report.access_revoked': 'ብሰንኪ መቕጻዕቲ ጸብጻብ ናይ ምኽሪ ኣገልግሎት መሰልኩም ተሰሪዙ። በጃኹም ኣመሓዳሪ ተወከሱ።',
+    'report.account_suspended': 'ብሰንኪ መቕጻዕቲ ጸብጻብ ሕሳብ ኣማኻሪኹም ተኣጊዱ። በጃኹም ኣመሓዳሪ ተወከሱ።',
+
+    // Appeals
+    'appeal.suspended_only': 'ይግባይ ዝከኣል ንዝተኣገዱ ኣማኸርቲ ጥራይ እዩ።',
+    'appeal.prompt_message': 'በጃኹም ናብ ኣመሓደርቲ እትልእኩዎ መልእኽቲ ይግባይ ኣእትዉ።',
+    'appeal.submitted': 'ይግባይ ኣትዩ። መለለዪ፦ {appealId}',
+    'appeal.view_not_authorized': 'ይግባያት ንምርኣይ ፍቓድ የብልኩምን።',
+    'appeal.none_pending': 'ዝጽበ ይግባይ የለን።',
+    'appeal.pending_header': 'ዝጽበዩ ይግባያት ({count})፦',
+    'appeal.item': '🧾 ይግባይ\nመለለዪ ይግባይ፦ {appealId}\nመለለዪ ኣማኻሪ፦ {counselorId}\nመጠንቀቕታታት፦ {strikes}\nመልእኽቲ፦ {message}\nዝቐረበሉ፦ {submittedAt}',
+    'appeal.revoke_button': '♻️ እገዳ ኣልዕል',
+    'appeal.approve_button': '✅ ኣጽድቕ',
+    'appeal.process_not_authorized': 'ይግባያት ንምስራሕ ፍቓድ የብልኩምን።',
+    'appeal.not_found': 'እቲ ይግባይ ኣይተረኽበን።',
+    'appeal.already_processed': 'እቲ ይግባይ ድሮ ተተግቢሩ እዩ።',
+    'appeal.counselor_not_found': 'ኣማኻሪ እዚ ይግባይ ኣይተረኽበን።',
+    'appeal.approved': 'እቲ ይግባይ ጸዲቑ። ኣማኻሪ {counselorId} ጸዲቖም።',
+    'appeal.revoked': 'እቲ ይግባይ ተተግቢሩ። እገዳ ኣማኻሪ {counselorId} ተላዒሉ።',
+    'appeal.approved_notice': 'ይግባይኩም ተቐባልነት ረኺቡ። ናይ ምኽሪ ኣገልግሎት መሰልኩም ተመሊሱ።',
+    'appeal.revoked_notice': 'ይግባይኩም ተራእዩ። እገዳኹም ተላዒሉ።',
+
+    // Your data
+    'privacy.counselor_not_supported': 'መዛግብቲ ኣማኸርቲ ብኣመሓደርቲ እዮም ዝመሓደሩ። ብዛዕባ ሓበሬታኹም በጃኹም ኣመሓዳሪ ተወከሱ።',
+    'privacy.no_data': 'ብዛዕባኹም ዝተዓቀበ ሓበሬታ የለን።',
+    'privacy.export_caption': '📦 ብዛዕባኹም እንዕቅቦ ኩሉ። ነዚ ፋይል ኣብ ብሕታዊ ቦታ ዓቕብዎ።',
+    'privacy.export_failed': 'ቅዳሕ ሓበሬታኹም ምድላው ኣይተኻእለን። በጃኹም ደሓር እንደገና ፈትኑ።',
+    'privacy.delete_confirm': '⚠️ እዚ መልእኽትታትኩም፣ ሕቶታት ጸሎት፣ መልእኽትታት ክትትል ከምኡ\'ውን መግለጺኹም ንሓዋሩ ይድምስስ። ብዛዕባ ኣማኻሪ ዝቐረቡ ጸብጻባት ቅኑዓት ኮይኖም ምእንቲ ክጸንሑ፡ ዝሓለፉ ክፍለ-ግዜታት ምሳኹም ዝኾነ ምትእስሳር ከይሃለዎም ይዕቀቡ። እዚ ክምለስ ኣይከኣልን። ትቕጽሉ ዶ?',
+    'privacy.delete_button': '🗑️ ሓበሬታይ ደምስስ',
+    'privacy.delete_cancelled': 'ዝተደምሰሰ የለን።',
+    'privacy.deleted': 'ሓበሬታኹም ተደምሲሱ። ነዚ ቦት እንደገና እንተ ተጠቐምኩም ብሓድሽ ስም-ኣልቦ መለለዪ ክትጅምሩ ኢኹም።',
+    'privacy.deleted_wall_posts_kept': 'ሓበሬታኹም ተደምሲሱ፣ ግን ኣብ ህዝባዊ መንደቕ ጸሎት ካብ ዘለዉ ሕቶታት ጸሎትኩም {count} ካብቲ ቻነል ክእለዩ ኣይከኣሉን። መንነትኩም ፈጺሞም ኣየርኣዩን። ነዚ ቦት እንደገና እንተ ተጠቐምኩም ብሓድሽ ስም-ኣልቦ መለለዪ ክትጅምሩ ኢኹም።',
+    'privacy.delete_failed': 'ሓበሬታኹም ምድምሳስ ኣይተኻእለን። በጃኹም ደሓር እንደገና ፈትኑ።',
+
+    // Admin tools
+    'admin.stats_not_authorized': 'ስታቲስቲክስ ኣመሓዳሪ ንምርኣይ ፍቓድ የብልኩምን።',
+    'admin.stats': 'ብጠቕላላ ዝተዛዘሙ ክፍለ-ግዜታት፦ {completed}\nንጡፋት ክፍለ-ግዜታት፦ {active}\nማእከላይ ንውሓት፦ {averageDuration} ደቒቕ\nሕቶታት ጸሎት፦ {prayers}\nኣብ መስርዕ ዝጽበዩ፦ {queueLength}\nዝበዝሐ ዝስርሓሉ ሰዓታት፦ {peakHours}',
+    'admin.list_not_authorized': 'ኣማኸርቲ ንምርኣይ ፍቓድ የብልኩምን።',
+    'admin.no_counselors': 'ዝኾነ ኣማኻሪ ኣይተረኽበን።',
+    'admin.counselors_header': 'ኣማኸርቲ ({count})፦',
+    'admin.counselor_item': '🧑‍⚕️ ኣማኻሪ\nመለለዪ፦ {counselorId}\nሳጓ፦ {alias}\nኩነታት፦ {status}\nጸዲቑ፦ {approved}\nታጊዱ፦ {suspended}\nመጠንቀቕታታት፦ {strikes}\nክፍለ-ግዜታት፦ {sessions}',
+    'admin.update_not_authorized': 'ኣማኸርቲ ንምምሕያሽ ፍቓድ የብልኩምን።',
+    'admin.counselor_not_found': 'እቲ ኣማኻሪ ኣይተረኽበን።',
+    'admin.suspension_revoked': 'እገዳ ኣማኻሪ {counselorId} ተላዒሉ።',
+    'admin.suspension_revoked_notice': 'እገዳኹም ተላዒሉ። ሕጂ ኩነታትኩም ከም ብሓድሽ ከተቐምጡ ትኽእሉ ኢኹም።',
+    'admin.approve_not_authorized': 'ኣማኸርቲ ንምጽዳቕ ፍቓድ የብልኩምን።',
+    'admin.counselor_approved': 'ኣማኻሪ {counselorId} ጸዲቖም።',
+    'admin.access_restored_notice': 'ፍቓድ ምኽሪኹም ተመሊሱ። ሕጂ ኩነታትኩም ከተቐምጡን ክፍለ-ግዜታት ክትቕበሉን ትኽእሉ ኢኹም።',
+    'admin.no_pending_approvals': 'ምጽዳቕ ዝጽበ ኣማኻሪ የለን።',
+    'admin.profile_review': '🪪 ሕቶ ለውጢ ፕሮፋይል\nመለለዪ ኣማኻሪ፦ {counselorId}\nናይ ሕጂ ሳጓ፦ {currentAlias}\nሓድሽ ሳጓ፦ {alias}\nሓድሽ ታሪኽ ህይወት፦ {bio}',
+    'admin.profile_unchanged': '(ኣይተቐየረን)',
+    'admin.profile_approve_button': '✅ ኣጽድቕ',
+    'admin.profile_reject_button': '❌ ንጸግ',
+    'admin.profile_reviews_header': 'ዝጽበዩ ለውጥታት ፕሮፋይል ({count})፦',
+    'admin.no_profile_reviews': 'ዝጽበ ለውጢ ፕሮፋይል የለን።',
+    'admin.profile_review_not_authorized': 'ለውጥታት መግለጺ ንምርኣይ ፍቓድ የብልኩምን።',
+    'admin.profile_update_approved': 'ለውጢ ፕሮፋይል {counselorId} ጸዲቑ።',
+    'admin.profile_update_rejected': 'ለውጢ ፕሮፋይል {counselorId} ተነጺጉ።',
+    'admin.pending_approvals_header': 'ምጽዳቕ ዝጽበዩ ኣማኸርቲ ({count})፦',
+    'admin.pending_approval_item': 'መለለዪ፦ {counselorId} | ኩነታት፦ {status} | መጠንቀቕታታት፦ {strikes}',
+    'admin.approved_notice': 'ሕቶ ኣማኻሪነትኩም ጸዲቑ። ሕጂ ኩነታትኩም ከተቐምጡን ክፍለ-ግዜታት ክትቕበሉን ትኽእሉ ኢኹም።',
+    'admin.remove_not_authorized': 'ኣማኸርቲ ንምእላይ ፍቓድ የብልኩምን።',
+    'admin.removal_item': '🧑‍⚕️ ኣማኻሪ\nመለለዪ፦ {counselorId}\nኩነታት፦ {status}\nመጠንቀቕታታት፦ {strikes}',
+    'admin.counselor_removed': 'ኣማኻሪ {counselorId} ተወጊዶም።',
+    'admin.audit_not_authorized': 'መዛግብቲ ኦዲት ንምርኣይ ፍቓድ የብልኩምን።',
+    'admin.audit_empty': 'ዝኾነ መዝገብ ኦዲት ኣይተረኽበን።',
+    'admin.audit_header': '🧾 መዝገብ ኦዲት ({count})፦',
+    'admin.audit_entry': '📌 መዝገብ ኦዲት\nግዜ፦ {timestamp}\nስጉምቲ፦ {action}\nኣመሓዳሪ፦ {adminId}',
+    'admin.audit_target': 'ዕላማ፦ {targetId}',
+    'admin.audit_details': 'ዝርዝራት፦ {details}',
+    'admin.cleanup_not_authorized': 'ምጽራይ ሓበሬታ ኣቐዲምኩም ንምርኣይ ፍቓድ የብልኩምን።',
+    'admin.cleanup_preview': '🧹 ቅድመ-ርእይቶ ምጽራይ፡ ገለ እኳ ኣይተደምሰሰን። እቲ ዝቕጽል ምጽራይ ዘወግዶ፦\nክፍለ-ግዜታት፦ {sessions}\nመልእኽትታት፦ {messages}\nዝተዓጽዉ ሕቶታት ጸሎት፦ {prayers}\nዝተተግበሩ ጸብጻባት፦ {reports}\nመዛግብ ኦዲት፦ {auditLogs}\nመዛግብ ሓፈሻዊ መልእኽቲ፦ {broadcastLogs}\n\nንጡፋት ክፍለ-ግዜታት፡ ዝጽበዩ ጸብጻባት ዘለዎም ክፍለ-ግዜታትን ኣብ ይግባይ ዘለዉ ጸብጻባትን ኩሉ ግዜ ይዕቀቡ።',
+    'admin.cleanup_run_button': '🧹 ሕጂ ደምስስ',
+    'admin.cleanup_done': '🧹 ምጽራይ ተዛዚሙ። ዝተወገዱ፦\nክፍለ-ግዜታት፦ {sessions}\nመልእኽትታት፦ {messages}\nዝተዓጽዉ ሕቶታት ጸሎት፦ {prayers}\nዝተተግበሩ ጸብጻባት፦ {reports}\nመዛግብ ኦዲት፦ {auditLogs}\nመዛግብ ሓፈሻዊ መልእኽቲ፦ {broadcastLogs}',
+    'admin.keys_not_authorized': 'መፋትሕ ምስጢራዊ መልእኽቲ ንምቕያር ፍቓድ የብልኩምን።',
+    'admin.keys_encryption_disabled': 'ምስጢራዊ ጽሑፍ መልእኽቲ ኣይተዳለወን፡ ስለዚ ዝቕየሩ መፍትሕታት የለዉን።',
+    'admin.keys_rotated': '🔐 ብቀንዲ መፍትሕ {keyId} ከም ብሓድሽ ዝተጠቕለሉ መፍትሕታት ሓበሬታ ክፍለ-ግዜ፦ {rewrapped}\nዘይተዓወቱ፦ {failed}',
+    'admin.keys_rotation_failures': 'ገሊኦም መፍትሕታት ከም ብሓድሽ ክጥቕለሉ ኣይከኣሉን። ዝተሰናበቱ ቀንዲ መፍትሕታቶም ተዳልዮም ክጸንሑ ግበሩ፡ ቅድሚ ዳግማይ ምፍታን ድማ መዛግብ ፈትሹ።',
+    'admin.roles_not_authorized': 'ኣመሓደርቲ ከመሓድሩ ዝኽእሉ ላዕለዎት ኣመሓደርቲ ጥራይ እዮም።',
+    'admin.role_super_admin': 'ላዕለዋይ ኣመሓዳሪ',
+    'admin.role_moderator': 'ተቖጻጻሪ',
+    'admin.role_reviewer': 'ገምጋሚ',
+    'admin.role_broadcaster': 'ኣፋላጢ',
+    'admin.admins_header': '🛡 ኣመሓደርቲ ({count})። ተራታት፦ {roles}',
+    'admin.admins_item': '{chatId}፦ {role}',
+    'admin.admins_item_configured': '{chatId}፦ {role} (ካብ ADMIN_CHAT_IDS)',
+    'admin.remove_admin_button': '🗑 ኣመሓዳሪ ኣወግድ',
+    'admin.add_admin_usage': 'ኣጠቓቕማ፦ /add_admin <chatId> <role>\nተራታት፦ {roles}',
+    'admin.remove_admin_usage': 'ኣጠቓቕማ፦ /remove_admin <chatId>',
+    'admin.admin_added': 'ቻት {chatId} ሕጂ ተራ {role} ዘለዎ ኣመሓዳሪ እዩ።',
+    'admin.admin_role_changed': 'ኣመሓዳሪ {chatId} ሕጂ ተራ {role} ኣለዎም።',
+    'admin.admin_removed': 'ኣመሓዳሪ {chatId} ተወጊዶም።',
+    'admin.role_granted_notice': '🛡 ሕጂ ተራ {role} ዘለኩም ኣመሓዳሪ ኢኹም። ትእዛዛት ኣመሓዳሪ ንምርኣይ /help ስደዱ።',
+    'admin.role_removed_notice': 'ፍቓድ ኣመሓዳሪኹም ተወጊዱ።',
+    'admin.approval_action_remove_counselor': 'ኣማኻሪ {targetId} ምውጋድ',
+    'admin.approval_action_revoke_appeal': 'ኣብ ይግባይ {targetId} ዘሎ እገዳ ምልዓልን መጠንቀቕታታት ምጽራይን',
+    'admin.approval_action_revoke_suspension': 'እገዳ ኣማኻሪ {targetId} ምልዓልን መጠንቀቕታታት ምጽራይን',
+    'admin.approval_action_run_cleanup': 'ብመሰረት ፖሊሲ ዕቃበ ኣረጊት ሓበሬታ ሕጂ ምድምሳስ',
+    'admin.approval_requested': '⏳ ካልኣይ ኣመሓዳሪ ነዚ ከረጋግጽ ይጽበ ኣሎ፦ {action}። እቶም ካልኦት ኣመሓደርቲ ተሓቲቶም እዮም፡ ንምርግጋጽ ድማ {minutes} ደቒቕ ኣለዎም።',
+    'admin.approval_already_pending': '⏳ ኣመሓዳሪ {adminId} ድሮ ነዚ ሓቲቶም እዮም፦ {action}። ንካልኣይ ኣመሓዳሪ ይጽበ ኣሎ።',
+    'admin.approval_request_notice': '⏳ ኣመሓዳሪ {adminId} ነዚ ይሓቱ ኣለዉ፦ {action}። ኣብ ውሽጢ {minutes} ደቒቕ ኣረጋግጹ፡ እንተዘይኮነ ግዜኡ ይሓልፍ።',
+    'admin.approval_confirm_button': '✅ ኣረጋግጽ',
+    'admin.approval_reject_button': '❌ ንጸግ',
+    'admin.approval_not_authorized': 'ኣብዚ ተግባር ክትውስኑ ፍቓድ የብልኩምን።',
+    'admin.approval_not_found': 'እዚ ስጉምቲ ኣይተረኽበን።',
+    'admin.approval_already_resolved': 'እዚ ስጉምቲ ድሮ ተረጋጊጹ ወይ ተነጺጉ እዩ።',
+    'admin.approval_expired': 'እዚ ስጉምቲ ካልኣይ ኣመሓዳሪ ከየረጋገጾ ግዜኡ ሓሊፉ። ሕጂ ውን እንተ ኣድልዩ ከም ብሓድሽ ሕተቱ።',
+    'admin.approval_own_request': 'ነዚ ስጉምቲ ዝሓተትኩም ንስኹም ስለ ዝኾንኩም፡ ካልእ ኣመሓዳሪ ከረጋግጾ ኣለዎ።',
+    'admin.approval_rejected': 'ተነጺጉ፦ {action}።',
+    'admin.approval_confirmed_notice': '✅ ኣመሓዳሪ {adminId} ሕቶኹም ኣረጋጊጾም፦ {action}።',
+    'admin.approval_rejected_notice': '❌ ኣመሓዳሪ {adminId} ሕቶኹም ነጺጎም፦ {action}።',
+    'admin.approvals_empty': 'ንካልኣይ ኣመሓዳሪ ዝጽበ ስጉምቲ የለን።',
+    'admin.approvals_header': '⏳ ንካልኣይ ኣመሓዳሪ ዝጽበዩ ስጉምትታት ({count})፦',
+    'admin.approvals_item': 'ኣመሓዳሪ {adminId} ነዚ ይሓቱ ኣለዉ፦ {action}። ግዜኡ ዝሓልፈሉ፦ {expiresAt}።',
+
+    // Broadcasts
+    'broadcast.not_authorized': 'ሓፈሻዊ መልእኽትታት ክትልእኩ ፍቓድ የብልኩምን።',
+    'broadcast.select_target': 'እዚ ምልክታ ናብ መን ይብጻሕ?',
+    'broadcast.target_users': '👤 ተጠቀምቲ',
+    'broadcast.target_counselors': '🧑‍⚕️ ኣማኸርቲ',
+    'broadcast.target_everyone': '🌍 ኩሉ',
+    'broadcast.target_counselor_language': '🗣 ኣማኸርቲ ብቋንቋ',
+    'broadcast.target_counselor_domain': '🎯 ኣማኸርቲ ብክእለት',
+    'broadcast.target_active_users': '⏱ ኣብ ቀረባ ግዜ ንጡፋት ዝነበሩ ተጠቀምቲ',
+    'broadcast.target_open_prayer_users': '🙏 ክፉት ጸሎት ዘለዎም ተጠቀምቲ',
+    'broadcast.prompt_language': 'እቶም ኣማኸርቲ ኣየናይ ቋንቋ ይዛረቡ? ሓደ ምረጽ ወይ ጽሐፍ።',
+    'broadcast.prompt_domain': 'ኣየናይ ዓውዲ ክእለት? ሓደ ምረጽ ወይ ጽሐፍ።',
+    'broadcast.prompt_active_days': 'ኣብ ዝሓለፉ ክንደይ መዓልታት ንጡፋት ንዝነበሩ ተጠቀምቲ ይለኣኽ? ካብ 1 ክሳብ {max} ዘሎ ቁጽሪ ኣእቱ።',
+    'broadcast.invalid_active_days': 'በጃኹም ካብ 1 ክሳብ {max} ዘሎ ምሉእ ቁጽሪ መዓልታት ኣእትዉ።',
+    'broadcast.audience_counselor_language': '{language} ዝዛረቡ ኣማኸርቲ',
+    'broadcast.audience_counselor_domain': 'ክእለት {domain} ዘለዎም ኣማኸርቲ',
+    'broadcast.audience_active_users': 'ኣብ ዝሓለፉ {days} መዓልታት ንጡፋት ዝነበሩ ተጠቀምቲ',
+    'broadcast.cancelled': 'ሓፈሻዊ መልእኽቲ ተሰሪዙ።',
+    'broadcast.invalid_target': 'በጃኹም ካብቶም ዝተራእዩ ተቐበልቲ ሓደ ምረጹ፡ ወይ ሰርዝ ጠውቑ።',
+    'broadcast.prompt_message': 'በጃኹም መልእኽቲ ምልክታ ጽሓፉ፡ ወይ ስእሊ ወይ ሰነድ ምስ ኣማራጺ መግለጺ ስደዱ፦',
+    'broadcast.message_empty': 'በጃኹም ባዶ ዘይኮነ መልእኽቲ ኣእትዉ።',
+    'broadcast.compose': 'ቅርጺ ጽሑፍን ዝኾነ መጠውቕታት ጻውዒት ስጉምትን ምረጹ፡ ድሕሪኡ ቅድመ-ርእይቶ ሓፈሻዊ መልእኽቲ ርኣዩ። ትሕዝቶ ንምትካእ ሓድሽ ጽሑፍ ወይ ፋይል ስደዱ።\n\nቅርጺ፦ {format}\nመጠውቕታት፦ {buttons}',
+    'broadcast.format_plain': 'ቀሊል ጽሑፍ',
+    'broadcast.format_markdown': 'Markdown',
+    'broadcast.format_html': 'HTML',
+    'broadcast.button_start_counseling': 'ምኽሪ ጀምር',
+    'broadcast.button_submit_prayer': 'ጸሎት ኣእቱ',
+    'broadcast.buttons_none': 'የለን',
+    'broadcast.preview_button': '👁 ቅድመ-ርእይቶ',
+    'broadcast.preview_failed': 'ቴሌግራም ነዚ ሓፈሻዊ መልእኽቲ ክሰዶ ኣይከኣለን፦ {message}\nቅርጺ ፈትሹ ወይ ካልእ ቅርጺ ምረጹ፡ ድሕሪኡ ከም ብሓድሽ ቅድመ-ርእይቶ ርኣዩ።',
+    'broadcast.preview_required': 'በጃኹም ቅድሚ ምስዳድኩም ወይ ምምዳብኩም ቅድመ-ርእይቶ ሓፈሻዊ መልእኽቲ ርኣዩ።',
+    'broadcast.preview': 'ተቐበልቲ ነዚ ሓፈሻዊ መልእኽቲ ዝርእይዎ ከምቲ ኣብ ላዕሊ ዘሎ እዩ።\n\nተቐበልቲ፦ {audience} ({recipientCount} ተቐበልቲ)\n\nሕጂ ይለኣኽ ወይስ ንድሕሪ ግዜ ይመደብ?',
+    'broadcast.send_button': '✅ ስደድ',
+    'broadcast.schedule_button': '🕒 መድብ',
+    'broadcast.prompt_schedule': 'መዓስ ይለኣኽ? ዕለትን ሰዓትን UTC ብቕርጺ YYYY-MM-DD HH:MM ኣእትዉ፡ ንኣብነት {example}።',
+    'broadcast.invalid_schedule': 'በጃኹም ናይ መጻኢ ዕለትን ሰዓትን UTC ብቕርጺ YYYY-MM-DD HH:MM ኣእትዉ፡ ንኣብነት {example}።',
+    'broadcast.scheduled': 'ሓፈሻዊ መልእኽቲ {broadcastId} ን{scheduledFor} ተመዲቡ። ንምግምጋሙ ወይ ንምስራዙ /broadcasts ተጠቐሙ።',
+    'broadcast.expired': 'ግዜ ሓፈሻዊ መልእኽቲ ሓሊፉ። በጃኹም ከም ብሓድሽ ጀምሩ።',
+    'broadcast.queued': 'ሓፈሻዊ መልእኽቲ ኣብ መስርዕ ኣትዩ። ብድሕሪት ስለ ዝለኣኽ ነቲ ቦት ምጥቃም ክትቅጽሉ ትኽእሉ ኢኹም፤ ምዕባለኡ ኣብ ታሕቲ ይርአ።',
+    'broadcast.progress_waiting': '📢 ሓፈሻዊ መልእኽቲ ክጅምር ይጽበ ኣሎ...',
+    'broadcast.progress': '📢 ሓፈሻዊ መልእኽቲ {broadcastId} ይለኣኽ ኣሎ፦ {processed}/{recipientCount}\nበጺሑ፦ {successCount}፡ ኣይተዓወተን፦ {failedCount}፡ ነቲ ቦት ዝዓገቱ፦ {unreachableCount}',
+    'broadcast.progress_done': '✅ ሓፈሻዊ መልእኽቲ {broadcastId} ተዛዚሙ፦ {processed}/{recipientCount}\nበጺሑ፦ {successCount}፡ ኣይተዓወተን፦ {failedCount}፡ ነቲ ቦት ዝዓገቱ፦ {unreachableCount}',
+    'broadcast.progress_paused': '⏸ እቲ ቦት ዳግማይ ይጅምር ስለ ዘሎ ሓፈሻዊ መልእኽቲ {broadcastId} ኣብ {processed}/{recipientCount} ደው ኢሉ። ባዕሉ ክቕጽል እዩ።\nበጺሑ፦ {successCount}፡ ኣይተዓወተን፦ {failedCount}፡ ነቲ ቦት ዝዓገቱ፦ {unreachableCount}',
+    'broadcast.failed': 'ሓፈሻዊ መልእኽቲ ኣይተዓወተን፦ {message}። በጃኹም ከም ብሓድሽ ፈትኑ።',
+    'broadcast.list_scheduled_header': 'ዝተመደቡ ሓፈሻዊ መልእኽትታት ({count})፦',
+    'broadcast.list_scheduled_none': 'ዝተመደበ ሓፈሻዊ መልእኽቲ የለን።',
+    'broadcast.list_scheduled_item': '{broadcastId} ኣብ {scheduledFor}\nተቐበልቲ፦ {audience}\n\n{message}',
+    'broadcast.list_recent_header': 'ናይ ቀረባ ግዜ ሓፈሻዊ መልእኽትታት፦',
+    'broadcast.list_recent_item': '{broadcastId} ({status}) {date}\nተቐበልቲ፦ {audience}\nተዓዊቱ፦ {successCount}፡ ኣይተዓወተን፦ {failedCount}፡ ነቲ ቦት ዝዓገቱ፦ {unreachableCount}',
+    'broadcast.cancel_button': '🚫 ሓፈሻዊ መልእኽቲ ሰርዝ',
+    'broadcast.report_button': '📊 ጸብጻብ ምብጻሕ',
+    'broadcast.schedule_cancelled': 'ዝተመደበ ሓፈሻዊ መልእኽቲ {broadcastId} ተሰሪዙ።',
+    'broadcast.cancel_unavailable': 'እዚ ሓፈሻዊ መልእኽቲ ደጊም ስለ ዘይተመደበ ክስረዝ ኣይክእልን።',
+    'broadcast.not_found': 'ሓፈሻዊ መልእኽቲ ኣይተረኽበን።',
+    'broadcast.report': 'ሓፈሻዊ መልእኽቲ {broadcastId} ({status})\nተቐበልቲ፦ {audience}\nተዓዊቱ፦ {successCount}፡ ኣይተዓወተን፦ {failedCount}፡ ነቲ ቦት ዝዓገቱ፦ {unreachableCount}',
+    'broadcast.report_failures': 'ዘይተዓወቱን ዘይብጻሑን ተቐበልቲ (ቀዳሞት {count})፦\n{lines}',
+    'broadcast.status_scheduled': 'ተመዲቡ',
+    'broadcast.status_sending': 'ይለኣኽ ኣሎ',
+    'broadcast.status_sent': 'ተላኢኹ',
+    'broadcast.status_cancelled': 'ተሰሪዙ',
+    'broadcast.header': '📢 ምልክታ ስርዓት',
+    'broadcast.footer': '— መልእኽቲ ስርዓት',
+
+    // Errors thrown by managers, matched by translateError
+    'error.session_not_found': 'ክፍለ-ግዜ ኣይተረኽበን።',
+    'error.active_session_not_found': 'ንጡፍ ክፍለ-ግዜ ኣይተረኽበን።',
+    'error.user_not_found': 'ተጠቃሚ ኣይተረኽበን።',
+    'error.user_has_active_session': 'እቲ ተጠቃሚ ድሮ ንጡፍ ክፍለ-ግዜ ኣለዎ።',
+    'error.counselor_not_available': 'እቲ ኣማኻሪ ንክፍለ-ግዜ ኣይርከብን።',
+    'error.counselor_no_capacity': 'እቲ ኣማኻሪ ዝተረፈ ዓቕሚ ክፍለ-ግዜ የብሉን።',
+    'error.counselor_not_assigned': 'እቲ ኣማኻሪ ነዚ ክፍለ-ግዜ ኣይተመደበን።',
+    'error.follow_up_delay_invalid': 'ግዜ ክትትል ካብ 1 ክሳዕ {max} ዘሎ ምሉእ ቁጽሪ መዓልታት ክኸውን ኣለዎ።',
+    'error.follow_up_session_active': 'ክትትል ክዳሎ ዝከኣል ክፍለ-ግዜ ምስ ተወድአ ጥራይ እዩ።',
+    'error.consent_required': 'ቅድሚ ክፍለ-ግዜ ምጅማሩ ስምምዕ የድሊ።',
+    'error.message_empty': 'ትሕዝቶ መልእኽቲ ባዶ ክኸውን ኣይክእልን።',
+    'error.media_missing_file': 'መልእኽቲ ሚድያ መወከሲ ፋይል ክሕዝ ኣለዎ።',
+    'error.rating_invalid': 'ገምጋም ካብ 1 ክሳዕ 5 ዘሎ ቁጽሪ ክኸውን ኣለዎ።',
+    'error.rating_active_session': 'ንጡፍ ክፍለ-ግዜ ክግምገም ኣይከኣልን።',
+    'error.rating_not_authorized': 'እቲ ተጠቃሚ ነዚ ክፍለ-ግዜ ክገምግም ፍቓድ የብሉን።',
+    'error.history_not_authorized': 'እቲ ሓታቲ ታሪኽ እዚ ክፍለ-ግዜ ክርኢ ፍቓድ የብሉን።',
+    'error.counselor_not_found': 'ኣማኻሪ ኣይተረኽበን፦ {counselorId}',
+    'error.capacity_invalid': 'ዓቕሚ ካብ 1 ክሳዕ {max} ዘሎ ምሉእ ቁጽሪ ክኸውን ኣለዎ።',
+    'error.alias_invalid': 'ሳጓ ስም ካብ 3 ክሳዕ {max} ፊደላት፣ ቁጽርታት፣ ባዶ ቦታታት ወይ ሰረዛት ክኸውን ኣለዎ።',
+    'error.alias_identifying': 'ሳጓ ስም ሓቀኛ ስምኩም ወይ ስም ተጠቃሚ ቴሌግራምኩም ክሕዝ የብሉን።',
+    'error.alias_taken': 'እቲ ሳጓ ስም ድሮ ኣብ ጥቕሚ ውዒሉ ኣሎ።',
+    'error.bio_invalid': 'መግለጺ ካብ 1 ክሳዕ {max} ፊደላት ክኸውን ኣለዎ።',
+    'error.profile_update_not_found': 'ነዚ ኣማኻሪ ዝጽበ ለውጢ መግለጺ የለን።',
+    'error.report_not_found': 'ጸብጻብ ኣይተረኽበን።',
+    'error.report_reason_required': 'ምኽንያት ጸብጻብ የድሊ።',
+    'error.queue_preferences_required': 'ናብ መስርዕ ንምጽንባር ምርጫታት ምዝማድ የድሊ።',
+    'error.prayer_not_found': 'ሕቶ ጸሎት ኣይተረኽበን',
+    'error.erasure_active_session': 'ሓበሬታኹም ቅድሚ ምድምሳስኩም ንጡፍ ክፍለ-ግዜኹም ወድእዎ።'
+};
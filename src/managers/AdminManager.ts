@@ -0,0 +1,123 @@
+import { Collections } from '../database/Collections';
+import { AdminPermission, AdminRole } from '../types/Admin';
+
+export const ADMIN_ROLES: AdminRole[] = ['super_admin', 'moderator', 'reviewer', 'broadcaster'];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+    super_admin: [
+        'view_stats',
+        'view_audit_log',
+        'process_reports',
+        'crisis_alerts',
+        'decide_appeals',
+        'approve_counselors',
+        'remove_counselors',
+        'review_content',
+        'broadcast',
+        'manage_system',
+        'manage_admins'
+    ],
+    moderator: ['view_stats', 'view_audit_log', 'process_reports', 'crisis_alerts', 'decide_appeals', 'remove_counselors', 'review_content'],
+    reviewer: ['view_stats', 'approve_counselors', 'review_content'],
+    broadcaster: ['view_stats', 'broadcast']
+};
+
+export interface AdminEntry {
+    telegramChatId: number;
+    role: AdminRole;
+    configured: boolean; // listed in ADMIN_CHAT_IDS, so it can only be changed by redeploying
+}
+
+export class AdminManager {
+    private collections: Collections;
+    private configuredAdminIds: number[];
+
+    constructor(collections: Collections, configuredAdminIds: number[]) {
+        this.collections = collections;
+        this.configuredAdminIds = configuredAdminIds;
+    }
+
+    async getRole(chatId: number): Promise<AdminRole | null> {
+        if (this.configuredAdminIds.includes(chatId)) {
+            return 'super_admin';
+        }
+        const admin = await this.collections.admins.findOne({ telegramChatId: chatId }, { projection: { role: 1 } });
+        return admin?.role ?? null;
+    }
+
+    async isAdmin(chatId: number): Promise<boolean> {
+        return (await this.getRole(chatId)) !== null;
+    }
+
+    async hasPermission(chatId: number, permission: AdminPermission): Promise<boolean> {
+        const role = await this.getRole(chatId);
+        return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+    }
+
+    /**
+     * Chat IDs of every admin whose role grants the permission, for notifications they should act on
+     */
+    async getChatIdsWithPermission(permission: AdminPermission): Promise<number[]> {
+        const roles = ADMIN_ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission));
+        const stored = await this.collections.admins
+            .find({ role: { $in: roles } }, { projection: { telegramChatId: 1 } })
+            .toArray();
+        return Array.from(new Set([...this.configuredAdminIds, ...stored.map(admin => admin.telegramChatId)]));
+    }
+
+    async listAdmins(): Promise<AdminEntry[]> {
+        const stored = await this.collections.admins.find({}).sort({ createdAt: 1 }).toArray();
+        return [
+            ...this.configuredAdminIds.map(telegramChatId => ({ telegramChatId, role: 'super_admin' as AdminRole, configured: true })),
+            ...stored
+                .filter(admin => !this.configuredAdminIds.includes(admin.telegramChatId))
+                .map(admin => ({ telegramChatId: admin.telegramChatId, role: admin.role, configured: false }))
+        ];
+    }
+
+    /**
+     * Add an admin or change an admin's role. Returns the previous role, or null when the admin is new.
+     */
+    async setAdminRole(chatId: number, role: AdminRole, actorChatId: number): Promise<AdminRole | null> {
+        if (!Number.isInteger(chatId) || chatId === 0) {
+            throw new Error('Admin chat ID must be a non-zero integer.');
+        }
+        if (!ADMIN_ROLES.includes(role)) {
+            throw new Error(`Unknown admin role. Use one of: ${ADMIN_ROLES.join(', ')}.`);
+        }
+        this.assertChangeable(chatId, actorChatId);
+
+        const now = new Date();
+        const previous = await this.collections.admins.findOneAndUpdate(
+            { telegramChatId: chatId },
+            {
+                $set: { role, updatedAt: now },
+                $setOnInsert: { telegramChatId: chatId, addedByAdminId: actorChatId.toString(), createdAt: now }
+            },
+            { upsert: true, returnDocument: 'before' }
+        );
+        return previous?.role ?? null;
+    }
+
+    /**
+     * Remove an admin added from the bot and return the role they had
+     */
+    async removeAdmin(chatId: number, actorChatId: number): Promise<AdminRole> {
+        this.assertChangeable(chatId, actorChatId);
+
+        const removed = await this.collections.admins.findOneAndDelete({ telegramChatId: chatId });
+        if (!removed) {
+            throw new Error('Admin not found.');
+        }
+        return removed.role;
+    }
+
+    private assertChangeable(chatId: number, actorChatId: number): void {
+        if (this.configuredAdminIds.includes(chatId)) {
+            throw new Error('Admins listed in ADMIN_CHAT_IDS can only be changed in the configuration.');
+        }
+        if (chatId === actorChatId) {
+            throw new Error('You cannot change your own admin role.');
+        }
+    }
+}
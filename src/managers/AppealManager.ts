@@ -0,0 +1,60 @@
+import { Collections } from '../database/Collections';
+import { Appeal, AppealAction } from '../types/Appeal';
+import { Counselor } from '../types/Counselor';
+
+export type AppealDecisionStatus = 'decided' | 'not_found' | 'already_processed' | 'counselor_not_found';
+
+export interface AppealDecision {
+    status: AppealDecisionStatus;
+    counselor?: Counselor; // set when the decision was applied
+}
+
+export class AppealManager {
+    private collections: Collections;
+
+    constructor(collections: Collections) {
+        this.collections = collections;
+    }
+
+    async getPendingAppeals(): Promise<Appeal[]> {
+        return this.collections.appeals
+            .find({ processed: false })
+            .sort({ timestamp: -1 })
+            .toArray();
+    }
+
+    /**
+     * Decide a suspended counselor's appeal.
+     * 'approve' restores access keeping the strike count; 'revoke' lifts the suspension and clears the strikes.
+     */
+    async decideAppeal(adminId: string, appealId: string, action: AppealAction): Promise<AppealDecision> {
+        const appeal = await this.collections.appeals.findOne({ appealId });
+        if (!appeal) {
+            return { status: 'not_found' };
+        }
+
+        if (appeal.processed) {
+            return { status: 'already_processed' };
+        }
+
+        const counselor = await this.collections.counselors.findOne({ id: appeal.counselorId });
+        if (!counselor) {
+            return { status: 'counselor_not_found' };
+        }
+
+        const update = action === 'approve'
+            ? { isApproved: true, is_approved: true, isSuspended: false, lastActive: new Date() }
+            : { isSuspended: false, isApproved: true, status: 'away' as const, lastActive: new Date(), strikes: 0 };
+        const result = await this.collections.counselors.updateOne({ id: counselor.id }, { $set: update });
+        if (result.matchedCount === 0) {
+            return { status: 'counselor_not_found' };
+        }
+
+        await this.collections.appeals.updateOne(
+            { appealId },
+            { $set: { processed: true, processedAt: new Date(), processedBy: adminId, action } }
+        );
+
+        return { status: 'decided', counselor };
+    }
+}
@@ -0,0 +1,169 @@
+import { Telegraf, Context, TelegramError } from 'telegraf';
+import { BroadcastManager } from './BroadcastManager';
+import { Collections } from '../database/Collections';
+import { DatabaseManager } from '../database';
+import { BroadcastLog } from '../types';
+import { translate } from '../i18n';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('BroadcastManager', () => {
+    jest.setTimeout(120000);
+
+    const LEASE_MS = 5 * 60 * 1000;
+
+    let dbManager: DatabaseManager;
+    let collections: Collections;
+    let mongoServer: MongoMemoryServer;
+    let originalMongoUri: string | undefined;
+    let sendMessage: jest.Mock;
+    let sleep: jest.Mock;
+    let broadcastManager: BroadcastManager;
+
+    const telegramError = (error_code: number, description: string, retry_after?: number): TelegramError =>
+        new TelegramError({ error_code, description, ...(retry_after !== undefined ? { parameters: { retry_after } } : {}) });
+
+    const addUser = async (uuid: string, telegramChatId: number): Promise<void> => {
+        await collections.users.insertOne({
+            uuid,
+            telegramChatId,
+            createdAt: new Date(),
+            lastActive: new Date(),
+            state: 'IDLE'
+        });
+    };
+
+    const claimBroadcastToUsers = async (): Promise<BroadcastLog> => {
+        await broadcastManager.createBroadcast(1, { type: 'users' }, { message: 'Service update' });
+        const claimed = await broadcastManager.claimNextBroadcast(new Date(Date.now() + 1000));
+        if (!claimed) {
+            throw new Error('Expected a broadcast to claim.');
+        }
+        return claimed;
+    };
+
+    beforeAll(async () => {
+        mongoServer = await MongoMemoryServer.create();
+        originalMongoUri = process.env.MONGODB_URI;
+        process.env.MONGODB_URI = mongoServer.getUri();
+        const connectionString = process.env.MONGODB_URI;
+        const databaseName = 'telegram_counseling_test';
+
+        dbManager = new DatabaseManager(connectionString, databaseName);
+        collections = await dbManager.initialize();
+    });
+
+    afterAll(async () => {
+        await dbManager.disconnect();
+        if (mongoServer) {
+            await mongoServer.stop();
+        }
+        if (originalMongoUri === undefined) {
+            delete process.env.MONGODB_URI;
+        } else {
+            process.env.MONGODB_URI = originalMongoUri;
+        }
+    });
+
+    beforeEach(async () => {
+        await collections.broadcastLogs.deleteMany({});
+        await collections.broadcastDeliveries.deleteMany({});
+        await collections.users.deleteMany({});
+        await collections.counselors.deleteMany({});
+
+        sendMessage = jest.fn().mockResolvedValue({});
+        const bot = { telegram: { sendMessage } } as unknown as Telegraf<Context>;
+        // Skip the real pacing and backoff delays; the requested durations are still recorded
+        sleep = jest.fn().mockResolvedValue(undefined);
+        broadcastManager = new BroadcastManager(bot, collections, sleep);
+    });
+
+    test('claims a due broadcast once and re-claims it only after the lease lapses', async () => {
+        const created = await broadcastManager.createBroadcast(1, { type: 'users' }, { message: 'Service update' });
+        const now = new Date(Date.now() + 1000);
+
+        const claimed = await broadcastManager.claimNextBroadcast(now);
+        expect(claimed?.broadcastId).toBe(created.broadcastId);
+        expect(claimed?.status).toBe('sending');
+        expect(claimed?.leaseExpiresAt?.getTime()).toBe(now.getTime() + LEASE_MS);
+
+        expect(await broadcastManager.claimNextBroadcast(now)).toBeNull();
+        expect(await broadcastManager.claimNextBroadcast(new Date(now.getTime() + LEASE_MS - 1))).toBeNull();
+
+        const reclaimed = await broadcastManager.claimNextBroadcast(new Date(now.getTime() + LEASE_MS + 1));
+        expect(reclaimed?.broadcastId).toBe(created.broadcastId);
+    });
+
+    test('does not claim a broadcast scheduled for later', async () => {
+        const scheduledFor = new Date(Date.now() + 60 * 60 * 1000);
+        await broadcastManager.createBroadcast(1, { type: 'users' }, { message: 'Later' }, { scheduledFor });
+
+        expect(await broadcastManager.claimNextBroadcast()).toBeNull();
+        expect(await broadcastManager.claimNextBroadcast(scheduledFor)).not.toBeNull();
+    });
+
+    test('leaves a broadcast to the run that took over its lapsed lease', async () => {
+        await addUser('U1', 101);
+        const stale = await claimBroadcastToUsers();
+        const current = await broadcastManager.claimNextBroadcast(new Date(Date.now() + LEASE_MS + 2000));
+        expect(current?.leaseToken).toBeDefined();
+        expect(current?.leaseToken).not.toBe(stale.leaseToken);
+
+        const staleResult = await broadcastManager.deliverBroadcast(stale);
+        expect(staleResult.completed).toBe(false);
+        expect((await broadcastManager.getBroadcast(stale.broadcastId))?.status).toBe('sending');
+
+        const currentResult = await broadcastManager.deliverBroadcast(current as BroadcastLog);
+        expect(currentResult).toEqual({ recipientCount: 1, successCount: 1, failedCount: 0, unreachableCount: 0, completed: true });
+        expect(sendMessage).toHaveBeenCalledTimes(1);
+        expect((await broadcastManager.getBroadcast(stale.broadcastId))?.status).toBe('sent');
+    });
+
+    test('renders the header and footer in the recipient\'s language', async () => {
+        await addUser('U1', 101);
+        await collections.users.updateOne({ telegramChatId: 101 }, { $set: { language: 'am' } });
+
+        await broadcastManager.sendContent(101, { message: 'Service update' });
+        await broadcastManager.sendContent(102, { message: 'Service update' });
+
+        expect(sendMessage).toHaveBeenNthCalledWith(1, 101, `${translate('am', 'broadcast.header')}\n\nService update\n\n${translate('am', 'broadcast.footer')}`, {});
+        expect(sendMessage).toHaveBeenNthCalledWith(2, 102, `${translate('en', 'broadcast.header')}\n\nService update\n\n${translate('en', 'broadcast.footer')}`, {});
+    });
+
+    test('retries a rate-limited send after retry_after', async () => {
+        await addUser('U1', 101);
+        sendMessage.mockRejectedValueOnce(telegramError(429, 'Too Many Requests: retry after 3', 3));
+        const broadcast = await claimBroadcastToUsers();
+
+        const result = await broadcastManager.deliverBroadcast(broadcast);
+
+        expect(result).toEqual({ recipientCount: 1, successCount: 1, failedCount: 0, unreachableCount: 0, completed: true });
+        expect(sendMessage).toHaveBeenCalledTimes(2);
+        expect(sleep).toHaveBeenCalledWith(3000);
+        const delivery = await collections.broadcastDeliveries.findOne({ broadcastId: broadcast.broadcastId, chatId: 101 });
+        expect(delivery?.status).toBe('sent');
+        expect(delivery?.attempts).toBe(2);
+        expect((await broadcastManager.getBroadcast(broadcast.broadcastId))?.status).toBe('sent');
+    });
+
+    test('marks chats that blocked the bot unreachable and skips them next time', async () => {
+        await addUser('U1', 101);
+        await addUser('U2', 102);
+        sendMessage.mockImplementation(async (chatId: number) => {
+            if (chatId === 101) {
+                throw telegramError(403, 'Forbidden: bot was blocked by the user');
+            }
+            return {};
+        });
+        const broadcast = await claimBroadcastToUsers();
+
+        const result = await broadcastManager.deliverBroadcast(broadcast);
+
+        expect(result).toEqual({ recipientCount: 2, successCount: 1, failedCount: 0, unreachableCount: 1, completed: true });
+        expect(sendMessage).toHaveBeenCalledTimes(2);
+        expect((await collections.users.findOne({ telegramChatId: 101 }))?.unreachableAt).toBeInstanceOf(Date);
+        expect((await collections.users.findOne({ telegramChatId: 102 }))?.unreachableAt).toBeUndefined();
+        const failed = await broadcastManager.getFailedDeliveries(broadcast.broadcastId, 10);
+        expect(failed.map(delivery => [delivery.chatId, delivery.status])).toEqual([[101, 'unreachable']]);
+        expect(await broadcastManager.countRecipients({ type: 'users' })).toBe(1);
+    });
+});
@@ -1,111 +1,514 @@
-import { Telegraf, Context } from 'telegraf';
-import { Collection } from 'mongodb';
-import { User, Counselor, BroadcastLog } from '../types';
+import { Telegraf, Context, Markup, TelegramError } from 'telegraf';
+import { AnyBulkWriteOperation, Filter } from 'mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { Collections } from '../database/Collections';
+import {
+    BroadcastButton,
+    BroadcastContent,
+    BroadcastDelivery,
+    BroadcastDeliveryStatus,
+    BroadcastFormat,
+    BroadcastLog,
+    BroadcastProgressMessage,
+    BroadcastSegment,
+    Counselor,
+    User
+} from '../types';
 import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
 import { generateBroadcastId } from '../models/utils';
+import { Locale } from '../types/Locale';
+import { DEFAULT_LOCALE, MessageKey, SUPPORTED_LOCALES, translate } from '../i18n';
 
 export type BroadcastTarget = 'users' | 'counselors' | 'everyone';
 
+export const MAX_BROADCAST_SCHEDULE_DAYS = 90;
+export const MAX_ACTIVE_USER_DAYS = 365;
+export const BROADCAST_CTA_ACTION_PREFIX = 'bcast_cta';
+
+// Telegram's limits, counted on the raw text so markup only makes the check stricter
+const MAX_TEXT_LENGTH = 4096;
+const MAX_CAPTION_LENGTH = 1024;
+
+const PARSE_MODES: Record<BroadcastFormat, 'Markdown' | 'HTML' | undefined> = {
+    plain: undefined,
+    markdown: 'Markdown',
+    html: 'HTML'
+};
+
+const BUTTON_LABELS: Record<BroadcastButton, MessageKey> = {
+    start_counseling: 'menu.start_counseling',
+    submit_prayer: 'menu.submit_prayer'
+};
+
+export interface BroadcastProgress {
+    recipientCount: number;
+    successCount: number;
+    failedCount: number;
+    unreachableCount: number;
+}
+
+export interface BroadcastRunResult extends BroadcastProgress {
+    completed: boolean; // false when the run was stopped and left pending recipients for a later run
+}
+
+export interface BroadcastDeliveryOptions {
+    onProgress?: (progress: BroadcastProgress) => Promise<void>;
+    shouldStop?: () => boolean;
+}
+
+export type SendStatus = Exclude<BroadcastDeliveryStatus, 'pending'>;
+
+interface SendOutcome {
+    status: SendStatus;
+    attempts: number;
+    error?: string;
+}
+
 export class BroadcastManager {
+    private static readonly SEND_INTERVAL_MS = 50;
+    private static readonly MAX_SEND_ATTEMPTS = 5;
+    private static readonly BASE_BACKOFF_MS = 1000;
+    private static readonly MAX_BACKOFF_MS = 60 * 1000;
+    private static readonly LEASE_MS = 5 * 60 * 1000;
+    private static readonly PROGRESS_INTERVAL_MS = 3000;
+    private static readonly OUTBOX_BATCH_SIZE = 500;
+
     private bot: Telegraf<Context>;
-    private users: Collection<User>;
-    private counselors: Collection<Counselor>;
-    private broadcastLogs: Collection<BroadcastLog>;
+    private collections: Collections;
+    private readonly sleep: (ms: number) => Promise<void>;
 
     constructor(
         bot: Telegraf<Context>,
-        users: Collection<User>,
-        counselors: Collection<Counselor>,
-        broadcastLogs: Collection<BroadcastLog>
+        collections: Collections,
+        sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
     ) {
         this.bot = bot;
-        this.users = users;
-        this.counselors = counselors;
-        this.broadcastLogs = broadcastLogs;
+        this.collections = collections;
+        this.sleep = sleep;
     }
 
-    private async getRecipients(target: BroadcastTarget): Promise<number[]> {
+    /**
+     * Resolve a segment to the chat IDs that should receive it. Counselors are also registered as users,
+     * so user segments leave them out unless the segment is 'everyone'. Chats that blocked the bot are skipped.
+     */
+    private async getRecipients(segment: BroadcastSegment): Promise<number[]> {
         const chatIds = new Set<number>();
 
-        if (target === 'users' || target === 'everyone') {
-            const allUsers = await this.users.find({}, { projection: { telegramChatId: 1 } }).toArray();
-            // When target is 'users' only, exclude counselors (they appear in users table too)
+        if (segment.type === 'users' || segment.type === 'everyone' || segment.type === 'active_users' || segment.type === 'open_prayer_users') {
+            const filter: Filter<User> = { unreachableAt: { $exists: false } };
+            if (segment.type === 'active_users') {
+                filter.lastActive = { $gte: new Date(Date.now() - segment.days * 24 * 60 * 60 * 1000) };
+            } else if (segment.type === 'open_prayer_users') {
+                filter.uuid = { $in: await this.collections.prayers.distinct('userId', { status: 'open' }) };
+            }
+
+            const users = await this.collections.users.find(filter, { projection: { telegramChatId: 1 } }).toArray();
             const counselorChatIds =
-                target === 'users'
-                    ? new Set(
+                segment.type === 'everyone'
+                    ? null
+                    : new Set(
                           (
-                              await this.counselors
+                              await this.collections.counselors
                                   .find({}, { projection: { telegramChatId: 1 } })
                                   .toArray()
                           )
                               .map(c => c.telegramChatId)
                               .filter((id): id is number => id != null)
-                      )
-                    : null;
-            allUsers.forEach(u => {
+                      );
+            users.forEach(u => {
                 if (u.telegramChatId && !(counselorChatIds?.has(u.telegramChatId))) {
                     chatIds.add(u.telegramChatId);
                 }
             });
         }
 
-        if (target === 'counselors' || target === 'everyone') {
-            const allCounselors = await this.counselors.find(
-                { isApproved: true, isSuspended: false },
-                { projection: { telegramChatId: 1 } }
-            ).toArray();
-            allCounselors.forEach(c => c.telegramChatId && chatIds.add(c.telegramChatId));
+        if (segment.type === 'counselors' || segment.type === 'everyone' || segment.type === 'counselor_language' || segment.type === 'counselor_domain') {
+            const filter: Filter<Counselor> = { isApproved: true, isSuspended: false };
+            if (segment.type === 'counselor_language') {
+                filter.languagesSpoken = { $regex: `^${this.escapeRegex(segment.language)}$`, $options: 'i' };
+            } else if (segment.type === 'counselor_domain') {
+                filter.domainExpertise = { $regex: `^${this.escapeRegex(segment.domain)}$`, $options: 'i' };
+            }
+
+            const [counselors, unreachableChatIds] = await Promise.all([
+                this.collections.counselors.find(filter, { projection: { telegramChatId: 1 } }).toArray(),
+                this.collections.users.distinct('telegramChatId', { unreachableAt: { $exists: true } })
+            ]);
+            const unreachable = new Set(unreachableChatIds);
+            counselors.forEach(c => {
+                if (c.telegramChatId && !unreachable.has(c.telegramChatId)) {
+                    chatIds.add(c.telegramChatId);
+                }
+            });
         }
 
         return Array.from(chatIds);
     }
 
-    public async executeBroadcast(
+    async countRecipients(segment: BroadcastSegment): Promise<number> {
+        return (await this.getRecipients(segment)).length;
+    }
+
+    /**
+     * Store a broadcast for the delivery worker to send at scheduledFor, or as soon as possible when it is omitted
+     */
+    async createBroadcast(
         adminId: number,
-        target: BroadcastTarget,
-        message: string
-    ): Promise<{ successCount: number; failedCount: number }> {
-        const recipients = await this.getRecipients(target);
-        const broadcastId = generateBroadcastId();
-        let successCount = 0;
-        let failedCount = 0;
+        segment: BroadcastSegment,
+        content: BroadcastContent,
+        options: { scheduledFor?: Date; progressMessage?: BroadcastProgressMessage } = {}
+    ): Promise<BroadcastLog> {
+        const { scheduledFor, progressMessage } = options;
+        if (!content.media && !content.message.trim()) {
+            throw new Error('Broadcast message must not be empty.');
+        }
+        const maxLength = content.media ? MAX_CAPTION_LENGTH : MAX_TEXT_LENGTH;
+        // The header and footer are translated, so the longest rendering has to fit
+        if (Math.max(...SUPPORTED_LOCALES.map(locale => this.renderText(content, locale).length)) > maxLength) {
+            throw new Error(`Broadcast ${content.media ? 'caption' : 'message'} is too long for Telegram (${maxLength} characters at most).`);
+        }
+        if (segment.type === 'active_users' && (!Number.isInteger(segment.days) || segment.days < 1 || segment.days > MAX_ACTIVE_USER_DAYS)) {
+            throw new Error(`Activity window must be a whole number of days between 1 and ${MAX_ACTIVE_USER_DAYS}.`);
+        }
+        if ((segment.type === 'counselor_language' && !segment.language.trim()) || (segment.type === 'counselor_domain' && !segment.domain.trim())) {
+            throw new Error('Segment value must not be empty.');
+        }
+
+        const now = new Date();
+        if (scheduledFor) {
+            if (scheduledFor.getTime() <= now.getTime()) {
+                throw new Error('Scheduled time must be in the future.');
+            }
+            if (scheduledFor.getTime() > now.getTime() + MAX_BROADCAST_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+                throw new Error(`Broadcasts can be scheduled at most ${MAX_BROADCAST_SCHEDULE_DAYS} days ahead.`);
+            }
+        }
+
+        const broadcast: BroadcastLog = {
+            broadcastId: generateBroadcastId(),
+            message: content.message,
+            format: content.format ?? 'plain',
+            targetGroup: segment.type,
+            segment,
+            status: 'scheduled',
+            sentByAdminId: adminId.toString(),
+            createdAt: now,
+            scheduledFor: scheduledFor ?? now,
+            successCount: 0,
+            failedCount: 0
+        };
+        if (content.media) {
+            broadcast.media = content.media;
+        }
+        if (content.buttons && content.buttons.length > 0) {
+            broadcast.buttons = content.buttons;
+        }
+        if (progressMessage) {
+            broadcast.progressMessage = progressMessage;
+        }
+        await this.collections.broadcastLogs.insertOne(broadcast);
+        return broadcast;
+    }
+
+    /**
+     * Atomically take the next broadcast to deliver: a scheduled one that is due, or one whose
+     * sender stopped renewing its lease (e.g. the process died halfway). Returns null when there is none.
+     * The returned leaseToken is what deliverBroadcast uses to prove it still holds the lease.
+     */
+    async claimNextBroadcast(now = new Date()): Promise<BroadcastLog | null> {
+        return this.collections.broadcastLogs.findOneAndUpdate(
+            {
+                $or: [
+                    { status: 'scheduled', scheduledFor: { $lte: now } },
+                    { status: 'sending', leaseExpiresAt: { $lt: now } }
+                ]
+            },
+            {
+                $set: {
+                    status: 'sending',
+                    leaseExpiresAt: new Date(now.getTime() + BroadcastManager.LEASE_MS),
+                    leaseToken: uuidv4()
+                }
+            },
+            { sort: { scheduledFor: 1 }, returnDocument: 'after' }
+        );
+    }
+
+    /**
+     * Send broadcast content to one chat exactly as recipients get it; also used for the admin's preview.
+     * The header, footer and button labels follow the chat's language.
+     */
+    async sendContent(chatId: number, content: BroadcastContent): Promise<void> {
+        const parseMode = PARSE_MODES[content.format ?? 'plain'];
+        const buttons = content.buttons ?? [];
+        const locale = (await this.collections.users.findOne({ telegramChatId: chatId }, { projection: { language: 1 } }))?.language
+            ?? DEFAULT_LOCALE;
+        const extra = {
+            ...(parseMode ? { parse_mode: parseMode } : {}),
+            ...(buttons.length > 0
+                ? {
+                    reply_markup: Markup.inlineKeyboard(
+                        buttons.map(button => [
+                            Markup.button.callback(translate(locale, BUTTON_LABELS[button]), `${BROADCAST_CTA_ACTION_PREFIX}:${button}`)
+                        ])
+                    ).reply_markup
+                }
+                : {})
+        };
+        const text = this.renderText(content, locale);
+
+        if (content.media?.type === 'photo') {
+            await this.bot.telegram.sendPhoto(chatId, content.media.fileId, { caption: text, ...extra });
+        } else if (content.media?.type === 'document') {
+            await this.bot.telegram.sendDocument(chatId, content.media.fileId, { caption: text, ...extra });
+        } else {
+            await this.bot.telegram.sendMessage(chatId, text, extra);
+        }
+    }
+
+    async setProgressMessage(broadcastId: string, progressMessage: BroadcastProgressMessage): Promise<void> {
+        await this.collections.broadcastLogs.updateOne({ broadcastId }, { $set: { progressMessage } });
+    }
+
+    /**
+     * Work through a claimed broadcast's outbox. Recipients are written to the outbox once, so a resumed
+     * run only sends to those still pending. Rate limits are retried after Telegram's retry_after with
+     * exponential backoff, and chats that blocked the bot are marked unreachable.
+     * A run that finds its lease taken over by another run stops and leaves the outbox to it.
+     */
+    async deliverBroadcast(broadcast: BroadcastLog, options: BroadcastDeliveryOptions = {}): Promise<BroadcastRunResult> {
+        const { broadcastId, leaseToken } = broadcast;
+        if (!leaseToken) {
+            throw new Error('Broadcast must be claimed before it is delivered.');
+        }
+        const leaseFilter: Filter<BroadcastLog> = { broadcastId, status: 'sending', leaseToken };
+        const recipientCount = broadcast.recipientCount ?? await this.fillOutbox(broadcast);
+        const progress = { recipientCount, ...await this.countDeliveries(broadcastId) };
 
-        const broadcastMessage = `📢 System Announcement\n\n${message}\n\n— System Notification`;
+        await options.onProgress?.({ ...progress });
+        let lastProgressAt = Date.now();
 
-        for (const chatId of recipients) {
+        for (;;) {
+            const pending = await this.collections.broadcastDeliveries
+                .find({ broadcastId, status: 'pending' })
+                .sort({ chatId: 1 })
+                .limit(BroadcastManager.OUTBOX_BATCH_SIZE)
+                .toArray();
+            if (pending.length === 0) break;
+
+            for (const delivery of pending) {
+                if (options.shouldStop?.()) {
+                    // Let the next run pick the outbox up straight away
+                    await this.collections.broadcastLogs.updateOne(leaseFilter, { $set: { leaseExpiresAt: new Date() } });
+                    return { ...progress, completed: false };
+                }
+
+                const outcome = await this.sendWithRetry(
+                    delivery.chatId,
+                    () => this.sendContent(delivery.chatId, broadcast),
+                    { broadcastId },
+                    async delay => {
+                        await this.renewLease(leaseFilter, delay);
+                    }
+                );
+                await this.collections.broadcastDeliveries.updateOne(
+                    { broadcastId, chatId: delivery.chatId },
+                    outcome.error
+                        ? { $set: { status: outcome.status, attemptedAt: new Date(), error: outcome.error }, $inc: { attempts: outcome.attempts } }
+                        : { $set: { status: outcome.status, attemptedAt: new Date() }, $inc: { attempts: outcome.attempts } }
+                );
+
+                if (outcome.status === 'sent') {
+                    progress.successCount++;
+                } else {
+                    metrics.increment('broadcast_failures_total');
+                    if (outcome.status === 'unreachable') {
+                        progress.unreachableCount++;
+                        await this.markUnreachable(delivery.chatId);
+                    } else {
+                        progress.failedCount++;
+                    }
+                }
+
+                if (Date.now() - lastProgressAt >= BroadcastManager.PROGRESS_INTERVAL_MS) {
+                    lastProgressAt = Date.now();
+                    if (!await this.renewLease(leaseFilter, 0)) {
+                        logger.warn('Broadcast lease taken over by another run', { broadcastId });
+                        return { ...progress, completed: false };
+                    }
+                    await options.onProgress?.({ ...progress });
+                }
+                await this.sleep(BroadcastManager.SEND_INTERVAL_MS);
+            }
+        }
+
+        const finished = await this.collections.broadcastLogs.updateOne(
+            leaseFilter,
+            {
+                $set: {
+                    status: 'sent',
+                    sentAt: new Date(),
+                    successCount: progress.successCount,
+                    failedCount: progress.failedCount,
+                    unreachableCount: progress.unreachableCount
+                },
+                $unset: { leaseExpiresAt: '', leaseToken: '' }
+            }
+        );
+        if (finished.matchedCount === 0) {
+            logger.warn('Broadcast lease taken over by another run', { broadcastId });
+            return { ...progress, completed: false };
+        }
+        return { ...progress, completed: true };
+    }
+
+    /**
+     * Send plain messages to one chat outside the outbox, such as the testimony digest, with the same
+     * pacing and rate-limit retries as broadcasts. A chat that blocked the bot is marked unreachable.
+     */
+    async sendDirect(chatId: number, messages: string[]): Promise<SendStatus> {
+        for (const message of messages) {
+            const outcome = await this.sendWithRetry(chatId, () => this.bot.telegram.sendMessage(chatId, message), {});
+            await this.sleep(BroadcastManager.SEND_INTERVAL_MS);
+            if (outcome.status !== 'sent') {
+                if (outcome.status === 'unreachable') {
+                    await this.markUnreachable(chatId);
+                }
+                return outcome.status;
+            }
+        }
+        return 'sent';
+    }
+
+    /**
+     * Cancel a broadcast that has not started sending
+     */
+    async cancelBroadcast(broadcastId: string, adminId: number): Promise<boolean> {
+        const result = await this.collections.broadcastLogs.updateOne(
+            { broadcastId, status: 'scheduled' },
+            { $set: { status: 'cancelled', cancelledAt: new Date(), cancelledByAdminId: adminId.toString() } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    async getBroadcast(broadcastId: string): Promise<BroadcastLog | null> {
+        return this.collections.broadcastLogs.findOne({ broadcastId });
+    }
+
+    async getScheduledBroadcasts(): Promise<BroadcastLog[]> {
+        return this.collections.broadcastLogs
+            .find({ status: 'scheduled' })
+            .sort({ scheduledFor: 1 })
+            .toArray();
+    }
+
+    async getRecentBroadcasts(limit: number): Promise<BroadcastLog[]> {
+        return this.collections.broadcastLogs
+            .find({ status: { $ne: 'scheduled' } })
+            .sort({ createdAt: -1, sentAt: -1 })
+            .limit(limit)
+            .toArray();
+    }
+
+    async getFailedDeliveries(broadcastId: string, limit: number): Promise<BroadcastDelivery[]> {
+        return this.collections.broadcastDeliveries
+            .find({ broadcastId, status: { $in: ['failed', 'unreachable'] } })
+            .sort({ attemptedAt: 1 })
+            .limit(limit)
+            .toArray();
+    }
+
+    /**
+     * Write every recipient to the outbox as pending. Upserts keep entries a previous run already handled.
+     */
+    private async fillOutbox(broadcast: BroadcastLog): Promise<number> {
+        const recipients = await this.getRecipients(broadcast.segment ?? { type: broadcast.targetGroup as BroadcastTarget });
+        for (let i = 0; i < recipients.length; i += BroadcastManager.OUTBOX_BATCH_SIZE) {
+            const operations: AnyBulkWriteOperation<BroadcastDelivery>[] = recipients
+                .slice(i, i + BroadcastManager.OUTBOX_BATCH_SIZE)
+                .map(chatId => ({
+                    updateOne: {
+                        filter: { broadcastId: broadcast.broadcastId, chatId },
+                        update: { $setOnInsert: { broadcastId: broadcast.broadcastId, chatId, status: 'pending', attempts: 0 } },
+                        upsert: true
+                    }
+                }));
+            await this.collections.broadcastDeliveries.bulkWrite(operations, { ordered: false });
+        }
+
+        const recipientCount = await this.collections.broadcastDeliveries.countDocuments({ broadcastId: broadcast.broadcastId });
+        await this.collections.broadcastLogs.updateOne(
+            { broadcastId: broadcast.broadcastId },
+            { $set: { recipientCount } }
+        );
+        return recipientCount;
+    }
+
+    private async countDeliveries(broadcastId: string): Promise<Omit<BroadcastProgress, 'recipientCount'>> {
+        const groups = await this.collections.broadcastDeliveries
+            .aggregate<{ _id: BroadcastDeliveryStatus; count: number }>([
+                { $match: { broadcastId } },
+                { $group: { _id: '$status', count: { $sum: 1 } } }
+            ])
+            .toArray();
+        const count = (status: BroadcastDeliveryStatus) => groups.find(group => group._id === status)?.count ?? 0;
+        return { successCount: count('sent'), failedCount: count('failed'), unreachableCount: count('unreachable') };
+    }
+
+    private async sendWithRetry(
+        chatId: number,
+        send: () => Promise<unknown>,
+        logContext: Record<string, unknown>,
+        onBackoff?: (delay: number) => Promise<void>
+    ): Promise<SendOutcome> {
+        for (let attempt = 1; ; attempt++) {
             try {
-                await this.bot.telegram.sendMessage(chatId, broadcastMessage);
-                successCount++;
+                await send();
+                return { status: 'sent', attempts: attempt };
             } catch (error) {
                 const err = error as Error;
-                logger.warn('Broadcast send failed', { chatId, message: err.message });
-                failedCount++;
+                if (error instanceof TelegramError && error.code === 429 && attempt < BroadcastManager.MAX_SEND_ATTEMPTS) {
+                    const backoff = Math.min(BroadcastManager.BASE_BACKOFF_MS * 2 ** (attempt - 1), BroadcastManager.MAX_BACKOFF_MS);
+                    const delay = Math.max(backoff, (error.parameters?.retry_after ?? 0) * 1000);
+                    logger.warn('Broadcast rate limited, backing off', { ...logContext, chatId, attempt, delay });
+                    await onBackoff?.(delay);
+                    await this.sleep(delay);
+                    continue;
+                }
+
+                const unreachable = error instanceof TelegramError && error.code === 403;
+                logger.warn('Broadcast send failed', { ...logContext, chatId, unreachable, message: err.message });
+                return { status: unreachable ? 'unreachable' : 'failed', attempts: attempt, error: err.message };
             }
-            // Add a small delay to respect rate limits
-            await new Promise(resolve => setTimeout(resolve, 50));
         }
+    }
 
-        await this.logBroadcast(broadcastId, adminId, target, message, successCount, failedCount);
-        return { successCount, failedCount };
+    private async markUnreachable(chatId: number): Promise<void> {
+        await this.collections.users.updateOne(
+            { telegramChatId: chatId, unreachableAt: { $exists: false } },
+            { $set: { unreachableAt: new Date() } }
+        );
     }
 
-    private async logBroadcast(
-        broadcastId: string,
-        adminId: number,
-        target: BroadcastTarget,
-        message: string,
-        successCount: number,
-        failedCount: number
-    ): Promise<void> {
-        const logEntry: BroadcastLog = {
-            broadcastId,
-            message,
-            targetGroup: target,
-            sentByAdminId: adminId.toString(),
-            sentAt: new Date(),
-            successCount,
-            failedCount
-        };
-        await this.broadcastLogs.insertOne(logEntry);
+    /**
+     * Extend the lease held by this run; false when another run has taken the broadcast over
+     */
+    private async renewLease(leaseFilter: Filter<BroadcastLog>, extraMs: number): Promise<boolean> {
+        const result = await this.collections.broadcastLogs.updateOne(
+            leaseFilter,
+            { $set: { leaseExpiresAt: new Date(Date.now() + extraMs + BroadcastManager.LEASE_MS) } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    private renderText(content: BroadcastContent, locale: Locale): string {
+        return [translate(locale, 'broadcast.header'), content.message.trim(), translate(locale, 'broadcast.footer')]
+            .filter(Boolean)
+            .join('\n\n');
+    }
+
+    private escapeRegex(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,143 @@
+import { CleanupManager } from './CleanupManager';
+import { Collections } from '../database/Collections';
+import { DatabaseManager } from '../database';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('CleanupManager', () => {
+    jest.setTimeout(120000);
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const longAgo = new Date(Date.now() - 400 * DAY_MS);
+    const recently = new Date(Date.now() - DAY_MS);
+
+    let dbManager: DatabaseManager;
+    let collections: Collections;
+    let mongoServer: MongoMemoryServer;
+    let originalMongoUri: string | undefined;
+    let cleanupManager: CleanupManager;
+
+    const addSession = async (sessionId: string, counselorId: string, endTime: Date | null): Promise<void> => {
+        await collections.sessions.insertOne({
+            sessionId,
+            userId: `U-${sessionId}`,
+            counselorId,
+            startTime: longAgo,
+            isActive: endTime === null,
+            ...(endTime ? { endTime } : {})
+        });
+        await collections.messages.insertOne({
+            messageId: `M-${sessionId}`,
+            sessionId,
+            senderId: `U-${sessionId}`,
+            senderType: 'user',
+            content: 'hello',
+            timestamp: longAgo
+        });
+        await collections.relayRoutes.insertOne({ messageId: `R-${sessionId}`, sessionId, recipientTelegramMessageId: 1, createdAt: longAgo });
+    };
+
+    const addReport = async (sessionId: string, counselorId: string, processed: boolean): Promise<void> => {
+        await collections.reports.insertOne({
+            reportId: `REP-${sessionId}`,
+            sessionId,
+            counselorId,
+            reason: 'rude',
+            timestamp: longAgo,
+            processed
+        });
+    };
+
+    // Returns the session IDs still stored, sorted
+    const remainingSessionIds = async (): Promise<string[]> =>
+        (await collections.sessions.distinct('sessionId', {})).sort();
+
+    beforeAll(async () => {
+        mongoServer = await MongoMemoryServer.create();
+        originalMongoUri = process.env.MONGODB_URI;
+        process.env.MONGODB_URI = mongoServer.getUri();
+        const connectionString = process.env.MONGODB_URI;
+        const databaseName = 'telegram_counseling_test';
+
+        dbManager = new DatabaseManager(connectionString, databaseName);
+        collections = await dbManager.initialize();
+    });
+
+    afterAll(async () => {
+        await dbManager.disconnect();
+        if (mongoServer) {
+            await mongoServer.stop();
+        }
+        if (originalMongoUri === undefined) {
+            delete process.env.MONGODB_URI;
+        } else {
+            process.env.MONGODB_URI = originalMongoUri;
+        }
+    });
+
+    beforeEach(async () => {
+        await Promise.all([
+            collections.sessions.deleteMany({}),
+            collections.messages.deleteMany({}),
+            collections.relayRoutes.deleteMany({}),
+            collections.reports.deleteMany({}),
+            collections.appeals.deleteMany({})
+        ]);
+        cleanupManager = new CleanupManager(collections, {
+            sessionDays: 30,
+            messageDays: 0,
+            closedPrayerDays: 0,
+            processedReportDays: 30,
+            auditLogDays: 0,
+            broadcastLogDays: 0
+        });
+
+        await addSession('S-expired', 'C1', longAgo);
+        await addReport('S-expired', 'C1', true);
+        await addSession('S-active', 'C1', null);
+        await addSession('S-recent', 'C1', recently);
+        await addSession('S-pending-report', 'C1', longAgo);
+        await addReport('S-pending-report', 'C1', false);
+        // The report was processed, but the counselor is appealing the strike it led to
+        await addSession('S-appealed', 'C2', longAgo);
+        await addReport('S-appealed', 'C2', true);
+        await collections.appeals.insertOne({
+            appealId: 'A1',
+            counselorId: 'C2',
+            message: 'Please review',
+            strikes: 1,
+            timestamp: recently,
+            processed: false
+        });
+    });
+
+    test('counts what would be removed without deleting anything on a dry run', async () => {
+        const result = await cleanupManager.applyRetentionPolicy(true);
+
+        expect(result).toEqual({
+            dryRun: true,
+            sessionsDeleted: 1,
+            messagesDeleted: 1,
+            closedPrayersDeleted: 0,
+            processedReportsDeleted: 1,
+            auditLogsDeleted: 0,
+            broadcastLogsDeleted: 0
+        });
+        expect(await collections.sessions.countDocuments({})).toBe(5);
+        expect(await collections.messages.countDocuments({})).toBe(5);
+        expect(await collections.relayRoutes.countDocuments({})).toBe(5);
+        expect(await collections.reports.countDocuments({})).toBe(3);
+    });
+
+    test('keeps active, recent, reported and appealed sessions and deletes only the expired one', async () => {
+        const result = await cleanupManager.applyRetentionPolicy();
+
+        expect(result.sessionsDeleted).toBe(1);
+        expect(result.messagesDeleted).toBe(1);
+        expect(result.processedReportsDeleted).toBe(1);
+        expect(await remainingSessionIds()).toEqual(['S-active', 'S-appealed', 'S-pending-report', 'S-recent']);
+        expect((await collections.reports.distinct('sessionId', {})).sort()).toEqual(['S-appealed', 'S-pending-report']);
+        // Relay routes go with their session, including those of ended sessions still within retention
+        expect((await collections.relayRoutes.distinct('sessionId', {})).sort())
+            .toEqual(['S-active', 'S-appealed', 'S-pending-report', 'S-recent']);
+    });
+});
@@ -1,51 +1,165 @@
+import { Collection, Document, Filter } from 'mongodb';
 import { Collections } from '../database/Collections';
 
+/**
+ * Retention period in days for each kind of stored data; 0 keeps that data indefinitely.
+ * Sessions are always kept while active, while a pending report refers to them, or while a report
+ * on them is under a pending appeal.
+ */
+export interface RetentionPolicy {
+    sessionDays: number;
+    messageDays: number;
+    closedPrayerDays: number;
+    processedReportDays: number;
+    auditLogDays: number;
+    broadcastLogDays: number;
+}
+
 export interface CleanupResult {
+    dryRun: boolean;
     sessionsDeleted: number;
     messagesDeleted: number;
-    reportsDeleted: number;
+    closedPrayersDeleted: number;
+    processedReportsDeleted: number;
+    auditLogsDeleted: number;
+    broadcastLogsDeleted: number;
 }
 
 export class CleanupManager {
     private collections: Collections;
+    private readonly policy: RetentionPolicy;
+
+    constructor(collections: Collections, policy: RetentionPolicy) {
+        if (policy.sessionDays < 1) {
+            throw new Error('Retention days must be at least 1.');
+        }
 
-    constructor(collections: Collections) {
         this.collections = collections;
+        this.policy = policy;
     }
 
     /**
-     * Remove sessions older than the provided retention period (in days)
-     * Also removes orphaned messages and reports tied to deleted sessions.
+     * Delete data older than its retention period. With dryRun, nothing is deleted and the counts
+     * describe what a real run would remove.
      * Requirements: 10.2, 10.5
      */
-    async cleanupOldSessions(retentionDays: number): Promise<CleanupResult> {
-        if (retentionDays < 1) {
-            throw new Error('Retention days must be at least 1.');
-        }
+    async applyRetentionPolicy(dryRun = false): Promise<CleanupResult> {
+        const policy = this.policy;
+        const appealingCounselorIds = await this.collections.appeals.distinct('counselorId', { processed: false });
+        const protectedSessionIds = await this.getProtectedSessionIds(appealingCounselorIds);
+        const expiredSessionIds = (await this.collections.sessions
+            .find({
+                isActive: false,
+                sessionId: { $nin: protectedSessionIds },
+                $or: [
+                    { endTime: { $lt: this.cutoff(policy.sessionDays) } },
+                    { endTime: { $exists: false }, startTime: { $lt: this.cutoff(policy.sessionDays) } }
+                ]
+            })
+            .project<{ sessionId: string }>({ sessionId: 1 })
+            .toArray()).map(session => session.sessionId);
 
-        const cutoff = new Date();
-        cutoff.setDate(cutoff.getDate() - retentionDays);
+        // Messages go with their session, or earlier when their own retention period is shorter
+        const messageFilter: Filter<Document> = policy.messageDays > 0
+            ? {
+                $or: [
+                    { sessionId: { $in: expiredSessionIds } },
+                    { sessionId: { $nin: protectedSessionIds }, timestamp: { $lt: this.cutoff(policy.messageDays) } }
+                ]
+            }
+            : { sessionId: { $in: expiredSessionIds } };
+
+        // Scheduled and in-flight broadcasts have no sentAt and are never expired
+        const expiredBroadcastIds = policy.broadcastLogDays > 0
+            ? await this.collections.broadcastLogs.distinct('broadcastId', {
+                $or: [
+                    { sentAt: { $lt: this.cutoff(policy.broadcastLogDays) } },
+                    { status: 'cancelled', cancelledAt: { $lt: this.cutoff(policy.broadcastLogDays) } }
+                ]
+            })
+            : [];
 
-        const oldSessions = await this.collections.sessions
-            .find({ startTime: { $lt: cutoff } })
-            .toArray();
+        const [
+            sessionsDeleted,
+            messagesDeleted,
+            closedPrayersDeleted,
+            processedReportsDeleted,
+            auditLogsDeleted,
+            broadcastLogsDeleted
+        ] = await Promise.all([
+            this.purge(this.collections.sessions, { sessionId: { $in: expiredSessionIds } }, dryRun),
+            this.purge(this.collections.messages, messageFilter, dryRun),
+            this.purgeOlderThan(this.collections.prayers, policy.closedPrayerDays, cutoff => ({
+                status: 'closed',
+                $or: [
+                    { closedAt: { $lt: cutoff } },
+                    { closedAt: { $exists: false }, createdAt: { $lt: cutoff } }
+                ]
+            }), dryRun),
+            // Reports behind a pending appeal stay until the appeal is decided
+            this.purgeOlderThan(this.collections.reports, policy.processedReportDays, cutoff => ({
+                processed: true,
+                counselorId: { $nin: appealingCounselorIds },
+                timestamp: { $lt: cutoff }
+            }), dryRun),
+            this.purgeOlderThan(this.collections.auditLogs, policy.auditLogDays, cutoff => ({ timestamp: { $lt: cutoff } }), dryRun),
+            this.purge(this.collections.broadcastLogs, { broadcastId: { $in: expiredBroadcastIds } }, dryRun)
+        ]);
 
-        if (oldSessions.length === 0) {
-            return { sessionsDeleted: 0, messagesDeleted: 0, reportsDeleted: 0 };
+        if (!dryRun) {
+            await this.collections.sessionKeys.deleteMany({ sessionId: { $in: expiredSessionIds } });
+            await this.collections.relayRoutes.deleteMany({ sessionId: { $in: expiredSessionIds } });
+            await this.collections.broadcastDeliveries.deleteMany({ broadcastId: { $in: expiredBroadcastIds } });
         }
 
-        const sessionIds = oldSessions.map(session => session.sessionId);
-        
-        const [sessionResult, messageResult, reportResult] = await Promise.all([
-            this.collections.sessions.deleteMany({ sessionId: { $in: sessionIds } }),
-            this.collections.messages.deleteMany({ sessionId: { $in: sessionIds } }),
-            this.collections.reports.deleteMany({ sessionId: { $in: sessionIds } })
-        ]);
-        
         return {
-            sessionsDeleted: sessionResult.deletedCount ?? 0,
-            messagesDeleted: messageResult.deletedCount ?? 0,
-            reportsDeleted: reportResult.deletedCount ?? 0
+            dryRun,
+            sessionsDeleted,
+            messagesDeleted,
+            closedPrayersDeleted,
+            processedReportsDeleted,
+            auditLogsDeleted,
+            broadcastLogsDeleted
         };
     }
+
+    /**
+     * Sessions that must be kept whatever their age: active ones, those under a pending report,
+     * and those behind any report on a counselor whose appeal is still open
+     */
+    private async getProtectedSessionIds(appealingCounselorIds: string[]): Promise<string[]> {
+        const [activeSessionIds, reportedSessionIds, appealedSessionIds] = await Promise.all([
+            this.collections.sessions.distinct('sessionId', { isActive: true }),
+            this.collections.reports.distinct('sessionId', { processed: false }),
+            this.collections.reports.distinct('sessionId', { counselorId: { $in: appealingCounselorIds } })
+        ]);
+        return Array.from(new Set([...activeSessionIds, ...reportedSessionIds, ...appealedSessionIds]));
+    }
+
+    private cutoff(days: number): Date {
+        const cutoff = new Date();
+        cutoff.setDate(cutoff.getDate() - days);
+        return cutoff;
+    }
+
+    private async purgeOlderThan<T extends Document>(
+        collection: Collection<T>,
+        days: number,
+        buildFilter: (cutoff: Date) => Filter<Document>,
+        dryRun: boolean
+    ): Promise<number> {
+        if (days === 0) {
+            return 0;
+        }
+        return this.purge(collection, buildFilter(this.cutoff(days)), dryRun);
+    }
+
+    private async purge<T extends Document>(collection: Collection<T>, filter: Filter<Document>, dryRun: boolean): Promise<number> {
+        const typedFilter = filter as Filter<T>;
+        if (dryRun) {
+            return collection.countDocuments(typedFilter);
+        }
+        const result = await collection.deleteMany(typedFilter);
+        return result.deletedCount ?? 0;
+    }
 }
@@ -1,7 +1,25 @@
 import { Collections } from '../database/Collections';
-import { Counselor, CounselorStatus } from '../types/Counselor';
+import { Counselor, CounselorProfileUpdate, CounselorStatus } from '../types/Counselor';
+import { buildActiveCounselorSessionFilter, CounselorFreedListener } from './SessionManager';
+import { logger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
+export const MAX_CONCURRENT_SESSIONS_LIMIT = 5;
+export const COUNSELOR_ALIAS_MAX_LENGTH = 32;
+export const COUNSELOR_BIO_MAX_LENGTH = 280;
+
+const ALIAS_NAMES = [
+    'Miriam', 'Abel', 'Hana', 'Samuel', 'Ruth', 'Daniel', 'Selam', 'Naomi', 'Elias', 'Tabitha',
+    'Yonas', 'Lydia', 'Micah', 'Sara', 'Petros', 'Martha', 'Biniam', 'Eden', 'Nathan', 'Rahel'
+];
+const ALIAS_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} '.-]*$/u;
+const ALIAS_COLLATION = { locale: 'en', strength: 2 };
+
+export interface CounselorPublicProfile {
+    alias: string;
+    bio?: string;
+}
+
 export interface CounselorStats {
     counselorId: string;
     sessionsHandled: number;
@@ -10,6 +28,13 @@ export interface CounselorStats {
     strikes: number;
     isSuspended: boolean;
     lastActive: Date;
+    maxConcurrentSessions: number;
+}
+
+export interface CounselorCapacity {
+    counselor: Counselor;
+    activeSessions: number;
+    remainingCapacity: number;
 }
 
 export interface StatusChangeAudit {
@@ -23,9 +48,23 @@ export interface StatusChangeAudit {
 export class CounselorManager {
     private collections: Collections;
     private statusAuditLog: StatusChangeAudit[] = [];
+    private readonly defaultMaxConcurrentSessions: number;
+    private counselorFreedListeners: CounselorFreedListener[] = [];
+
+    constructor(collections: Collections, defaultMaxConcurrentSessions = 1) {
+        if (defaultMaxConcurrentSessions < 1) {
+            throw new Error('Default concurrent session capacity must be at least 1.');
+        }
 
-    constructor(collections: Collections) {
         this.collections = collections;
+        this.defaultMaxConcurrentSessions = defaultMaxConcurrentSessions;
+    }
+
+    /**
+     * Register a callback fired when a counselor becomes available or raises their capacity
+     */
+    onCounselorFreed(listener: CounselorFreedListener): void {
+        this.counselorFreedListeners.push(listener);
     }
 
     /**
@@ -71,6 +110,10 @@ export class CounselorManager {
             timestamp: new Date()
         };
         this.statusAuditLog.push(auditEntry);
+
+        if (status === 'available') {
+            this.notifyCounselorFreed(counselorId);
+        }
     }
 
     /**
@@ -87,6 +130,112 @@ export class CounselorManager {
         return availableCounselor ? availableCounselor.id : null;
     }
 
+    async countAvailableCounselors(): Promise<number> {
+        return this.collections.counselors.countDocuments({
+            status: 'available',
+            isApproved: true,
+            isSuspended: false
+        });
+    }
+
+    /**
+     * Get approved counselors that can take another session, with their current load.
+     * 'busy' counselors are included because capacity, not status, decides eligibility;
+     * counselors who set themselves away are never offered new sessions.
+     */
+    async getCounselorsWithCapacity(): Promise<CounselorCapacity[]> {
+        const counselors = await this.collections.counselors.find({
+            status: { $in: ['available', 'busy'] },
+            isApproved: true,
+            isSuspended: false
+        }).toArray();
+
+        const activeCounts = await Promise.all(
+            counselors.map(counselor =>
+                this.collections.sessions.countDocuments(buildActiveCounselorSessionFilter(counselor.id))
+            )
+        );
+
+        return counselors
+            .map((counselor, index) => {
+                const activeSessions = activeCounts[index] ?? 0;
+                return {
+                    counselor,
+                    activeSessions,
+                    remainingCapacity: this.getSessionCapacity(counselor) - activeSessions
+                };
+            })
+            .filter(entry => entry.remainingCapacity > 0);
+    }
+
+    /**
+     * Get how many sessions a counselor may hold at once
+     */
+    getSessionCapacity(counselor: Pick<Counselor, 'maxConcurrentSessions'>): number {
+        return counselor.maxConcurrentSessions ?? this.defaultMaxConcurrentSessions;
+    }
+
+    /**
+     * Set how many concurrent sessions a counselor is willing to handle
+     */
+    async setMaxConcurrentSessions(counselorId: string, maxConcurrentSessions: number): Promise<void> {
+        if (!Number.isInteger(maxConcurrentSessions)
+            || maxConcurrentSessions < 1
+            || maxConcurrentSessions > MAX_CONCURRENT_SESSIONS_LIMIT) {
+            throw new Error(`Capacity must be a whole number between 1 and ${MAX_CONCURRENT_SESSIONS_LIMIT}.`);
+        }
+
+        const counselor = await this.collections.counselors.findOne({ id: counselorId });
+        if (!counselor) {
+            throw new Error(`Counselor not found: ${counselorId}`);
+        }
+
+        const updates: Partial<Counselor> = { maxConcurrentSessions, lastActive: new Date() };
+        if (counselor.status === 'available' || counselor.status === 'busy') {
+            const activeSessions = await this.collections.sessions.countDocuments(
+                buildActiveCounselorSessionFilter(counselorId)
+            );
+            updates.status = activeSessions >= maxConcurrentSessions ? 'busy' : 'available';
+        }
+
+        await this.collections.counselors.updateOne({ id: counselorId }, { $set: updates });
+
+        if (updates.status === 'available') {
+            this.notifyCounselorFreed(counselorId);
+        }
+    }
+
+    /**
+     * Choose which active session plain counselor messages are routed to
+     */
+    async setFocusedSession(counselorId: string, sessionId: string): Promise<void> {
+        const result = await this.collections.counselors.updateOne(
+            { id: counselorId },
+            { $set: { focusedSessionId: sessionId } }
+        );
+
+        if (result.matchedCount === 0) {
+            throw new Error(`Counselor not found: ${counselorId}`);
+        }
+    }
+
+    /**
+     * Counselors waiting for admin approval, newest first. Older records may still use the legacy is_approved field.
+     */
+    async getPendingApprovals(): Promise<Counselor[]> {
+        return this.collections.counselors
+            .find({
+                $or: [
+                    { isApproved: false },
+                    { isApproved: { $exists: false } },
+                    { is_approved: false },
+                    { is_approved: { $exists: false } }
+                ]
+            } as unknown as Record<string, unknown>)
+            .sort({ createdAt: -1 })
+            .toArray();
+    }
+
     /**
      * Approve a counselor (admin function)
      * Requirements: 6.1
@@ -136,6 +285,11 @@ export class CounselorManager {
             );
         }
 
+        // Sessions were closed directly above, so recount the slots still held by transfers
+        const activeSessionCount = await this.collections.sessions.countDocuments(
+            buildActiveCounselorSessionFilter(counselorId)
+        );
+
         // Remove counselor access by setting isApproved to false and suspending
         const result = await this.collections.counselors.updateOne(
             { id: counselorId },
@@ -144,6 +298,7 @@ export class CounselorManager {
                     isApproved: false,
                     isSuspended: true,
                     status: 'away',
+                    activeSessionCount,
                     lastActive: new Date()
                 }
             }
@@ -174,7 +329,8 @@ export class CounselorManager {
             isApproved: counselor.isApproved,
             strikes: counselor.strikes,
             isSuspended: counselor.isSuspended,
-            lastActive: counselor.lastActive
+            lastActive: counselor.lastActive,
+            maxConcurrentSessions: this.getSessionCapacity(counselor)
         };
     }
 
@@ -240,6 +396,7 @@ export class CounselorManager {
      */
     async listCounselors(): Promise<Array<{
         counselorId: string;
+        alias: string | null;
         status: CounselorStatus;
         isApproved: boolean;
         sessionsHandled: number;
@@ -251,6 +408,7 @@ export class CounselorManager {
 
         return counselors.map(counselor => ({
             counselorId: counselor.id,
+            alias: counselor.alias ?? null,
             status: counselor.status,
             isApproved: counselor.isApproved,
             sessionsHandled: counselor.sessionsHandled,
@@ -311,6 +469,7 @@ export class CounselorManager {
             ratingAverage: 0,
             createdAt: now,
             lastActive: now,
+            alias: await this.generateUniqueAlias(details?.fullName),
             languagesSpoken: details?.languagesSpoken ?? [],
             domainExpertise: details?.domainExpertise ?? []
         };
@@ -334,4 +493,180 @@ export class CounselorManager {
         await this.collections.counselors.insertOne(counselor);
         return counselorId;
     }
+
+    /**
+     * Get the anonymous persona users see for a counselor.
+     * Counselors registered before aliases existed get one assigned on first use, so it stays stable afterwards.
+     */
+    async getPublicProfile(counselorId: string): Promise<CounselorPublicProfile | null> {
+        let counselor = await this.collections.counselors.findOne({ id: counselorId });
+        if (!counselor) {
+            return null;
+        }
+
+        if (!counselor.alias) {
+            await this.collections.counselors.updateOne(
+                { id: counselorId, alias: { $exists: false } },
+                { $set: { alias: await this.generateUniqueAlias(counselor.fullName) } }
+            );
+            counselor = await this.collections.counselors.findOne({ id: counselorId });
+            if (!counselor?.alias) {
+                return null;
+            }
+        }
+
+        const profile: CounselorPublicProfile = { alias: counselor.alias };
+        if (counselor.bio) {
+            profile.bio = counselor.bio;
+        }
+        return profile;
+    }
+
+    /**
+     * Submit an alias and/or bio change for admin review. A newer request replaces a pending one.
+     */
+    async requestProfileUpdate(counselorId: string, changes: { alias?: string; bio?: string }): Promise<CounselorProfileUpdate> {
+        const counselor = await this.collections.counselors.findOne({ id: counselorId });
+        if (!counselor) {
+            throw new Error(`Counselor not found: ${counselorId}`);
+        }
+
+        const update: CounselorProfileUpdate = { ...counselor.pendingProfileUpdate, submittedAt: new Date() };
+
+        if (changes.alias !== undefined) {
+            const alias = changes.alias.trim().replace(/\s+/g, ' ');
+            this.validateAlias(counselor, alias);
+            if (await this.isAliasTaken(alias, counselorId)) {
+                throw new Error('That alias is already in use.');
+            }
+            update.alias = alias;
+        }
+
+        if (changes.bio !== undefined) {
+            const bio = changes.bio.trim();
+            if (!bio || bio.length > COUNSELOR_BIO_MAX_LENGTH) {
+                throw new Error(`Bio must be between 1 and ${COUNSELOR_BIO_MAX_LENGTH} characters.`);
+            }
+            update.bio = bio;
+        }
+
+        await this.collections.counselors.updateOne({ id: counselorId }, { $set: { pendingProfileUpdate: update } });
+        return update;
+    }
+
+    /**
+     * Counselors with an alias/bio change waiting for review, oldest first
+     */
+    async getPendingProfileUpdates(): Promise<Counselor[]> {
+        return this.collections.counselors
+            .find({ pendingProfileUpdate: { $exists: true } })
+            .sort({ 'pendingProfileUpdate.submittedAt': 1 })
+            .toArray();
+    }
+
+    /**
+     * Apply a reviewed alias/bio change (admin function)
+     */
+    async approveProfileUpdate(adminId: string, counselorId: string): Promise<CounselorProfileUpdate> {
+        const counselor = await this.collections.counselors.findOne({ id: counselorId });
+        if (!counselor) {
+            throw new Error(`Counselor not found: ${counselorId}`);
+        }
+
+        const pending = counselor.pendingProfileUpdate;
+        if (!pending) {
+            throw new Error('No pending profile change for this counselor.');
+        }
+
+        if (pending.alias && await this.isAliasTaken(pending.alias, counselorId)) {
+            throw new Error('That alias is already in use.');
+        }
+
+        const updates: Partial<Counselor> = {};
+        if (pending.alias) {
+            updates.alias = pending.alias;
+        }
+        if (pending.bio) {
+            updates.bio = pending.bio;
+        }
+
+        await this.collections.counselors.updateOne(
+            { id: counselorId },
+            { $set: updates, $unset: { pendingProfileUpdate: '' } }
+        );
+
+        logger.info('Counselor profile change approved', { adminId, counselorId });
+        return pending;
+    }
+
+    /**
+     * Discard a pending alias/bio change (admin function)
+     */
+    async rejectProfileUpdate(adminId: string, counselorId: string): Promise<void> {
+        const result = await this.collections.counselors.updateOne(
+            { id: counselorId, pendingProfileUpdate: { $exists: true } },
+            { $unset: { pendingProfileUpdate: '' } }
+        );
+
+        if (result.matchedCount === 0) {
+            throw new Error('No pending profile change for this counselor.');
+        }
+
+        logger.info('Counselor profile change rejected', { adminId, counselorId });
+    }
+
+    private validateAlias(counselor: Counselor, alias: string): void {
+        if (alias.length < 3 || alias.length > COUNSELOR_ALIAS_MAX_LENGTH || !ALIAS_PATTERN.test(alias)) {
+            throw new Error(`Alias must be 3 to ${COUNSELOR_ALIAS_MAX_LENGTH} letters, numbers, spaces or hyphens.`);
+        }
+
+        const normalized = alias.toLowerCase();
+        const identifying = [
+            counselor.fullName,
+            ...(counselor.fullName?.split(/\s+/) ?? []),
+            counselor.telegramUsername?.replace(/^@/, '')
+        ].filter((value): value is string => Boolean(value && value.length >= 3));
+        if (identifying.some(value => normalized.includes(value.toLowerCase()))) {
+            throw new Error('Alias must not contain your real name or Telegram username.');
+        }
+    }
+
+    private async isAliasTaken(alias: string, exceptCounselorId: string): Promise<boolean> {
+        const existing = await this.collections.counselors.findOne(
+            { alias, id: { $ne: exceptCounselorId } },
+            { collation: ALIAS_COLLATION }
+        );
+        return Boolean(existing);
+    }
+
+    /**
+     * Pick a random "Name-N" alias that is not in use and does not echo the counselor's real name
+     */
+    private async generateUniqueAlias(fullName?: string): Promise<string> {
+        const realName = fullName?.toLowerCase() ?? '';
+        const names = ALIAS_NAMES.filter(name => !realName.includes(name.toLowerCase()));
+        const pickName = () => names[Math.floor(Math.random() * names.length)] ?? 'Friend';
+
+        for (let attempt = 0; attempt < 20; attempt++) {
+            const alias = `${pickName()}-${Math.floor(Math.random() * 99) + 1}`;
+            if (!await this.collections.counselors.findOne({ alias }, { collation: ALIAS_COLLATION })) {
+                return alias;
+            }
+        }
+
+        return `${pickName()}-${uuidv4().slice(0, 8)}`;
+    }
+
+    private notifyCounselorFreed(counselorId: string): void {
+        for (const listener of this.counselorFreedListeners) {
+            Promise.resolve()
+                .then(() => listener(counselorId))
+                .catch(error => {
+                    logger.warn('Counselor freed listener failed', {
+                        counselorId,
+                        message: (error as Error).message
+                    });
+                });
+        }
+    }
 }
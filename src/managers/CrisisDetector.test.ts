@@ -0,0 +1,33 @@
+import { CrisisDetector } from './CrisisDetector';
+
+describe('CrisisDetector', () => {
+    const detector = new CrisisDetector(undefined, {
+        en: ['Give Up On Everything'],
+        ti: ['ሕይወተይ ከብቅዕ']
+    });
+
+    it('matches phrases regardless of case, spacing and apostrophe style', () => {
+        expect(detector.detect('I  DON’T want to live anymore')).toEqual({
+            language: 'English',
+            keyword: "don't want to live"
+        });
+    });
+
+    it('matches phrases in Amharic and Afaan Oromo', () => {
+        expect(detector.detect('መሞት እፈልጋለሁ')?.language).toBe('Amharic');
+        expect(detector.detect('Ani of ajjeesuu yaadaa jira')?.language).toBe('Afaan Oromo');
+    });
+
+    it('adds configured extra keywords to their language', () => {
+        expect(detector.detect('I just want to give up on everything')).toEqual({
+            language: 'English',
+            keyword: 'give up on everything'
+        });
+        expect(detector.detect('ሕይወተይ ከብቅዕ እደሊ')?.language).toBe('Tigrinya');
+    });
+
+    it('ignores ordinary messages', () => {
+        expect(detector.detect('Thank you, I feel a bit better today.')).toBeNull();
+        expect(detector.detect('')).toBeNull();
+    });
+});
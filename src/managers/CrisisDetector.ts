@@ -0,0 +1,112 @@
+import { Locale } from '../types/Locale';
+
+/**
+ * Default crisis phrases per counseling language (see BotMenu.COUNSELOR_LANGUAGES).
+ * Matching is case-insensitive on whitespace-normalized text, so phrases should be written
+ * the way users type them rather than as exhaustive variants.
+ */
+export const DEFAULT_CRISIS_KEYWORDS: Record<string, string[]> = {
+    English: [
+        'suicide',
+        'suicidal',
+        'kill myself',
+        'end my life',
+        'take my own life',
+        'want to die',
+        "don't want to live",
+        'dont want to live',
+        'no reason to live',
+        'better off dead',
+        'hurt myself',
+        'self harm',
+        'cut myself'
+    ],
+    Amharic: [
+        'ራሴን ማጥፋት',
+        'ራሴን አጠፋለሁ',
+        'ራሴን እገድላለሁ',
+        'ራስን ማጥፋት',
+        'መሞት እፈልጋለሁ',
+        'መኖር አልፈልግም'
+    ],
+    'Afaan Oromo': [
+        'of ajjeesuu',
+        'of nan ajjeesa',
+        'lubbuu koo baasuu',
+        "du'uun barbaada",
+        'duuti na wayya',
+        'jiraachuu hin barbaadu'
+    ],
+    Tigrinya: [
+        'ርእሰይ ክቐትል',
+        'ነብሰይ ክቐትል',
+        'ክሞት ደልየ',
+        'ክነብር ኣይደልን'
+    ]
+};
+
+// Interface language whose hotline text answers a match in each keyword language
+export const CRISIS_LANGUAGE_LOCALES: Record<string, Locale> = {
+    English: 'en',
+    Amharic: 'am',
+    'Afaan Oromo': 'om',
+    Tigrinya: 'ti'
+};
+
+export interface CrisisDetection {
+    language: string;
+    keyword: string;
+}
+
+export class CrisisDetector {
+    private keywordsByLanguage: Array<{ language: string; keywords: string[] }>;
+
+    constructor(
+        keywordsByLanguage: Record<string, string[]> = DEFAULT_CRISIS_KEYWORDS,
+        extraKeywords: Partial<Record<Locale, string[]>> = {}
+    ) {
+        this.keywordsByLanguage = Object.entries(keywordsByLanguage).map(([language, keywords]) => ({
+            language,
+            keywords: keywords.map(keyword => CrisisDetector.normalize(keyword)).filter(Boolean)
+        }));
+
+        // Operator phrases join the built-in list of their language so detections still report it
+        for (const [locale, keywords] of Object.entries(extraKeywords) as Array<[Locale, string[]]>) {
+            const language = Object.keys(CRISIS_LANGUAGE_LOCALES).find(name => CRISIS_LANGUAGE_LOCALES[name] === locale) ?? locale;
+            const extra = keywords.map(keyword => CrisisDetector.normalize(keyword)).filter(Boolean);
+            const existing = this.keywordsByLanguage.find(entry => entry.language === language);
+            if (existing) {
+                existing.keywords.push(...extra);
+            } else if (extra.length > 0) {
+                this.keywordsByLanguage.push({ language, keywords: extra });
+            }
+        }
+    }
+
+    /**
+     * Check a user message for crisis phrases, returning the first match
+     */
+    detect(text: string): CrisisDetection | null {
+        const normalized = CrisisDetector.normalize(text);
+        if (!normalized) {
+            return null;
+        }
+
+        for (const { language, keywords } of this.keywordsByLanguage) {
+            const keyword = keywords.find(candidate => normalized.includes(candidate));
+            if (keyword) {
+                return { language, keyword };
+            }
+        }
+
+        return null;
+    }
+
+    private static normalize(text: string): string {
+        return text
+            .toLowerCase()
+            .replace(/[‘’ʼ]/g, "'")
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+}
@@ -0,0 +1,136 @@
+import { randomBytes } from 'crypto';
+import { EncryptionManager, MasterKeyring } from './EncryptionManager';
+import { Collections } from '../database/Collections';
+import { DatabaseManager } from '../database';
+import { Message } from '../types/Message';
+import { EncryptedPayload } from '../types/SessionKey';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('EncryptionManager', () => {
+    jest.setTimeout(120000);
+
+    const oldKey = randomBytes(32);
+    const newKey = randomBytes(32);
+
+    let dbManager: DatabaseManager;
+    let collections: Collections;
+    let mongoServer: MongoMemoryServer;
+    let originalMongoUri: string | undefined;
+
+    const keyring = (currentKeyId: string, keys: Record<string, Buffer>): MasterKeyring => ({
+        currentKeyId,
+        keys: new Map(Object.entries(keys))
+    });
+
+    const storedMessage = (sessionId: string, encryptedContent: EncryptedPayload): Message => ({
+        messageId: `M-${sessionId}`,
+        sessionId,
+        senderId: 'U1',
+        senderType: 'user',
+        content: '',
+        encryptedContent,
+        timestamp: new Date()
+    });
+
+    // Flip one byte of a base64 value so the GCM tag no longer matches
+    const tamper = (value: string): string => {
+        const bytes = Buffer.from(value, 'base64');
+        bytes[0] = (bytes[0] ?? 0) ^ 0xff;
+        return bytes.toString('base64');
+    };
+
+    beforeAll(async () => {
+        mongoServer = await MongoMemoryServer.create();
+        originalMongoUri = process.env.MONGODB_URI;
+        process.env.MONGODB_URI = mongoServer.getUri();
+        const connectionString = process.env.MONGODB_URI;
+        const databaseName = 'telegram_counseling_test';
+
+        dbManager = new DatabaseManager(connectionString, databaseName);
+        collections = await dbManager.initialize();
+    });
+
+    afterAll(async () => {
+        await dbManager.disconnect();
+        if (mongoServer) {
+            await mongoServer.stop();
+        }
+        if (originalMongoUri === undefined) {
+            delete process.env.MONGODB_URI;
+        } else {
+            process.env.MONGODB_URI = originalMongoUri;
+        }
+    });
+
+    beforeEach(async () => {
+        await collections.sessionKeys.deleteMany({});
+    });
+
+    test('round-trips message content and stores only the wrapped data key', async () => {
+        const manager = new EncryptionManager(collections, keyring('k1', { k1: oldKey }));
+
+        const payload = await manager.encryptContent('S1', 'I need someone to talk to');
+        expect(payload.ciphertext).not.toContain('talk');
+
+        const decrypted = await manager.decryptMessage(storedMessage('S1', payload));
+        expect(decrypted.content).toBe('I need someone to talk to');
+        expect(decrypted.encryptedContent).toBeUndefined();
+
+        const sessionKey = await collections.sessionKeys.findOne({ sessionId: 'S1' });
+        expect(sessionKey?.masterKeyId).toBe('k1');
+        expect(await collections.sessionKeys.countDocuments({ sessionId: 'S1' })).toBe(1);
+    });
+
+    test('decrypts data keys wrapped by a retired master key', async () => {
+        const payload = await new EncryptionManager(collections, keyring('k1', { k1: oldKey })).encryptContent('S1', 'before rotation');
+
+        const rotated = new EncryptionManager(collections, keyring('k2', { k1: oldKey, k2: newKey }));
+        expect((await rotated.decryptMessage(storedMessage('S1', payload))).content).toBe('before rotation');
+
+        const withoutOldKey = new EncryptionManager(collections, keyring('k2', { k2: newKey }));
+        await expect(withoutOldKey.decryptMessage(storedMessage('S1', payload)))
+            .rejects.toThrow('Master key "k1" is not configured.');
+    });
+
+    test('re-wraps retired data keys once, even when rotations race', async () => {
+        const original = new EncryptionManager(collections, keyring('k1', { k1: oldKey }));
+        const payloads = await Promise.all(['S1', 'S2', 'S3'].map(sessionId => original.encryptContent(sessionId, `hello ${sessionId}`)));
+
+        const results = await Promise.all([
+            new EncryptionManager(collections, keyring('k2', { k1: oldKey, k2: newKey })).rotateDataKeys(),
+            new EncryptionManager(collections, keyring('k2', { k1: oldKey, k2: newKey })).rotateDataKeys()
+        ]);
+        expect(results.reduce((sum, result) => sum + result.rewrapped, 0)).toBe(3);
+        expect(results.every(result => result.failed === 0)).toBe(true);
+        expect(await collections.sessionKeys.countDocuments({ masterKeyId: 'k2' })).toBe(3);
+
+        // The retired key can now be dropped; messages themselves were never touched
+        const newOnly = new EncryptionManager(collections, keyring('k2', { k2: newKey }));
+        expect((await newOnly.decryptMessage(storedMessage('S2', payloads[1] as EncryptedPayload))).content).toBe('hello S2');
+        expect(await newOnly.rotateDataKeys()).toEqual({ rewrapped: 0, failed: 0 });
+    });
+
+    test('rejects tampered ciphertext and tampered wrapped keys', async () => {
+        const manager = new EncryptionManager(collections, keyring('k1', { k1: oldKey }));
+        const payload = await manager.encryptContent('S1', 'private');
+
+        await expect(manager.decryptMessage(storedMessage('S1', { ...payload, ciphertext: tamper(payload.ciphertext) })))
+            .rejects.toThrow();
+
+        const sessionKey = await collections.sessionKeys.findOne({ sessionId: 'S1' });
+        await collections.sessionKeys.updateOne(
+            { sessionId: 'S1' },
+            { $set: { 'wrappedKey.ciphertext': tamper(sessionKey?.wrappedKey.ciphertext ?? '') } }
+        );
+        const rotating = new EncryptionManager(collections, keyring('k2', { k1: oldKey, k2: newKey }));
+        await expect(rotating.decryptMessage(storedMessage('S1', payload))).rejects.toThrow();
+        expect(await rotating.rotateDataKeys()).toEqual({ rewrapped: 0, failed: 1 });
+    });
+
+    test('refuses a keyring without its current key or with short keys', () => {
+        expect(() => new EncryptionManager(collections, keyring('k2', { k1: oldKey })))
+            .toThrow('Current master key is missing from the keyring.');
+        expect(() => new EncryptionManager(collections, keyring('k1', { k1: randomBytes(16) })))
+            .toThrow('Master keys must be 32 bytes.');
+    });
+});
@@ -0,0 +1,186 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { Collections } from '../database/Collections';
+import { Message } from '../types/Message';
+import { EncryptedPayload } from '../types/SessionKey';
+import { logger } from '../utils/logger';
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const MAX_CACHED_DATA_KEYS = 500;
+
+export interface MasterKeyring {
+    currentKeyId: string;
+    keys: Map<string, Buffer>; // includes the current key and any retired keys still needed for unwrapping
+}
+
+export interface KeyRotationResult {
+    rewrapped: number;
+    failed: number;
+}
+
+/**
+ * Envelope encryption for stored session messages.
+ * Each session gets its own random data key; only that data key, wrapped by a master key from config, is stored.
+ * Rotating the master key re-wraps the data keys and leaves the messages themselves untouched.
+ */
+export class EncryptionManager {
+    private collections: Collections;
+    private keyring: MasterKeyring;
+    private dataKeyCache = new Map<string, Buffer>();
+
+    constructor(collections: Collections, keyring: MasterKeyring) {
+        const currentKey = keyring.keys.get(keyring.currentKeyId);
+        if (!currentKey) {
+            throw new Error('Current master key is missing from the keyring.');
+        }
+
+        for (const key of keyring.keys.values()) {
+            if (key.length !== KEY_LENGTH) {
+                throw new Error(`Master keys must be ${KEY_LENGTH} bytes.`);
+            }
+        }
+
+        this.collections = collections;
+        this.keyring = keyring;
+    }
+
+    /**
+     * Encrypt message content with the session's data key, creating the key on first use
+     */
+    async encryptContent(sessionId: string, content: string): Promise<EncryptedPayload> {
+        const dataKey = await this.getOrCreateDataKey(sessionId);
+        return this.seal(dataKey, Buffer.from(content, 'utf8'));
+    }
+
+    /**
+     * Return the message with its plaintext content restored. Messages stored before encryption was enabled pass through.
+     */
+    async decryptMessage(message: Message): Promise<Message> {
+        if (!message.encryptedContent) {
+            return message;
+        }
+
+        const dataKey = await this.getDataKey(message.sessionId);
+        const { encryptedContent, ...rest } = message;
+        return { ...rest, content: this.open(dataKey, encryptedContent).toString('utf8') };
+    }
+
+    async decryptMessages(messages: Message[]): Promise<Message[]> {
+        return Promise.all(messages.map(message => this.decryptMessage(message)));
+    }
+
+    /**
+     * Re-wrap every data key still wrapped by a retired master key so the retired key can be dropped from config
+     */
+    async rotateDataKeys(): Promise<KeyRotationResult> {
+        const result: KeyRotationResult = { rewrapped: 0, failed: 0 };
+        const cursor = this.collections.sessionKeys.find({ masterKeyId: { $ne: this.keyring.currentKeyId } });
+
+        for await (const sessionKey of cursor) {
+            try {
+                const dataKey = this.unwrap(sessionKey.masterKeyId, sessionKey.wrappedKey);
+                // Matching on the old wrapping keeps a concurrent rotation from being overwritten
+                const update = await this.collections.sessionKeys.updateOne(
+                    { sessionId: sessionKey.sessionId, masterKeyId: sessionKey.masterKeyId },
+                    {
+                        $set: {
+                            masterKeyId: this.keyring.currentKeyId,
+                            wrappedKey: this.wrap(dataKey),
+                            rotatedAt: new Date()
+                        }
+                    }
+                );
+                if (update.modifiedCount > 0) {
+                    result.rewrapped++;
+                }
+            } catch (error) {
+                const err = error as Error;
+                logger.error('Failed to re-wrap session data key', { sessionId: sessionKey.sessionId, masterKeyId: sessionKey.masterKeyId, message: err.message });
+                result.failed++;
+            }
+        }
+
+        return result;
+    }
+
+    private async getOrCreateDataKey(sessionId: string): Promise<Buffer> {
+        const cached = this.dataKeyCache.get(sessionId);
+        if (cached) {
+            return cached;
+        }
+
+        // Upsert so two messages racing on a new session agree on a single data key
+        const sessionKey = await this.collections.sessionKeys.findOneAndUpdate(
+            { sessionId },
+            {
+                $setOnInsert: {
+                    sessionId,
+                    masterKeyId: this.keyring.currentKeyId,
+                    wrappedKey: this.wrap(randomBytes(KEY_LENGTH)),
+                    createdAt: new Date()
+                }
+            },
+            { upsert: true, returnDocument: 'after' }
+        );
+        if (!sessionKey) {
+            throw new Error('Failed to create session data key.');
+        }
+
+        return this.cacheDataKey(sessionId, this.unwrap(sessionKey.masterKeyId, sessionKey.wrappedKey));
+    }
+
+    private async getDataKey(sessionId: string): Promise<Buffer> {
+        const cached = this.dataKeyCache.get(sessionId);
+        if (cached) {
+            return cached;
+        }
+
+        const sessionKey = await this.collections.sessionKeys.findOne({ sessionId });
+        if (!sessionKey) {
+            throw new Error('Session data key not found.');
+        }
+
+        return this.cacheDataKey(sessionId, this.unwrap(sessionKey.masterKeyId, sessionKey.wrappedKey));
+    }
+
+    private cacheDataKey(sessionId: string, dataKey: Buffer): Buffer {
+        if (this.dataKeyCache.size >= MAX_CACHED_DATA_KEYS) {
+            const oldest = this.dataKeyCache.keys().next().value;
+            if (oldest !== undefined) {
+                this.dataKeyCache.delete(oldest);
+            }
+        }
+        this.dataKeyCache.set(sessionId, dataKey);
+        return dataKey;
+    }
+
+    private wrap(dataKey: Buffer): EncryptedPayload {
+        return this.seal(this.keyring.keys.get(this.keyring.currentKeyId) as Buffer, dataKey);
+    }
+
+    private unwrap(masterKeyId: string, wrappedKey: EncryptedPayload): Buffer {
+        const masterKey = this.keyring.keys.get(masterKeyId);
+        if (!masterKey) {
+            throw new Error(`Master key "${masterKeyId}" is not configured.`);
+        }
+        return this.open(masterKey, wrappedKey);
+    }
+
+    private seal(key: Buffer, plaintext: Buffer): EncryptedPayload {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv(CIPHER, key, iv);
+        const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+        return {
+            ciphertext: ciphertext.toString('base64'),
+            iv: iv.toString('base64'),
+            authTag: cipher.getAuthTag().toString('base64')
+        };
+    }
+
+    private open(key: Buffer, payload: EncryptedPayload): Buffer {
+        const decipher = createDecipheriv(CIPHER, key, Buffer.from(payload.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(payload.authTag, 'base64'));
+        return Buffer.concat([decipher.update(Buffer.from(payload.ciphertext, 'base64')), decipher.final()]);
+    }
+}
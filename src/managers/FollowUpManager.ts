@@ -0,0 +1,119 @@
+import { Collections } from '../database/Collections';
+import { FollowUp, FollowUpResponse } from '../types/FollowUp';
+import { generateFollowUpId } from '../models/utils';
+
+export const MAX_FOLLOW_UP_DELAY_DAYS = 30;
+
+export class FollowUpManager {
+    private collections: Collections;
+
+    constructor(collections: Collections) {
+        this.collections = collections;
+    }
+
+    /**
+     * Schedule an anonymous check-in with the user of an ended session.
+     * Only the counselor who last handled the session may schedule one; rescheduling replaces the pending check-in.
+     */
+    async scheduleFollowUp(sessionId: string, counselorId: string, delayDays: number): Promise<FollowUp> {
+        if (!Number.isInteger(delayDays) || delayDays < 1 || delayDays > MAX_FOLLOW_UP_DELAY_DAYS) {
+            throw new Error(`Follow-up delay must be a whole number of days between 1 and ${MAX_FOLLOW_UP_DELAY_DAYS}.`);
+        }
+
+        const session = await this.collections.sessions.findOne({ sessionId });
+        if (!session) {
+            throw new Error('Session not found.');
+        }
+
+        if (session.isActive) {
+            throw new Error('Follow-ups can only be scheduled after the session ends.');
+        }
+
+        if ((session.currentCounselorId ?? session.counselorId) !== counselorId) {
+            throw new Error('Counselor is not assigned to this session.');
+        }
+
+        const now = new Date();
+        const scheduledFor = new Date(now.getTime() + delayDays * 24 * 60 * 60 * 1000);
+        const pending = await this.collections.followUps.findOneAndUpdate(
+            { sessionId, status: 'scheduled' },
+            { $set: { scheduledFor } },
+            { returnDocument: 'after' }
+        );
+        if (pending) {
+            return pending;
+        }
+
+        const followUp: FollowUp = {
+            followUpId: generateFollowUpId(),
+            sessionId,
+            userId: session.userId,
+            counselorId,
+            scheduledFor,
+            createdAt: now,
+            status: 'scheduled'
+        };
+
+        await this.collections.followUps.insertOne(followUp);
+        return followUp;
+    }
+
+    async getFollowUp(followUpId: string): Promise<FollowUp | null> {
+        return this.collections.followUps.findOne({ followUpId });
+    }
+
+    /**
+     * Cancel a check-in that has not been delivered yet
+     */
+    async cancelFollowUp(followUpId: string, counselorId: string): Promise<boolean> {
+        const result = await this.collections.followUps.updateOne(
+            { followUpId, counselorId, status: 'scheduled' },
+            { $set: { status: 'cancelled', respondedAt: new Date() } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Atomically take one due check-in for delivery.
+     * Returns null when nothing is due or another worker claimed it first.
+     */
+    async claimDueFollowUp(now = new Date()): Promise<FollowUp | null> {
+        return this.collections.followUps.findOneAndUpdate(
+            { status: 'scheduled', scheduledFor: { $lte: now } },
+            { $set: { status: 'delivered', deliveredAt: now } },
+            { sort: { scheduledFor: 1 }, returnDocument: 'after' }
+        );
+    }
+
+    /**
+     * Mark a claimed check-in as undeliverable (e.g. the user blocked the bot or was deleted)
+     */
+    async markFailed(followUpId: string): Promise<void> {
+        await this.collections.followUps.updateOne(
+            { followUpId, status: 'delivered' },
+            { $set: { status: 'failed' } }
+        );
+    }
+
+    /**
+     * Record the user's answer to a delivered check-in.
+     * Returns null if the check-in was already answered or belongs to someone else.
+     */
+    async recordResponse(
+        followUpId: string,
+        userId: string,
+        response: FollowUpResponse,
+        reconnectSessionId?: string
+    ): Promise<FollowUp | null> {
+        const update: Partial<FollowUp> = { status: response, respondedAt: new Date() };
+        if (reconnectSessionId) {
+            update.reconnectSessionId = reconnectSessionId;
+        }
+
+        return this.collections.followUps.findOneAndUpdate(
+            { followUpId, userId, status: 'delivered' },
+            { $set: update },
+            { returnDocument: 'after' }
+        );
+    }
+}
@@ -0,0 +1,131 @@
+import { Telegraf, Context } from 'telegraf';
+import { PendingActionManager } from './PendingActionManager';
+import { AdminManager } from './AdminManager';
+import { UserManager } from './UserManager';
+import { Collections } from '../database/Collections';
+import { DatabaseManager } from '../database';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('PendingActionManager', () => {
+    jest.setTimeout(120000);
+
+    const WINDOW_MINUTES = 30;
+
+    let dbManager: DatabaseManager;
+    let collections: Collections;
+    let mongoServer: MongoMemoryServer;
+    let originalMongoUri: string | undefined;
+    let sendMessage: jest.Mock;
+    let pendingActionManager: PendingActionManager;
+
+    beforeAll(async () => {
+        mongoServer = await MongoMemoryServer.create();
+        originalMongoUri = process.env.MONGODB_URI;
+        process.env.MONGODB_URI = mongoServer.getUri();
+        const connectionString = process.env.MONGODB_URI;
+        const databaseName = 'telegram_counseling_test';
+
+        dbManager = new DatabaseManager(connectionString, databaseName);
+        collections = await dbManager.initialize();
+    });
+
+    afterAll(async () => {
+        await dbManager.disconnect();
+        if (mongoServer) {
+            await mongoServer.stop();
+        }
+        if (originalMongoUri === undefined) {
+            delete process.env.MONGODB_URI;
+        } else {
+            process.env.MONGODB_URI = originalMongoUri;
+        }
+    });
+
+    beforeEach(async () => {
+        await collections.pendingActions.deleteMany({});
+
+        sendMessage = jest.fn().mockResolvedValue({});
+        const bot = { telegram: { sendMessage } } as unknown as Telegraf<Context>;
+        const adminManager = { getChatIdsWithPermission: jest.fn().mockResolvedValue([100, 200, 300]) } as unknown as AdminManager;
+        const userManager = { getLanguageByTelegramId: jest.fn().mockResolvedValue(null) } as unknown as UserManager;
+        pendingActionManager = new PendingActionManager(bot, collections, adminManager, userManager, WINDOW_MINUTES);
+    });
+
+    test('asks every other approver once and reuses an open request', async () => {
+        const { action, created } = await pendingActionManager.requestAction('remove_counselor', '100', 'C1');
+
+        expect(created).toBe(true);
+        expect(action.expiresAt.getTime() - action.requestedAt.getTime()).toBe(WINDOW_MINUTES * 60 * 1000);
+        expect(sendMessage.mock.calls.map(call => call[0])).toEqual([200, 300]);
+
+        const repeated = await pendingActionManager.requestAction('remove_counselor', '100', 'C1');
+        expect(repeated).toEqual({ action: expect.objectContaining({ actionId: action.actionId }), created: false });
+        expect(sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    test('keeps one open request for concurrent clicks and opens a new one after it lapses', async () => {
+        const results = await Promise.all([
+            pendingActionManager.requestAction('remove_counselor', '100', 'C1'),
+            pendingActionManager.requestAction('remove_counselor', '200', 'C1'),
+            pendingActionManager.requestAction('remove_counselor', '300', 'C1')
+        ]);
+
+        expect(results.filter(result => result.created)).toHaveLength(1);
+        expect(new Set(results.map(result => result.action.actionId)).size).toBe(1);
+        expect(await collections.pendingActions.countDocuments({ status: 'pending' })).toBe(1);
+
+        const lapsed = results[0]?.action.actionId;
+        await collections.pendingActions.updateOne({ actionId: lapsed }, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+        const renewed = await pendingActionManager.requestAction('remove_counselor', '100', 'C1');
+
+        expect(renewed.created).toBe(true);
+        expect(renewed.action.actionId).not.toBe(lapsed);
+        expect((await pendingActionManager.getAction(lapsed as string))?.status).toBe('expired');
+    });
+
+    test('does not let the requesting admin confirm their own action', async () => {
+        const { action } = await pendingActionManager.requestAction('remove_counselor', '100', 'C1');
+
+        const resolution = await pendingActionManager.confirmAction(action.actionId, '100');
+
+        expect(resolution.status).toBe('own_request');
+        expect((await pendingActionManager.getAction(action.actionId))?.status).toBe('pending');
+    });
+
+    test('expires an action that was not confirmed within the window', async () => {
+        const { action } = await pendingActionManager.requestAction('run_cleanup', '100');
+        await collections.pendingActions.updateOne({ actionId: action.actionId }, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+
+        expect((await pendingActionManager.confirmAction(action.actionId, '200')).status).toBe('expired');
+        expect((await pendingActionManager.getAction(action.actionId))?.status).toBe('expired');
+        expect((await pendingActionManager.confirmAction(action.actionId, '300')).status).toBe('already_resolved');
+        expect(await pendingActionManager.getOpenActions()).toEqual([]);
+    });
+
+    test('lets exactly one of several concurrent confirmations win', async () => {
+        const { action } = await pendingActionManager.requestAction('revoke_appeal', '100', 'A1');
+
+        const resolutions = await Promise.all([
+            pendingActionManager.confirmAction(action.actionId, '200'),
+            pendingActionManager.confirmAction(action.actionId, '300'),
+            pendingActionManager.rejectAction(action.actionId, '300')
+        ]);
+
+        expect(resolutions.filter(resolution => resolution.status === 'resolved')).toHaveLength(1);
+        expect(resolutions.filter(resolution => resolution.status === 'already_resolved')).toHaveLength(2);
+        const stored = await pendingActionManager.getAction(action.actionId);
+        const winner = resolutions.find(resolution => resolution.status === 'resolved');
+        expect(stored?.status).toBe(winner?.action?.status);
+        expect(stored?.resolvedByAdminId).toBe(winner?.action?.resolvedByAdminId);
+    });
+
+    test('lets the requester withdraw their own action and reports unknown actions', async () => {
+        const { action } = await pendingActionManager.requestAction('revoke_suspension', '100', 'C1');
+
+        const withdrawn = await pendingActionManager.rejectAction(action.actionId, '100');
+
+        expect(withdrawn.status).toBe('resolved');
+        expect(withdrawn.action?.status).toBe('rejected');
+        expect((await pendingActionManager.confirmAction('PA-missing', '200')).status).toBe('not_found');
+    });
+});
@@ -0,0 +1,201 @@
+import { Telegraf, Context, Markup } from 'telegraf';
+import { Filter, MongoServerError } from 'mongodb';
+import { Collections } from '../database/Collections';
+import { AdminPermission } from '../types/Admin';
+import { PendingAction, PendingActionType } from '../types/PendingAction';
+import { AdminManager } from './AdminManager';
+import { UserManager } from './UserManager';
+import { generatePendingActionId } from '../models/utils';
+import { DEFAULT_LOCALE, MessageKey, translate } from '../i18n';
+import { logger } from '../utils/logger';
+
+export const PENDING_ACTION_CONFIRM_PREFIX = 'pa_ok';
+export const PENDING_ACTION_REJECT_PREFIX = 'pa_no';
+
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+// The permission needed both to request and to confirm each kind of action
+export const PENDING_ACTION_PERMISSIONS: Record<PendingActionType, AdminPermission> = {
+    remove_counselor: 'remove_counselors',
+    revoke_appeal: 'decide_appeals',
+    revoke_suspension: 'decide_appeals',
+    run_cleanup: 'manage_system'
+};
+
+export const PENDING_ACTION_LABELS: Record<PendingActionType, MessageKey> = {
+    remove_counselor: 'admin.approval_action_remove_counselor',
+    revoke_appeal: 'admin.approval_action_revoke_appeal',
+    revoke_suspension: 'admin.approval_action_revoke_suspension',
+    run_cleanup: 'admin.approval_action_run_cleanup'
+};
+
+export type PendingActionResolutionStatus = 'resolved' | 'not_found' | 'already_resolved' | 'expired' | 'own_request';
+
+export interface PendingActionResolution {
+    status: PendingActionResolutionStatus;
+    action?: PendingAction;
+}
+
+/**
+ * Four-eyes approval for destructive admin actions: one admin requests, a different admin with the same
+ * permission confirms within the window, and only then does the action run.
+ */
+export class PendingActionManager {
+    private bot: Telegraf<Context>;
+    private collections: Collections;
+    private adminManager: AdminManager;
+    private userManager: UserManager;
+    private windowMinutes: number;
+
+    constructor(
+        bot: Telegraf<Context>,
+        collections: Collections,
+        adminManager: AdminManager,
+        userManager: UserManager,
+        windowMinutes: number
+    ) {
+        this.bot = bot;
+        this.collections = collections;
+        this.adminManager = adminManager;
+        this.userManager = userManager;
+        this.windowMinutes = windowMinutes;
+    }
+
+    isEnabled(): boolean {
+        return this.windowMinutes > 0;
+    }
+
+    getWindowMinutes(): number {
+        return this.windowMinutes;
+    }
+
+    async getAction(actionId: string): Promise<PendingAction | null> {
+        return this.collections.pendingActions.findOne({ actionId });
+    }
+
+    /**
+     * Open actions still inside their window, oldest first
+     */
+    async getOpenActions(): Promise<PendingAction[]> {
+        return this.collections.pendingActions
+            .find({ status: 'pending', expiresAt: { $gt: new Date() } })
+            .sort({ requestedAt: 1 })
+            .toArray();
+    }
+
+    /**
+     * Hold an action for a second admin and ask the other admins who may confirm it.
+     * An open request for the same action is returned as is, so repeated clicks do not pile up; the unique
+     * index on pending requests settles clicks that arrive together.
+     */
+    async requestAction(type: PendingActionType, adminId: string, targetId?: string): Promise<{ action: PendingAction; created: boolean }> {
+        const now = new Date();
+        const sameAction: Filter<PendingAction> = { type, targetId: targetId ?? { $exists: false }, status: 'pending' };
+        // A lapsed request still holds the index slot until it is marked expired
+        await this.collections.pendingActions.updateMany(
+            { ...sameAction, expiresAt: { $lte: now } },
+            { $set: { status: 'expired' } }
+        );
+        const existing = await this.collections.pendingActions.findOne(sameAction);
+        if (existing) {
+            return { action: existing, created: false };
+        }
+
+        const action: PendingAction = {
+            actionId: generatePendingActionId(),
+            type,
+            ...(targetId !== undefined ? { targetId } : {}),
+            requestedByAdminId: adminId,
+            requestedAt: now,
+            expiresAt: new Date(now.getTime() + this.windowMinutes * 60 * 1000),
+            status: 'pending'
+        };
+        try {
+            await this.collections.pendingActions.insertOne(action);
+        } catch (error) {
+            const concurrent = error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR_CODE
+                ? await this.collections.pendingActions.findOne(sameAction)
+                : null;
+            if (!concurrent) {
+                throw error;
+            }
+            return { action: concurrent, created: false };
+        }
+        await this.notifyApprovers(action);
+        return { action, created: true };
+    }
+
+    /**
+     * Confirm an open action as a second admin. The status changes atomically, so only one confirmation
+     * can win; the caller runs the action when the result is 'resolved'.
+     */
+    async confirmAction(actionId: string, adminId: string): Promise<PendingActionResolution> {
+        const now = new Date();
+        const confirmed = await this.collections.pendingActions.findOneAndUpdate(
+            { actionId, status: 'pending', expiresAt: { $gt: now }, requestedByAdminId: { $ne: adminId } },
+            { $set: { status: 'confirmed', resolvedByAdminId: adminId, resolvedAt: now } },
+            { returnDocument: 'after' }
+        );
+        if (confirmed) {
+            return { status: 'resolved', action: confirmed };
+        }
+        return this.explainUnresolved(actionId, adminId, now);
+    }
+
+    /**
+     * Reject an open action. The requester may also withdraw their own request this way.
+     */
+    async rejectAction(actionId: string, adminId: string): Promise<PendingActionResolution> {
+        const now = new Date();
+        const rejected = await this.collections.pendingActions.findOneAndUpdate(
+            { actionId, status: 'pending', expiresAt: { $gt: now } },
+            { $set: { status: 'rejected', resolvedByAdminId: adminId, resolvedAt: now } },
+            { returnDocument: 'after' }
+        );
+        if (rejected) {
+            return { status: 'resolved', action: rejected };
+        }
+        return this.explainUnresolved(actionId, adminId, now);
+    }
+
+    private async explainUnresolved(actionId: string, adminId: string, now: Date): Promise<PendingActionResolution> {
+        const action = await this.collections.pendingActions.findOne({ actionId });
+        if (!action) {
+            return { status: 'not_found' };
+        }
+        if (action.status !== 'pending') {
+            return { status: 'already_resolved', action };
+        }
+        if (action.expiresAt <= now) {
+            await this.collections.pendingActions.updateOne({ actionId, status: 'pending' }, { $set: { status: 'expired' } });
+            return { status: 'expired', action: { ...action, status: 'expired' } };
+        }
+        if (action.requestedByAdminId === adminId) {
+            return { status: 'own_request', action };
+        }
+        return { status: 'already_resolved', action };
+    }
+
+    private async notifyApprovers(action: PendingAction): Promise<void> {
+        const approvers = await this.adminManager.getChatIdsWithPermission(PENDING_ACTION_PERMISSIONS[action.type]);
+        for (const chatId of approvers) {
+            if (chatId.toString() === action.requestedByAdminId) continue;
+
+            try {
+                const locale = (await this.userManager.getLanguageByTelegramId(chatId)) ?? DEFAULT_LOCALE;
+                const text = translate(locale, 'admin.approval_request_notice', {
+                    adminId: action.requestedByAdminId,
+                    action: translate(locale, PENDING_ACTION_LABELS[action.type], { targetId: action.targetId ?? '' }),
+                    minutes: this.windowMinutes
+                });
+                await this.bot.telegram.sendMessage(chatId, text, Markup.inlineKeyboard([
+                    Markup.button.callback(translate(locale, 'admin.approval_confirm_button'), `${PENDING_ACTION_CONFIRM_PREFIX}:${action.actionId}`),
+                    Markup.button.callback(translate(locale, 'admin.approval_reject_button'), `${PENDING_ACTION_REJECT_PREFIX}:${action.actionId}`)
+                ]));
+            } catch (error) {
+                const err = error as Error;
+                logger.warn('Failed to ask admin to confirm pending action', { chatId, actionId: action.actionId, message: err.message });
+            }
+        }
+    }
+}
@@ -0,0 +1,121 @@
+import { Collections } from '../database/Collections';
+import { PrayerCategory, PrayerRequest } from '../types/PrayerRequest';
+
+// What admins and the channel see of a prayer request: never who submitted it
+export interface PrayerWallItem {
+    prayerId: string;
+    category: PrayerCategory;
+    text: string;
+    requestedAt: Date;
+    status: 'open' | 'closed';
+    answered: boolean;
+    channelMessageId?: number;
+}
+
+/**
+ * Moderation state for the public prayer wall channel.
+ * Submitters opt in, an admin approves (optionally rewording), rejects, and the module posts approved requests.
+ */
+export class PrayerWallManager {
+    private collections: Collections;
+
+    constructor(collections: Collections) {
+        this.collections = collections;
+    }
+
+    /**
+     * Queue one of the submitter's open requests for admin review
+     */
+    async requestPublication(prayerId: string, userId: string): Promise<PrayerWallItem | null> {
+        const prayer = await this.collections.prayers.findOneAndUpdate(
+            { prayerId, userId, status: 'open', wall: { $exists: false } },
+            { $set: { wall: { status: 'pending', requestedAt: new Date() } } },
+            { returnDocument: 'after' }
+        );
+        return prayer ? this.toItem(prayer) : null;
+    }
+
+    async getPendingItems(): Promise<PrayerWallItem[]> {
+        const prayers = await this.collections.prayers
+            .find({ status: 'open', 'wall.status': 'pending' })
+            .sort({ 'wall.requestedAt': 1 })
+            .toArray();
+        return prayers.map(prayer => this.toItem(prayer));
+    }
+
+    async getItem(prayerId: string): Promise<PrayerWallItem | null> {
+        const prayer = await this.collections.prayers.findOne({ prayerId, wall: { $exists: true } });
+        return prayer ? this.toItem(prayer) : null;
+    }
+
+    /**
+     * Replace the wording that will be posted, before approval
+     */
+    async editPendingText(prayerId: string, text: string): Promise<PrayerWallItem | null> {
+        const prayer = await this.collections.prayers.findOneAndUpdate(
+            { prayerId, status: 'open', 'wall.status': 'pending' },
+            { $set: { 'wall.text': text.trim() } },
+            { returnDocument: 'after' }
+        );
+        return prayer ? this.toItem(prayer) : null;
+    }
+
+    /**
+     * Claim a pending request for publishing. Only one admin can win the claim, so a request is posted once.
+     */
+    async approve(prayerId: string, adminId: string): Promise<PrayerWallItem | null> {
+        const prayer = await this.collections.prayers.findOneAndUpdate(
+            { prayerId, status: 'open', 'wall.status': 'pending' },
+            { $set: { 'wall.status': 'published', 'wall.reviewedBy': adminId, 'wall.reviewedAt': new Date() } },
+            { returnDocument: 'after' }
+        );
+        return prayer ? this.toItem(prayer) : null;
+    }
+
+    async recordChannelPost(prayerId: string, channelMessageId: number): Promise<void> {
+        await this.collections.prayers.updateOne(
+            { prayerId },
+            { $set: { 'wall.channelMessageId': channelMessageId, 'wall.publishedAt': new Date() } }
+        );
+    }
+
+    /**
+     * Put an approved request back in the queue when posting to the channel failed
+     */
+    async revertApproval(prayerId: string): Promise<void> {
+        await this.collections.prayers.updateOne(
+            { prayerId, 'wall.status': 'published', 'wall.channelMessageId': { $exists: false } },
+            { $set: { 'wall.status': 'pending' }, $unset: { 'wall.reviewedBy': '', 'wall.reviewedAt': '' } }
+        );
+    }
+
+    async reject(prayerId: string, adminId: string): Promise<boolean> {
+        const result = await this.collections.prayers.updateOne(
+            { prayerId, 'wall.status': 'pending' },
+            { $set: { 'wall.status': 'rejected', 'wall.reviewedBy': adminId, 'wall.reviewedAt': new Date() } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Channel posts still showing the user's requests, so erasure can take them down before the records go
+     */
+    async getChannelMessageIds(userId: string): Promise<number[]> {
+        const prayers = await this.collections.prayers
+            .find({ userId, 'wall.channelMessageId': { $exists: true } }, { projection: { wall: 1 } })
+            .toArray();
+        return prayers.flatMap(prayer => prayer.wall?.channelMessageId !== undefined ? [prayer.wall.channelMessageId] : []);
+    }
+
+    private toItem(prayer: PrayerRequest): PrayerWallItem {
+        return {
+            prayerId: prayer.prayerId,
+            category: prayer.category ?? 'other',
+            text: prayer.wall?.text ?? prayer.title,
+            requestedAt: prayer.wall?.requestedAt ?? prayer.createdAt,
+            status: prayer.status,
+            answered: Boolean(prayer.answeredAt),
+            ...(prayer.wall?.channelMessageId !== undefined ? { channelMessageId: prayer.wall.channelMessageId } : {})
+        };
+    }
+}
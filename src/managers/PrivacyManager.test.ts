@@ -0,0 +1,170 @@
+import { PrivacyManager, ERASED_USER_ID } from './PrivacyManager';
+import { Collections } from '../database/Collections';
+import { DatabaseManager } from '../database';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+
+describe('PrivacyManager', () => {
+    jest.setTimeout(120000);
+
+    let dbManager: DatabaseManager;
+    let collections: Collections;
+    let mongoServer: MongoMemoryServer;
+    let originalMongoUri: string | undefined;
+    let privacyManager: PrivacyManager;
+
+    // One ended session with a report, plus a record in every collection that holds user data
+    const seedUser = async (uuid: string, telegramChatId: number): Promise<void> => {
+        const now = new Date();
+        const sessionId = `S-${uuid}`;
+        await collections.users.insertOne({ uuid, telegramChatId, createdAt: now, lastActive: now, state: 'IDLE' });
+        await collections.sessions.insertOne({
+            sessionId,
+            userId: uuid,
+            counselorId: 'C1',
+            startTime: now,
+            endTime: now,
+            isActive: false,
+            userPreferredLanguage: ['English'],
+            userRequestedDomain: 'Family'
+        });
+        await collections.messages.insertOne({
+            messageId: `M-${uuid}`,
+            sessionId,
+            senderId: uuid,
+            senderType: 'user',
+            content: 'hello',
+            timestamp: now
+        });
+        await collections.sessionKeys.insertOne({
+            sessionId,
+            masterKeyId: 'k1',
+            wrappedKey: { ciphertext: 'c', iv: 'i', authTag: 't' },
+            createdAt: now
+        });
+        await collections.relayRoutes.insertOne({ messageId: `R-${uuid}`, sessionId, recipientTelegramMessageId: 1, createdAt: now });
+        await collections.reports.insertOne({
+            reportId: `REP-${uuid}`,
+            sessionId,
+            counselorId: 'C1',
+            reason: 'rude',
+            timestamp: now,
+            processed: false
+        });
+        await collections.prayers.insertOne({ prayerId: `P-${uuid}`, userId: uuid, title: 'Pray for me', createdAt: now, status: 'open' });
+        await collections.followUps.insertOne({
+            followUpId: `F-${uuid}`,
+            sessionId,
+            userId: uuid,
+            counselorId: 'C1',
+            scheduledFor: now,
+            createdAt: now,
+            status: 'scheduled'
+        });
+        await collections.waitingQueue.insertOne({
+            queueId: `Q-${uuid}`,
+            userId: uuid,
+            preferredLanguages: [],
+            requestedDomain: 'Family',
+            enqueuedAt: now,
+            status: 'abandoned'
+        });
+        await collections.broadcastDeliveries.insertOne({ broadcastId: 'B1', chatId: telegramChatId, status: 'sent', attempts: 1 });
+        await collections.conversationStates.insertOne({
+            namespace: 'matching',
+            key: String(telegramChatId),
+            value: {},
+            updatedAt: now,
+            expiresAt: new Date(now.getTime() + 60 * 60 * 1000)
+        });
+    };
+
+    // Everything a user can be found by, across the collections eraseUserData clears
+    const countUserData = async (uuid: string, telegramChatId: number): Promise<number[]> => {
+        const sessionId = `S-${uuid}`;
+        return Promise.all([
+            collections.users.countDocuments({ uuid }),
+            collections.messages.countDocuments({ sessionId }),
+            collections.prayers.countDocuments({ userId: uuid }),
+            collections.followUps.countDocuments({ userId: uuid }),
+            collections.sessionKeys.countDocuments({ sessionId }),
+            collections.relayRoutes.countDocuments({ sessionId }),
+            collections.waitingQueue.countDocuments({ userId: uuid }),
+            collections.broadcastDeliveries.countDocuments({ chatId: telegramChatId }),
+            collections.conversationStates.countDocuments({ key: String(telegramChatId) })
+        ]);
+    };
+
+    beforeAll(async () => {
+        mongoServer = await MongoMemoryServer.create();
+        originalMongoUri = process.env.MONGODB_URI;
+        process.env.MONGODB_URI = mongoServer.getUri();
+        const connectionString = process.env.MONGODB_URI;
+        const databaseName = 'telegram_counseling_test';
+
+        dbManager = new DatabaseManager(connectionString, databaseName);
+        collections = await dbManager.initialize();
+    });
+
+    afterAll(async () => {
+        await dbManager.disconnect();
+        if (mongoServer) {
+            await mongoServer.stop();
+        }
+        if (originalMongoUri === undefined) {
+            delete process.env.MONGODB_URI;
+        } else {
+            process.env.MONGODB_URI = originalMongoUri;
+        }
+    });
+
+    beforeEach(async () => {
+        await Promise.all([
+            collections.users.deleteMany({}),
+            collections.sessions.deleteMany({}),
+            collections.messages.deleteMany({}),
+            collections.sessionKeys.deleteMany({}),
+            collections.relayRoutes.deleteMany({}),
+            collections.reports.deleteMany({}),
+            collections.prayers.deleteMany({}),
+            collections.followUps.deleteMany({}),
+            collections.waitingQueue.deleteMany({}),
+            collections.broadcastDeliveries.deleteMany({}),
+            collections.conversationStates.deleteMany({})
+        ]);
+        privacyManager = new PrivacyManager(collections);
+    });
+
+    test('erases the user from every collection and keeps reports on anonymized sessions', async () => {
+        await seedUser('U1', 101);
+        await seedUser('U2', 102);
+
+        const result = await privacyManager.eraseUserData('U1');
+
+        expect(result).toEqual({
+            sessionsAnonymized: 1,
+            messagesDeleted: 1,
+            prayersDeleted: 1,
+            followUpsDeleted: 1,
+            reportsKept: 1
+        });
+        expect(await countUserData('U1', 101)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0]);
+        expect(await countUserData('U2', 102)).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 1]);
+
+        const session = await collections.sessions.findOne({ sessionId: 'S-U1' });
+        expect(session?.userId).toBe(ERASED_USER_ID);
+        expect(session?.userErasedAt).toBeInstanceOf(Date);
+        expect(session?.userPreferredLanguage).toBeUndefined();
+        expect(session?.userRequestedDomain).toBeUndefined();
+        expect(await collections.reports.countDocuments({ sessionId: 'S-U1' })).toBe(1);
+    });
+
+    test('refuses to erase a user with an active session and changes nothing', async () => {
+        await seedUser('U1', 101);
+        await collections.sessions.updateOne({ sessionId: 'S-U1' }, { $set: { isActive: true } });
+
+        await expect(privacyManager.assertErasable('U1')).rejects.toThrow('End your active session before deleting your data.');
+        await expect(privacyManager.eraseUserData('U1')).rejects.toThrow('End your active session before deleting your data.');
+        expect(await countUserData('U1', 101)).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 1]);
+        await expect(privacyManager.assertErasable('missing')).rejects.toThrow('User not found.');
+    });
+});
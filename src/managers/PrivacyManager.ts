@@ -0,0 +1,231 @@
+import { Collections } from '../database/Collections';
+import { Message } from '../types/Message';
+import type { EncryptionManager } from './EncryptionManager';
+
+// Placeholder left in sessions whose user erased their data, so reports and statistics still resolve
+export const ERASED_USER_ID = 'erased-user';
+
+export interface UserDataExport {
+    exportedAt: Date;
+    user: {
+        userId: string;
+        createdAt: Date;
+        lastActive: Date;
+        language?: string;
+        preferredLanguages?: string[];
+        requestedDomain?: string;
+    };
+    sessions: Array<{
+        sessionId: string;
+        counselors: string[]; // public aliases
+        startTime: Date;
+        endTime?: Date;
+        durationMinutes?: number;
+        topic?: string;
+        logMode: string;
+        rating?: number;
+        messages: Array<{
+            from: Message['senderType'];
+            timestamp: Date;
+            contentType: Message['contentType'];
+            content: string;
+        }>;
+    }>;
+    reports: Array<{ reportId: string; sessionId: string; reason: string; submittedAt: Date; processed: boolean }>;
+    prayerRequests: Array<{
+        prayerId: string;
+        title: string;
+        category?: string;
+        createdAt: Date;
+        status: string;
+        closedAt?: Date;
+        updates: Array<{ text: string; createdAt: Date }>;
+        answeredAt?: Date;
+        testimony?: { text: string; shareConsent: boolean; sharedAt?: Date };
+        prayerWall?: { status: string; text: string; publishedAt?: Date };
+    }>;
+    followUps: Array<{ followUpId: string; sessionId: string; scheduledFor: Date; status: string; respondedAt?: Date }>;
+}
+
+export interface ErasureResult {
+    sessionsAnonymized: number;
+    messagesDeleted: number;
+    prayersDeleted: number;
+    followUpsDeleted: number;
+    reportsKept: number;
+}
+
+export class PrivacyManager {
+    private collections: Collections;
+    private encryptionManager: EncryptionManager | null;
+
+    constructor(collections: Collections, encryptionManager: EncryptionManager | null = null) {
+        this.collections = collections;
+        this.encryptionManager = encryptionManager;
+    }
+
+    /**
+     * Collect everything stored about a user. Counselors appear only by the public alias the user already saw.
+     */
+    async exportUserData(userId: string): Promise<UserDataExport> {
+        const user = await this.collections.users.findOne({ uuid: userId });
+        if (!user) {
+            throw new Error('User not found.');
+        }
+
+        const sessions = await this.collections.sessions.find({ userId }).sort({ startTime: 1 }).toArray();
+        const sessionIds = sessions.map(session => session.sessionId);
+        const [storedMessages, reports, prayers, followUps] = await Promise.all([
+            this.collections.messages.find({ sessionId: { $in: sessionIds } }).sort({ timestamp: 1 }).toArray(),
+            this.collections.reports.find({ sessionId: { $in: sessionIds } }).sort({ timestamp: 1 }).toArray(),
+            this.collections.prayers.find({ userId }).sort({ createdAt: 1 }).toArray(),
+            this.collections.followUps.find({ userId }).sort({ createdAt: 1 }).toArray()
+        ]);
+        const messages = this.encryptionManager
+            ? await this.encryptionManager.decryptMessages(storedMessages)
+            : storedMessages;
+
+        const counselorIdsBySession = new Map(sessions.map(session => [
+            session.sessionId,
+            Array.from(new Set([session.counselorId, ...(session.transferHistory ?? []).map(transfer => transfer.toCounselorId)]))
+        ]));
+        const counselors = await this.collections.counselors
+            .find({ id: { $in: Array.from(new Set(Array.from(counselorIdsBySession.values()).flat())) } })
+            .toArray();
+        const aliases = new Map(counselors.map(counselor => [counselor.id, counselor.alias ?? '']));
+
+        return {
+            exportedAt: new Date(),
+            user: {
+                userId: user.uuid,
+                createdAt: user.createdAt,
+                lastActive: user.lastActive,
+                ...(user.language ? { language: user.language } : {}),
+                ...(user.user_preferred_language ? { preferredLanguages: user.user_preferred_language } : {}),
+                ...(user.user_requested_domain ? { requestedDomain: user.user_requested_domain } : {})
+            },
+            sessions: sessions.map(session => ({
+                sessionId: session.sessionId,
+                counselors: (counselorIdsBySession.get(session.sessionId) ?? [])
+                    .map(counselorId => aliases.get(counselorId))
+                    .filter((alias): alias is string => Boolean(alias)),
+                startTime: session.startTime,
+                ...(session.endTime ? { endTime: session.endTime } : {}),
+                ...(session.duration !== undefined ? { durationMinutes: session.duration } : {}),
+                ...(session.userRequestedDomain ? { topic: session.userRequestedDomain } : {}),
+                logMode: session.logMode ?? 'standard',
+                ...(session.ratingScore !== undefined ? { rating: session.ratingScore } : {}),
+                messages: messages
+                    .filter(message => message.sessionId === session.sessionId)
+                    .map(message => ({
+                        from: message.senderType,
+                        timestamp: message.timestamp,
+                        contentType: message.contentType,
+                        content: message.content
+                    }))
+            })),
+            reports: reports.map(report => ({
+                reportId: report.reportId,
+                sessionId: report.sessionId,
+                reason: report.reason,
+                submittedAt: report.timestamp,
+                processed: report.processed
+            })),
+            prayerRequests: prayers.map(prayer => ({
+                prayerId: prayer.prayerId,
+                title: prayer.title,
+                ...(prayer.category ? { category: prayer.category } : {}),
+                createdAt: prayer.createdAt,
+                status: prayer.status,
+                ...(prayer.closedAt ? { closedAt: prayer.closedAt } : {}),
+                updates: (prayer.updates ?? []).map(update => ({ text: update.text, createdAt: update.createdAt })),
+                ...(prayer.answeredAt ? { answeredAt: prayer.answeredAt } : {}),
+                ...(prayer.testimony
+                    ? {
+                        testimony: {
+                            text: prayer.testimony.text,
+                            shareConsent: prayer.testimony.shareConsent,
+                            ...(prayer.testimony.sharedAt ? { sharedAt: prayer.testimony.sharedAt } : {})
+                        }
+                    }
+                    : {}),
+                ...(prayer.wall
+                    ? {
+                        prayerWall: {
+                            status: prayer.wall.status,
+                            text: prayer.wall.text ?? prayer.title,
+                            ...(prayer.wall.publishedAt ? { publishedAt: prayer.wall.publishedAt } : {})
+                        }
+                    }
+                    : {})
+            })),
+            followUps: followUps.map(followUp => ({
+                followUpId: followUp.followUpId,
+                sessionId: followUp.sessionId,
+                scheduledFor: followUp.scheduledFor,
+                status: followUp.status,
+                ...(followUp.respondedAt ? { respondedAt: followUp.respondedAt } : {})
+            }))
+        };
+    }
+
+    /**
+     * Throw the error eraseUserData would, without changing anything.
+     * Callers with side effects of their own (such as removing prayer wall posts) check this first.
+     */
+    async assertErasable(userId: string): Promise<void> {
+        const user = await this.collections.users.findOne({ uuid: userId });
+        if (!user) {
+            throw new Error('User not found.');
+        }
+
+        if (await this.collections.sessions.findOne({ userId, isActive: true })) {
+            throw new Error('End your active session before deleting your data.');
+        }
+    }
+
+    /**
+     * Erase a user's data. Messages, prayer requests, follow-ups and the user record are deleted;
+     * sessions are kept without any link to the user so reports, counselor strikes and statistics stay intact.
+     */
+    async eraseUserData(userId: string): Promise<ErasureResult> {
+        await this.assertErasable(userId);
+        const user = await this.collections.users.findOne({ uuid: userId });
+        if (!user) {
+            throw new Error('User not found.');
+        }
+
+        const sessions = await this.collections.sessions.find({ userId }).toArray();
+        const sessionIds = sessions.map(session => session.sessionId);
+
+        const [messageResult, prayerResult, followUpResult, reportsKept] = await Promise.all([
+            this.collections.messages.deleteMany({ sessionId: { $in: sessionIds } }),
+            this.collections.prayers.deleteMany({ userId }),
+            this.collections.followUps.deleteMany({ userId }),
+            this.collections.reports.countDocuments({ sessionId: { $in: sessionIds } }),
+            this.collections.sessionKeys.deleteMany({ sessionId: { $in: sessionIds } }),
+            this.collections.relayRoutes.deleteMany({ sessionId: { $in: sessionIds } }),
+            this.collections.waitingQueue.deleteMany({ userId }),
+            this.collections.broadcastDeliveries.deleteMany({ chatId: user.telegramChatId }),
+            this.collections.conversationStates.deleteMany({ key: { $in: [userId, String(user.telegramChatId)] } })
+        ]);
+
+        const sessionResult = await this.collections.sessions.updateMany(
+            { userId },
+            {
+                $set: { userId: ERASED_USER_ID, userErasedAt: new Date() },
+                $unset: { userPreferredLanguage: '', userRequestedDomain: '' }
+            }
+        );
+
+        await this.collections.users.deleteOne({ uuid: userId });
+
+        return {
+            sessionsAnonymized: sessionResult.modifiedCount,
+            messagesDeleted: messageResult.deletedCount,
+            prayersDeleted: prayerResult.deletedCount,
+            followUpsDeleted: followUpResult.deletedCount,
+            reportsKept
+        };
+    }
+}
@@ -0,0 +1,153 @@
+import { Collections } from '../database/Collections';
+import { QueueEntry } from '../types/QueueEntry';
+import { SessionLogMode } from '../types/Session';
+import { generateQueueEntryId } from '../models/utils';
+
+export class QueueManager {
+    private collections: Collections;
+
+    constructor(collections: Collections) {
+        this.collections = collections;
+    }
+
+    /**
+     * Add a user to the waiting queue, or return their existing place in line
+     */
+    async enqueue(
+        userId: string,
+        preferredLanguages: string[],
+        requestedDomain: string,
+        logMode: SessionLogMode = 'standard'
+    ): Promise<QueueEntry> {
+        if (preferredLanguages.length === 0 || !requestedDomain.trim()) {
+            throw new Error('Matching preferences are required to join the queue.');
+        }
+
+        const existing = await this.getWaitingEntry(userId);
+        if (existing) {
+            return existing;
+        }
+
+        const entry: QueueEntry = {
+            queueId: generateQueueEntryId(),
+            userId,
+            preferredLanguages,
+            requestedDomain: requestedDomain.trim(),
+            enqueuedAt: new Date(),
+            status: 'waiting',
+            logMode
+        };
+
+        await this.collections.waitingQueue.insertOne(entry);
+        return entry;
+    }
+
+    /**
+     * Retrieve the user's current waiting entry, if any
+     */
+    async getWaitingEntry(userId: string): Promise<QueueEntry | null> {
+        return this.collections.waitingQueue.findOne({ userId, status: 'waiting' });
+    }
+
+    /**
+     * Get all waiting entries in the order they will be served
+     */
+    async getWaitingEntries(): Promise<QueueEntry[]> {
+        return this.collections.waitingQueue
+            .find({ status: 'waiting' })
+            .sort({ enqueuedAt: 1 })
+            .toArray();
+    }
+
+    /**
+     * Get the 1-based position of a waiting entry
+     */
+    async getPosition(entry: QueueEntry): Promise<number> {
+        const ahead = await this.collections.waitingQueue.countDocuments({
+            status: 'waiting',
+            enqueuedAt: { $lt: entry.enqueuedAt }
+        });
+        return ahead + 1;
+    }
+
+    async getQueueLength(): Promise<number> {
+        return this.collections.waitingQueue.countDocuments({ status: 'waiting' });
+    }
+
+    /**
+     * Atomically take a waiting entry out of the queue for assignment.
+     * Returns null if another worker already claimed it or the user left.
+     */
+    async claimEntry(queueId: string, counselorId: string): Promise<QueueEntry | null> {
+        return this.collections.waitingQueue.findOneAndUpdate(
+            { queueId, status: 'waiting' },
+            { $set: { status: 'assigned', assignedCounselorId: counselorId, resolvedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+    }
+
+    /**
+     * Put a claimed entry back in line (keeping its original enqueue time) when assignment failed
+     */
+    async releaseEntry(queueId: string): Promise<void> {
+        await this.collections.waitingQueue.updateOne(
+            { queueId, status: 'assigned' },
+            {
+                $set: { status: 'waiting' },
+                $unset: { assignedCounselorId: '', resolvedAt: '' }
+            }
+        );
+    }
+
+    /**
+     * Drop a claimed entry that can no longer be assigned (e.g. the user already started a session)
+     */
+    async abandonEntry(queueId: string): Promise<void> {
+        await this.collections.waitingQueue.updateOne(
+            { queueId },
+            { $set: { status: 'abandoned', resolvedAt: new Date() } }
+        );
+    }
+
+    async recordAssignment(queueId: string, sessionId: string): Promise<void> {
+        await this.collections.waitingQueue.updateOne({ queueId }, { $set: { sessionId } });
+    }
+
+    async recordNotifiedPosition(queueId: string, position: number): Promise<void> {
+        await this.collections.waitingQueue.updateOne({ queueId }, { $set: { lastNotifiedPosition: position } });
+    }
+
+    /**
+     * Remove a user from the queue at their own request
+     */
+    async leaveQueue(userId: string): Promise<boolean> {
+        const result = await this.collections.waitingQueue.updateOne(
+            { userId, status: 'waiting' },
+            { $set: { status: 'abandoned', resolvedAt: new Date() } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Expire entries that have waited longer than the allowed time
+     */
+    async expireStaleEntries(maxWaitMinutes: number): Promise<QueueEntry[]> {
+        const cutoff = new Date(Date.now() - maxWaitMinutes * 60 * 1000);
+        const stale = await this.collections.waitingQueue
+            .find({ status: 'waiting', enqueuedAt: { $lt: cutoff } })
+            .toArray();
+
+        const expired: QueueEntry[] = [];
+        for (const entry of stale) {
+            const result = await this.collections.waitingQueue.updateOne(
+                { queueId: entry.queueId, status: 'waiting' },
+                { $set: { status: 'expired', resolvedAt: new Date() } }
+            );
+            if (result.modifiedCount > 0) {
+                expired.push(entry);
+            }
+        }
+
+        return expired;
+    }
+}
@@ -1,34 +1,73 @@
 import { Collections } from '../database/Collections';
-import { Session } from '../types/Session';
-import { Message } from '../types/Message';
+import { Session, SessionLogMode } from '../types/Session';
+import { Counselor } from '../types/Counselor';
+import { Message, MessageMedia } from '../types/Message';
+import type { EncryptionManager } from './EncryptionManager';
 import { generateMessageId, generateSessionId, calculateSessionDuration } from '../models/utils';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
 
 export type SenderType = 'user' | 'counselor';
 
+export type CounselorFreedListener = (counselorId: string) => Promise<void> | void;
+
+export interface PreviousCounselor {
+    counselorId: string;
+    lastSessionAt: Date;
+    domain?: string;
+}
+
+/**
+ * Filter matching the sessions a counselor is currently responsible for.
+ * Transferred sessions belong to `currentCounselorId`, not the original `counselorId`.
+ */
+export function buildActiveCounselorSessionFilter(counselorId: string): Record<string, unknown> {
+    return {
+        isActive: true,
+        $or: [
+            { currentCounselorId: counselorId },
+            { currentCounselorId: { $exists: false }, counselorId }
+        ]
+    };
+}
+
 export class SessionManager {
     private collections: Collections;
+    private readonly defaultMaxConcurrentSessions: number;
+    private counselorFreedListeners: CounselorFreedListener[] = [];
+    private encryptionManager: EncryptionManager | null;
+
+    /**
+     * @param encryptionManager encrypts stored message content at rest; null stores it in plaintext
+     */
+    constructor(collections: Collections, defaultMaxConcurrentSessions = 1, encryptionManager: EncryptionManager | null = null) {
+        if (defaultMaxConcurrentSessions < 1) {
+            throw new Error('Default concurrent session capacity must be at least 1.');
+        }
 
-    constructor(collections: Collections) {
         this.collections = collections;
+        this.defaultMaxConcurrentSessions = defaultMaxConcurrentSessions;
+        this.encryptionManager = encryptionManager;
     }
 
     /**
-     * Get the consent disclosure text that must be shown before starting a session
-     * Requirements: 1.4
+     * Register a callback fired whenever a session ends or is transferred away,
+     * freeing capacity for the counselor who held it
      */
-    getConsentDisclosureText(): string {
-        return (
-            'Before we begin, please note: This counseling session is anonymous. '
-            + 'Messages may be logged for safety and quality purposes. Do not share personally identifying information. '
-            + 'By continuing, you consent to participate under these terms.'
-        );
+    onCounselorFreed(listener: CounselorFreedListener): void {
+        this.counselorFreedListeners.push(listener);
     }
 
     /**
      * Create a new counseling session
      * Requirements: 4.1, 4.3, 4.4
      */
-    async createSession(userId: string, counselorId: string, consentGiven: boolean): Promise<Session> {
+    async createSession(
+        userId: string,
+        counselorId: string,
+        consentGiven: boolean,
+        logMode: SessionLogMode = 'standard'
+    ): Promise<Session> {
         if (!consentGiven) {
             throw new Error('Consent is required before starting a session.');
         }
@@ -51,9 +90,8 @@ export class SessionManager {
             throw new Error('User already has an active session.');
         }
 
-        const existingCounselorSession = await this.collections.sessions.findOne({ counselorId, isActive: true });
-        if (existingCounselorSession) {
-            throw new Error('Counselor already has an active session.');
+        if (!await this.reserveCapacity(counselor)) {
+            throw new Error('Counselor has no remaining session capacity.');
         }
 
         const now = new Date();
@@ -66,6 +104,7 @@ export class SessionManager {
             isActive: true,
             consentGiven: true,
             consentTimestamp: now,
+            logMode,
             userPreferredLanguage: user.user_preferred_language ?? [],
             transferCount: 0,
             transferHistory: []
@@ -75,7 +114,14 @@ export class SessionManager {
             session.userRequestedDomain = user.user_requested_domain;
         }
 
-        await this.collections.sessions.insertOne(session);
+        try {
+            await this.collections.sessions.insertOne(session);
+        } catch (error) {
+            await this.releaseCapacity(counselorId);
+            throw error;
+        }
+        await this.syncCounselorLoadStatus(counselorId);
+        metrics.increment('sessions_started_total');
 
         return session;
     }
@@ -97,22 +143,31 @@ export class SessionManager {
         const endTime = new Date();
         const duration = calculateSessionDuration(session.startTime, endTime);
 
-        await this.collections.sessions.updateOne(
-            { sessionId },
-            { $set: { isActive: false, endTime, duration } }
+        // Only the call that actually closes the session releases its capacity
+        const ended = await this.collections.sessions.findOneAndUpdate(
+            { sessionId, isActive: true },
+            { $set: { isActive: false, endTime, duration } },
+            { returnDocument: 'before' }
         );
+        if (!ended) {
+            return (await this.collections.sessions.findOne({ sessionId })) ?? session;
+        }
 
-        const currentCounselorId = this.getCurrentCounselorId(session);
+        const currentCounselorId = this.getCurrentCounselorId(ended);
         await this.collections.counselors.updateOne(
             { id: currentCounselorId },
             {
-                $set: { status: 'available', lastActive: endTime },
+                $set: { lastActive: endTime },
                 $inc: { sessionsHandled: 1 }
             }
         );
+        await this.releaseCapacity(currentCounselorId);
+        await this.syncCounselorLoadStatus(currentCounselorId);
+        this.notifyCounselorFreed(currentCounselorId);
+        metrics.increment('sessions_ended_total');
 
         return {
-            ...session,
+            ...ended,
             isActive: false,
             endTime,
             duration
@@ -209,6 +264,10 @@ export class SessionManager {
         return terminatedCount;
     }
 
+    async countActiveSessions(): Promise<number> {
+        return this.collections.sessions.countDocuments({ isActive: true });
+    }
+
     /**
      * Retrieve an active session for a user
      * Requirements: 4.1
@@ -219,20 +278,74 @@ export class SessionManager {
 
     /**
      * Retrieve an active session for a counselor
+     * When the counselor has several, the most recently started one is returned.
      * Requirements: 4.1
      */
     async getActiveSessionForCounselor(counselorId: string): Promise<Session | null> {
-        return this.collections.sessions.findOne({
-            isActive: true,
-            $or: [{ counselorId }, { currentCounselorId: counselorId }]
-        } as unknown as Record<string, unknown>);
+        return this.collections.sessions
+            .find(buildActiveCounselorSessionFilter(counselorId))
+            .sort({ startTime: -1 })
+            .limit(1)
+            .next();
+    }
+
+    /**
+     * Retrieve all active sessions for a counselor, oldest first
+     */
+    async getActiveSessionsForCounselor(counselorId: string): Promise<Session[]> {
+        return this.collections.sessions
+            .find(buildActiveCounselorSessionFilter(counselorId))
+            .sort({ startTime: 1 })
+            .toArray();
+    }
+
+    /**
+     * List the counselors a user has talked to before, most recent first.
+     * Both the original and the current counselor of a transferred session count.
+     */
+    async getPreviousCounselors(userId: string): Promise<PreviousCounselor[]> {
+        const sessions = await this.collections.sessions
+            .find({ userId })
+            .sort({ startTime: -1 })
+            .toArray();
+
+        const previous = new Map<string, PreviousCounselor>();
+        for (const session of sessions) {
+            for (const counselorId of [this.getCurrentCounselorId(session), session.counselorId]) {
+                if (previous.has(counselorId)) {
+                    continue;
+                }
+
+                const entry: PreviousCounselor = { counselorId, lastSessionAt: session.startTime };
+                if (session.userRequestedDomain) {
+                    entry.domain = session.userRequestedDomain;
+                }
+                previous.set(counselorId, entry);
+            }
+        }
+
+        return Array.from(previous.values());
+    }
+
+    /**
+     * Get how many sessions a counselor may hold at once
+     */
+    getSessionCapacity(counselor: Pick<Counselor, 'maxConcurrentSessions'>): number {
+        return counselor.maxConcurrentSessions ?? this.defaultMaxConcurrentSessions;
     }
 
     /**
      * Store a message for a session with access validation
+     * Media messages carry a file reference instead of text; captions are never stored.
      * Requirements: 5.1, 5.2, 5.3, 5.4
      */
-    async storeMessage(sessionId: string, senderId: string, senderType: SenderType, content: string): Promise<Message> {
+    async storeMessage(
+        sessionId: string,
+        senderId: string,
+        senderType: SenderType,
+        content: string,
+        media?: MessageMedia
+    ): Promise<Message> {
         const session = await this.collections.sessions.findOne({ sessionId });
         if (!session || !session.isActive) {
             throw new Error('Active session not found.');
@@ -248,21 +361,45 @@ export class SessionManager {
             throw new Error('Counselor is not authorized for this session.');
         }
 
-        const trimmedContent = content.trim();
-        if (!trimmedContent) {
+        const trimmedContent = media ? '' : content.trim();
+        if (!media && !trimmedContent) {
             throw new Error('Message content cannot be empty.');
         }
 
+        if (media && !media.fileId) {
+            throw new Error('Media message must include a file reference.');
+        }
+
         const message: Message = {
             messageId: generateMessageId(),
             sessionId,
             senderId,
             senderType,
             content: trimmedContent,
+            contentType: media ? media.contentType : 'text',
             timestamp: new Date()
         };
 
-        await this.collections.messages.insertOne(message);
+        if (media) {
+            const { contentType, ...file } = media;
+            message.file = file;
+        }
+
+        // No-log sessions only relay the message; the stored session keeps a count and nothing else
+        if (session.logMode === 'no_log') {
+            await this.collections.sessions.updateOne({ sessionId }, { $inc: { messageCount: 1 } });
+            return message;
+        }
+
+        if (this.encryptionManager && trimmedContent) {
+            await this.collections.messages.insertOne({
+                ...message,
+                content: '',
+                encryptedContent: await this.encryptionManager.encryptContent(sessionId, trimmedContent)
+            });
+        } else {
+            await this.collections.messages.insertOne(message);
+        }
         return message;
     }
 
@@ -270,12 +407,18 @@ export class SessionManager {
      * Route a message and return the intended recipient
      * Requirements: 5.1, 5.2, 5.3
      */
-    async routeMessage(sessionId: string, senderId: string, senderType: SenderType, content: string): Promise<{
+    async routeMessage(
+        sessionId: string,
+        senderId: string,
+        senderType: SenderType,
+        content: string,
+        media?: MessageMedia
+    ): Promise<{
         message: Message;
         recipientId: string;
         recipientType: SenderType;
     }> {
-        const message = await this.storeMessage(sessionId, senderId, senderType, content);
+        const message = await this.storeMessage(sessionId, senderId, senderType, content, media);
         const session = await this.collections.sessions.findOne({ sessionId });
 
         if (!session) {
@@ -285,10 +428,50 @@ export class SessionManager {
         const recipientType: SenderType = senderType === 'user' ? 'counselor' : 'user';
         const currentCounselorId = this.getCurrentCounselorId(session);
         const recipientId = senderType === 'user' ? currentCounselorId : session.userId;
+        metrics.increment('messages_routed_total');
 
         return { message, recipientId, recipientType };
     }
 
+    /**
+     * Remember which Telegram message in the recipient's chat carries a relayed message,
+     * so replies to it can be routed back to the right session.
+     * No-log messages are never stored, so they get a route record with the IDs only.
+     */
+    async recordRelayedMessage(message: Message, recipientTelegramMessageId: number): Promise<void> {
+        const result = await this.collections.messages.updateOne(
+            { messageId: message.messageId },
+            { $set: { recipientTelegramMessageId } }
+        );
+        if (result.matchedCount > 0) {
+            return;
+        }
+
+        await this.collections.relayRoutes.insertOne({
+            messageId: message.messageId,
+            sessionId: message.sessionId,
+            recipientTelegramMessageId,
+            createdAt: new Date()
+        });
+    }
+
+    /**
+     * Find which of the given sessions a relayed Telegram message belongs to
+     */
+    async findSessionIdByRelayedMessage(sessionIds: string[], recipientTelegramMessageId: number): Promise<string | null> {
+        if (sessionIds.length === 0) {
+            return null;
+        }
+
+        const filter = { sessionId: { $in: sessionIds }, recipientTelegramMessageId };
+        const message = await this.collections.messages.findOne(filter, { projection: { sessionId: 1 } });
+        if (message) {
+            return message.sessionId;
+        }
+        const route = await this.collections.relayRoutes.findOne(filter, { projection: { sessionId: 1 } });
+        return route?.sessionId ?? null;
+    }
+
     /**
      * Retrieve message history for a session with access control
      * Requirements: 5.4
@@ -311,11 +494,12 @@ export class SessionManager {
             throw new Error('Requester is not authorized to view this session history.');
         }
 
-        return this.collections.messages
+        const messages = await this.collections.messages
             .find({ sessionId })
             .sort({ timestamp: 1 })
             .limit(limit)
             .toArray();
+        return this.decryptMessages(messages);
     }
 
     /**
@@ -354,7 +538,7 @@ export class SessionManager {
                 .toArray()
         ]);
 
-        return { messages, total };
+        return { messages: await this.decryptMessages(messages), total };
     }
 
     /**
@@ -366,10 +550,22 @@ export class SessionManager {
             throw new Error('Session not found.');
         }
 
-        return this.collections.messages
+        const messages = await this.collections.messages
             .find({ sessionId })
             .sort({ timestamp: 1 })
             .toArray();
+        return this.decryptMessages(messages);
+    }
+
+    /**
+     * Restore plaintext content of messages read back from storage
+     */
+    private async decryptMessages(messages: Message[]): Promise<Message[]> {
+        if (!this.encryptionManager) {
+            // Encrypted messages cannot be read without the key; callers see them as empty
+            return messages;
+        }
+        return this.encryptionManager.decryptMessages(messages);
     }
 
     async transferSession(
@@ -383,11 +579,23 @@ export class SessionManager {
             throw new Error('Session not found.');
         }
 
+        if (!session.isActive) {
+            throw new Error('Active session not found.');
+        }
+
         const currentCounselorId = this.getCurrentCounselorId(session as Session);
         if (currentCounselorId !== fromCounselorId) {
             throw new Error('Counselor is not assigned to this session.');
         }
 
+        const toCounselor = await this.collections.counselors.findOne({ id: toCounselorId });
+        if (!toCounselor || !toCounselor.isApproved || toCounselor.isSuspended) {
+            throw new Error('Counselor not available for session.');
+        }
+        if (!await this.reserveCapacity(toCounselor)) {
+            throw new Error('Counselor has no remaining session capacity.');
+        }
+
         const transferTimestamp = new Date();
         const transferEntry = {
             fromCounselorId,
@@ -396,8 +604,9 @@ export class SessionManager {
             timestamp: transferTimestamp
         };
 
-        await this.collections.sessions.updateOne(
-            { sessionId },
+        // The session may have ended or moved since it was read; the filter re-checks both
+        const transferred = await this.collections.sessions.updateOne(
+            { ...buildActiveCounselorSessionFilter(fromCounselorId), sessionId },
             {
                 $set: {
                     currentCounselorId: toCounselorId,
@@ -409,6 +618,15 @@ export class SessionManager {
                 $push: { transferHistory: transferEntry }
             }
         );
+        if (transferred.modifiedCount === 0) {
+            await this.releaseCapacity(toCounselorId);
+            throw new Error('Active session not found.');
+        }
+
+        await this.releaseCapacity(fromCounselorId);
+        await this.syncCounselorLoadStatus(fromCounselorId);
+        await this.syncCounselorLoadStatus(toCounselorId);
+        this.notifyCounselorFreed(fromCounselorId);
 
         return {
             ...(session as Session),
@@ -421,6 +639,76 @@ export class SessionManager {
         };
     }
 
+    /**
+     * Keep 'available'/'busy' in line with remaining capacity.
+     * Counselors who set themselves away (or are pending approval) are left untouched.
+     */
+    private async syncCounselorLoadStatus(counselorId: string): Promise<void> {
+        const counselor = await this.collections.counselors.findOne({ id: counselorId });
+        if (!counselor || (counselor.status !== 'available' && counselor.status !== 'busy')) {
+            return;
+        }
+
+        const activeCount = await this.collections.sessions.countDocuments(
+            buildActiveCounselorSessionFilter(counselorId)
+        );
+        const status = activeCount >= this.getSessionCapacity(counselor) ? 'busy' : 'available';
+        if (status !== counselor.status) {
+            await this.collections.counselors.updateOne({ id: counselorId }, { $set: { status } });
+        }
+    }
+
+    /**
+     * Take one of the counselor's session slots in a single conditional update,
+     * so two concurrent starts cannot both see the last free slot.
+     */
+    private async reserveCapacity(counselor: Counselor): Promise<boolean> {
+        if (counselor.activeSessionCount === undefined) {
+            // Counselors created before the counter existed start from their real load
+            const activeCount = await this.collections.sessions.countDocuments(
+                buildActiveCounselorSessionFilter(counselor.id)
+            );
+            await this.collections.counselors.updateOne(
+                { id: counselor.id, activeSessionCount: { $exists: false } },
+                { $set: { activeSessionCount: activeCount } }
+            );
+        }
+
+        const reserved = await this.collections.counselors.findOneAndUpdate(
+            {
+                id: counselor.id,
+                $expr: {
+                    $lt: [
+                        '$activeSessionCount',
+                        { $ifNull: ['$maxConcurrentSessions', this.defaultMaxConcurrentSessions] }
+                    ]
+                }
+            },
+            { $inc: { activeSessionCount: 1 } }
+        );
+        return reserved !== null;
+    }
+
+    private async releaseCapacity(counselorId: string): Promise<void> {
+        await this.collections.counselors.updateOne(
+            { id: counselorId, activeSessionCount: { $gt: 0 } },
+            { $inc: { activeSessionCount: -1 } }
+        );
+    }
+
+    private notifyCounselorFreed(counselorId: string): void {
+        for (const listener of this.counselorFreedListeners) {
+            Promise.resolve()
+                .then(() => listener(counselorId))
+                .catch(error => {
+                    logger.warn('Counselor freed listener failed', {
+                        counselorId,
+                        message: (error as Error).message
+                    });
+                });
+        }
+    }
+
     private getCurrentCounselorId(session: Session): string {
         return session.currentCounselorId ?? session.counselorId;
     }
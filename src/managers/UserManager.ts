@@ -1,7 +1,10 @@
 import { v4 as uuidv4 } from 'uuid';
+import { Filter } from 'mongodb';
 import { Collections } from '../database/Collections';
 import { User, UserState } from '../types/User';
-import { PrayerRequest } from '../types/PrayerRequest';
+import { PrayerCategory, PrayerRequest } from '../types/PrayerRequest';
+import { Locale } from '../types/Locale';
+import { resolveLocale } from '../i18n';
 
 export class UserManager {
     private collections: Collections;
@@ -10,10 +13,11 @@ export class UserManager {
     }
 
     /**
-     * Register a new user with anonymous UUID generation
+     * Register a new user with anonymous UUID generation.
+     * New users get their language from Telegram's language_code when it is known.
      * Requirements: 1.1, 1.2, 1.3
      */
-    async registerUser(telegramChatId: number): Promise<string> {
+    async registerUser(telegramChatId: number, languageCode?: string): Promise<string> {
         // Check if user already exists
         const existingUser = await this.getUserByTelegramId(telegramChatId);
         if (existingUser) {
@@ -29,7 +33,8 @@ export class UserManager {
             telegramChatId,
             createdAt: now,
             lastActive: now,
-            state: 'IDLE'
+            state: 'IDLE',
+            language: resolveLocale(languageCode)
         };
 
         try {
@@ -48,10 +53,10 @@ export class UserManager {
         try {
             const user = await this.collections.users.findOne({ telegramChatId });
             if (user) {
-                // Update last active timestamp
+                // Update last active timestamp; a user who writes to the bot can be reached by broadcasts again
                 await this.collections.users.updateOne(
                     { telegramChatId },
-                    { $set: { lastActive: new Date() } }
+                    { $set: { lastActive: new Date() }, $unset: { unreachableAt: '' } }
                 );
             }
             return await this.ensureUserState(user as User | null);
@@ -126,6 +131,18 @@ export class UserManager {
         );
     }
 
+    async getLanguageByTelegramId(telegramChatId: number): Promise<Locale | null> {
+        const user = await this.collections.users.findOne({ telegramChatId }, { projection: { language: 1 } });
+        return user?.language ?? null;
+    }
+
+    async updateUserLanguage(telegramChatId: number, language: Locale): Promise<void> {
+        await this.collections.users.updateOne(
+            { telegramChatId },
+            { $set: { language } }
+        );
+    }
+
     async getUserState(userId: string): Promise<UserState | null> {
         const user = await this.collections.users.findOne({ uuid: userId });
         return user?.state ?? 'IDLE';
@@ -152,7 +169,7 @@ export class UserManager {
      * Submit a prayer request with unique ID generation
      * Requirements: 2.1, 2.2, 2.3, 2.4
      */
-    async submitPrayerRequest(userId: string, title: string): Promise<string> {
+    async submitPrayerRequest(userId: string, title: string, category: PrayerCategory = 'other'): Promise<string> {
         // Verify user exists
         const user = await this.getUserById(userId);
         if (!user) {
@@ -167,6 +184,7 @@ export class UserManager {
             prayerId,
             userId,
             title: title.trim(),
+            category,
             createdAt: now,
             status: 'open'
         };
@@ -180,22 +198,42 @@ export class UserManager {
     }
 
     /**
-     * Get prayer requests for counselors (without user identifying information)
+     * Get prayer requests for counselors (without user identifying information), optionally in one category
      * Requirements: 2.2, 2.3
      */
-    async getPrayerRequestsForCounselors(): Promise<Array<{ prayerId: string; title: string; createdAt: Date }>> {
+    async getPrayerRequestsForCounselors(category?: PrayerCategory): Promise<Array<{
+        prayerId: string;
+        title: string;
+        category: PrayerCategory;
+        createdAt: Date;
+        prayedCount: number;
+        updateCount: number;
+        latestUpdate?: { text: string; createdAt: Date };
+    }>> {
         try {
+            const statusFilter: Filter<PrayerRequest> = { $or: [{ status: 'open' }, { status: { $exists: false } }] };
+            // Requests from before categories existed count as 'other'
+            const categoryFilter: Filter<PrayerRequest> = category === 'other'
+                ? { $or: [{ category: 'other' }, { category: { $exists: false } }] }
+                : category ? { category } : {};
             const prayers = await this.collections.prayers
-                .find({ $or: [{ status: 'open' }, { status: { $exists: false } }] })
+                .find({ $and: [statusFilter, categoryFilter] })
                 .sort({ createdAt: -1 })
                 .toArray();
 
             // Return only prayer content without user identifying information
-            return prayers.map(prayer => ({
-                prayerId: prayer.prayerId,
-                title: prayer.title,
-                createdAt: prayer.createdAt
-            }));
+            return prayers.map(prayer => {
+                const latestUpdate = prayer.updates?.[prayer.updates.length - 1];
+                return {
+                    prayerId: prayer.prayerId,
+                    title: prayer.title,
+                    category: prayer.category ?? 'other',
+                    createdAt: prayer.createdAt,
+                    prayedCount: prayer.prayedCount ?? 0,
+                    updateCount: prayer.updates?.length ?? 0,
+                    ...(latestUpdate ? { latestUpdate } : {})
+                };
+            });
         } catch (error) {
             throw new Error(`Failed to retrieve prayer requests: ${(error as Error).message}`);
         }
@@ -242,4 +280,168 @@ export class UserManager {
             throw new Error(`Failed to close prayer request: ${(error as Error).message}`);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Record that a counselor prayed for an open request. Each counselor counts once per request.
+     */
+    async recordPrayer(prayerId: string, counselorId: string): Promise<{ recorded: boolean; prayedCount: number }> {
+        const updated = await this.collections.prayers.findOneAndUpdate(
+            { prayerId, status: 'open', prayedBy: { $ne: counselorId } },
+            { $addToSet: { prayedBy: counselorId }, $inc: { prayedCount: 1 } },
+            { returnDocument: 'after' }
+        );
+        if (updated) {
+            return { recorded: true, prayedCount: updated.prayedCount ?? 1 };
+        }
+
+        const prayer = await this.collections.prayers.findOne({ prayerId });
+        if (!prayer || prayer.status === 'closed') {
+            throw new Error('Prayer request not found');
+        }
+        return { recorded: false, prayedCount: prayer.prayedCount ?? 0 };
+    }
+
+    /**
+     * Claim one request whose submitter has prayers they have not heard about yet.
+     * Submitters hear at most once per cooldown; prayers in between are folded into the next update.
+     */
+    async claimDuePrayerNotification(cooldownMinutes: number, now = new Date()): Promise<PrayerRequest | null> {
+        const cutoff = new Date(now.getTime() - cooldownMinutes * 60 * 1000);
+        return this.collections.prayers.findOneAndUpdate(
+            {
+                notificationsMuted: { $ne: true },
+                $expr: { $gt: [{ $ifNull: ['$prayedCount', 0] }, { $ifNull: ['$notifiedCount', 0] }] },
+                $or: [{ lastNotifiedAt: { $exists: false } }, { lastNotifiedAt: { $lte: cutoff } }]
+            },
+            [{ $set: { notifiedCount: '$prayedCount', lastNotifiedAt: now } }],
+            { returnDocument: 'after' }
+        );
+    }
+
+    /**
+     * Let the submitter turn prayer updates for one of their requests off or back on
+     */
+    async setPrayerNotificationsMuted(prayerId: string, userId: string, muted: boolean): Promise<boolean> {
+        const result = await this.collections.prayers.updateOne(
+            { prayerId, userId },
+            { $set: { notificationsMuted: muted } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Add a follow-up update to one of the submitter's open requests
+     */
+    async addPrayerUpdate(prayerId: string, userId: string, text: string): Promise<boolean> {
+        const result = await this.collections.prayers.updateOne(
+            { prayerId, userId, status: 'open' },
+            { $push: { updates: { text: text.trim(), createdAt: new Date() } } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Mark one of the submitter's open requests as answered, which also closes it
+     */
+    async markPrayerAnswered(prayerId: string, userId: string): Promise<boolean> {
+        const now = new Date();
+        const result = await this.collections.prayers.updateOne(
+            { prayerId, userId, status: 'open' },
+            { $set: { status: 'closed', closedAt: now, answeredAt: now } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Attach a testimony to an answered request. It stays private until the submitter agrees to share it.
+     */
+    async addPrayerTestimony(prayerId: string, userId: string, text: string): Promise<boolean> {
+        const result = await this.collections.prayers.updateOne(
+            { prayerId, userId, answeredAt: { $exists: true }, testimony: { $exists: false } },
+            { $set: { testimony: { text: text.trim(), shareConsent: false, createdAt: new Date() } } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Give or withdraw consent to share a testimony. Testimonies already sent in a digest cannot be recalled.
+     */
+    async setTestimonySharing(prayerId: string, userId: string, share: boolean): Promise<boolean> {
+        const result = await this.collections.prayers.updateOne(
+            { prayerId, userId, testimony: { $exists: true }, 'testimony.digestId': { $exists: false } },
+            { $set: { 'testimony.shareConsent': share } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Claim the shared testimonies for the next digest once the previous digest is at least intervalDays old.
+     * Only the category and testimony text are returned so the digest cannot identify anyone.
+     * The claim is stamped as shared by completeTestimonyDigest once the digest has been delivered.
+     */
+    async claimTestimonyDigest(
+        intervalDays: number,
+        now = new Date()
+    ): Promise<{ digestId: string; testimonies: Array<{ category: PrayerCategory; text: string }> } | null> {
+        const lastShared = await this.collections.prayers
+            .find({ 'testimony.sharedAt': { $exists: true } })
+            .sort({ 'testimony.sharedAt': -1 })
+            .limit(1)
+            .next();
+        const lastSharedAt = lastShared?.testimony?.sharedAt;
+        if (lastSharedAt && now.getTime() - lastSharedAt.getTime() < intervalDays * 24 * 60 * 60 * 1000) {
+            return null;
+        }
+
+        // Tagging with a fresh digest ID keeps two concurrent runs from sharing the same testimonies.
+        // A claim that was never completed (the process stopped mid-digest) is picked up again after a day.
+        const digestId = uuidv4();
+        const claimed = await this.collections.prayers.updateMany(
+            {
+                'testimony.shareConsent': true,
+                $or: [
+                    { 'testimony.digestId': { $exists: false } },
+                    {
+                        'testimony.sharedAt': { $exists: false },
+                        'testimony.claimedAt': { $lt: new Date(now.getTime() - 24 * 60 * 60 * 1000) }
+                    }
+                ]
+            },
+            { $set: { 'testimony.digestId': digestId, 'testimony.claimedAt': now } }
+        );
+        if (claimed.modifiedCount === 0) {
+            return null;
+        }
+
+        const prayers = await this.collections.prayers
+            .find({ 'testimony.digestId': digestId })
+            .sort({ answeredAt: 1 })
+            .toArray();
+        return {
+            digestId,
+            testimonies: prayers
+                .filter(prayer => prayer.testimony)
+                .map(prayer => ({ category: prayer.category ?? 'other', text: prayer.testimony?.text ?? '' }))
+        };
+    }
+
+    /**
+     * Record a delivered digest; its sharedAt starts the wait for the next one
+     */
+    async completeTestimonyDigest(digestId: string, sharedAt = new Date()): Promise<void> {
+        await this.collections.prayers.updateMany(
+            { 'testimony.digestId': digestId },
+            { $set: { 'testimony.sharedAt': sharedAt } }
+        );
+    }
+
+    /**
+     * Return the testimonies of a digest that reached nobody, so the next run shares them again
+     */
+    async releaseTestimonyDigest(digestId: string): Promise<void> {
+        await this.collections.prayers.updateMany(
+            { 'testimony.digestId': digestId, 'testimony.sharedAt': { $exists: false } },
+            { $unset: { 'testimony.digestId': '', 'testimony.claimedAt': '' } }
+        );
+    }
+}
@@ -6,9 +6,20 @@ export { ReportingSystem } from './ReportingSystem';
 export { StatisticsManager } from './StatisticsManager';
 export { CleanupManager } from './CleanupManager';
 export { AuditLogManager } from './AuditLogManager';
+export { QueueManager } from './QueueManager';
+export { FollowUpManager } from './FollowUpManager';
+export { CrisisDetector } from './CrisisDetector';
+export { EncryptionManager } from './EncryptionManager';
+export { PrivacyManager } from './PrivacyManager';
+export { PrayerWallManager } from './PrayerWallManager';
+export { AppealManager } from './AppealManager';
+export { AdminManager } from './AdminManager';
+export { PendingActionManager } from './PendingActionManager';
 
 // Export all manager components
 export * from './SessionManager';
 export * from './StatisticsManager';
 export * from './UserManager';
-export * from './BroadcastManager';
\ No newline at end of file
+export * from './BroadcastManager';
+export * from './AdminManager';
+export * from './PendingActionManager';
\ No newline at end of file
@@ -1,5 +1,6 @@
 // Utility functions for ID generation and data operations
 import { v4 as uuidv4 } from 'uuid';
+import { Message, MessageContentType } from '../types/Message';
 
 // ID generation functions
 export const generateUserId = (): string => {
@@ -38,6 +39,18 @@ export const generateAuditLogId = (): string => {
     return `audit_${uuidv4()}`;
 };
 
+export const generatePendingActionId = (): string => {
+    return `PA-${generateRandomString(10)}`;
+};
+
+export const generateQueueEntryId = (): string => {
+    return `queue_${uuidv4()}`;
+};
+
+export const generateFollowUpId = (): string => {
+    return `FU-${generateRandomString(10)}`;
+};
+
 // Date utility functions
 export const getCurrentTimestamp = (): Date => {
     return new Date();
@@ -48,6 +61,41 @@ export const calculateSessionDuration = (startTime: Date, endTime: Date): number
     return Math.round(durationMs / (1000 * 60)); // Convert to minutes
 };
 
+const MEDIA_LABELS: Record<Exclude<MessageContentType, 'text'>, string> = {
+    photo: 'photo',
+    voice: 'voice note',
+    audio: 'audio',
+    video: 'video',
+    video_note: 'video message',
+    document: 'document',
+    sticker: 'sticker',
+    animation: 'GIF'
+};
+
+export const formatMediaDuration = (seconds: number): string => {
+    const safeSeconds = Math.max(0, Math.round(seconds));
+    const minutes = Math.floor(safeSeconds / 60);
+    const remainder = safeSeconds % 60;
+    return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+};
+
+// Render a stored message for history and report views, e.g. "[voice note 0:42]"
+export const formatMessageContent = (message: Pick<Message, 'content' | 'contentType' | 'file'>): string => {
+    const contentType = message.contentType ?? 'text';
+    if (contentType === 'text') {
+        return message.content;
+    }
+
+    const parts = [MEDIA_LABELS[contentType]];
+    if (contentType === 'sticker' && message.file?.emoji) {
+        parts.push(message.file.emoji);
+    }
+    if (typeof message.file?.duration === 'number') {
+        parts.push(formatMediaDuration(message.file.duration));
+    }
+    return `[${parts.join(' ')}]`;
+};
+
 // Data anonymization utilities
 export const anonymizeUserId = (userId: string): string => {
     // Return only the first 8 characters for logging/debugging while maintaining anonymity
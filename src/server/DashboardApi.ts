@@ -0,0 +1,246 @@
+import { timingSafeEqual } from 'crypto';
+import { BotServices } from '../components/BotServices';
+import { MessageKey, DEFAULT_LOCALE, translate } from '../i18n';
+import { AdminPermission } from '../types/Admin';
+import { logger } from '../utils/logger';
+import { HttpRequest, HttpResponse, HttpServer, RouteHandler } from './HttpServer';
+import { DASHBOARD_PAGE } from './dashboardPage';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type AdminRouteHandler = (request: HttpRequest, adminId: string) => Promise<HttpResponse>;
+
+/**
+ * Web dashboard for admins: a single page plus a REST API over the moderation managers.
+ * Every API call needs a bearer token from DASHBOARD_TOKENS and a role with the route's permission;
+ * actions are audited under the token's admin chat ID.
+ */
+export class DashboardApi {
+    private services: BotServices;
+    private tokens: Array<{ token: Buffer; adminChatId: number }>;
+
+    constructor(services: BotServices) {
+        this.services = services;
+        this.tokens = Object.entries(services.config.dashboardTokens)
+            .map(([token, adminChatId]) => ({ token: Buffer.from(token, 'utf8'), adminChatId }));
+    }
+
+    register(server: HttpServer): void {
+        const page: RouteHandler = async () => ({ status: 200, body: DASHBOARD_PAGE, contentType: 'text/html; charset=utf-8' });
+        server.route('GET', '/', page);
+        server.route('GET', '/dashboard', page);
+
+        server.route('GET', '/api/stats', this.authorized('view_stats', async () => ({
+            status: 200,
+            body: {
+                ...(await this.services.statisticsManager.getAdminStats()),
+                queueLength: await this.services.queueManager.getQueueLength()
+            }
+        })));
+
+        server.route('GET', '/api/reports', this.authorized('process_reports', async request =>
+            this.page(request, await this.services.reportingSystem.getPendingReports())
+        ));
+        server.route('POST', '/api/reports/:reportId/process', this.authorized('process_reports', (request, adminId) => this.processReport(request, adminId)));
+
+        server.route('GET', '/api/appeals', this.authorized('decide_appeals', async request =>
+            this.page(request, await this.services.appealManager.getPendingAppeals())
+        ));
+        server.route('POST', '/api/appeals/:appealId/decide', this.authorized('decide_appeals', (request, adminId) => this.decideAppeal(request, adminId)));
+
+        server.route('GET', '/api/counselors/pending', this.authorized('approve_counselors', async request => {
+            const pending = await this.services.counselorManager.getPendingApprovals();
+            return this.page(request, pending.map(counselor => ({
+                counselorId: counselor.id,
+                alias: counselor.alias,
+                status: counselor.status,
+                strikes: counselor.strikes,
+                isSuspended: counselor.isSuspended,
+                createdAt: counselor.createdAt
+            })));
+        }));
+        server.route('POST', '/api/counselors/:counselorId/approve', this.authorized('approve_counselors', (request, adminId) => this.approveCounselor(request, adminId)));
+
+        server.route('GET', '/api/audit-logs', this.authorized('view_audit_log', async request => {
+            const { page, pageSize } = this.readPaging(request);
+            const { logs, total } = await this.services.auditLogManager.getAdminActionsPage(page, pageSize);
+            return { status: 200, body: { items: logs, total, page, pageSize } };
+        }));
+    }
+
+    private authorized(permission: AdminPermission, handler: AdminRouteHandler): RouteHandler {
+        return async request => {
+            const adminChatId = this.authenticate(request);
+            if (adminChatId === null) {
+                logger.warn('Unauthorized dashboard access', { path: request.path });
+                return { status: 401, body: { error: 'Unauthorized' }, headers: { 'WWW-Authenticate': 'Bearer' } };
+            }
+            // The token's chat ID is checked against the admin's current role on every call, so removing an admin revokes their token too
+            if (!(await this.services.adminManager.hasPermission(adminChatId, permission))) {
+                logger.warn('Forbidden dashboard access', { path: request.path, adminChatId, permission });
+                return { status: 403, body: { error: 'Forbidden' } };
+            }
+            return handler(request, adminChatId.toString());
+        };
+    }
+
+    private authenticate(request: HttpRequest): number | null {
+        const header = request.headers.authorization;
+        const match = typeof header === 'string' ? /^Bearer\s+(.+)$/i.exec(header.trim()) : null;
+        if (!match) return null;
+
+        const presented = Buffer.from(match[1], 'utf8');
+        // Compare against every token in constant time so timing does not reveal how much of a token matched
+        let adminChatId: number | null = null;
+        for (const entry of this.tokens) {
+            if (entry.token.length === presented.length && timingSafeEqual(entry.token, presented)) {
+                adminChatId = entry.adminChatId;
+            }
+        }
+        return adminChatId;
+    }
+
+    private readPaging(request: HttpRequest): { page: number; pageSize: number } {
+        const page = parseInt(request.query.get('page') ?? '1', 10);
+        const pageSize = parseInt(request.query.get('pageSize') ?? String(DEFAULT_PAGE_SIZE), 10);
+        return {
+            page: Number.isInteger(page) && page > 0 ? page : 1,
+            pageSize: Number.isInteger(pageSize) && pageSize > 0 ? Math.min(pageSize, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE
+        };
+    }
+
+    private page<T>(request: HttpRequest, items: T[]): HttpResponse {
+        const { page, pageSize } = this.readPaging(request);
+        const start = (page - 1) * pageSize;
+        return { status: 200, body: { items: items.slice(start, start + pageSize), total: items.length, page, pageSize } };
+    }
+
+    private readAction<T extends string>(request: HttpRequest, allowed: T[]): T | null {
+        const body = request.body as { action?: unknown } | undefined;
+        const action = body?.action;
+        return typeof action === 'string' && (allowed as string[]).includes(action) ? action as T : null;
+    }
+
+    private async processReport(request: HttpRequest, adminId: string): Promise<HttpResponse> {
+        const action = this.readAction(request, ['strike', 'dismiss']);
+        if (!action) {
+            return { status: 400, body: { error: 'action must be "strike" or "dismiss"' } };
+        }
+
+        const reportId = request.params.reportId;
+        const existing = await this.services.collections.reports.findOne({ reportId });
+        if (!existing) {
+            return { status: 404, body: { error: 'Report not found' } };
+        }
+        if (existing.processed) {
+            return { status: 409, body: { error: 'Report already processed' } };
+        }
+
+        const report = await this.services.reportingSystem.processReport(reportId, adminId, action);
+        await this.services.auditLogManager.recordAdminAction(adminId, 'process_report', reportId, {
+            action,
+            counselorId: report.counselorId,
+            via: 'dashboard'
+        });
+
+        if (action === 'strike') {
+            const counselor = await this.services.collections.counselors.findOne({ id: report.counselorId });
+            if (counselor && (counselor.isSuspended || counselor.isApproved === false)) {
+                await this.notifyCounselor(
+                    counselor.telegramChatId,
+                    counselor.isApproved === false ? 'report.access_revoked' : 'report.account_suspended'
+                );
+            }
+        }
+
+        return { status: 200, body: { report } };
+    }
+
+    private async decideAppeal(request: HttpRequest, adminId: string): Promise<HttpResponse> {
+        const action = this.readAction(request, ['approve', 'revoke']);
+        if (!action) {
+            return { status: 400, body: { error: 'action must be "approve" or "revoke"' } };
+        }
+
+        const appealId = request.params.appealId;
+        if (action === 'revoke' && this.services.pendingActionManager.isEnabled()) {
+            return this.requestAppealRevocation(appealId, adminId);
+        }
+
+        const decision = await this.services.appealManager.decideAppeal(adminId, appealId, action);
+        if (decision.status === 'not_found' || decision.status === 'counselor_not_found') {
+            return { status: 404, body: { error: decision.status === 'not_found' ? 'Appeal not found' : 'Counselor not found' } };
+        }
+        if (decision.status === 'already_processed' || !decision.counselor) {
+            return { status: 409, body: { error: 'Appeal already processed' } };
+        }
+
+        await this.services.auditLogManager.recordAdminAction(
+            adminId,
+            action === 'approve' ? 'appeal_approve' : 'appeal_revoke_suspension',
+            decision.counselor.id,
+            { appealId, via: 'dashboard' }
+        );
+        await this.notifyCounselor(
+            decision.counselor.telegramChatId,
+            action === 'approve' ? 'appeal.approved_notice' : 'appeal.revoked_notice'
+        );
+
+        return { status: 200, body: { appealId, action, counselorId: decision.counselor.id } };
+    }
+
+    /**
+     * With two-admin approval on, a revocation only becomes a pending action; a second admin confirms it in the bot
+     */
+    private async requestAppealRevocation(appealId: string, adminId: string): Promise<HttpResponse> {
+        const appeal = await this.services.collections.appeals.findOne({ appealId });
+        if (!appeal) {
+            return { status: 404, body: { error: 'Appeal not found' } };
+        }
+        if (appeal.processed) {
+            return { status: 409, body: { error: 'Appeal already processed' } };
+        }
+
+        const { action, created } = await this.services.pendingActionManager.requestAction('revoke_appeal', adminId, appealId);
+        if (created) {
+            await this.services.auditLogManager.recordAdminAction(adminId, 'request_approval', appealId, {
+                type: action.type,
+                pendingActionId: action.actionId,
+                via: 'dashboard'
+            });
+        }
+
+        return {
+            status: 202,
+            body: { appealId, action: 'revoke', pendingActionId: action.actionId, expiresAt: action.expiresAt }
+        };
+    }
+
+    private async approveCounselor(request: HttpRequest, adminId: string): Promise<HttpResponse> {
+        const counselorId = request.params.counselorId;
+        try {
+            await this.services.counselorManager.approveCounselor(adminId, counselorId);
+        } catch (error) {
+            return { status: 404, body: { error: (error as Error).message } };
+        }
+        await this.services.auditLogManager.recordAdminAction(adminId, 'approve_counselor', counselorId, { via: 'dashboard' });
+
+        const counselor = await this.services.collections.counselors.findOne({ id: counselorId });
+        await this.notifyCounselor(counselor?.telegramChatId, 'admin.approved_notice');
+
+        return { status: 200, body: { counselorId } };
+    }
+
+    private async notifyCounselor(chatId: number | undefined, key: MessageKey): Promise<void> {
+        if (!chatId) return;
+
+        try {
+            const locale = (await this.services.userManager.getLanguageByTelegramId(chatId)) ?? DEFAULT_LOCALE;
+            await this.services.bot.telegram.sendMessage(chatId, translate(locale, key));
+        } catch (error) {
+            const err = error as Error;
+            logger.warn('Failed to notify counselor about dashboard decision', { chatId, message: err.message });
+        }
+    }
+}
@@ -0,0 +1,70 @@
+import { createServer, request } from 'http';
+import { AddressInfo } from 'net';
+import { HttpServer } from './HttpServer';
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+        const { port } = probe.address() as AddressInfo;
+        probe.close(() => resolve(port));
+    });
+});
+
+const send = (port: number, method: string, path: string): Promise<{ status: number; body: unknown }> =>
+    new Promise((resolve, reject) => {
+        const req = request({ port, method, path }, res => {
+            const chunks: Buffer[] = [];
+            res.on('data', chunk => chunks.push(chunk as Buffer));
+            res.on('end', () => {
+                const raw = Buffer.concat(chunks).toString('utf8');
+                resolve({ status: res.statusCode ?? 0, body: raw ? JSON.parse(raw) : undefined });
+            });
+        });
+        req.once('error', reject);
+        req.end();
+    });
+
+describe('HttpServer', () => {
+    let port: number;
+    let server: HttpServer;
+
+    beforeEach(async () => {
+        port = await freePort();
+        server = new HttpServer(port);
+        server.route('POST', '/api/reports/:reportId/process', async request => ({ status: 200, body: request.params }));
+        server.route('GET', '/boom', async () => {
+            throw new Error('handler failed');
+        });
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    it('decodes path parameters', async () => {
+        const response = await send(port, 'POST', '/api/reports/R%2D1/process');
+
+        expect(response).toEqual({ status: 200, body: { reportId: 'R-1' } });
+    });
+
+    it('rejects a malformed path encoding with 400 and keeps serving', async () => {
+        const malformed = await send(port, 'POST', '/api/reports/%ZZ/process');
+        expect(malformed).toEqual({ status: 400, body: { error: 'Malformed request path' } });
+
+        const next = await send(port, 'POST', '/api/reports/R1/process');
+        expect(next.status).toBe(200);
+    });
+
+    it('answers 500 when a handler throws', async () => {
+        const response = await send(port, 'GET', '/boom');
+
+        expect(response).toEqual({ status: 500, body: { error: 'Internal server error' } });
+    });
+
+    it('answers 404 for unknown paths and 405 for the wrong method', async () => {
+        expect((await send(port, 'GET', '/missing')).status).toBe(404);
+        expect((await send(port, 'GET', '/api/reports/R1/process')).status).toBe(405);
+    });
+});
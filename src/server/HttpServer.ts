@@ -0,0 +1,174 @@
+import { createServer, IncomingHttpHeaders, IncomingMessage, Server, ServerResponse } from 'http';
+import { logger } from '../utils/logger';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export type HttpMethod = 'GET' | 'POST';
+
+export interface HttpRequest {
+    method: HttpMethod;
+    path: string;
+    params: Record<string, string>; // values of :name segments in the route path
+    query: URLSearchParams;
+    headers: IncomingHttpHeaders;
+    body: unknown; // parsed JSON body, undefined when there is none
+}
+
+export interface HttpResponse {
+    status: number;
+    body?: unknown; // strings are sent as-is, anything else as JSON
+    contentType?: string;
+    headers?: Record<string, string>;
+}
+
+export type RouteHandler = (request: HttpRequest) => Promise<HttpResponse>;
+
+interface Route {
+    method: HttpMethod;
+    pattern: RegExp;
+    paramNames: string[];
+    handler: RouteHandler;
+}
+
+/**
+ * Minimal JSON-over-HTTP server on the configured PORT.
+ * Features register their routes before start(); unknown paths get 404 and handler failures 500.
+ */
+export class HttpServer {
+    private port: number;
+    private routes: Route[] = [];
+    private server: Server | null = null;
+
+    constructor(port: number) {
+        this.port = port;
+    }
+
+    route(method: HttpMethod, path: string, handler: RouteHandler): void {
+        const paramNames: string[] = [];
+        const pattern = path.replace(/:(\w+)/g, (_match, name: string) => {
+            paramNames.push(name);
+            return '([^/]+)';
+        });
+        this.routes.push({ method, pattern: new RegExp(`^${pattern}$`), paramNames, handler });
+    }
+
+    async start(): Promise<void> {
+        if (this.server) return;
+
+        const server = createServer((req, res) => {
+            this.dispatch(req, res).catch(error => {
+                const err = error as Error;
+                logger.error('HTTP request failed', { message: err.message, stack: err.stack });
+                if (res.headersSent) {
+                    res.end();
+                    return;
+                }
+                this.send(res, { status: 500, body: { error: 'Internal server error' } });
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.port, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+        logger.info('HTTP server listening', { port: this.port });
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+
+        this.server = null;
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    private async dispatch(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        let url: URL;
+        try {
+            url = new URL(req.url ?? '/', 'http://localhost');
+        } catch {
+            this.send(res, { status: 400, body: { error: 'Malformed request URL' } });
+            return;
+        }
+        const method = req.method === 'HEAD' ? 'GET' : req.method;
+
+        let matchedPath = false;
+        for (const route of this.routes) {
+            const match = route.pattern.exec(url.pathname);
+            if (!match) continue;
+            matchedPath = true;
+            if (route.method !== method) continue;
+
+            const params: Record<string, string> = {};
+            try {
+                route.paramNames.forEach((name, index) => {
+                    params[name] = decodeURIComponent(match[index + 1] ?? '');
+                });
+            } catch {
+                // Bad percent-encoding such as %ZZ; this runs before any authentication, so it must never throw
+                this.send(res, { status: 400, body: { error: 'Malformed request path' } });
+                return;
+            }
+
+            let body: unknown;
+            try {
+                body = await this.readBody(req);
+            } catch (error) {
+                this.send(res, { status: 400, body: { error: (error as Error).message } });
+                return;
+            }
+
+            try {
+                this.send(res, await route.handler({ method: route.method, path: url.pathname, params, query: url.searchParams, headers: req.headers, body }));
+            } catch (error) {
+                const err = error as Error;
+                logger.error('HTTP handler failed', { path: url.pathname, message: err.message, stack: err.stack });
+                this.send(res, { status: 500, body: { error: 'Internal server error' } });
+            }
+            return;
+        }
+
+        this.send(res, matchedPath
+            ? { status: 405, body: { error: 'Method not allowed' } }
+            : { status: 404, body: { error: 'Not found' } });
+    }
+
+    private async readBody(req: IncomingMessage): Promise<unknown> {
+        if (req.method !== 'POST') return undefined;
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of req) {
+            const buffer = chunk as Buffer;
+            size += buffer.length;
+            if (size > MAX_BODY_BYTES) {
+                throw new Error('Request body too large');
+            }
+            chunks.push(buffer);
+        }
+
+        const raw = Buffer.concat(chunks).toString('utf8');
+        if (!raw.trim()) return undefined;
+        try {
+            return JSON.parse(raw) as unknown;
+        } catch {
+            throw new Error('Request body must be valid JSON');
+        }
+    }
+
+    private send(res: ServerResponse, response: HttpResponse): void {
+        const isText = typeof response.body === 'string';
+        const payload = response.body === undefined
+            ? ''
+            : isText ? response.body as string : JSON.stringify(response.body);
+        res.writeHead(response.status, {
+            'Content-Type': response.contentType ?? (isText ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8'),
+            'Cache-Control': 'no-store',
+            ...response.headers
+        });
+        res.end(payload);
+    }
+}
@@ -0,0 +1,67 @@
+import { BotServices } from '../components/BotServices';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import { HttpResponse, HttpServer } from './HttpServer';
+
+// What the bot handler knows about its own state, read on every probe
+export interface HealthChecks {
+    isDatabaseConnected(): boolean;
+    pingDatabase(): Promise<boolean>;
+    isBotLaunched(): boolean;
+}
+
+/**
+ * Probes and metrics for the hosting platform. None of these routes need a token,
+ * so they expose only service state and aggregate counts.
+ */
+export class MonitoringApi {
+    private services: BotServices;
+    private checks: HealthChecks;
+
+    constructor(services: BotServices, checks: HealthChecks) {
+        this.services = services;
+        this.checks = checks;
+    }
+
+    register(server: HttpServer): void {
+        // Liveness: the process is up and still holds its database connection
+        server.route('GET', '/healthz', async () => {
+            const database = this.checks.isDatabaseConnected();
+            return this.probe(database, { database: database ? 'connected' : 'disconnected' });
+        });
+
+        // Readiness: MongoDB answers and the bot is receiving updates
+        server.route('GET', '/readyz', async () => {
+            const database = await this.checks.pingDatabase();
+            const bot = this.checks.isBotLaunched();
+            return this.probe(database && bot, {
+                database: database ? 'reachable' : 'unreachable',
+                bot: bot ? 'launched' : 'not_launched'
+            });
+        });
+
+        server.route('GET', '/metrics', async () => {
+            const [activeSessions, availableCounselors, queueLength] = await Promise.all([
+                this.services.sessionManager.countActiveSessions(),
+                this.services.counselorManager.countAvailableCounselors(),
+                this.services.queueManager.getQueueLength()
+            ]);
+            return {
+                status: 200,
+                body: metrics.format({
+                    active_sessions: activeSessions,
+                    available_counselors: availableCounselors,
+                    queue_length: queueLength
+                }),
+                contentType: 'text/plain; version=0.0.4; charset=utf-8'
+            };
+        });
+    }
+
+    private probe(healthy: boolean, details: Record<string, string>): HttpResponse {
+        if (!healthy) {
+            logger.warn('Health check failed', details);
+        }
+        return { status: healthy ? 200 : 503, body: { status: healthy ? 'ok' : 'unavailable', ...details } };
+    }
+}
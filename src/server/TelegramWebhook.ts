@@ -0,0 +1,45 @@
+import { timingSafeEqual } from 'crypto';
+import { Telegraf, Context } from 'telegraf';
+import type { Update } from 'telegraf/types';
+import { logger } from '../utils/logger';
+import { HttpRequest, HttpResponse, HttpServer } from './HttpServer';
+
+const SECRET_TOKEN_HEADER = 'x-telegram-bot-api-secret-token';
+
+/**
+ * Receives Telegram updates on the shared HTTP server instead of Telegraf's own webhook server.
+ * Requests without the configured secret token are rejected before they reach the bot.
+ */
+export class TelegramWebhook {
+    private bot: Telegraf<Context>;
+    private path: string;
+    private secretToken: Buffer;
+
+    constructor(bot: Telegraf<Context>, path: string, secretToken: string) {
+        this.bot = bot;
+        this.path = path;
+        this.secretToken = Buffer.from(secretToken, 'utf8');
+    }
+
+    register(server: HttpServer): void {
+        server.route('POST', this.path, request => this.handleUpdate(request));
+    }
+
+    private async handleUpdate(request: HttpRequest): Promise<HttpResponse> {
+        const header = request.headers[SECRET_TOKEN_HEADER];
+        const presented = Buffer.from(typeof header === 'string' ? header : '', 'utf8');
+        if (presented.length !== this.secretToken.length || !timingSafeEqual(presented, this.secretToken)) {
+            logger.warn('Rejected webhook request with an invalid secret token');
+            return { status: 401, body: { error: 'Unauthorized' } };
+        }
+
+        const update = request.body as Partial<Update> | undefined;
+        if (typeof update?.update_id !== 'number') {
+            return { status: 400, body: { error: 'Expected a Telegram update' } };
+        }
+
+        // Errors inside handlers are reported through bot.catch; anything thrown here becomes a 500 and Telegram retries
+        await this.bot.handleUpdate(update as Update);
+        return { status: 200 };
+    }
+}
@@ -0,0 +1,265 @@
+/**
+ * Single-page admin dashboard served at / and /dashboard.
+ * The page itself holds no data: it calls the /api routes with the token the admin pastes in,
+ * kept only in sessionStorage, and renders everything through textContent.
+ */
+export const DASHBOARD_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="referrer" content="no-referrer">
+<title>Admin dashboard</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0; background: #f5f6f8; color: #1d2329; }
+  header { background: #24303c; color: #fff; padding: 12px 20px; display: flex; gap: 16px; align-items: center; }
+  header h1 { font-size: 18px; margin: 0; flex: 1; }
+  nav button, .actions button, #login button { margin-right: 6px; }
+  main { padding: 20px; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e1e4e8; vertical-align: top; font-size: 14px; }
+  th { background: #eef1f4; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(180px, 1fr)); gap: 12px; }
+  .stat { background: #fff; padding: 12px; border-radius: 6px; }
+  .stat span { display: block; font-size: 12px; color: #5c6670; }
+  .stat strong { font-size: 22px; }
+  #status { margin: 12px 0; min-height: 20px; color: #a33; }
+  .pager { margin-top: 12px; }
+  [hidden] { display: none !important; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Admin dashboard</h1>
+  <nav id="tabs" hidden>
+    <button data-tab="stats">Statistics</button>
+    <button data-tab="reports">Reports</button>
+    <button data-tab="appeals">Appeals</button>
+    <button data-tab="approvals">Counselor approvals</button>
+    <button data-tab="audit">Audit log</button>
+    <button id="logout">Sign out</button>
+  </nav>
+</header>
+<main>
+  <form id="login" hidden>
+    <label>Dashboard token <input id="token" type="password" autocomplete="off" size="48"></label>
+    <button type="submit">Sign in</button>
+  </form>
+  <div id="status"></div>
+  <div id="content"></div>
+</main>
+<script>
+(function () {
+  var TOKEN_KEY = 'dashboardToken';
+  var content = document.getElementById('content');
+  var status = document.getElementById('status');
+  var tabs = document.getElementById('tabs');
+  var login = document.getElementById('login');
+  var current = { tab: 'stats', page: 1 };
+
+  function token() { return sessionStorage.getItem(TOKEN_KEY); }
+
+  function showLogin(message) {
+    sessionStorage.removeItem(TOKEN_KEY);
+    tabs.hidden = true;
+    login.hidden = false;
+    content.textContent = '';
+    status.textContent = message || '';
+  }
+
+  function api(method, path, body) {
+    var options = { method: method, headers: { 'Authorization': 'Bearer ' + token() } };
+    if (body) {
+      options.headers['Content-Type'] = 'application/json';
+      options.body = JSON.stringify(body);
+    }
+    return fetch(path, options).then(function (res) {
+      return res.json().then(function (data) {
+        if (res.status === 401) {
+          showLogin('Your token was not accepted.');
+          throw new Error('Unauthorized');
+        }
+        if (!res.ok) throw new Error(data.error || ('Request failed (' + res.status + ')'));
+        return data;
+      });
+    });
+  }
+
+  function el(tag, text) {
+    var node = document.createElement(tag);
+    if (text !== undefined && text !== null) node.textContent = String(text);
+    return node;
+  }
+
+  function formatDate(value) {
+    return value ? new Date(value).toLocaleString() : '';
+  }
+
+  function table(columns, items, actions) {
+    if (items.length === 0) return el('p', 'Nothing to review.');
+    var t = el('table');
+    var head = el('tr');
+    columns.forEach(function (c) { head.appendChild(el('th', c.label)); });
+    if (actions) head.appendChild(el('th', 'Actions'));
+    t.appendChild(head);
+    items.forEach(function (item) {
+      var row = el('tr');
+      columns.forEach(function (c) { row.appendChild(el('td', c.value(item))); });
+      if (actions) {
+        var cell = el('td');
+        cell.className = 'actions';
+        actions(item).forEach(function (a) {
+          var button = el('button', a.label);
+          button.addEventListener('click', function () {
+            if (!confirm(a.confirm)) return;
+            api('POST', a.path, a.body).then(function (data) {
+              status.textContent = data && data.pendingActionId
+                ? 'Waiting for a second admin to confirm in the bot before ' + new Date(data.expiresAt).toLocaleString() + '.'
+                : 'Done.';
+              load();
+            }).catch(function (err) { status.textContent = err.message; });
+          });
+          cell.appendChild(button);
+        });
+        row.appendChild(cell);
+      }
+      t.appendChild(row);
+    });
+    return t;
+  }
+
+  function pager(data) {
+    var totalPages = Math.max(1, Math.ceil(data.total / data.pageSize));
+    var wrap = el('div');
+    wrap.className = 'pager';
+    var prev = el('button', 'Previous');
+    prev.disabled = data.page <= 1;
+    prev.addEventListener('click', function () { current.page -= 1; load(); });
+    var next = el('button', 'Next');
+    next.disabled = data.page >= totalPages;
+    next.addEventListener('click', function () { current.page += 1; load(); });
+    wrap.appendChild(prev);
+    wrap.appendChild(el('span', ' Page ' + data.page + ' of ' + totalPages + ' (' + data.total + ') '));
+    wrap.appendChild(next);
+    return wrap;
+  }
+
+  var views = {
+    stats: function () {
+      return api('GET', '/api/stats').then(function (data) {
+        var grid = el('div');
+        grid.className = 'stats';
+        Object.keys(data).forEach(function (key) {
+          var value = data[key];
+          if (typeof value === 'object' && value !== null) value = JSON.stringify(value);
+          var card = el('div');
+          card.className = 'stat';
+          card.appendChild(el('span', key));
+          card.appendChild(el('strong', value));
+          grid.appendChild(card);
+        });
+        return [grid];
+      });
+    },
+    reports: function () {
+      return api('GET', '/api/reports?page=' + current.page).then(function (data) {
+        return [table([
+          { label: 'Report', value: function (r) { return r.reportId; } },
+          { label: 'Counselor', value: function (r) { return r.counselorId; } },
+          { label: 'Session', value: function (r) { return r.sessionId; } },
+          { label: 'Reason', value: function (r) { return r.reason; } },
+          { label: 'Reported', value: function (r) { return formatDate(r.timestamp); } }
+        ], data.items, function (r) {
+          var path = '/api/reports/' + encodeURIComponent(r.reportId) + '/process';
+          return [
+            { label: 'Strike', confirm: 'Add a strike to this counselor?', path: path, body: { action: 'strike' } },
+            { label: 'Dismiss', confirm: 'Dismiss this report?', path: path, body: { action: 'dismiss' } }
+          ];
+        }), pager(data)];
+      });
+    },
+    appeals: function () {
+      return api('GET', '/api/appeals?page=' + current.page).then(function (data) {
+        return [table([
+          { label: 'Appeal', value: function (a) { return a.appealId; } },
+          { label: 'Counselor', value: function (a) { return a.counselorId; } },
+          { label: 'Message', value: function (a) { return a.message; } },
+          { label: 'Submitted', value: function (a) { return formatDate(a.timestamp); } }
+        ], data.items, function (a) {
+          var path = '/api/appeals/' + encodeURIComponent(a.appealId) + '/decide';
+          return [
+            { label: 'Approve', confirm: 'Restore this counselor\\'s access?', path: path, body: { action: 'approve' } },
+            { label: 'Revoke suspension', confirm: 'Lift the suspension and clear strikes?', path: path, body: { action: 'revoke' } }
+          ];
+        }), pager(data)];
+      });
+    },
+    approvals: function () {
+      return api('GET', '/api/counselors/pending?page=' + current.page).then(function (data) {
+        return [table([
+          { label: 'Counselor', value: function (c) { return c.counselorId; } },
+          { label: 'Alias', value: function (c) { return c.alias || ''; } },
+          { label: 'Status', value: function (c) { return c.status; } },
+          { label: 'Registered', value: function (c) { return formatDate(c.createdAt); } }
+        ], data.items, function (c) {
+          return [{
+            label: 'Approve',
+            confirm: 'Approve this counselor?',
+            path: '/api/counselors/' + encodeURIComponent(c.counselorId) + '/approve'
+          }];
+        }), pager(data)];
+      });
+    },
+    audit: function () {
+      return api('GET', '/api/audit-logs?page=' + current.page).then(function (data) {
+        return [table([
+          { label: 'When', value: function (l) { return formatDate(l.timestamp); } },
+          { label: 'Admin', value: function (l) { return l.adminId; } },
+          { label: 'Action', value: function (l) { return l.action; } },
+          { label: 'Target', value: function (l) { return l.targetId || ''; } },
+          { label: 'Details', value: function (l) { return l.details ? JSON.stringify(l.details) : ''; } }
+        ], data.items), pager(data)];
+      });
+    }
+  };
+
+  function load() {
+    status.textContent = '';
+    views[current.tab]().then(function (nodes) {
+      content.textContent = '';
+      nodes.forEach(function (node) { content.appendChild(node); });
+    }).catch(function (err) {
+      if (err.message !== 'Unauthorized') status.textContent = err.message;
+    });
+  }
+
+  tabs.addEventListener('click', function (event) {
+    var tab = event.target.getAttribute && event.target.getAttribute('data-tab');
+    if (!tab) return;
+    current = { tab: tab, page: 1 };
+    load();
+  });
+
+  document.getElementById('logout').addEventListener('click', function () { showLogin(); });
+
+  login.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var input = document.getElementById('token');
+    sessionStorage.setItem(TOKEN_KEY, input.value.trim());
+    input.value = '';
+    login.hidden = true;
+    tabs.hidden = false;
+    load();
+  });
+
+  if (token()) {
+    tabs.hidden = false;
+    load();
+  } else {
+    showLogin();
+  }
+})();
+</script>
+</body>
+</html>
+`;
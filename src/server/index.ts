@@ -0,0 +1,4 @@
+export * from './HttpServer';
+export * from './DashboardApi';
+export * from './MonitoringApi';
+export * from './TelegramWebhook';
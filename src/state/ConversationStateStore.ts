@@ -0,0 +1,47 @@
+/**
+ * Storage for in-flight conversation state (onboarding steps, matching choices, pending transfers).
+ * Entries expire after their TTL so abandoned flows do not linger.
+ */
+export interface ConversationStateStore {
+    get<T>(namespace: string, key: string): Promise<T | undefined>;
+    set<T>(namespace: string, key: string, value: T, ttlMs: number): Promise<void>;
+    delete(namespace: string, key: string): Promise<void>;
+    // Remove and return an entry in one step, so only one of several concurrent callers receives it
+    take<T>(namespace: string, key: string): Promise<T | undefined>;
+    entries<T>(namespace: string): Promise<Array<[string, T]>>;
+}
+
+/**
+ * Map-like view over a single namespace of a conversation state store
+ */
+export class ConversationStateMap<V> {
+    private store: ConversationStateStore;
+    private namespace: string;
+    private ttlMs: number;
+
+    constructor(store: ConversationStateStore, namespace: string, ttlMs: number) {
+        this.store = store;
+        this.namespace = namespace;
+        this.ttlMs = ttlMs;
+    }
+
+    async get(key: number | string): Promise<V | undefined> {
+        return this.store.get<V>(this.namespace, String(key));
+    }
+
+    async set(key: number | string, value: V): Promise<void> {
+        await this.store.set(this.namespace, String(key), value, this.ttlMs);
+    }
+
+    async delete(key: number | string): Promise<void> {
+        await this.store.delete(this.namespace, String(key));
+    }
+
+    async take(key: number | string): Promise<V | undefined> {
+        return this.store.take<V>(this.namespace, String(key));
+    }
+
+    async entries(): Promise<Array<[string, V]>> {
+        return this.store.entries<V>(this.namespace);
+    }
+}
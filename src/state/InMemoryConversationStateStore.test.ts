@@ -0,0 +1,56 @@
+import { InMemoryConversationStateStore } from './InMemoryConversationStateStore';
+import { ConversationStateMap } from './ConversationStateStore';
+
+describe('InMemoryConversationStateStore', () => {
+    let now: number;
+    let store: InMemoryConversationStateStore;
+
+    beforeEach(() => {
+        now = 1_000;
+        store = new InMemoryConversationStateStore(() => now);
+    });
+
+    it('keeps namespaces separate', async () => {
+        await store.set('matching', '42', { step: 'language' }, 60_000);
+        await store.set('transfer', '42', { step: 'reason' }, 60_000);
+
+        expect(await store.get('matching', '42')).toEqual({ step: 'language' });
+        expect(await store.entries('transfer')).toEqual([['42', { step: 'reason' }]]);
+    });
+
+    it('expires entries after their TTL', async () => {
+        await store.set('matching', '42', { step: 'language' }, 60_000);
+
+        now += 60_000;
+
+        expect(await store.get('matching', '42')).toBeUndefined();
+        expect(await store.entries('matching')).toEqual([]);
+    });
+
+    it('requires an explicit set to persist mutations', async () => {
+        const states = new ConversationStateMap<{ step: string }>(store, 'matching', 60_000);
+        await states.set(42, { step: 'language' });
+
+        const state = await states.get(42);
+        state!.step = 'domain';
+        expect(await states.get(42)).toEqual({ step: 'language' });
+
+        await states.set(42, state!);
+        expect(await states.get(42)).toEqual({ step: 'domain' });
+
+        await states.delete(42);
+        expect(await states.get(42)).toBeUndefined();
+    });
+
+    it('hands an entry to only one of several concurrent takers', async () => {
+        await store.set('previous_counselor', 'U1', { counselorId: 'C1' }, 60_000);
+
+        const results = await Promise.all([
+            store.take('previous_counselor', 'U1'),
+            store.take('previous_counselor', 'U1')
+        ]);
+
+        expect(results.filter(Boolean)).toEqual([{ counselorId: 'C1' }]);
+        expect(await store.get('previous_counselor', 'U1')).toBeUndefined();
+    });
+});
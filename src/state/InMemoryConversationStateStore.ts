@@ -0,0 +1,78 @@
+import { ConversationStateStore } from './ConversationStateStore';
+
+interface InMemoryEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+/**
+ * Process-local conversation state store, used in tests and single-instance development
+ */
+export class InMemoryConversationStateStore implements ConversationStateStore {
+    private entriesByKey = new Map<string, InMemoryEntry>();
+    private now: () => number;
+
+    constructor(now: () => number = Date.now) {
+        this.now = now;
+    }
+
+    async get<T>(namespace: string, key: string): Promise<T | undefined> {
+        const storageKey = this.buildKey(namespace, key);
+        const entry = this.entriesByKey.get(storageKey);
+        if (!entry) {
+            return undefined;
+        }
+
+        if (entry.expiresAt <= this.now()) {
+            this.entriesByKey.delete(storageKey);
+            return undefined;
+        }
+
+        return structuredClone(entry.value) as T;
+    }
+
+    async set<T>(namespace: string, key: string, value: T, ttlMs: number): Promise<void> {
+        this.entriesByKey.set(this.buildKey(namespace, key), {
+            value: structuredClone(value),
+            expiresAt: this.now() + ttlMs
+        });
+    }
+
+    async delete(namespace: string, key: string): Promise<void> {
+        this.entriesByKey.delete(this.buildKey(namespace, key));
+    }
+
+    async take<T>(namespace: string, key: string): Promise<T | undefined> {
+        // No await between the read and the delete, so a concurrent take cannot see the entry
+        const storageKey = this.buildKey(namespace, key);
+        const entry = this.entriesByKey.get(storageKey);
+        this.entriesByKey.delete(storageKey);
+        if (!entry || entry.expiresAt <= this.now()) {
+            return undefined;
+        }
+        return entry.value as T;
+    }
+
+    async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+        const prefix = this.buildKey(namespace, '');
+        const now = this.now();
+        const result: Array<[string, T]> = [];
+
+        for (const [storageKey, entry] of this.entriesByKey) {
+            if (!storageKey.startsWith(prefix)) {
+                continue;
+            }
+            if (entry.expiresAt <= now) {
+                this.entriesByKey.delete(storageKey);
+                continue;
+            }
+            result.push([storageKey.slice(prefix.length), structuredClone(entry.value) as T]);
+        }
+
+        return result;
+    }
+
+    private buildKey(namespace: string, key: string): string {
+        return `${namespace}:${key}`;
+    }
+}
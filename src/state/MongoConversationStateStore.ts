@@ -0,0 +1,60 @@
+import { Collection } from 'mongodb';
+import { ConversationStateRecord } from '../types/ConversationState';
+import { ConversationStateStore } from './ConversationStateStore';
+
+/**
+ * Conversation state store backed by MongoDB so flows survive restarts and are shared between replicas.
+ * Expired documents are removed by a TTL index; reads also filter on expiresAt because the TTL monitor
+ * only runs periodically.
+ */
+export class MongoConversationStateStore implements ConversationStateStore {
+    private collection: Collection<ConversationStateRecord>;
+
+    constructor(collection: Collection<ConversationStateRecord>) {
+        this.collection = collection;
+    }
+
+    async get<T>(namespace: string, key: string): Promise<T | undefined> {
+        const record = await this.collection.findOne({
+            namespace,
+            key,
+            expiresAt: { $gt: new Date() }
+        });
+        return record ? record.value as T : undefined;
+    }
+
+    async set<T>(namespace: string, key: string, value: T, ttlMs: number): Promise<void> {
+        const now = new Date();
+        await this.collection.updateOne(
+            { namespace, key },
+            {
+                $set: {
+                    value,
+                    updatedAt: now,
+                    expiresAt: new Date(now.getTime() + ttlMs)
+                }
+            },
+            { upsert: true }
+        );
+    }
+
+    async delete(namespace: string, key: string): Promise<void> {
+        await this.collection.deleteOne({ namespace, key });
+    }
+
+    async take<T>(namespace: string, key: string): Promise<T | undefined> {
+        const record = await this.collection.findOneAndDelete({
+            namespace,
+            key,
+            expiresAt: { $gt: new Date() }
+        });
+        return record ? record.value as T : undefined;
+    }
+
+    async entries<T>(namespace: string): Promise<Array<[string, T]>> {
+        const records = await this.collection
+            .find({ namespace, expiresAt: { $gt: new Date() } })
+            .toArray();
+        return records.map(record => [record.key, record.value as T]);
+    }
+}
@@ -0,0 +1,4 @@
+// Export conversation state stores
+export * from './ConversationStateStore';
+export { InMemoryConversationStateStore } from './InMemoryConversationStateStore';
+export { MongoConversationStateStore } from './MongoConversationStateStore';
@@ -0,0 +1,23 @@
+export type AdminRole = 'super_admin' | 'moderator' | 'reviewer' | 'broadcaster';
+
+export type AdminPermission =
+    | 'view_stats'
+    | 'view_audit_log'
+    | 'process_reports'
+    | 'crisis_alerts'
+    | 'decide_appeals'
+    | 'approve_counselors'
+    | 'remove_counselors'
+    | 'review_content' // counselor profile changes and the prayer wall
+    | 'broadcast'
+    | 'manage_system' // retention previews and key rotation
+    | 'manage_admins';
+
+// An admin added from the bot. Chat IDs in ADMIN_CHAT_IDS are super-admins without a record.
+export interface Admin {
+    telegramChatId: number;
+    role: AdminRole;
+    addedByAdminId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
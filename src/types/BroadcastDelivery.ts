@@ -0,0 +1,12 @@
+// 'unreachable' means Telegram refused the message because the recipient blocked the bot or deleted their account
+export type BroadcastDeliveryStatus = 'pending' | 'sent' | 'failed' | 'unreachable';
+
+// One recipient's entry in a broadcast's outbox; pending entries are what a resumed delivery still has to send
+export interface BroadcastDelivery {
+    broadcastId: string;
+    chatId: number;
+    status: BroadcastDeliveryStatus;
+    attempts: number;
+    attemptedAt?: Date;
+    error?: string;
+}
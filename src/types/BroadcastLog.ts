@@ -1,11 +1,62 @@
-export type BroadcastTargetGroup = 'users' | 'counselors' | 'everyone';
+export type BroadcastTargetGroup =
+    | 'users'
+    | 'counselors'
+    | 'everyone'
+    | 'counselor_language'
+    | 'counselor_domain'
+    | 'active_users'
+    | 'open_prayer_users';
 
-export interface BroadcastLog {
+// Who receives a broadcast, resolved when it is sent so late joiners are included
+export type BroadcastSegment =
+    | { type: 'users' | 'counselors' | 'everyone' | 'open_prayer_users' }
+    | { type: 'counselor_language'; language: string }
+    | { type: 'counselor_domain'; domain: string }
+    | { type: 'active_users'; days: number };
+
+// Records written before scheduling existed have no status and were sent immediately
+export type BroadcastStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled';
+
+export type BroadcastFormat = 'plain' | 'markdown' | 'html';
+
+// Call-to-action buttons that open an existing flow for the recipient
+export type BroadcastButton = 'start_counseling' | 'submit_prayer';
+
+export interface BroadcastMedia {
+    type: 'photo' | 'document';
+    fileId: string;
+}
+
+// What recipients see. Records written before rich content existed are plain text without media or buttons.
+export interface BroadcastContent {
+    message: string; // the caption when media is attached, and then it may be empty
+    format?: BroadcastFormat;
+    media?: BroadcastMedia;
+    buttons?: BroadcastButton[];
+}
+
+// The admin message that is edited with delivery progress
+export interface BroadcastProgressMessage {
+    chatId: number;
+    messageId: number;
+}
+
+export interface BroadcastLog extends BroadcastContent {
     broadcastId: string;
-    message: string;
     targetGroup: BroadcastTargetGroup;
+    segment?: BroadcastSegment;
+    status?: BroadcastStatus;
     sentByAdminId: string;
-    sentAt: Date;
+    createdAt?: Date;
+    scheduledFor?: Date;
+    sentAt?: Date; // when delivery finished
+    recipientCount?: number; // set once the outbox has been filled
+    leaseExpiresAt?: Date; // while sending; a lapsed lease lets another run resume the outbox
+    leaseToken?: string; // identifies the run holding the lease; only that run may renew or finish it
+    progressMessage?: BroadcastProgressMessage;
+    cancelledAt?: Date;
+    cancelledByAdminId?: string;
     successCount: number;
     failedCount: number;
-}
\ No newline at end of file
+    unreachableCount?: number;
+}
@@ -0,0 +1,7 @@
+export interface ConversationStateRecord {
+    namespace: string; // which flow the state belongs to, e.g. 'matching'
+    key: string;
+    value: unknown;
+    updatedAt: Date;
+    expiresAt: Date;
+}
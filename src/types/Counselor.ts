@@ -1,5 +1,11 @@
 export type CounselorStatus = 'available' | 'busy' | 'away' | 'Pending Admin Approval';
 
+export interface CounselorProfileUpdate {
+    alias?: string;
+    bio?: string;
+    submittedAt: Date;
+}
+
 export interface Counselor {
     id: string;
     telegramChatId: number;
@@ -20,4 +26,10 @@ export interface Counselor {
     yearsExperience?: number;
     country?: string;
     location?: string;
+    maxConcurrentSessions?: number;
+    activeSessionCount?: number; // sessions currently held against maxConcurrentSessions
+    focusedSessionId?: string; // session that plain (non-reply) counselor messages are routed to
+    alias?: string; // anonymous name users see instead of fullName/telegramUsername
+    bio?: string;
+    pendingProfileUpdate?: CounselorProfileUpdate; // alias/bio change waiting for admin review
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+export type FollowUpStatus = 'scheduled' | 'delivered' | 'reconnected' | 'new_session' | 'declined' | 'cancelled' | 'failed';
+
+export type FollowUpResponse = 'reconnected' | 'new_session' | 'declined';
+
+export interface FollowUp {
+    followUpId: string;
+    sessionId: string;
+    userId: string;
+    counselorId: string;
+    scheduledFor: Date;
+    createdAt: Date;
+    status: FollowUpStatus;
+    deliveredAt?: Date;
+    respondedAt?: Date;
+    reconnectSessionId?: string;
+}
@@ -0,0 +1,2 @@
+// Languages the bot can speak; codes follow Telegram's ISO 639-1 language_code
+export type Locale = 'en' | 'am' | 'om' | 'ti';
@@ -1,8 +1,48 @@
+import { EncryptedPayload } from './SessionKey';
+
+export type MessageContentType =
+    | 'text'
+    | 'photo'
+    | 'voice'
+    | 'audio'
+    | 'video'
+    | 'video_note'
+    | 'document'
+    | 'sticker'
+    | 'animation';
+
+export type MediaContentType = Exclude<MessageContentType, 'text'>;
+
+export interface MessageFile {
+    fileId: string;
+    fileUniqueId?: string;
+    duration?: number; // in seconds
+    fileName?: string;
+    mimeType?: string;
+    emoji?: string;
+}
+
+export interface MessageMedia extends MessageFile {
+    contentType: MediaContentType;
+}
+
 export interface Message {
     messageId: string;
     sessionId: string;
     senderId: string;
     senderType: 'user' | 'counselor';
-    content: string;
+    content: string; // empty when encryptedContent is set
+    encryptedContent?: EncryptedPayload; // content encrypted with the session's data key
+    contentType?: MessageContentType; // missing on messages stored before media relaying
+    file?: MessageFile;
+    recipientTelegramMessageId?: number; // message ID of the relayed copy in the recipient's chat
     timestamp: Date;
-}
\ No newline at end of file
+}
+
+// Where a no-log message was relayed, kept without any content so replies can still find their session
+export interface RelayRoute {
+    messageId: string;
+    sessionId: string;
+    recipientTelegramMessageId: number;
+    createdAt: Date;
+}
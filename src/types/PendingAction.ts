@@ -0,0 +1,16 @@
+export type PendingActionType = 'remove_counselor' | 'revoke_appeal' | 'revoke_suspension' | 'run_cleanup';
+
+export type PendingActionStatus = 'pending' | 'confirmed' | 'rejected' | 'expired';
+
+// A destructive admin action held until a second admin confirms it, used while two-admin approval is on
+export interface PendingAction {
+    actionId: string;
+    type: PendingActionType;
+    targetId?: string; // appeal ID for appeal revocations, otherwise the counselor ID; cleanup runs have none
+    requestedByAdminId: string;
+    requestedAt: Date;
+    expiresAt: Date;
+    status: PendingActionStatus;
+    resolvedByAdminId?: string;
+    resolvedAt?: Date;
+}
@@ -1,8 +1,46 @@
+export type PrayerCategory = 'health' | 'family' | 'work' | 'spiritual' | 'other';
+
+export interface PrayerUpdate {
+    text: string;
+    createdAt: Date;
+}
+
+export interface PrayerTestimony {
+    text: string;
+    shareConsent: boolean; // submitter agreed to anonymous sharing in the weekly digest
+    createdAt: Date;
+    digestId?: string; // digest it was claimed for
+    claimedAt?: Date;
+    sharedAt?: Date;
+}
+
+export type PrayerWallStatus = 'pending' | 'published' | 'rejected';
+
+export interface PrayerWallEntry {
+    status: PrayerWallStatus;
+    requestedAt: Date; // submitter opted in to the public prayer wall
+    text?: string; // wording edited by an admin; the title is posted otherwise
+    reviewedBy?: string; // admin chat ID
+    reviewedAt?: Date;
+    channelMessageId?: number;
+    publishedAt?: Date;
+}
+
 export interface PrayerRequest {
     prayerId: string;
     userId: string;
     title: string;
+    category?: PrayerCategory; // missing on requests submitted before categories existed
     createdAt: Date;
     status: 'open' | 'closed';
     closedAt?: Date;
-}
\ No newline at end of file
+    updates?: PrayerUpdate[]; // posted by the submitter
+    answeredAt?: Date; // submitter marked the prayer answered; the request is closed at the same time
+    testimony?: PrayerTestimony;
+    wall?: PrayerWallEntry;
+    prayedBy?: string[]; // counselor IDs, never shown to the submitter
+    prayedCount?: number;
+    notifiedCount?: number; // prayedCount last reported to the submitter
+    lastNotifiedAt?: Date;
+    notificationsMuted?: boolean; // submitter opted out of updates for this request
+}
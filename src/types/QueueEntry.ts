@@ -0,0 +1,17 @@
+import { SessionLogMode } from './Session';
+
+export type QueueEntryStatus = 'waiting' | 'assigned' | 'abandoned' | 'expired';
+
+export interface QueueEntry {
+    queueId: string;
+    userId: string;
+    preferredLanguages: string[];
+    requestedDomain: string;
+    enqueuedAt: Date;
+    status: QueueEntryStatus;
+    logMode?: SessionLogMode; // chosen at consent, applied once a counselor is assigned
+    lastNotifiedPosition?: number;
+    assignedCounselorId?: string;
+    sessionId?: string;
+    resolvedAt?: Date;
+}
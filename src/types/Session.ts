@@ -1,3 +1,6 @@
+// 'no_log' sessions relay messages without storing them; only a message count is kept
+export type SessionLogMode = 'standard' | 'no_log';
+
 export interface Session {
     sessionId: string;
     userId: string;
@@ -10,6 +13,9 @@ export interface Session {
     duration?: number; // in minutes
     consentGiven?: boolean;
     consentTimestamp?: Date;
+    logMode?: SessionLogMode; // absent on sessions created before no-log mode existed
+    messageCount?: number; // only tracked for no-log sessions
+    userErasedAt?: Date; // set when the user erased their data; userId then holds a placeholder
     userPreferredLanguage?: string[];
     userRequestedDomain?: string;
     transferReason?: string;
@@ -0,0 +1,20 @@
+/**
+ * AES-256-GCM output, base64 encoded
+ */
+export interface EncryptedPayload {
+    ciphertext: string;
+    iv: string;
+    authTag: string;
+}
+
+/**
+ * Per-session data key used to encrypt message content.
+ * Only the wrapped form is stored; `masterKeyId` names the master key that wrapped it.
+ */
+export interface SessionKey {
+    sessionId: string;
+    masterKeyId: string;
+    wrappedKey: EncryptedPayload;
+    createdAt: Date;
+    rotatedAt?: Date;
+}
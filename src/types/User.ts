@@ -1,3 +1,5 @@
+import { Locale } from './Locale';
+
 export type UserState = 'IDLE' | 'SUBMITTING_PRAYER' | 'WAITING_COUNSELOR' | 'IN_SESSION' | 'VIEWING_HISTORY' | 'REPORTING' | 'POST_SESSION' | 'APPEALING' | 'COUNSELOR_ONBOARDING' | 'RATING_REQUIRED' | 'MATCHING';
 
 export interface User {
@@ -8,4 +10,6 @@ export interface User {
     state: UserState;
     user_preferred_language?: string[];
     user_requested_domain?: string;
+    language?: Locale; // chosen with /language; defaults from Telegram's language_code on registration
+    unreachableAt?: Date; // set when a broadcast found the bot blocked; cleared when the user writes again
 }
\ No newline at end of file
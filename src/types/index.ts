@@ -6,5 +6,14 @@ export * from './Message';
 export * from './PrayerRequest';
 export * from './Report';
 export * from './AuditLog';
+export * from './Admin';
+export * from './PendingAction';
 export * from './Appeal';
-export * from './BroadcastLog';
\ No newline at end of file
+export * from './BroadcastLog';
+export * from './BroadcastDelivery';
+export * from './QueueEntry';
+export * from './FollowUp';
+export * from './SessionKey';
+export * from './ConversationState';
+export * from './Locale';
+
@@ -1,4 +1,5 @@
 // Export utility functions
 export * from './logger';
 export * from './validators';
-export * from './helpers';
\ No newline at end of file
+export * from './helpers';
+export * from './metrics';
\ No newline at end of file
@@ -0,0 +1,64 @@
+export type CounterName =
+    | 'messages_routed_total'
+    | 'sessions_started_total'
+    | 'sessions_ended_total'
+    | 'matching_failures_total'
+    | 'broadcast_failures_total'
+    | 'handler_errors_total';
+
+export type GaugeName = 'active_sessions' | 'available_counselors' | 'queue_length';
+
+const METRIC_PREFIX = 'counseling_bot_';
+
+const counterHelp: Record<CounterName, string> = {
+    messages_routed_total: 'Session messages routed between users and counselors',
+    sessions_started_total: 'Counseling sessions started',
+    sessions_ended_total: 'Counseling sessions ended',
+    matching_failures_total: 'Counselor requests that could not be matched to a counselor',
+    broadcast_failures_total: 'Broadcast messages that could not be delivered',
+    handler_errors_total: 'Errors caught by the bot error handler'
+};
+
+const gaugeHelp: Record<GaugeName, string> = {
+    active_sessions: 'Sessions currently active',
+    available_counselors: 'Approved counselors currently marked available',
+    queue_length: 'Users waiting in the counselor queue'
+};
+
+const counters: Record<CounterName, number> = {
+    messages_routed_total: 0,
+    sessions_started_total: 0,
+    sessions_ended_total: 0,
+    matching_failures_total: 0,
+    broadcast_failures_total: 0,
+    handler_errors_total: 0
+};
+
+// Process-wide counters since start; gauges are read from the database when /metrics is scraped
+export const metrics = {
+    increment: (name: CounterName, by = 1) => {
+        counters[name] += by;
+    },
+    getCounters: (): Record<CounterName, number> => ({ ...counters }),
+    /**
+     * Render counters and the given gauge values in the Prometheus text exposition format
+     */
+    format: (gauges: Record<GaugeName, number>): string => {
+        const lines: string[] = [];
+        for (const name of Object.keys(counterHelp) as CounterName[]) {
+            lines.push(
+                `# HELP ${METRIC_PREFIX}${name} ${counterHelp[name]}`,
+                `# TYPE ${METRIC_PREFIX}${name} counter`,
+                `${METRIC_PREFIX}${name} ${counters[name]}`
+            );
+        }
+        for (const name of Object.keys(gaugeHelp) as GaugeName[]) {
+            lines.push(
+                `# HELP ${METRIC_PREFIX}${name} ${gaugeHelp[name]}`,
+                `# TYPE ${METRIC_PREFIX}${name} gauge`,
+                `${METRIC_PREFIX}${name} ${gauges[name]}`
+            );
+        }
+        return `${lines.join('\n')}\n`;
+    }
+};